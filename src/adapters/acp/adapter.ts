@@ -65,6 +65,45 @@ export class ACPAdapter extends ToolAdapter {
 		return available;
 	}
 
+	/**
+	 * Get the ACP agent's version
+	 */
+	override async getVersion(): Promise<string | null> {
+		return this.readCommandVersion(this.agentCommand);
+	}
+
+	/**
+	 * Start the agent and check that it answers an `initialize` request
+	 * @param timeout - Time to wait for the response in milliseconds
+	 * @param cwd - Directory to start the agent in
+	 */
+	async checkHandshake(
+		timeout = 10000,
+		cwd: string = process.cwd(),
+	): Promise<{ passed: boolean; error?: string }> {
+		const client = new ACPClient({
+			command: this.buildCommand(),
+			cwd,
+			timeout,
+		});
+
+		try {
+			await client.start();
+			const response = await client.sendRequest("initialize", {
+				protocolVersion: 1,
+				clientCapabilities: {},
+			});
+			if (response.error) {
+				return { passed: false, error: response.error.message };
+			}
+			return { passed: true };
+		} catch (error) {
+			return { passed: false, error: extractErrorMessage(error) };
+		} finally {
+			await client.stop();
+		}
+	}
+
 	/**
 	 * Execute with the ACP agent
 	 */
@@ -78,7 +117,7 @@ export class ACPAdapter extends ToolAdapter {
 			);
 		}
 
-		const enhancedPrompt = this.enhancePromptWithInstructions(prompt);
+		const enhancedPrompt = this.enhancePromptWithInstructions(prompt, options);
 
 		logger.debug(`Executing ACP with agent: ${this.agentCommand}`);
 
@@ -88,7 +127,7 @@ export class ACPAdapter extends ToolAdapter {
 			// Create and start client
 			const clientOptions: ACPClientOptions = {
 				command: this.buildCommand(options),
-				cwd: process.cwd(),
+				cwd: options?.cwd ?? process.cwd(),
 				env: options?.env,
 				timeout: options?.timeout ?? this.config.timeout * 1000,
 			};
@@ -116,6 +155,8 @@ export class ACPAdapter extends ToolAdapter {
 			logger.debug(`ACP execution completed in ${duration.toFixed(2)}s`);
 
 			return createSuccessResponse(session.output, {
+				// ACP does not report usage
+				...this.estimateUsage(enhancedPrompt, session.output),
 				metadata: {
 					duration,
 					thoughts: session.thoughts,
@@ -219,11 +260,4 @@ export class ACPAdapter extends ToolAdapter {
 	getAllowedTools(): string[] {
 		return Array.from(this.allowedTools);
 	}
-
-	/**
-	 * Estimate cost (ACP doesn't provide cost info directly)
-	 */
-	override estimateCost(_prompt: string): number {
-		return 0;
-	}
 }
@@ -2,13 +2,16 @@
  * Base adapter for Ralph Orchestrator
  */
 
+import { PricingRegistry } from "../metrics/pricing.ts";
 import type {
 	AdapterConfig,
 	ExecuteOptions,
 	IToolAdapter,
+	TokenCounts,
 	ToolResponse,
 } from "../types/index.ts";
 import { DEFAULT_ADAPTER_CONFIG, createErrorResponse } from "../types/index.ts";
+import { estimateTokens } from "../utils/shared.ts";
 
 /**
  * Orchestration instructions to prepend to prompts
@@ -57,6 +60,7 @@ export abstract class ToolAdapter implements IToolAdapter {
 	readonly name: string;
 	protected config: AdapterConfig;
 	private _available: boolean | null = null;
+	private pricing = new PricingRegistry();
 
 	constructor(name: string, config?: Partial<AdapterConfig>) {
 		this.name = name;
@@ -115,6 +119,37 @@ export abstract class ToolAdapter implements IToolAdapter {
 		options?: ExecuteOptions,
 	): Promise<ToolResponse>;
 
+	/**
+	 * Get the installed tool's version, or null if it cannot be read
+	 */
+	async getVersion(): Promise<string | null> {
+		return null;
+	}
+
+	/**
+	 * Get the models with known prices for this tool
+	 */
+	getSupportedModels(): string[] {
+		return this.pricing.getModels(this.name);
+	}
+
+	/**
+	 * Helper method for CLI adapters to read `<command> --version`
+	 * @param command - The command to ask for its version
+	 * @returns The first line of its output, or null if it failed
+	 */
+	protected async readCommandVersion(command: string): Promise<string | null> {
+		try {
+			const result = await executeCommand([command, "--version"], {
+				timeout: 10000,
+			});
+			const version = result.stdout.trim().split("\n")[0]?.trim();
+			return result.exitCode === 0 && version ? version : null;
+		} catch {
+			return null;
+		}
+	}
+
 	/**
 	 * Execute the tool with a prompt file
 	 */
@@ -135,15 +170,64 @@ export abstract class ToolAdapter implements IToolAdapter {
 	/**
 	 * Estimate the cost of executing this prompt
 	 */
-	estimateCost(_prompt: string): number {
-		// Default implementation - subclasses can override
-		return 0;
+	estimateCost(prompt: string): number {
+		const inputTokens = estimateTokens(prompt);
+		// Assume output is roughly 2x input for estimation
+		return this.calculateCost(
+			{ inputTokens, outputTokens: inputTokens * 2 },
+			this.getModel(),
+		);
+	}
+
+	/**
+	 * Use prices that include config overrides
+	 */
+	setPricing(pricing: PricingRegistry): void {
+		this.pricing = pricing;
+	}
+
+	/**
+	 * Calculate the cost of an execution with this tool
+	 */
+	protected calculateCost(tokens: TokenCounts, model?: string): number {
+		return this.pricing.calculateCost(this.name, tokens, model);
+	}
+
+	/**
+	 * Model to run: the one requested for this execution, else the configured one
+	 */
+	protected getModel(options?: ExecuteOptions): string | undefined {
+		return options?.model ?? this.config.model;
+	}
+
+	/**
+	 * Estimate token usage from the prompt and output, for tools that do not
+	 * report it
+	 */
+	protected estimateUsage(
+		prompt: string,
+		output: string,
+	): Pick<ToolResponse, "tokensUsed" | "inputTokens" | "outputTokens"> {
+		const inputTokens = estimateTokens(prompt);
+		const outputTokens = estimateTokens(output);
+		return {
+			tokensUsed: inputTokens + outputTokens,
+			inputTokens,
+			outputTokens,
+		};
 	}
 
 	/**
 	 * Enhance prompt with orchestration context and instructions
 	 */
-	protected enhancePromptWithInstructions(prompt: string): string {
+	protected enhancePromptWithInstructions(
+		prompt: string,
+		options?: ExecuteOptions,
+	): string {
+		if (options?.raw) {
+			return prompt;
+		}
+
 		// Check if instructions already exist in the prompt
 		for (const marker of INSTRUCTION_MARKERS) {
 			if (prompt.includes(marker)) {
@@ -184,6 +268,8 @@ export interface CLIExecutionResult {
 	stdout: string;
 	stderr: string;
 	exitCode: number;
+	/** Whether the command was killed for running past its timeout */
+	timedOut: boolean;
 	duration: number;
 }
 
@@ -196,10 +282,12 @@ export async function executeCLICommand(
 		timeout?: number;
 		env?: Record<string, string>;
 		stdin?: string;
+		cwd?: string;
 	},
 ): Promise<CLIExecutionResult> {
 	const startTime = Date.now();
 	const result = await executeCommand(command, {
+		cwd: options?.cwd,
 		timeout: options?.timeout,
 		env: options?.env,
 		stdin: options?.stdin,
@@ -211,6 +299,7 @@ export async function executeCLICommand(
 		stdout: result.stdout,
 		stderr: result.stderr,
 		exitCode: result.exitCode,
+		timedOut: result.timedOut,
 		duration,
 	};
 }
@@ -242,7 +331,12 @@ export async function executeCommand(
 		timeout?: number;
 		stdin?: string;
 	} = {},
-): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+): Promise<{
+	stdout: string;
+	stderr: string;
+	exitCode: number;
+	timedOut: boolean;
+}> {
 	const proc = Bun.spawn(command, {
 		cwd: options.cwd,
 		env: { ...process.env, ...options.env },
@@ -259,8 +353,10 @@ export async function executeCommand(
 
 	// Handle timeout
 	let timeoutId: Timer | undefined;
+	let timedOut = false;
 	if (options.timeout) {
 		timeoutId = setTimeout(() => {
+			timedOut = true;
 			proc.kill();
 		}, options.timeout);
 	}
@@ -275,5 +371,5 @@ export async function executeCommand(
 		clearTimeout(timeoutId);
 	}
 
-	return { stdout, stderr, exitCode };
+	return { stdout, stderr, exitCode, timedOut };
 }
@@ -3,7 +3,6 @@
  * Uses the Claude CLI tool for execution
  */
 
-import { CostTracker } from "../metrics/cost-tracker.ts";
 import {
 	type AdapterConfig,
 	type ExecuteOptions,
@@ -12,26 +11,11 @@ import {
 	createSuccessResponse,
 } from "../types/index.ts";
 import { createLogger } from "../utils/logger.ts";
-import {
-	estimateTokens,
-	extractErrorMessage,
-	mergeAdditionalArgs,
-} from "../utils/shared.ts";
+import { extractErrorMessage, mergeAdditionalArgs } from "../utils/shared.ts";
 import { ToolAdapter, executeCLICommand } from "./base.ts";
 
 const logger = createLogger("ralph-orchestrator.claude");
 
-/**
- * Claude model pricing (per 1M tokens)
- */
-const CLAUDE_PRICING: Record<string, { input: number; output: number }> = {
-	"claude-opus-4-5-20251101": { input: 15, output: 75 },
-	"claude-sonnet-4-5-20250929": { input: 3, output: 15 },
-	"claude-haiku-4-5-20251001": { input: 0.8, output: 4 },
-	// Default fallback
-	default: { input: 3, output: 15 },
-};
-
 /**
  * Claude adapter implementation
  */
@@ -52,6 +36,13 @@ export class ClaudeAdapter extends ToolAdapter {
 		);
 	}
 
+	/**
+	 * Get the Claude CLI version
+	 */
+	override async getVersion(): Promise<string | null> {
+		return this.readCommandVersion(this.claudeCommand);
+	}
+
 	/**
 	 * Execute Claude with the given prompt
 	 */
@@ -63,10 +54,11 @@ export class ClaudeAdapter extends ToolAdapter {
 			return createErrorResponse("Claude CLI is not available");
 		}
 
-		const enhancedPrompt = this.enhancePromptWithInstructions(prompt);
+		const enhancedPrompt = this.enhancePromptWithInstructions(prompt, options);
+		const model = this.getModel(options);
 
 		// Build command arguments
-		const args = this.buildArgs(enhancedPrompt, options);
+		const args = this.buildArgs(enhancedPrompt, model, options);
 
 		logger.debug(`Executing Claude with ${args.length} arguments`);
 
@@ -74,6 +66,7 @@ export class ClaudeAdapter extends ToolAdapter {
 			const result = await executeCLICommand([this.claudeCommand, ...args], {
 				timeout: options?.timeout ?? this.config.timeout * 1000,
 				env: options?.env,
+				cwd: options?.cwd,
 			});
 
 			if (!result.success) {
@@ -81,32 +74,53 @@ export class ClaudeAdapter extends ToolAdapter {
 				return createErrorResponse(
 					result.stderr || `Claude exited with code ${result.exitCode}`,
 					result.stdout,
-					{ exitCode: result.exitCode, duration: result.duration },
+					{
+						exitCode: result.exitCode,
+						timedOut: result.timedOut,
+						duration: result.duration,
+					},
 				);
 			}
 
-			const tokensUsed = this.extractTokenUsage(result.stdout);
-			const cost = tokensUsed
-				? CostTracker.estimateCost(
-						"claude",
-						tokensUsed.input,
-						tokensUsed.output,
-					)
-				: undefined;
+			const reported = this.extractTokenUsage(result.stdout);
+			const usage: Pick<
+				ToolResponse,
+				| "tokensUsed"
+				| "inputTokens"
+				| "outputTokens"
+				| "cachedTokens"
+				| "cacheWriteTokens"
+			> = reported
+				? {
+						tokensUsed: reported.input + reported.output,
+						inputTokens: reported.input,
+						outputTokens: reported.output,
+						cachedTokens: reported.cached,
+						cacheWriteTokens: reported.cacheWrite,
+					}
+				: this.estimateUsage(enhancedPrompt, result.stdout);
+			const cost = this.calculateCost(
+				{
+					inputTokens: usage.inputTokens ?? 0,
+					outputTokens: usage.outputTokens ?? 0,
+					cachedTokens: usage.cachedTokens,
+					cacheWriteTokens: usage.cacheWriteTokens,
+				},
+				model,
+			);
 
 			logger.debug(
 				`Claude execution completed in ${result.duration.toFixed(2)}s`,
 			);
 
 			return createSuccessResponse(result.stdout, {
-				tokensUsed: tokensUsed
-					? tokensUsed.input + tokensUsed.output
-					: undefined,
+				...usage,
 				cost,
+				model,
 				metadata: {
 					duration: result.duration,
 					exitCode: result.exitCode,
-					model: options?.model,
+					model,
 				},
 			});
 		} catch (error) {
@@ -119,20 +133,20 @@ export class ClaudeAdapter extends ToolAdapter {
 	/**
 	 * Build command arguments
 	 */
-	private buildArgs(prompt: string, options?: ExecuteOptions): string[] {
+	private buildArgs(
+		prompt: string,
+		model: string | undefined,
+		options?: ExecuteOptions,
+	): string[] {
 		// Start with base args for non-interactive output and permission mode
-		const args: string[] = [
-			"--print",
-			"--permission-mode",
-			"acceptEdits",
-		];
+		const args: string[] = ["--print", "--permission-mode", "acceptEdits"];
 
 		// Collect optional args in an array to avoid multiple push calls
 		const optionalArgs: string[] = [];
 
 		// Add model if specified
-		if (options?.model) {
-			optionalArgs.push("--model", options.model);
+		if (model) {
+			optionalArgs.push("--model", model);
 		}
 
 		// Add system prompt if specified
@@ -170,57 +184,43 @@ export class ClaudeAdapter extends ToolAdapter {
 	/**
 	 * Try to extract token usage from output
 	 */
-	private extractTokenUsage(
-		output: string,
-	): { input: number; output: number } | null {
-		// Look for token usage patterns in output
-		const patterns = [
-			/input[_\s]?tokens?:\s*(\d+)/i,
-			/output[_\s]?tokens?:\s*(\d+)/i,
-			/tokens?[_\s]?used:\s*(\d+)/i,
-		];
-
-		let inputTokens = 0;
-		let outputTokens = 0;
-
-		for (const pattern of patterns) {
+	private extractTokenUsage(output: string): {
+		input: number;
+		output: number;
+		cached: number;
+		cacheWrite: number;
+	} | null {
+		const find = (pattern: RegExp): number => {
 			const match = pattern.exec(output);
-			if (match?.[1]) {
-				const value = Number.parseInt(match[1], 10);
-				if (pattern.source.includes("input")) {
-					inputTokens = value;
-				} else if (pattern.source.includes("output")) {
-					outputTokens = value;
-				} else {
-					// Generic "tokens used" - estimate split
-					inputTokens = Math.floor(value * 0.3);
-					outputTokens = Math.floor(value * 0.7);
-				}
-			}
+			return match?.[1] ? Number.parseInt(match[1], 10) : 0;
+		};
+
+		// Prompt cache counts such as "cache_read_input_tokens" are not input
+		let inputTokens = find(/(?<![a-z_])input[_\s]?tokens?:\s*(\d+)/i);
+		let outputTokens = find(/output[_\s]?tokens?:\s*(\d+)/i);
+		const cachedTokens = find(
+			/cache[_\s]?read(?:[_\s]?input)?[_\s]?tokens?:\s*(\d+)/i,
+		);
+		const cacheWriteTokens = find(
+			/cache[_\s]?(?:creation|write)(?:[_\s]?input)?[_\s]?tokens?:\s*(\d+)/i,
+		);
+
+		if (inputTokens === 0 && outputTokens === 0) {
+			// Generic "tokens used" - estimate split
+			const total = find(/tokens?[_\s]?used:\s*(\d+)/i);
+			inputTokens = Math.floor(total * 0.3);
+			outputTokens = Math.floor(total * 0.7);
 		}
 
 		if (inputTokens > 0 || outputTokens > 0) {
-			return { input: inputTokens, output: outputTokens };
+			return {
+				input: inputTokens,
+				output: outputTokens,
+				cached: cachedTokens,
+				cacheWrite: cacheWriteTokens,
+			};
 		}
 
 		return null;
 	}
-
-	/**
-	 * Estimate cost for a prompt
-	 */
-	override estimateCost(prompt: string): number {
-		const inputTokens = estimateTokens(prompt);
-		// Assume output is roughly 2x input for estimation
-		const outputTokens = inputTokens * 2;
-
-		return CostTracker.estimateCost("claude", inputTokens, outputTokens);
-	}
-
-	/**
-	 * Get pricing for a model
-	 */
-	static getPricing(model: string): { input: number; output: number } {
-		return CLAUDE_PRICING[model] ?? CLAUDE_PRICING.default!;
-	}
 }
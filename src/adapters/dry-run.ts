@@ -0,0 +1,65 @@
+/**
+ * Dry-run adapter for Ralph Orchestrator
+ * Simulates agent execution without spawning any process
+ */
+
+import {
+	type AdapterConfig,
+	type ExecuteOptions,
+	type ToolResponse,
+	createSuccessResponse,
+} from "../types/index.ts";
+import { estimateTokens } from "../utils/shared.ts";
+import { ToolAdapter } from "./base.ts";
+
+/**
+ * Dry-run adapter implementation
+ *
+ * Returns the prompt that would have been sent to the real agent as its
+ * output, so the orchestrator can report it without incurring any cost.
+ */
+export class DryRunAdapter extends ToolAdapter {
+	private readonly simulatedAgent: string;
+
+	constructor(simulatedAgent: string, config?: Partial<AdapterConfig>) {
+		super("dry-run", config);
+		this.simulatedAgent = simulatedAgent;
+		this.setAvailable(true);
+	}
+
+	/**
+	 * The simulated adapter is always available
+	 */
+	async checkAvailability(): Promise<boolean> {
+		this.setAvailable(true);
+		return true;
+	}
+
+	/**
+	 * Simulate execution by returning the enhanced prompt
+	 */
+	async execute(
+		prompt: string,
+		options?: ExecuteOptions,
+	): Promise<ToolResponse> {
+		const enhancedPrompt = this.enhancePromptWithInstructions(prompt, options);
+
+		return createSuccessResponse(enhancedPrompt, {
+			tokensUsed: 0,
+			cost: 0,
+			metadata: {
+				dryRun: true,
+				simulatedAgent: this.simulatedAgent,
+				estimatedTokens: estimateTokens(enhancedPrompt),
+				model: options?.model,
+			},
+		});
+	}
+
+	/**
+	 * Get the name of the agent being simulated
+	 */
+	getSimulatedAgent(): string {
+		return this.simulatedAgent;
+	}
+}
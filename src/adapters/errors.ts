@@ -0,0 +1,64 @@
+/**
+ * Adapter error classification for Ralph Orchestrator
+ */
+
+import {
+	type AdapterErrorClass,
+	RETRYABLE_ERROR_CLASSES,
+	type ToolResponse,
+} from "../types/index.ts";
+
+const RATE_LIMIT_PATTERN =
+	/rate[ _-]?limit|too many requests|\b429\b|quota exceeded|resource[ _]exhausted|overloaded/i;
+
+const TIMEOUT_PATTERN = /timed out|timeout/i;
+
+const AUTH_PATTERN =
+	/unauthori[sz]ed|authenticat|not logged in|please log ?in|invalid api[ _-]?key|api key (is )?(missing|not set)|\b401\b/i;
+
+const UNAVAILABLE_PATTERN =
+	/is not available|executable not found|command not found|\bENOENT\b|\bEACCES\b|spawn\b.*\bE[A-Z]+\b/i;
+
+const INVALID_ARGS_PATTERN =
+	/unknown (option|argument|flag)|unrecognized (option|argument)|invalid (option|argument|flag)|missing required argument/i;
+
+/**
+ * Classify a failed tool response
+ *
+ * A tool whose binary is missing or could not be spawned is unavailable,
+ * which no retry can fix. Other responses without an exit code come from
+ * adapters whose call failed unexpectedly, and exit codes of 128 and above
+ * mean the tool was killed by a signal; both count as crashes. Any other
+ * non-zero exit is a task failure.
+ */
+export function classifyError(response: ToolResponse): AdapterErrorClass {
+	const error = response.error ?? "";
+	const { exitCode, timedOut } = response.metadata;
+
+	if (timedOut === true || TIMEOUT_PATTERN.test(error)) {
+		return "timeout";
+	}
+	if (RATE_LIMIT_PATTERN.test(error)) {
+		return "rate_limit";
+	}
+	if (AUTH_PATTERN.test(error)) {
+		return "auth";
+	}
+	if (INVALID_ARGS_PATTERN.test(error)) {
+		return "invalid_args";
+	}
+	if (typeof exitCode !== "number" && UNAVAILABLE_PATTERN.test(error)) {
+		return "unavailable";
+	}
+	if (typeof exitCode !== "number" || exitCode < 0 || exitCode >= 128) {
+		return "crash";
+	}
+	return "task";
+}
+
+/**
+ * Whether a failure of this class may succeed if the call is repeated
+ */
+export function isRetryable(errorClass: AdapterErrorClass): boolean {
+	return RETRYABLE_ERROR_CLASSES.includes(errorClass);
+}
@@ -3,7 +3,6 @@
  * Uses the Gemini CLI tool for execution
  */
 
-import { CostTracker } from "../metrics/cost-tracker.ts";
 import {
 	type AdapterConfig,
 	type ExecuteOptions,
@@ -12,11 +11,7 @@ import {
 	createSuccessResponse,
 } from "../types/index.ts";
 import { createLogger } from "../utils/logger.ts";
-import {
-	estimateTokens,
-	extractErrorMessage,
-	mergeAdditionalArgs,
-} from "../utils/shared.ts";
+import { extractErrorMessage, mergeAdditionalArgs } from "../utils/shared.ts";
 import { ToolAdapter, executeCLICommand } from "./base.ts";
 
 const logger = createLogger("ralph-orchestrator.gemini");
@@ -41,6 +36,13 @@ export class GeminiAdapter extends ToolAdapter {
 		);
 	}
 
+	/**
+	 * Get the Gemini CLI version
+	 */
+	override async getVersion(): Promise<string | null> {
+		return this.readCommandVersion(this.geminiCommand);
+	}
+
 	/**
 	 * Execute Gemini with the given prompt
 	 */
@@ -52,10 +54,11 @@ export class GeminiAdapter extends ToolAdapter {
 			return createErrorResponse("Gemini CLI is not available");
 		}
 
-		const enhancedPrompt = this.enhancePromptWithInstructions(prompt);
+		const enhancedPrompt = this.enhancePromptWithInstructions(prompt, options);
+		const model = this.getModel(options);
 
 		// Build command arguments
-		const args = this.buildArgs(options);
+		const args = this.buildArgs(model, options);
 
 		logger.debug(`Executing Gemini with ${args.length} arguments`);
 
@@ -64,6 +67,7 @@ export class GeminiAdapter extends ToolAdapter {
 				timeout: options?.timeout ?? this.config.timeout * 1000,
 				env: options?.env,
 				stdin: enhancedPrompt,
+				cwd: options?.cwd,
 			});
 
 			if (!result.success) {
@@ -71,7 +75,11 @@ export class GeminiAdapter extends ToolAdapter {
 				return createErrorResponse(
 					result.stderr || `Gemini exited with code ${result.exitCode}`,
 					result.stdout,
-					{ exitCode: result.exitCode, duration: result.duration },
+					{
+						exitCode: result.exitCode,
+						timedOut: result.timedOut,
+						duration: result.duration,
+					},
 				);
 			}
 
@@ -79,11 +87,22 @@ export class GeminiAdapter extends ToolAdapter {
 				`Gemini execution completed in ${result.duration.toFixed(2)}s`,
 			);
 
+			// The Gemini CLI does not report usage
+			const usage = this.estimateUsage(enhancedPrompt, result.stdout);
 			return createSuccessResponse(result.stdout, {
+				...usage,
+				cost: this.calculateCost(
+					{
+						inputTokens: usage.inputTokens ?? 0,
+						outputTokens: usage.outputTokens ?? 0,
+					},
+					model,
+				),
+				model,
 				metadata: {
 					duration: result.duration,
 					exitCode: result.exitCode,
-					model: options?.model,
+					model,
 				},
 			});
 		} catch (error) {
@@ -96,12 +115,15 @@ export class GeminiAdapter extends ToolAdapter {
 	/**
 	 * Build command arguments
 	 */
-	private buildArgs(options?: ExecuteOptions): string[] {
+	private buildArgs(
+		model: string | undefined,
+		options?: ExecuteOptions,
+	): string[] {
 		const args: string[] = [];
 
 		// Add model if specified
-		if (options?.model) {
-			args.push("--model", options.model);
+		if (model) {
+			args.push("--model", model);
 		}
 
 		// Add verbose flag
@@ -114,15 +136,4 @@ export class GeminiAdapter extends ToolAdapter {
 
 		return args;
 	}
-
-	/**
-	 * Estimate cost for a prompt
-	 */
-	override estimateCost(prompt: string): number {
-		const inputTokens = estimateTokens(prompt);
-		// Assume output is roughly 2x input for estimation
-		const outputTokens = inputTokens * 2;
-
-		return CostTracker.estimateCost("gemini", inputTokens, outputTokens);
-	}
 }
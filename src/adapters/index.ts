@@ -7,11 +7,19 @@ import { createLogger } from "../utils/logger.ts";
 
 // Export base classes and utilities
 export { ToolAdapter, commandExists, executeCommand } from "./base.ts";
+export { classifyError, isRetryable } from "./errors.ts";
+export {
+	type RetryOptions,
+	type RetryResult,
+	executeWithRetry,
+	getRetryDelay,
+} from "./retry.ts";
 
 // Export adapters
 export { ClaudeAdapter } from "./claude.ts";
 export { GeminiAdapter } from "./gemini.ts";
 export { QChatAdapter } from "./qchat.ts";
+export { DryRunAdapter } from "./dry-run.ts";
 export { ACPAdapter, type ACPAdapterOptions } from "./acp/index.ts";
 
 // Re-export ACP types
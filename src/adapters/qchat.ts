@@ -33,6 +33,13 @@ export class QChatAdapter extends ToolAdapter {
 		return this.checkCommandExists(this.qCommand, "Q CLI not found in PATH");
 	}
 
+	/**
+	 * Get the Q CLI version
+	 */
+	override async getVersion(): Promise<string | null> {
+		return this.readCommandVersion(this.qCommand);
+	}
+
 	/**
 	 * Execute Q with the given prompt
 	 */
@@ -44,7 +51,7 @@ export class QChatAdapter extends ToolAdapter {
 			return createErrorResponse("Q CLI is not available");
 		}
 
-		const enhancedPrompt = this.enhancePromptWithInstructions(prompt);
+		const enhancedPrompt = this.enhancePromptWithInstructions(prompt, options);
 
 		// Build command arguments
 		const args = this.buildArgs(enhancedPrompt, options);
@@ -60,6 +67,7 @@ export class QChatAdapter extends ToolAdapter {
 					RALPH_QCHAT_NO_INTERACTIVE: "true",
 					RALPH_QCHAT_TRUST_TOOLS: "true",
 				},
+				cwd: options?.cwd,
 			});
 
 			if (!result.success) {
@@ -67,13 +75,19 @@ export class QChatAdapter extends ToolAdapter {
 				return createErrorResponse(
 					result.stderr || `Q exited with code ${result.exitCode}`,
 					result.stdout,
-					{ exitCode: result.exitCode, duration: result.duration },
+					{
+						exitCode: result.exitCode,
+						timedOut: result.timedOut,
+						duration: result.duration,
+					},
 				);
 			}
 
 			logger.debug(`Q execution completed in ${result.duration.toFixed(2)}s`);
 
 			return createSuccessResponse(result.stdout, {
+				// Q does not report usage
+				...this.estimateUsage(enhancedPrompt, result.stdout),
 				// Q is typically free/local, so no cost
 				cost: 0,
 				metadata: {
@@ -110,11 +124,4 @@ export class QChatAdapter extends ToolAdapter {
 
 		return args;
 	}
-
-	/**
-	 * Estimate cost for a prompt (Q is typically free)
-	 */
-	override estimateCost(_prompt: string): number {
-		return 0;
-	}
 }
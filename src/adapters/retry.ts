@@ -0,0 +1,112 @@
+/**
+ * Retries with exponential backoff for Ralph Orchestrator adapters
+ */
+
+import {
+	type AdapterErrorClass,
+	DEFAULT_RETRY_POLICY,
+	type ExecuteOptions,
+	type RetryPolicy,
+	type ToolResponse,
+} from "../types/index.ts";
+import { createLogger } from "../utils/logger.ts";
+import type { ToolAdapter } from "./base.ts";
+import { classifyError, isRetryable } from "./errors.ts";
+
+const logger = createLogger("ralph-orchestrator.adapters");
+
+/**
+ * Options for executeWithRetry
+ */
+export interface RetryOptions {
+	/** Backoff settings (maxRetries defaults to the adapter's config) */
+	policy?: Partial<RetryPolicy>;
+	/** Called before each retry */
+	onRetry?: (retry: {
+		attempt: number;
+		delay: number;
+		errorClass: AdapterErrorClass;
+		error?: string;
+	}) => void;
+	/** Whether to give up instead of retrying, e.g. when the run is stopping */
+	shouldStop?: () => boolean;
+	/** Wait function, replaceable in tests */
+	sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * Outcome of an adapter call and its retries
+ */
+export interface RetryResult {
+	response: ToolResponse;
+	/** Retries made after the first attempt */
+	retries: number;
+	/** Class of the final failure, when the call did not succeed */
+	errorClass?: AdapterErrorClass;
+}
+
+/**
+ * Get the delay before a retry: the base delay doubled for each earlier
+ * retry, capped at maxDelay, with up to `jitter` of it randomized
+ */
+export function getRetryDelay(
+	attempt: number,
+	policy: RetryPolicy,
+	random: () => number = Math.random,
+): number {
+	const delay = Math.min(
+		policy.baseDelay * 2 ** (attempt - 1),
+		policy.maxDelay,
+	);
+	return Math.round(delay * (1 - policy.jitter * random()));
+}
+
+/**
+ * Execute a prompt, retrying timeouts, rate limits and crashes
+ *
+ * Authentication errors, bad arguments and ordinary task failures are
+ * returned after the first attempt, since repeating them cannot help.
+ */
+export async function executeWithRetry(
+	adapter: ToolAdapter,
+	prompt: string,
+	executeOptions: ExecuteOptions = {},
+	options: RetryOptions = {},
+): Promise<RetryResult> {
+	const policy: RetryPolicy = {
+		...DEFAULT_RETRY_POLICY,
+		maxRetries: adapter.getConfig().maxRetries,
+		...options.policy,
+	};
+	const sleep =
+		options.sleep ??
+		((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+
+	for (let attempt = 0; ; attempt++) {
+		const response = await adapter.execute(prompt, executeOptions);
+		if (response.success) {
+			return { response, retries: attempt };
+		}
+
+		const errorClass = classifyError(response);
+		if (
+			!isRetryable(errorClass) ||
+			attempt >= policy.maxRetries ||
+			options.shouldStop?.()
+		) {
+			return { response, retries: attempt, errorClass };
+		}
+
+		const delay = getRetryDelay(attempt + 1, policy);
+		logger.warn(
+			`${adapter.name} failed (${errorClass}), retry ${attempt + 1}/${policy.maxRetries} in ${delay}ms`,
+		);
+		options.onRetry?.({
+			attempt: attempt + 1,
+			delay,
+			errorClass,
+			error: response.error,
+		});
+		await sleep(delay);
+	}
+}
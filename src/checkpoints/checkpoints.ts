@@ -0,0 +1,274 @@
+/**
+ * Run branches and checkpoint tags for Ralph Orchestrator
+ *
+ * Each run works on its own `ralph/run-<id>` branch, and every checkpoint
+ * commit is tagged `ralph/run-<id>/checkpoint-<n>`. The iteration, cost and
+ * verification result are stored as trailers in the checkpoint's commit
+ * message, so they travel with the commit instead of living in `.agent`,
+ * which a rollback or restore would reset along with everything else.
+ */
+
+import {
+	type GitResult,
+	createTag,
+	execGit,
+	getCurrentBranch,
+	hasTrackedChanges,
+	resetToCommit,
+} from "../utils/git.ts";
+
+/**
+ * Verification result recorded with a checkpoint ("none" when no verify
+ * commands are configured)
+ */
+export type CheckpointVerification = "passed" | "none";
+
+/**
+ * What is recorded about a checkpoint when it is created
+ */
+export interface CheckpointMetadata {
+	runId: string;
+	/** Checkpoint number within the run, starting at 1 */
+	number: number;
+	iteration: number;
+	/** Total run cost in USD when the checkpoint was made */
+	cost: number;
+	verification: CheckpointVerification;
+}
+
+/**
+ * A tagged checkpoint read back from git
+ */
+export interface Checkpoint extends CheckpointMetadata {
+	tag: string;
+	commit: string;
+	subject: string;
+	createdAt: string;
+	/** Files changed since the previous checkpoint */
+	files: string[];
+}
+
+const TRAILERS = {
+	runId: "Ralph-Run",
+	number: "Ralph-Checkpoint",
+	iteration: "Ralph-Iteration",
+	cost: "Ralph-Cost",
+	verification: "Ralph-Verification",
+} as const;
+
+/**
+ * Get the branch a run works on
+ */
+export function getRunBranch(runId: string): string {
+	return `ralph/run-${runId}`;
+}
+
+/**
+ * Get the tag for one of a run's checkpoints
+ */
+export function getCheckpointTag(runId: string, number: number): string {
+	return `${getRunBranch(runId)}/checkpoint-${number}`;
+}
+
+/**
+ * Build a checkpoint commit message with the metadata as trailers
+ */
+export function formatCheckpointMessage(
+	subject: string,
+	metadata: CheckpointMetadata,
+): string {
+	return [
+		subject,
+		"",
+		"Automated checkpoint by Ralph Orchestrator",
+		"",
+		`${TRAILERS.runId}: ${metadata.runId}`,
+		`${TRAILERS.number}: ${metadata.number}`,
+		`${TRAILERS.iteration}: ${metadata.iteration}`,
+		`${TRAILERS.cost}: ${metadata.cost.toFixed(4)}`,
+		`${TRAILERS.verification}: ${metadata.verification}`,
+	].join("\n");
+}
+
+/**
+ * Read checkpoint metadata from a commit message's trailers
+ */
+export function parseCheckpointMessage(
+	message: string,
+): Partial<CheckpointMetadata> {
+	const trailers = new Map<string, string>();
+	for (const line of message.split("\n")) {
+		const match = /^(Ralph-[\w-]+): (.*)$/.exec(line.trim());
+		if (match?.[1] && match[2] !== undefined) {
+			trailers.set(match[1], match[2]);
+		}
+	}
+
+	const number = (key: string) => {
+		const value = Number(trailers.get(key));
+		return trailers.has(key) && Number.isFinite(value) ? value : undefined;
+	};
+	const verification = trailers.get(TRAILERS.verification);
+	return {
+		runId: trailers.get(TRAILERS.runId),
+		number: number(TRAILERS.number),
+		iteration: number(TRAILERS.iteration),
+		cost: number(TRAILERS.cost),
+		verification:
+			verification === "passed" || verification === "none"
+				? verification
+				: undefined,
+	};
+}
+
+/**
+ * Tag the current commit as a checkpoint
+ */
+export async function tagCheckpoint(
+	runId: string,
+	number: number,
+	cwd?: string,
+): Promise<GitResult> {
+	return createTag(getCheckpointTag(runId, number), undefined, cwd);
+}
+
+/**
+ * List the runs that have checkpoint tags, oldest first
+ */
+export async function listCheckpointRuns(cwd?: string): Promise<string[]> {
+	const result = await execGit(
+		["tag", "--list", "ralph/run-*/checkpoint-*"],
+		cwd,
+	);
+	if (!result.success) {
+		return [];
+	}
+
+	const runIds = new Set<string>();
+	for (const tag of result.stdout.split("\n")) {
+		const match = /^ralph\/run-(.+)\/checkpoint-\d+$/.exec(tag);
+		if (match?.[1]) {
+			runIds.add(match[1]);
+		}
+	}
+	// Run IDs start with a timestamp, so they sort by start time
+	return [...runIds].sort();
+}
+
+/**
+ * List a run's checkpoints in order
+ */
+export async function listCheckpoints(
+	runId: string,
+	cwd?: string,
+): Promise<Checkpoint[]> {
+	const result = await execGit(
+		[
+			"for-each-ref",
+			"--format=%(refname:short)%09%(objectname)%09%(creatordate:iso-strict)",
+			`refs/tags/${getRunBranch(runId)}/`,
+		],
+		cwd,
+	);
+	if (!result.success || result.stdout === "") {
+		return [];
+	}
+
+	const tags = result.stdout
+		.split("\n")
+		.map((line) => {
+			const [tag = "", commit = "", createdAt = ""] = line.split("\t");
+			const number = Number(/\/checkpoint-(\d+)$/.exec(tag)?.[1]);
+			return { tag, commit, createdAt, number };
+		})
+		.filter((tag) => Number.isInteger(tag.number))
+		.sort((a, b) => a.number - b.number);
+
+	const checkpoints: Checkpoint[] = [];
+	let previous: string | null = null;
+	for (const { tag, commit, createdAt, number } of tags) {
+		const message = await execGit(["log", "-1", "--format=%B", commit], cwd);
+		const metadata = parseCheckpointMessage(message.stdout);
+		checkpoints.push({
+			runId,
+			number,
+			iteration: metadata.iteration ?? 0,
+			cost: metadata.cost ?? 0,
+			verification: metadata.verification ?? "none",
+			tag,
+			commit,
+			subject: message.stdout.split("\n")[0] ?? "",
+			createdAt,
+			files: await getChangedFiles(commit, previous, cwd),
+		});
+		previous = commit;
+	}
+	return checkpoints;
+}
+
+/**
+ * Get one of a run's checkpoints by number
+ */
+export async function getCheckpoint(
+	runId: string,
+	number: number,
+	cwd?: string,
+): Promise<Checkpoint | null> {
+	const checkpoints = await listCheckpoints(runId, cwd);
+	return checkpoints.find((checkpoint) => checkpoint.number === number) ?? null;
+}
+
+/**
+ * Files changed by a checkpoint since the previous one (or since its parent
+ * for the first)
+ */
+async function getChangedFiles(
+	commit: string,
+	previous: string | null,
+	cwd?: string,
+): Promise<string[]> {
+	const diff = await execGit(
+		["diff", "--name-only", previous ?? `${commit}^`, commit],
+		cwd,
+	);
+	// The first commit in a repository has no parent to diff against
+	const result = diff.success
+		? diff
+		: await execGit(["show", "--name-only", "--format=", commit], cwd);
+	return result.stdout.split("\n").filter((file) => file.length > 0);
+}
+
+/**
+ * Move a run's branch back to a checkpoint
+ *
+ * When the run branch is checked out, the working tree is hard reset too,
+ * which requires a clean tree unless forced. Otherwise only the branch is
+ * moved and the working tree is left alone.
+ * @returns Whether the working tree was reset
+ */
+export async function restoreCheckpoint(
+	checkpoint: Checkpoint,
+	options: { force?: boolean } = {},
+	cwd?: string,
+): Promise<boolean> {
+	const branch = getRunBranch(checkpoint.runId);
+
+	if ((await getCurrentBranch(cwd)) === branch) {
+		if (!options.force && (await hasTrackedChanges(cwd))) {
+			throw new Error(
+				"Uncommitted changes would be lost; commit them or use --force",
+			);
+		}
+		const result = await resetToCommit(checkpoint.tag, true, cwd);
+		if (!result.success) {
+			throw new Error(`Failed to reset to ${checkpoint.tag}: ${result.stderr}`);
+		}
+		return true;
+	}
+
+	const result = await execGit(["branch", "-f", branch, checkpoint.tag], cwd);
+	if (!result.success) {
+		throw new Error(`Failed to move ${branch}: ${result.stderr}`);
+	}
+	return false;
+}
@@ -0,0 +1,18 @@
+/**
+ * Checkpoint exports for Ralph Orchestrator
+ */
+
+export {
+	type Checkpoint,
+	type CheckpointMetadata,
+	type CheckpointVerification,
+	formatCheckpointMessage,
+	getCheckpoint,
+	getCheckpointTag,
+	getRunBranch,
+	listCheckpointRuns,
+	listCheckpoints,
+	parseCheckpointMessage,
+	restoreCheckpoint,
+	tagCheckpoint,
+} from "./checkpoints.ts";
@@ -4,12 +4,31 @@
  */
 
 import { mkdir } from "node:fs/promises";
+import { join } from "node:path";
 import chalk from "chalk";
+import Table from "cli-table3";
 import { Command } from "commander";
 import ora from "ora";
+import {
+	type Checkpoint,
+	getCheckpoint,
+	getRunBranch,
+	listCheckpointRuns,
+	listCheckpoints,
+	restoreCheckpoint,
+} from "./checkpoints/index.ts";
 import { ConfigValidator, createConfigFromArgs, loadConfig } from "./config.ts";
+import { AGENT_DIRECTORIES, runDoctor } from "./doctor/index.ts";
 import { RalphOrchestrator } from "./orchestrator.ts";
-import { CONFIG_DEFAULTS } from "./types/index.ts";
+import { PromptArchive } from "./prompt/index.ts";
+import { RunStateStore } from "./state/index.ts";
+import {
+	type AgentType,
+	CONFIG_DEFAULTS,
+	type DoctorReport,
+	type DoctorStatus,
+} from "./types/index.ts";
+import { diffLines, formatUnifiedDiff } from "./utils/diff.ts";
 import { getStatus, isGitRepo } from "./utils/git.ts";
 import { LogLevel, setLogLevel } from "./utils/logger.ts";
 import { generateDefaultYaml } from "./utils/yaml.ts";
@@ -23,6 +42,100 @@ program
 	.description("Ralph Orchestrator - Put AI in a loop until done")
 	.version(VERSION);
 
+/**
+ * Wire signal based pause/resume control and status output to a run
+ */
+function attachRunControls(orchestrator: RalphOrchestrator): void {
+	process.on("SIGUSR1", () => orchestrator.pause());
+	process.on("SIGUSR2", () => orchestrator.resume());
+	console.log(
+		chalk.gray(
+			`Pause with \`kill -USR1 ${process.pid}\`, resume with \`kill -USR2 ${process.pid}\``,
+		),
+	);
+	orchestrator.on("status:change", (state) => {
+		if (state.status === "paused") {
+			console.log(
+				chalk.yellow("Paused after iteration; send SIGUSR2 to resume"),
+			);
+		}
+	});
+	attachRunOutput(orchestrator);
+}
+
+/**
+ * Print progress lines for orchestrator lifecycle events
+ */
+function attachRunOutput(orchestrator: RalphOrchestrator): void {
+	orchestrator.on("iteration:start", ({ iteration, task }) => {
+		const label = task ? `: ${task.description}` : "";
+		console.log(chalk.blue(`\nIteration ${iteration}${label}`));
+	});
+	orchestrator.on("iteration:end", ({ result }) => {
+		const cost = result.cost ? `, $${result.cost.toFixed(4)}` : "";
+		const changes = result.diffStats
+			? `, ${result.diffStats.filesChanged} files +${result.diffStats.linesAdded} -${result.diffStats.linesRemoved}`
+			: "";
+		const detail = `(${result.duration.toFixed(1)}s${cost}${changes})`;
+		console.log(
+			result.success
+				? chalk.green(`Iteration ${result.iteration} succeeded ${detail}`)
+				: chalk.red(
+						`Iteration ${result.iteration} failed ${detail}: ${result.error ?? "unknown error"}`,
+					),
+		);
+	});
+	orchestrator.on("fallback", ({ from, to, reason }) => {
+		const cause =
+			reason === "circuit_open" ? "circuit breaker is open" : "failed";
+		console.log(chalk.yellow(`${from} ${cause}, falling back to ${to}`));
+	});
+	orchestrator.on("checkpoint", ({ iteration, commit }) => {
+		const ref = commit ? ` (${commit.substring(0, 7)})` : "";
+		console.log(chalk.gray(`Checkpoint after iteration ${iteration}${ref}`));
+	});
+	orchestrator.on("rollback", ({ commit, failures }) => {
+		console.log(
+			chalk.yellow(
+				`Rolled back to ${commit.substring(0, 7)} after ${failures} failed iterations`,
+			),
+		);
+	});
+	orchestrator.on("stall", ({ iterations }) => {
+		console.log(
+			chalk.yellow(
+				`No files changed in ${iterations} iterations, running stall recovery`,
+			),
+		);
+	});
+	orchestrator.on("task:completed", ({ task }) => {
+		console.log(chalk.green(`Task completed: ${task.description}`));
+	});
+	orchestrator.on("task:skipped", ({ task }) => {
+		console.log(
+			chalk.yellow(`Task skipped after using its budget: ${task.description}`),
+		);
+	});
+	orchestrator.on("task:conflict", ({ task, files }) => {
+		console.log(
+			chalk.yellow(
+				`Task requeued after a merge conflict in ${files.join(", ")}: ${task.description}`,
+			),
+		);
+	});
+	orchestrator.on("loop:detected", ({ iteration }) => {
+		console.log(
+			chalk.yellow(`Loop detected at iteration ${iteration}, stopping`),
+		);
+	});
+	orchestrator.on("safety:warning", ({ warning }) => {
+		console.log(chalk.yellow(`Safety warning: ${warning}`));
+	});
+	orchestrator.on("safety:tripped", ({ reason }) => {
+		console.log(chalk.yellow(`Safety limit reached: ${reason}`));
+	});
+}
+
 /**
  * Run command - Main orchestration
  */
@@ -40,6 +153,7 @@ program
 		CONFIG_DEFAULTS.PROMPT_FILE,
 	)
 	.option("-p, --prompt-text <text>", "Direct prompt text (overrides --prompt)")
+	.option("--cwd <dir>", "Directory to run in (default: current directory)")
 	.option(
 		"-i, --max-iterations <n>",
 		"Maximum iterations",
@@ -65,6 +179,11 @@ program
 		"Maximum total tokens",
 		String(CONFIG_DEFAULTS.MAX_TOKENS),
 	)
+	.option(
+		"--token-warning <n>",
+		"Fraction of max tokens at which to warn",
+		String(CONFIG_DEFAULTS.TOKEN_WARNING_THRESHOLD),
+	)
 	.option(
 		"--max-cost <n>",
 		"Maximum cost in USD",
@@ -81,9 +200,40 @@ program
 		String(CONFIG_DEFAULTS.CONTEXT_THRESHOLD),
 	)
 	.option("--no-git", "Disable git checkpointing")
+	.option("--no-run-branch", "Checkpoint on the current branch")
 	.option("--no-archive", "Disable prompt archiving")
 	.option("-v, --verbose", "Enable verbose output")
 	.option("--dry-run", "Dry run mode")
+	.option(
+		"--prompt-mode <mode>",
+		"Prompt sent each iteration (full, focused)",
+		"full",
+	)
+	.option(
+		"--workers <n>",
+		"Tasks worked on in parallel, each in its own git worktree",
+		String(CONFIG_DEFAULTS.PARALLEL_WORKERS),
+	)
+	.option(
+		"--rollback-after <n>",
+		"Consecutive failed iterations before resetting to the last good checkpoint (0 = never)",
+		String(CONFIG_DEFAULTS.ROLLBACK_AFTER),
+	)
+	.option(
+		"--max-rollbacks <n>",
+		"Rollbacks allowed per run",
+		String(CONFIG_DEFAULTS.MAX_ROLLBACKS),
+	)
+	.option(
+		"--stall-limit <n>",
+		"Iterations in a row without file changes before the stall action (0 = never)",
+		String(CONFIG_DEFAULTS.STALL_LIMIT),
+	)
+	.option(
+		"--stall-action <action>",
+		"What to do about a stall (stop, recover)",
+		"stop",
+	)
 	.option(
 		"--output-format <format>",
 		"Output format (plain, rich, json)",
@@ -107,7 +257,10 @@ program
 			// Load config
 			let config;
 			if (options.config) {
-				const loaded = await loadConfig(options.config);
+				const loaded = await loadConfig(options.config, {
+					...(options.dryRun ? { dryRun: true } : {}),
+					...(options.cwd ? { workingDir: options.cwd } : {}),
+				});
 				if (!loaded.validation.valid) {
 					console.error(chalk.red("Configuration errors:"));
 					for (const error of loaded.validation.errors) {
@@ -119,6 +272,7 @@ program
 			} else {
 				config = createConfigFromArgs({
 					agent: options.agent,
+					cwd: options.cwd,
 					prompt: options.prompt,
 					promptText: options.promptText,
 					maxIterations: Number.parseInt(options.maxIterations, 10),
@@ -126,13 +280,21 @@ program
 					checkpointInterval: Number.parseInt(options.checkpointInterval, 10),
 					retryDelay: Number.parseInt(options.retryDelay, 10),
 					maxTokens: Number.parseInt(options.maxTokens, 10),
+					tokenWarningThreshold: Number.parseFloat(options.tokenWarning),
 					maxCost: Number.parseFloat(options.maxCost),
 					contextWindow: Number.parseInt(options.contextWindow, 10),
 					contextThreshold: Number.parseFloat(options.contextThreshold),
 					noGit: !options.git,
+					noRunBranch: !options.runBranch,
 					noArchive: !options.archive,
 					verbose: options.verbose,
 					dryRun: options.dryRun,
+					promptMode: options.promptMode,
+					workers: Number.parseInt(options.workers, 10),
+					rollbackAfter: Number.parseInt(options.rollbackAfter, 10),
+					maxRollbacks: Number.parseInt(options.maxRollbacks, 10),
+					stallLimit: Number.parseInt(options.stallLimit, 10),
+					stallAction: options.stallAction,
 					outputFormat: options.outputFormat,
 					outputVerbosity: options.outputVerbosity,
 					acpAgent: options.acpAgent,
@@ -141,7 +303,7 @@ program
 			}
 
 			// Validate config
-			const validation = ConfigValidator.validate(config);
+			const validation = await ConfigValidator.validateAsync(config);
 			if (!validation.valid) {
 				console.error(chalk.red("Configuration errors:"));
 				for (const error of validation.errors) {
@@ -160,9 +322,66 @@ program
 			console.log(chalk.gray(`Agent: ${config.agent}`));
 			console.log(chalk.gray(`Max iterations: ${config.maxIterations}`));
 			console.log(chalk.gray(`Max runtime: ${config.maxRuntime}s`));
+			if (config.dryRun) {
+				console.log(
+					chalk.yellow(
+						"Dry run: no agent will be executed and git is untouched",
+					),
+				);
+			}
 			console.log("");
 
 			const orchestrator = new RalphOrchestrator(config);
+			if (!config.dryRun) {
+				console.log(chalk.gray(`Run ID: ${orchestrator.getRunId()}`));
+				console.log(
+					chalk.gray(
+						`Resume after an interruption with \`ralph resume ${orchestrator.getRunId()}\``,
+					),
+				);
+			}
+			attachRunControls(orchestrator);
+
+			await orchestrator.run();
+		} catch (error) {
+			console.error(
+				chalk.red(`Error: ${error instanceof Error ? error.message : error}`),
+			);
+			process.exit(1);
+		}
+	});
+
+/**
+ * Resume command - Continue an interrupted run
+ */
+program
+	.command("resume [runId]")
+	.description("Resume an interrupted run (defaults to the most recent run)")
+	.option("-v, --verbose", "Verbose output")
+	.option("--cwd <dir>", "Directory the run was started in")
+	.action(async (runId: string | undefined, options) => {
+		if (options.verbose) {
+			setLogLevel(LogLevel.DEBUG);
+		}
+
+		try {
+			const orchestrator = await RalphOrchestrator.resume(
+				runId,
+				new RunStateStore(join(options.cwd ?? ".", ".agent", "runs")),
+			);
+			const state = orchestrator.getState();
+
+			console.log(chalk.blue(`\nResuming run ${orchestrator.getRunId()}...`));
+			console.log(chalk.gray(`Completed iterations: ${state.iteration}`));
+			console.log(
+				chalk.gray(
+					`Cost so far: $${orchestrator.getCostSummary().totalCost.toFixed(4)}`,
+				),
+			);
+			console.log("");
+
+			attachRunControls(orchestrator);
+
 			await orchestrator.run();
 		} catch (error) {
 			console.error(
@@ -184,11 +403,9 @@ program
 
 		try {
 			// Create directories
-			await mkdir(".agent/workspace", { recursive: true });
-			await mkdir(".agent/prompts", { recursive: true });
-			await mkdir(".agent/checkpoints", { recursive: true });
-			await mkdir(".agent/metrics", { recursive: true });
-			await mkdir(".agent/cache", { recursive: true });
+			for (const directory of AGENT_DIRECTORIES) {
+				await mkdir(`.agent/${directory}`, { recursive: true });
+			}
 
 			// Create ralph.yml if not exists
 			const configFile = Bun.file("ralph.yml");
@@ -281,6 +498,106 @@ program
 		console.log("");
 	});
 
+/**
+ * Color a doctor status for the table
+ */
+function formatDoctorStatus(status: DoctorStatus): string {
+	switch (status) {
+		case "ok":
+			return chalk.green("ok");
+		case "warn":
+			return chalk.yellow("warn");
+		case "fail":
+			return chalk.red("fail");
+		default:
+			return chalk.gray("skip");
+	}
+}
+
+/**
+ * Print a doctor report as tables
+ */
+function printDoctorReport(report: DoctorReport): void {
+	const adapters = new Table({
+		head: ["Adapter", "Installed", "Version", "Prompt", "Models"],
+	});
+	for (const adapter of report.adapters) {
+		adapters.push([
+			adapter.name,
+			adapter.installed ? chalk.green("yes") : chalk.gray("no"),
+			adapter.version ?? "-",
+			adapter.authDetail
+				? `${formatDoctorStatus(adapter.auth)} ${chalk.gray(adapter.authDetail)}`
+				: formatDoctorStatus(adapter.auth),
+			adapter.models.join(", ") || "-",
+		]);
+	}
+
+	const checks = new Table({ head: ["Check", "Status", "Detail"] });
+	for (const check of report.checks) {
+		checks.push([check.name, formatDoctorStatus(check.status), check.detail]);
+	}
+
+	console.log(adapters.toString());
+	console.log(checks.toString());
+	console.log(
+		report.healthy
+			? chalk.green("\nEverything looks ready to run")
+			: chalk.red("\nSome checks failed"),
+	);
+}
+
+/**
+ * Doctor command - Check adapters and the environment before a run
+ */
+program
+	.command("doctor")
+	.description("Check adapters, authentication and the project environment")
+	.option("--config <file>", "Configuration file path")
+	.option("-a, --agent <type>", "AI agent the run would use")
+	.option("--acp-agent <command>", "ACP agent command")
+	.option("--cwd <dir>", "Directory to check (default: current directory)")
+	.option("--no-prompt", "Skip sending a test prompt to each adapter")
+	.option("--timeout <n>", "Timeout per test prompt in seconds", "30")
+	.option("--db <path>", "Web dashboard database path", ".agent/ralph.db")
+	.option("--json", "Print the report as JSON")
+	.action(async (options) => {
+		try {
+			const { config } = await loadConfig(options.config);
+			if (options.agent) {
+				config.agent = options.agent as AgentType;
+			}
+			if (options.acpAgent) {
+				config.acpAgent = options.acpAgent;
+			}
+			if (options.cwd) {
+				config.workingDir = options.cwd;
+			}
+
+			const spinner = options.json ? null : ora("Running checks...").start();
+			const report = await runDoctor(config, {
+				probe: options.prompt,
+				timeout: Number.parseInt(options.timeout, 10) * 1000,
+				dbPath: options.db,
+			});
+			spinner?.stop();
+
+			if (options.json) {
+				console.log(JSON.stringify(report, null, 2));
+			} else {
+				printDoctorReport(report);
+			}
+			if (!report.healthy) {
+				process.exit(1);
+			}
+		} catch (error) {
+			console.error(
+				chalk.red(`Error: ${error instanceof Error ? error.message : error}`),
+			);
+			process.exit(1);
+		}
+	});
+
 /**
  * Clean command - Clean workspace
  */
@@ -317,7 +634,7 @@ program
 /**
  * Prompt command - Generate or modify prompt
  */
-program
+const promptCommand = program
 	.command("prompt")
 	.description("Generate or show prompt")
 	.option("-s, --show", "Show current prompt")
@@ -363,6 +680,243 @@ Additional context...
 		}
 	});
 
+/**
+ * Prompt history command - List archived prompt snapshots
+ */
+promptCommand
+	.command("history [runId]")
+	.description("List archived prompts (defaults to every run)")
+	.option("--cwd <dir>", "Directory the runs were started in")
+	.action(async (runId: string | undefined, options) => {
+		const archive = new PromptArchive(
+			join(options.cwd ?? ".", ".agent", "prompts"),
+		);
+		const snapshots = await archive.list(runId);
+		if (snapshots.length === 0) {
+			console.log(chalk.gray("No archived prompts"));
+			return;
+		}
+
+		const table = new Table({ head: ["Snapshot", "Saved", "Size", "Changes"] });
+		let previousText = "";
+		for (const [index, snapshot] of snapshots.entries()) {
+			const text = await Bun.file(snapshot.path).text();
+			let changes = chalk.gray("initial");
+			if (snapshots[index - 1]?.runId === snapshot.runId) {
+				const lines = diffLines(previousText, text);
+				const added = lines.filter((line) => line.type === "add").length;
+				const removed = lines.filter((line) => line.type === "remove").length;
+				changes = `${chalk.green(`+${added}`)} ${chalk.red(`-${removed}`)}`;
+			}
+			table.push([
+				`${snapshot.runId}/${snapshot.iteration}`,
+				snapshot.savedAt.toLocaleString(),
+				`${snapshot.size} B`,
+				changes,
+			]);
+			previousText = text;
+		}
+
+		console.log(table.toString());
+		console.log(
+			chalk.gray("Compare two snapshots with `ralph prompt diff <a> <b>`"),
+		);
+	});
+
+/**
+ * Prompt diff command - Compare two archived prompts
+ */
+promptCommand
+	.command("diff <a> <b>")
+	.description(
+		"Compare archived prompts, given as <runId>/<iteration> or <iteration> in the most recent run",
+	)
+	.option("--cwd <dir>", "Directory the runs were started in")
+	.action(async (a: string, b: string, options) => {
+		const archive = new PromptArchive(
+			join(options.cwd ?? ".", ".agent", "prompts"),
+		);
+		const from = await archive.resolve(a);
+		const to = await archive.resolve(b);
+		for (const [ref, snapshot] of [
+			[a, from],
+			[b, to],
+		] as const) {
+			if (!snapshot) {
+				console.error(chalk.red(`No archived prompt for ${ref}`));
+				process.exit(1);
+			}
+		}
+		if (!from || !to) return;
+
+		const diff = formatUnifiedDiff(
+			await Bun.file(from.path).text(),
+			await Bun.file(to.path).text(),
+			{
+				fromLabel: `${from.runId}/${from.iteration}`,
+				toLabel: `${to.runId}/${to.iteration}`,
+			},
+		);
+		if (!diff) {
+			console.log(chalk.gray("Prompts are identical"));
+			return;
+		}
+
+		for (const line of diff.trimEnd().split("\n")) {
+			if (line.startsWith("+++") || line.startsWith("---")) {
+				console.log(chalk.bold(line));
+			} else if (line.startsWith("@@")) {
+				console.log(chalk.cyan(line));
+			} else if (line.startsWith("+")) {
+				console.log(chalk.green(line));
+			} else if (line.startsWith("-")) {
+				console.log(chalk.red(line));
+			} else {
+				console.log(line);
+			}
+		}
+	});
+
+/**
+ * Pick the run a checkpoints command works on, defaulting to the most recent
+ * run with checkpoints
+ */
+async function resolveCheckpointRun(
+	runId: string | undefined,
+	cwd: string,
+): Promise<string> {
+	const resolved = runId ?? (await listCheckpointRuns(cwd)).at(-1);
+	if (!resolved) {
+		throw new Error("No checkpoints found");
+	}
+	return resolved;
+}
+
+/**
+ * Find a run's checkpoint by its number as given on the command line
+ */
+async function findCheckpoint(
+	value: string,
+	runId: string | undefined,
+	cwd: string,
+): Promise<Checkpoint> {
+	const run = await resolveCheckpointRun(runId, cwd);
+	const number = Number(value);
+	const checkpoint = Number.isInteger(number)
+		? await getCheckpoint(run, number, cwd)
+		: null;
+	if (!checkpoint) {
+		throw new Error(`No checkpoint ${value} in run ${run}`);
+	}
+	return checkpoint;
+}
+
+/**
+ * Checkpoints command - Inspect and restore a run's git checkpoints
+ */
+const checkpointsCommand = program
+	.command("checkpoints")
+	.description("List, show and restore the git checkpoints of a run");
+
+checkpointsCommand
+	.command("list [runId]")
+	.description("List a run's checkpoints (defaults to the most recent run)")
+	.option("--cwd <dir>", "Repository the run worked in", ".")
+	.action(async (runId: string | undefined, options) => {
+		try {
+			const run = await resolveCheckpointRun(runId, options.cwd);
+			const checkpoints = await listCheckpoints(run, options.cwd);
+			if (checkpoints.length === 0) {
+				console.log(chalk.gray(`No checkpoints for run ${run}`));
+				return;
+			}
+
+			const table = new Table({
+				head: ["#", "Iteration", "Commit", "Cost", "Verification", "Files"],
+			});
+			for (const checkpoint of checkpoints) {
+				table.push([
+					checkpoint.number,
+					checkpoint.iteration,
+					checkpoint.commit.substring(0, 7),
+					`$${checkpoint.cost.toFixed(4)}`,
+					checkpoint.verification === "passed"
+						? chalk.green("passed")
+						: chalk.gray("none"),
+					checkpoint.files.length,
+				]);
+			}
+
+			console.log(chalk.blue(`Run ${run} (${getRunBranch(run)})`));
+			console.log(table.toString());
+		} catch (error) {
+			console.error(
+				chalk.red(`Error: ${error instanceof Error ? error.message : error}`),
+			);
+			process.exit(1);
+		}
+	});
+
+checkpointsCommand
+	.command("show <n>")
+	.description("Show a checkpoint's metadata and changed files")
+	.option("--run <runId>", "Run the checkpoint belongs to")
+	.option("--cwd <dir>", "Repository the run worked in", ".")
+	.action(async (n: string, options) => {
+		try {
+			const checkpoint = await findCheckpoint(n, options.run, options.cwd);
+
+			console.log(chalk.blue(`Checkpoint ${checkpoint.number}`));
+			console.log(`Run: ${checkpoint.runId}`);
+			console.log(`Tag: ${checkpoint.tag}`);
+			console.log(`Commit: ${checkpoint.commit}`);
+			console.log(`Created: ${checkpoint.createdAt}`);
+			console.log(`Message: ${checkpoint.subject}`);
+			console.log(`Iteration: ${checkpoint.iteration}`);
+			console.log(`Cost so far: $${checkpoint.cost.toFixed(4)}`);
+			console.log(`Verification: ${checkpoint.verification}`);
+			console.log(`Files changed (${checkpoint.files.length}):`);
+			for (const file of checkpoint.files) {
+				console.log(`  ${file}`);
+			}
+		} catch (error) {
+			console.error(
+				chalk.red(`Error: ${error instanceof Error ? error.message : error}`),
+			);
+			process.exit(1);
+		}
+	});
+
+checkpointsCommand
+	.command("restore <n>")
+	.description("Move the run branch back to a checkpoint")
+	.option("--run <runId>", "Run the checkpoint belongs to")
+	.option("--cwd <dir>", "Repository the run worked in", ".")
+	.option("-f, --force", "Discard uncommitted changes")
+	.action(async (n: string, options) => {
+		try {
+			const checkpoint = await findCheckpoint(n, options.run, options.cwd);
+			const reset = await restoreCheckpoint(
+				checkpoint,
+				{ force: options.force },
+				options.cwd,
+			);
+			const branch = getRunBranch(checkpoint.runId);
+			console.log(
+				chalk.green(
+					reset
+						? `Reset ${branch} and the working tree to checkpoint ${checkpoint.number}`
+						: `Moved ${branch} to checkpoint ${checkpoint.number}`,
+				),
+			);
+		} catch (error) {
+			console.error(
+				chalk.red(`Error: ${error instanceof Error ? error.message : error}`),
+			);
+			process.exit(1);
+		}
+	});
+
 /**
  * Web command - Start web dashboard
  */
@@ -374,6 +928,8 @@ program
 	.option("--no-auth", "Disable authentication")
 	.option("--db <path>", "Database path", ".agent/ralph.db")
 	.option("--admin-password <password>", "Admin password")
+	.option("--max-concurrent <n>", "Runs active at once", "2")
+	.option("--max-per-repo <n>", "Runs active at once per repository", "1")
 	.action(async (options) => {
 		try {
 			const { startServer } = await import("./web/index.ts");
@@ -388,6 +944,10 @@ program
 					enabled: options.auth,
 				},
 				adminPassword: options.adminPassword,
+				queue: {
+					maxConcurrent: Number.parseInt(options.maxConcurrent, 10),
+					maxPerRepository: Number.parseInt(options.maxPerRepo, 10),
+				},
 			});
 		} catch (error) {
 			console.error(
@@ -2,8 +2,19 @@
  * Configuration management and validation for Ralph Orchestrator
  */
 
+import { stat } from "node:fs/promises";
+import { resolve } from "node:path";
 import {
+	ADAPTER_ERROR_CLASSES,
+	AgentType,
+	DEFAULT_SAFETY_OPTIONS,
+	type FallbackConfig,
+	HOOK_NAMES,
+	type HooksConfig,
+	PROMPT_MODES,
+	type PricingTable,
 	type RalphConfig,
+	STALL_ACTIONS,
 	VALIDATION_THRESHOLDS,
 	createDefaultConfig,
 } from "./types/index.ts";
@@ -34,6 +45,11 @@ export interface ValidationResult {
 	warnings: ValidationWarning[];
 }
 
+/**
+ * Rates of a pricing entry, in validation order
+ */
+const PRICING_RATES = ["input", "output", "cacheRead", "cacheWrite"] as const;
+
 /**
  * Helper to validate numeric fields with optional upper limit
  */
@@ -116,6 +132,235 @@ export class ConfigValidator {
 		);
 	}
 
+	static validateVerifyTimeout(verifyTimeout: number): ValidationError[] {
+		return validateNumericField(
+			verifyTimeout,
+			"verifyTimeout",
+			"Verify timeout",
+		);
+	}
+
+	static validateTaskBudget(
+		taskMaxIterations: number,
+		taskMaxCost: number,
+	): ValidationError[] {
+		return [
+			...validateNumericField(
+				taskMaxIterations,
+				"taskMaxIterations",
+				"Task max iterations",
+			),
+			...validateNumericField(taskMaxCost, "taskMaxCost", "Task max cost"),
+		];
+	}
+
+	static validatePromptMode(promptMode: string): ValidationError[] {
+		if (!(PROMPT_MODES as readonly string[]).includes(promptMode)) {
+			return [
+				{
+					field: "promptMode",
+					message: `Prompt mode must be one of: ${PROMPT_MODES.join(", ")}`,
+				},
+			];
+		}
+		return [];
+	}
+
+	static validateParallelWorkers(parallelWorkers: number): ValidationError[] {
+		if (!Number.isInteger(parallelWorkers) || parallelWorkers < 1) {
+			return [
+				{
+					field: "parallelWorkers",
+					message: "Parallel workers must be a whole number of at least 1",
+				},
+			];
+		}
+		return [];
+	}
+
+	static validateRollback(
+		rollbackAfter: number,
+		maxRollbacks: number,
+	): ValidationError[] {
+		const errors: ValidationError[] = [];
+		if (!Number.isInteger(rollbackAfter) || rollbackAfter < 0) {
+			errors.push({
+				field: "rollbackAfter",
+				message: "Rollback after must be a whole number of at least 0",
+			});
+		}
+		if (!Number.isInteger(maxRollbacks) || maxRollbacks < 0) {
+			errors.push({
+				field: "maxRollbacks",
+				message: "Max rollbacks must be a whole number of at least 0",
+			});
+		}
+		return errors;
+	}
+
+	static validateStall(
+		stallLimit: number,
+		stallAction: string,
+	): ValidationError[] {
+		const errors: ValidationError[] = [];
+		if (!Number.isInteger(stallLimit) || stallLimit < 0) {
+			errors.push({
+				field: "stallLimit",
+				message: "Stall limit must be a whole number of at least 0",
+			});
+		}
+		if (!(STALL_ACTIONS as readonly string[]).includes(stallAction)) {
+			errors.push({
+				field: "stallAction",
+				message: `Stall action must be one of: ${STALL_ACTIONS.join(", ")}`,
+			});
+		}
+		return errors;
+	}
+
+	static validateFeedbackBudget(feedbackBudget: number): ValidationError[] {
+		return validateNumericField(
+			feedbackBudget,
+			"feedbackBudget",
+			"Feedback budget",
+		);
+	}
+
+	static validateSummaryAgent(summaryAgent?: string): ValidationError[] {
+		const agents: string[] = Object.values(AgentType).filter(
+			(agent) => agent !== AgentType.AUTO,
+		);
+		if (summaryAgent !== undefined && !agents.includes(summaryAgent)) {
+			return [
+				{
+					field: "summaryAgent",
+					message: `Summary agent must be one of: ${agents.join(", ")}`,
+				},
+			];
+		}
+		return [];
+	}
+
+	/**
+	 * Validate fallback adapters, error classes and circuit breaker settings
+	 */
+	static validateFallback(fallback: FallbackConfig): ValidationError[] {
+		const errors: ValidationError[] = [];
+		const agents: string[] = Object.values(AgentType).filter(
+			(agent) => agent !== AgentType.AUTO,
+		);
+
+		for (const agent of fallback.order) {
+			if (!agents.includes(agent)) {
+				errors.push({
+					field: "fallback.order",
+					message: `Unknown fallback agent "${agent}" (expected one of: ${agents.join(", ")})`,
+				});
+			}
+		}
+		for (const errorClass of fallback.on) {
+			if (!(ADAPTER_ERROR_CLASSES as readonly string[]).includes(errorClass)) {
+				errors.push({
+					field: "fallback.on",
+					message: `Unknown error class "${errorClass}" (expected one of: ${ADAPTER_ERROR_CLASSES.join(", ")})`,
+				});
+			}
+		}
+		if (
+			!Number.isInteger(fallback.failureThreshold) ||
+			fallback.failureThreshold < 1
+		) {
+			errors.push({
+				field: "fallback.failureThreshold",
+				message: "Failure threshold must be a whole number of at least 1",
+			});
+		}
+		errors.push(
+			...validateNumericField(
+				fallback.cooldown,
+				"fallback.cooldown",
+				"Fallback cooldown",
+			),
+		);
+
+		return errors;
+	}
+
+	static validateHookTimeout(hookTimeout: number): ValidationError[] {
+		return validateNumericField(hookTimeout, "hookTimeout", "Hook timeout");
+	}
+
+	/**
+	 * Validate hook names and commands
+	 */
+	static validateHooks(hooks: HooksConfig): ValidationError[] {
+		const errors: ValidationError[] = [];
+
+		for (const [name, command] of Object.entries(hooks)) {
+			if (!(HOOK_NAMES as readonly string[]).includes(name)) {
+				errors.push({
+					field: `hooks.${name}`,
+					message: `Unknown hook "${name}" (expected one of: ${HOOK_NAMES.join(", ")})`,
+				});
+			} else if (!command?.trim()) {
+				errors.push({
+					field: `hooks.${name}`,
+					message: "Hook command must not be empty",
+				});
+			}
+		}
+
+		return errors;
+	}
+
+	/**
+	 * Validate pricing overrides
+	 */
+	static validatePricing(pricing: PricingTable): ValidationError[] {
+		const errors: ValidationError[] = [];
+
+		for (const [adapter, models] of Object.entries(pricing)) {
+			for (const [model, rates] of Object.entries(models)) {
+				for (const rate of PRICING_RATES) {
+					const value = rates[rate];
+					// Cache rates fall back to the input rate
+					if (value === undefined && rate.startsWith("cache")) {
+						continue;
+					}
+					if (typeof value !== "number" || !(value >= 0)) {
+						errors.push({
+							field: `pricing.${adapter}.${model}.${rate}`,
+							message: "Price must be a non-negative number",
+						});
+					}
+				}
+			}
+		}
+
+		return errors;
+	}
+
+	/**
+	 * Validate token warning threshold
+	 */
+	static validateTokenWarningThreshold(
+		tokenWarningThreshold: number,
+	): ValidationError[] {
+		if (
+			Number.isNaN(tokenWarningThreshold) ||
+			tokenWarningThreshold < 0 ||
+			tokenWarningThreshold > 1
+		) {
+			return [
+				{
+					field: "tokenWarningThreshold",
+					message: "Token warning threshold must be between 0.0 and 1.0",
+				},
+			];
+		}
+		return [];
+	}
+
 	/**
 	 * Validate context threshold
 	 */
@@ -134,12 +379,14 @@ export class ConfigValidator {
 
 	/**
 	 * Validate prompt file exists
+	 * @param workingDir - Directory a relative prompt file is resolved against
 	 */
 	static async validatePromptFile(
 		promptFile: string,
+		workingDir?: string,
 	): Promise<ValidationError[]> {
 		const errors: ValidationError[] = [];
-		const file = Bun.file(promptFile);
+		const file = Bun.file(resolve(workingDir ?? "", promptFile));
 
 		if (!(await file.exists())) {
 			errors.push({
@@ -151,6 +398,31 @@ export class ConfigValidator {
 		return errors;
 	}
 
+	/**
+	 * Validate working directory exists
+	 */
+	static async validateWorkingDir(
+		workingDir?: string,
+	): Promise<ValidationError[]> {
+		if (workingDir === undefined) {
+			return [];
+		}
+
+		try {
+			if ((await stat(workingDir)).isDirectory()) {
+				return [];
+			}
+		} catch {
+			// Reported below
+		}
+		return [
+			{
+				field: "workingDir",
+				message: `Working directory not found: ${workingDir}`,
+			},
+		];
+	}
+
 	/**
 	 * Get warning for large delay
 	 */
@@ -182,6 +454,24 @@ export class ConfigValidator {
 		return [];
 	}
 
+	/**
+	 * Get warning for a rollback threshold the run stops before reaching
+	 */
+	static getWarningRollbackAfterFailureLimit(
+		rollbackAfter: number,
+	): ValidationWarning[] {
+		const limit = DEFAULT_SAFETY_OPTIONS.consecutiveFailureLimit;
+		if (rollbackAfter >= limit) {
+			return [
+				{
+					field: "rollbackAfter",
+					message: `rollback_after is ${rollbackAfter}, but the run stops after ${limit} consecutive failures, so it never rolls back.`,
+				},
+			];
+		}
+		return [];
+	}
+
 	/**
 	 * Get warning for short timeout
 	 */
@@ -210,14 +500,38 @@ export class ConfigValidator {
 			...this.validateCheckpointInterval(config.checkpointInterval),
 			...this.validateRetryDelay(config.retryDelay),
 			...this.validateMaxTokens(config.maxTokens),
+			...ConfigValidator.validateTokenWarningThreshold(
+				config.tokenWarningThreshold,
+			),
 			...this.validateMaxCost(config.maxCost),
+			...ConfigValidator.validatePricing(config.pricing),
 			...this.validateContextThreshold(config.contextThreshold),
+			...ConfigValidator.validatePromptMode(config.promptMode),
+			...ConfigValidator.validateFeedbackBudget(config.feedbackBudget),
+			...ConfigValidator.validateSummaryAgent(config.summaryAgent),
+			...ConfigValidator.validateFallback(config.fallback),
+			...ConfigValidator.validateHookTimeout(config.hookTimeout),
+			...ConfigValidator.validateHooks(config.hooks),
+			...ConfigValidator.validateVerifyTimeout(config.verifyTimeout),
+			...ConfigValidator.validateTaskBudget(
+				config.taskMaxIterations,
+				config.taskMaxCost,
+			),
+			...ConfigValidator.validateParallelWorkers(config.parallelWorkers),
+			...ConfigValidator.validateRollback(
+				config.rollbackAfter,
+				config.maxRollbacks,
+			),
+			...ConfigValidator.validateStall(config.stallLimit, config.stallAction),
 		];
 
 		const warnings: ValidationWarning[] = [
 			...this.getWarningLargeDelay(config.retryDelay),
 			...this.getWarningSingleIteration(config.maxIterations),
 			...this.getWarningShortTimeout(config.maxRuntime),
+			...ConfigValidator.getWarningRollbackAfterFailureLimit(
+				config.rollbackAfter,
+			),
 		];
 
 		return {
@@ -232,10 +546,17 @@ export class ConfigValidator {
 	 */
 	static async validateAsync(config: RalphConfig): Promise<ValidationResult> {
 		const syncResult = this.validate(config);
+		const workingDirErrors = await ConfigValidator.validateWorkingDir(
+			config.workingDir,
+		);
+		syncResult.errors.push(...workingDirErrors);
 
 		// Add async validations if no prompt text is provided
-		if (!config.promptText) {
-			const promptFileErrors = await this.validatePromptFile(config.promptFile);
+		if (!config.promptText && workingDirErrors.length === 0) {
+			const promptFileErrors = await this.validatePromptFile(
+				config.promptFile,
+				config.workingDir,
+			);
 			syncResult.errors.push(...promptFileErrors);
 		}
 
@@ -277,6 +598,7 @@ export async function loadConfig(
  */
 export function createConfigFromArgs(args: {
 	agent?: string;
+	cwd?: string;
 	prompt?: string;
 	promptText?: string;
 	maxIterations?: number;
@@ -284,6 +606,7 @@ export function createConfigFromArgs(args: {
 	checkpointInterval?: number;
 	retryDelay?: number;
 	maxTokens?: number;
+	tokenWarningThreshold?: number;
 	maxCost?: number;
 	contextWindow?: number;
 	contextThreshold?: number;
@@ -292,9 +615,16 @@ export function createConfigFromArgs(args: {
 	maxPromptSize?: number;
 	allowUnsafePaths?: boolean;
 	noGit?: boolean;
+	noRunBranch?: boolean;
 	noArchive?: boolean;
 	verbose?: boolean;
 	dryRun?: boolean;
+	promptMode?: string;
+	workers?: number;
+	rollbackAfter?: number;
+	maxRollbacks?: number;
+	stallLimit?: number;
+	stallAction?: string;
 	outputFormat?: string;
 	outputVerbosity?: string;
 	noTokenUsage?: boolean;
@@ -305,6 +635,7 @@ export function createConfigFromArgs(args: {
 }): RalphConfig {
 	return createDefaultConfig({
 		agent: args.agent as RalphConfig["agent"],
+		workingDir: args.cwd,
 		promptFile: args.prompt,
 		promptText: args.promptText,
 		maxIterations: args.maxIterations,
@@ -312,6 +643,7 @@ export function createConfigFromArgs(args: {
 		checkpointInterval: args.checkpointInterval,
 		retryDelay: args.retryDelay,
 		maxTokens: args.maxTokens,
+		tokenWarningThreshold: args.tokenWarningThreshold,
 		maxCost: args.maxCost,
 		contextWindow: args.contextWindow,
 		contextThreshold: args.contextThreshold,
@@ -320,9 +652,16 @@ export function createConfigFromArgs(args: {
 		maxPromptSize: args.maxPromptSize,
 		allowUnsafePaths: args.allowUnsafePaths,
 		gitCheckpoint: args.noGit !== true,
+		runBranch: args.noRunBranch !== true,
 		archivePrompts: args.noArchive !== true,
 		verbose: args.verbose,
 		dryRun: args.dryRun,
+		promptMode: args.promptMode as RalphConfig["promptMode"],
+		parallelWorkers: args.workers,
+		rollbackAfter: args.rollbackAfter,
+		maxRollbacks: args.maxRollbacks,
+		stallLimit: args.stallLimit,
+		stallAction: args.stallAction as RalphConfig["stallAction"],
 		outputFormat: args.outputFormat as RalphConfig["outputFormat"],
 		outputVerbosity: args.outputVerbosity as RalphConfig["outputVerbosity"],
 		showTokenUsage: args.noTokenUsage !== true,
@@ -7,3 +7,13 @@ export {
 	type ContextManagerOptions,
 	type ContextStats,
 } from "./manager.ts";
+export {
+	type ContextSummarizerOptions,
+	type ContextSummary,
+	type SummaryUsage,
+	ContextSummarizer,
+	SUMMARY_DISALLOWED_TOOLS,
+	SUMMARY_MAX_LENGTH,
+	buildSummaryPrompt,
+	extractiveSummary,
+} from "./summarizer.ts";
@@ -2,6 +2,8 @@
  * Context manager for Ralph Orchestrator
  */
 
+import { resolve } from "node:path";
+import { isChecklistComplete } from "../tasks/checklist.ts";
 import { createLogger } from "../utils/logger.ts";
 
 const logger = createLogger("ralph-orchestrator.context");
@@ -18,6 +20,8 @@ export interface ContextManagerOptions {
 	maxContextSize?: number;
 	/** Cache directory path */
 	cacheDir?: string;
+	/** Directory relative prompt and cache paths are resolved against */
+	workingDir?: string;
 }
 
 /**
@@ -25,7 +29,9 @@ export interface ContextManagerOptions {
  */
 export interface ContextStats {
 	promptLength: number;
+	/** Length of the unsummarized output history */
 	contextLength: number;
+	summaryLength: number;
 	errorCount: number;
 	lastUpdated: string | null;
 }
@@ -38,7 +44,10 @@ export class ContextManager {
 	private promptText: string | null;
 	private readonly maxContextSize: number;
 	private readonly cacheDir: string;
-	private context = "";
+	private readonly workingDir: string | null;
+	// Output of iterations since the last summary, oldest first
+	private history: string[] = [];
+	private summary = "";
 	private errorHistory: string[] = [];
 	private lastUpdated: Date | null = null;
 
@@ -46,7 +55,15 @@ export class ContextManager {
 		this.promptFile = options.promptFile ?? null;
 		this.promptText = options.promptText ?? null;
 		this.maxContextSize = options.maxContextSize ?? 8000;
-		this.cacheDir = options.cacheDir ?? ".agent/cache";
+		this.workingDir = options.workingDir ?? null;
+		this.cacheDir = this.resolvePath(options.cacheDir ?? ".agent/cache");
+	}
+
+	/**
+	 * Resolve a path against the working directory, if one was given
+	 */
+	private resolvePath(path: string): string {
+		return this.workingDir ? resolve(this.workingDir, path) : path;
 	}
 
 	/**
@@ -60,7 +77,7 @@ export class ContextManager {
 
 		// Read from file
 		if (this.promptFile) {
-			const file = Bun.file(this.promptFile);
+			const file = Bun.file(this.resolvePath(this.promptFile));
 			if (await file.exists()) {
 				return await file.text();
 			}
@@ -89,15 +106,25 @@ export class ContextManager {
 	 * Update context with new output
 	 */
 	updateContext(output: string): void {
-		this.context = output;
+		let context = output;
 		this.lastUpdated = new Date();
 
 		// Trim if too long
-		if (this.context.length > this.maxContextSize) {
-			const trimmed = this.context.slice(-this.maxContextSize);
-			this.context = `[...truncated...]\n${trimmed}`;
+		if (context.length > this.maxContextSize) {
+			const trimmed = context.slice(-this.maxContextSize);
+			context = `[...truncated...]\n${trimmed}`;
 			logger.debug("Context truncated due to size limit");
 		}
+		this.history.push(context);
+	}
+
+	/**
+	 * Replace the rolling summary, keeping only the most recent outputs
+	 * @param keep Number of outputs to keep unsummarized
+	 */
+	compact(summary: string, keep = 1): void {
+		this.summary = summary;
+		this.history = keep > 0 ? this.history.slice(-keep) : [];
 	}
 
 	/**
@@ -116,7 +143,21 @@ export class ContextManager {
 	 * Get current context
 	 */
 	getContext(): string {
-		return this.context;
+		return this.history.at(-1) ?? "";
+	}
+
+	/**
+	 * Get the outputs not yet folded into the summary, oldest first
+	 */
+	getHistory(): string[] {
+		return [...this.history];
+	}
+
+	/**
+	 * Get the rolling summary of earlier outputs
+	 */
+	getSummary(): string {
+		return this.summary;
 	}
 
 	/**
@@ -146,7 +187,8 @@ export class ContextManager {
 	 * Reset context
 	 */
 	reset(): void {
-		this.context = "";
+		this.history = [];
+		this.summary = "";
 		this.errorHistory = [];
 		this.lastUpdated = null;
 	}
@@ -165,14 +207,18 @@ export class ContextManager {
 
 		return {
 			promptLength,
-			contextLength: this.context.length,
+			contextLength: this.history.reduce(
+				(total, output) => total + output.length,
+				0,
+			),
+			summaryLength: this.summary.length,
 			errorCount: this.errorHistory.length,
 			lastUpdated: this.lastUpdated?.toISOString() ?? null,
 		};
 	}
 
 	/**
-	 * Check if prompt file has completion marker
+	 * Check if the prompt has a completion marker or a fully checked checklist
 	 */
 	async hasCompletionMarker(): Promise<boolean> {
 		try {
@@ -190,7 +236,7 @@ export class ContextManager {
 				}
 			}
 
-			return false;
+			return isChecklistComplete(prompt);
 		} catch {
 			return false;
 		}
@@ -204,10 +250,22 @@ export class ContextManager {
 			throw new Error("No prompt file specified");
 		}
 
-		await Bun.write(this.promptFile, content);
+		await Bun.write(this.resolvePath(this.promptFile), content);
 		logger.debug(`Updated prompt file: ${this.promptFile}`);
 	}
 
+	/**
+	 * Replace the prompt, writing it back to the prompt file unless it was
+	 * given as direct text
+	 */
+	async updatePrompt(content: string): Promise<void> {
+		if (this.promptText) {
+			this.promptText = content;
+			return;
+		}
+		await this.writePrompt(content);
+	}
+
 	/**
 	 * Ensure cache directory exists
 	 */
@@ -223,7 +281,9 @@ export class ContextManager {
 		await this.ensureCacheDir();
 		const cachePath = `${this.cacheDir}/${key}.json`;
 		const data = {
-			context: this.context,
+			context: this.getContext(),
+			history: this.history,
+			summary: this.summary,
 			errorHistory: this.errorHistory,
 			lastUpdated: this.lastUpdated?.toISOString(),
 			savedAt: new Date().toISOString(),
@@ -231,6 +291,18 @@ export class ContextManager {
 		await Bun.write(cachePath, JSON.stringify(data, null, 2));
 	}
 
+	/**
+	 * Save a summary to the cache directory for inspection, returns its path
+	 */
+	async saveSummary(name: string, content: string): Promise<string> {
+		const { mkdir } = await import("node:fs/promises");
+		const summaryDir = `${this.cacheDir}/summaries`;
+		await mkdir(summaryDir, { recursive: true });
+		const summaryPath = `${summaryDir}/${name}.md`;
+		await Bun.write(summaryPath, content);
+		return summaryPath;
+	}
+
 	/**
 	 * Load context from cache
 	 */
@@ -244,7 +316,8 @@ export class ContextManager {
 
 		try {
 			const data = await file.json();
-			this.context = data.context ?? "";
+			this.history = data.history ?? (data.context ? [data.context] : []);
+			this.summary = data.summary ?? "";
 			this.errorHistory = data.errorHistory ?? [];
 			this.lastUpdated = data.lastUpdated ? new Date(data.lastUpdated) : null;
 			return true;
@@ -0,0 +1,256 @@
+/**
+ * Context summarization for Ralph Orchestrator
+ *
+ * Folds the output of earlier iterations into a rolling summary, either by
+ * asking a (usually cheaper) adapter to write it or by extracting the lines
+ * that look most informative.
+ */
+
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { ToolAdapter } from "../adapters/base.ts";
+import type { ToolResponse } from "../types/index.ts";
+import { createLogger } from "../utils/logger.ts";
+
+const logger = createLogger("ralph-orchestrator.context");
+
+/**
+ * Default maximum length of a summary in characters
+ */
+export const SUMMARY_MAX_LENGTH = 4000;
+
+/**
+ * Tools the summary agent may not use: its prompt is agent output, which
+ * must not be able to make it change files, run commands or reach the network
+ */
+export const SUMMARY_DISALLOWED_TOOLS = [
+	"Bash",
+	"Edit",
+	"MultiEdit",
+	"Write",
+	"NotebookEdit",
+	"WebFetch",
+	"WebSearch",
+	"Task",
+];
+
+/**
+ * Lines longer than this are treated as data rather than prose
+ */
+const MAX_SALIENT_LINE_LENGTH = 300;
+
+/**
+ * Lines worth keeping in an extractive summary
+ */
+const SALIENT_PATTERN =
+	/\b(error|fail(ed|ure)?|fix(ed)?|creat(ed|e)|add(ed)?|updat(ed|e)|remov(ed|e)|implement(ed)?|complet(ed|e)|commit(ted)?|test(s|ed)?|warn(ing)?|block(ed|er)?|decid(ed|e)|todo|next)\b/i;
+
+/**
+ * Summarizer options
+ */
+export interface ContextSummarizerOptions {
+	/** Adapter that writes summaries; extractive summaries are used without one */
+	adapter?: ToolAdapter | null;
+	/** Model passed to the adapter */
+	model?: string;
+	/** Maximum summary length in characters */
+	maxLength?: number;
+	/** Adapter timeout in milliseconds */
+	timeout?: number;
+}
+
+/**
+ * Tokens an adapter reported for a summary, to be charged to the run
+ */
+export type SummaryUsage = Pick<
+	ToolResponse,
+	| "tokensUsed"
+	| "inputTokens"
+	| "outputTokens"
+	| "cachedTokens"
+	| "cacheWriteTokens"
+	| "model"
+> & { adapter: string };
+
+/**
+ * A rolling summary and how it was produced
+ */
+export interface ContextSummary {
+	text: string;
+	method: "adapter" | "extractive";
+	/** Adapter that wrote the summary */
+	adapter?: string;
+	/** Tokens used by the adapter call, even if its summary was not used */
+	usage?: SummaryUsage;
+}
+
+/**
+ * Summarizes earlier iteration output into a rolling summary
+ */
+export class ContextSummarizer {
+	private readonly adapter: ToolAdapter | null;
+	private readonly model?: string;
+	private readonly maxLength: number;
+	private readonly timeout: number;
+
+	constructor(options: ContextSummarizerOptions = {}) {
+		this.adapter = options.adapter ?? null;
+		this.model = options.model;
+		this.maxLength = options.maxLength ?? SUMMARY_MAX_LENGTH;
+		this.timeout = options.timeout ?? 120000;
+	}
+
+	/**
+	 * Merge iteration outputs (oldest first) into the previous summary,
+	 * falling back to an extractive summary if the adapter fails
+	 *
+	 * The adapter runs without editing, shell or web tools in an empty
+	 * temporary directory, away from the repository.
+	 */
+	async summarize(
+		previousSummary: string,
+		outputs: string[],
+	): Promise<ContextSummary> {
+		if (this.adapter) {
+			const cwd = await mkdtemp(join(tmpdir(), "ralph-summary-"));
+			let response: ToolResponse;
+			try {
+				response = await this.adapter.execute(
+					buildSummaryPrompt(previousSummary, outputs, this.maxLength),
+					{
+						raw: true,
+						model: this.model,
+						timeout: this.timeout,
+						disallowedTools: SUMMARY_DISALLOWED_TOOLS,
+						cwd,
+					},
+				);
+			} finally {
+				await rm(cwd, { recursive: true, force: true });
+			}
+			const usage = getSummaryUsage(this.adapter.name, response);
+			const text = response.output.trim();
+			if (response.success && text) {
+				return {
+					text: text.slice(0, this.maxLength),
+					method: "adapter",
+					adapter: this.adapter.name,
+					usage,
+				};
+			}
+			logger.warn(
+				`Summarizing with ${this.adapter.name} failed (${response.error ?? "empty output"}), using an extractive summary`,
+			);
+			return {
+				text: extractiveSummary(previousSummary, outputs, this.maxLength),
+				method: "extractive",
+				usage,
+			};
+		}
+
+		return {
+			text: extractiveSummary(previousSummary, outputs, this.maxLength),
+			method: "extractive",
+		};
+	}
+}
+
+/**
+ * Get the tokens a summary call reported, if any
+ */
+function getSummaryUsage(
+	adapter: string,
+	response: ToolResponse,
+): SummaryUsage | undefined {
+	if (!response.tokensUsed && !response.inputTokens && !response.outputTokens) {
+		return undefined;
+	}
+	return {
+		adapter,
+		tokensUsed: response.tokensUsed,
+		inputTokens: response.inputTokens,
+		outputTokens: response.outputTokens,
+		cachedTokens: response.cachedTokens,
+		cacheWriteTokens: response.cacheWriteTokens,
+		model: response.model,
+	};
+}
+
+/**
+ * Build the prompt asking an adapter to update the summary
+ */
+export function buildSummaryPrompt(
+	previousSummary: string,
+	outputs: string[],
+	maxLength = SUMMARY_MAX_LENGTH,
+): string {
+	const sections = [
+		`Summarize the work of an AI coding agent across several iterations in at most ${maxLength} characters. Do not use any tools or change any files; reply with the summary only.`,
+		"Keep what the next iteration needs: what was changed and where, decisions made, errors hit and whether they were fixed, and what is still open. Drop anything already superseded.",
+	];
+	if (previousSummary) {
+		sections.push(`## Summary so far\n\n${previousSummary}`);
+	}
+	for (const [index, output] of outputs.entries()) {
+		sections.push(`## Iteration output ${index + 1}\n\n${output}`);
+	}
+	return sections.join("\n\n");
+}
+
+/**
+ * Summarize by keeping the previous summary and the lines of each output
+ * that mention changes, errors or decisions, dropping the oldest lines once
+ * the summary is too long
+ */
+export function extractiveSummary(
+	previousSummary: string,
+	outputs: string[],
+	maxLength = SUMMARY_MAX_LENGTH,
+): string {
+	const lines = previousSummary.split("\n").filter((line) => line.trim());
+	for (const output of outputs) {
+		for (const line of extractSalientLines(output)) {
+			if (!lines.includes(line)) {
+				lines.push(line);
+			}
+		}
+	}
+
+	let length = lines.join("\n").length;
+	while (lines.length > 1 && length > maxLength) {
+		length -= (lines.shift()?.length ?? 0) + 1;
+	}
+	return lines.join("\n").slice(-maxLength);
+}
+
+/**
+ * Get the informative prose lines of an output as list items, or its last
+ * line if none stand out
+ */
+function extractSalientLines(output: string): string[] {
+	const salient: string[] = [];
+	let lastLine = "";
+	let inCodeBlock = false;
+
+	for (const raw of output.split("\n")) {
+		const line = raw.trim();
+		if (line.startsWith("```")) {
+			inCodeBlock = !inCodeBlock;
+			continue;
+		}
+		if (inCodeBlock || !line || line.length > MAX_SALIENT_LINE_LENGTH) {
+			continue;
+		}
+		const text = line.replace(/^([-*+]|\d+[.)])\s+/, "");
+		lastLine = text;
+		if (SALIENT_PATTERN.test(text)) {
+			salient.push(`- ${text}`);
+		}
+	}
+
+	if (salient.length === 0 && lastLine) {
+		salient.push(`- ${lastLine}`);
+	}
+	return salient;
+}
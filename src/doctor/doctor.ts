@@ -0,0 +1,387 @@
+/**
+ * Preflight checks for Ralph Orchestrator (`ralph doctor`)
+ */
+
+import { Database } from "bun:sqlite";
+import { stat } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import {
+	ACPAdapter,
+	type ACPAdapterOptions,
+	type ToolAdapter,
+	classifyError,
+	createAdapter,
+} from "../adapters/index.ts";
+import { ConfigValidator } from "../config.ts";
+import { PricingRegistry } from "../metrics/pricing.ts";
+import { SONAR_SCAN_SCRIPT } from "../sonarqube/executor.ts";
+import {
+	type AdapterDiagnosis,
+	AgentType,
+	type DoctorCheck,
+	type DoctorReport,
+	type RalphConfig,
+} from "../types/index.ts";
+import { getStatus, isGitRepo } from "../utils/git.ts";
+import { extractErrorMessage } from "../utils/shared.ts";
+import { SCHEMA_VERSION } from "../web/database.ts";
+
+/**
+ * Directories `ralph init` creates under `.agent`
+ */
+export const AGENT_DIRECTORIES = [
+	"workspace",
+	"prompts",
+	"checkpoints",
+	"metrics",
+	"cache",
+] as const;
+
+/**
+ * Adapters checked, in the order auto-detection tries them
+ */
+const ADAPTER_TYPES = [
+	AgentType.CLAUDE,
+	AgentType.Q,
+	AgentType.GEMINI,
+	AgentType.ACP,
+] as const;
+
+const PROBE_PROMPT = "Reply with the single word OK.";
+
+/**
+ * Options for runDoctor
+ */
+export interface DoctorOptions {
+	/** Send a trivial prompt to each installed adapter (default: true) */
+	probe?: boolean;
+	/** Timeout for each prompt or handshake in milliseconds (default: 30000) */
+	timeout?: number;
+	/** Web dashboard database to check (default: .agent/ralph.db) */
+	dbPath?: string;
+}
+
+/**
+ * Check whether an adapter is installed and can answer a prompt
+ *
+ * ACP adapters are checked with an `initialize` handshake instead of a
+ * prompt.
+ * @param cwd - Directory the prompt or handshake runs in
+ */
+export async function diagnoseAdapter(
+	adapter: ToolAdapter,
+	options: DoctorOptions = {},
+	cwd: string = process.cwd(),
+): Promise<AdapterDiagnosis> {
+	const timeout = options.timeout ?? 30000;
+	const installed = await adapter.checkAvailability();
+	const diagnosis: AdapterDiagnosis = {
+		name: adapter.name,
+		installed,
+		version: installed ? await adapter.getVersion() : null,
+		auth: "skip",
+		models: adapter.getSupportedModels(),
+	};
+
+	if (!installed) {
+		diagnosis.authDetail = "not installed";
+		return diagnosis;
+	}
+	if (options.probe === false) {
+		diagnosis.authDetail = "prompt skipped";
+		return diagnosis;
+	}
+
+	if (adapter instanceof ACPAdapter) {
+		const handshake = await adapter.checkHandshake(timeout, cwd);
+		diagnosis.auth = handshake.passed ? "ok" : "fail";
+		diagnosis.authDetail = handshake.error;
+		return diagnosis;
+	}
+
+	const response = await adapter.execute(PROBE_PROMPT, {
+		timeout,
+		raw: true,
+		cwd,
+	});
+	if (response.success) {
+		diagnosis.auth = "ok";
+	} else {
+		const errorClass = classifyError(response);
+		diagnosis.auth = "fail";
+		diagnosis.authDetail =
+			errorClass === "auth"
+				? "not authenticated"
+				: `${errorClass}: ${response.error ?? "unknown error"}`;
+	}
+	return diagnosis;
+}
+
+/**
+ * Check which adapter the configured agent resolves to and whether it works
+ */
+function checkAgent(
+	config: RalphConfig,
+	adapters: AdapterDiagnosis[],
+): DoctorCheck {
+	const usable = adapters.filter(
+		(adapter) => adapter.installed && adapter.auth !== "fail",
+	);
+
+	if (config.agent === AgentType.AUTO) {
+		// Auto-detection picks the first installed adapter, working or not
+		const detected = adapters.find((adapter) => adapter.installed);
+		if (!detected) {
+			return { name: "Agent", status: "fail", detail: "no adapter installed" };
+		}
+		if (detected.auth === "fail") {
+			return {
+				name: "Agent",
+				status: "fail",
+				detail: `auto-detection picks ${detected.name}, which failed${usable.length > 0 ? `; use --agent with ${usable.map((adapter) => adapter.name).join(", ")}` : ""}`,
+			};
+		}
+		return {
+			name: "Agent",
+			status: "ok",
+			detail: `auto-detection picks ${detected.name}`,
+		};
+	}
+
+	const name = config.agent === AgentType.Q ? "qchat" : config.agent;
+	const configured = adapters.find((adapter) => adapter.name === name);
+	if (!configured?.installed) {
+		return {
+			name: "Agent",
+			status: "fail",
+			detail: `${config.agent} is not installed`,
+		};
+	}
+	return {
+		name: "Agent",
+		status: configured.auth === "fail" ? "fail" : "ok",
+		detail:
+			configured.auth === "fail"
+				? `${config.agent} failed: ${configured.authDetail}`
+				: config.agent,
+	};
+}
+
+/**
+ * Check the configuration for validation errors
+ */
+function checkConfig(config: RalphConfig): DoctorCheck {
+	const { errors, warnings } = ConfigValidator.validate(config);
+	if (errors.length > 0) {
+		return {
+			name: "Config",
+			status: "fail",
+			detail: errors
+				.map((error) => `${error.field}: ${error.message}`)
+				.join("; "),
+		};
+	}
+	return warnings.length > 0
+		? {
+				name: "Config",
+				status: "warn",
+				detail: warnings.map((warning) => warning.message).join("; "),
+			}
+		: { name: "Config", status: "ok", detail: "valid" };
+}
+
+/**
+ * Check the git repository and its uncommitted changes
+ */
+async function checkGit(
+	config: RalphConfig,
+	cwd: string,
+): Promise<DoctorCheck> {
+	if (!(await isGitRepo(cwd))) {
+		return {
+			name: "Git",
+			status: config.gitCheckpoint ? "fail" : "skip",
+			detail: config.gitCheckpoint
+				? "not a git repository (git checkpoints are enabled)"
+				: "not a git repository",
+		};
+	}
+
+	const status = await getStatus(cwd);
+	const changes = status.stdout.split("\n").filter(Boolean).length;
+	return changes > 0
+		? {
+				name: "Git",
+				status: "warn",
+				detail: `${changes} uncommitted change${changes === 1 ? "" : "s"}`,
+			}
+		: { name: "Git", status: "ok", detail: "clean working tree" };
+}
+
+/**
+ * Check the `.agent` directories created by `ralph init`
+ */
+async function checkAgentLayout(cwd: string): Promise<DoctorCheck> {
+	const missing: string[] = [];
+	for (const directory of AGENT_DIRECTORIES) {
+		const path = join(".agent", directory);
+		if (!(await isDirectory(join(cwd, path)))) {
+			missing.push(path);
+		}
+	}
+
+	return missing.length > 0
+		? {
+				name: ".agent layout",
+				status: "warn",
+				detail: `missing ${missing.join(", ")} (run \`ralph init\`)`,
+			}
+		: { name: ".agent layout", status: "ok", detail: "initialized" };
+}
+
+/**
+ * Check that the prompt exists and fits in maxPromptSize
+ */
+async function checkPrompt(
+	config: RalphConfig,
+	cwd: string,
+): Promise<DoctorCheck> {
+	let size: number;
+	if (config.promptText) {
+		size = new TextEncoder().encode(config.promptText).length;
+	} else {
+		const file = Bun.file(resolve(cwd, config.promptFile));
+		if (!(await file.exists())) {
+			return {
+				name: "Prompt",
+				status: "fail",
+				detail: `${config.promptFile} not found`,
+			};
+		}
+		size = file.size;
+	}
+
+	return {
+		name: "Prompt",
+		status: size > config.maxPromptSize ? "fail" : "ok",
+		detail: `${size} of ${config.maxPromptSize} bytes`,
+	};
+}
+
+/**
+ * Check the scan script when SonarQube is enabled
+ */
+async function checkSonarQube(
+	config: RalphConfig,
+	cwd: string,
+): Promise<DoctorCheck> {
+	if (!config.sonarqube?.enabled) {
+		return { name: "SonarQube", status: "skip", detail: "disabled" };
+	}
+
+	const found = await Bun.file(join(cwd, SONAR_SCAN_SCRIPT)).exists();
+	return {
+		name: "SonarQube",
+		status: found ? "ok" : "fail",
+		detail: found ? SONAR_SCAN_SCRIPT : `${SONAR_SCAN_SCRIPT} not found`,
+	};
+}
+
+/**
+ * Check the web dashboard database's schema version without migrating it
+ */
+async function checkDatabase(dbPath: string): Promise<DoctorCheck> {
+	if (!(await Bun.file(dbPath).exists())) {
+		return { name: "Web database", status: "skip", detail: "not created yet" };
+	}
+
+	let db: Database | undefined;
+	try {
+		db = new Database(dbPath, { readonly: true });
+		const { user_version: version } = db
+			.prepare("PRAGMA user_version")
+			.get() as { user_version: number };
+
+		if (version > SCHEMA_VERSION) {
+			return {
+				name: "Web database",
+				status: "fail",
+				detail: `schema v${version} is newer than this version of Ralph (v${SCHEMA_VERSION})`,
+			};
+		}
+		return {
+			name: "Web database",
+			status: version < SCHEMA_VERSION ? "warn" : "ok",
+			detail:
+				version < SCHEMA_VERSION
+					? `schema v${version}, migrates to v${SCHEMA_VERSION} when the dashboard starts`
+					: `schema v${version}`,
+		};
+	} catch (error) {
+		return {
+			name: "Web database",
+			status: "fail",
+			detail: extractErrorMessage(error),
+		};
+	} finally {
+		db?.close();
+	}
+}
+
+/**
+ * Whether a path is an existing directory
+ */
+async function isDirectory(path: string): Promise<boolean> {
+	try {
+		return (await stat(path)).isDirectory();
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Check every adapter and the environment a run depends on
+ *
+ * Project checks look at the config's working directory.
+ */
+export async function runDoctor(
+	config: RalphConfig,
+	options: DoctorOptions = {},
+): Promise<DoctorReport> {
+	const cwd = resolve(config.workingDir ?? process.cwd());
+	const acpOptions: ACPAdapterOptions = {
+		agentCommand: config.acpAgent,
+		permissionMode:
+			config.acpPermissionMode as ACPAdapterOptions["permissionMode"],
+	};
+	const pricing = new PricingRegistry(config.pricing);
+
+	const adapters: AdapterDiagnosis[] = [];
+	for (const type of ADAPTER_TYPES) {
+		const adapter = createAdapter(
+			type,
+			config.adapters[type] ?? {},
+			acpOptions,
+		);
+		adapter.setPricing(pricing);
+		adapters.push(await diagnoseAdapter(adapter, options, cwd));
+	}
+
+	const checks: DoctorCheck[] = [
+		checkConfig(config),
+		checkAgent(config, adapters),
+		await checkGit(config, cwd),
+		await checkAgentLayout(cwd),
+		await checkPrompt(config, cwd),
+		await checkSonarQube(config, cwd),
+		await checkDatabase(options.dbPath ?? ".agent/ralph.db"),
+	];
+
+	return {
+		adapters,
+		checks,
+		healthy:
+			checks.every((check) => check.status !== "fail") &&
+			adapters.every((adapter) => adapter.auth !== "fail"),
+	};
+}
@@ -0,0 +1,10 @@
+/**
+ * Doctor exports for Ralph Orchestrator
+ */
+
+export {
+	AGENT_DIRECTORIES,
+	type DoctorOptions,
+	diagnoseAdapter,
+	runDoctor,
+} from "./doctor.ts";
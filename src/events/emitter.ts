@@ -0,0 +1,109 @@
+/**
+ * Typed event emitter for Ralph Orchestrator
+ */
+
+import { createLogger } from "../utils/logger.ts";
+
+const logger = createLogger("ralph-orchestrator.events");
+
+/**
+ * Listener for a single event payload
+ */
+export type EventListener<T> = (payload: T) => void;
+
+/**
+ * Event emitter keyed by an event map of `name -> payload`
+ *
+ * Listener errors, including rejected promises from async listeners, are
+ * logged and never propagate back into the emitting code.
+ */
+export class TypedEventEmitter<Events extends object> {
+	private readonly listeners = new Map<
+		keyof Events,
+		Set<EventListener<never>>
+	>();
+
+	/**
+	 * Register a listener, returns an unsubscribe function
+	 */
+	on<K extends keyof Events>(
+		event: K,
+		listener: EventListener<Events[K]>,
+	): () => void {
+		let set = this.listeners.get(event);
+		if (!set) {
+			set = new Set();
+			this.listeners.set(event, set);
+		}
+		set.add(listener as EventListener<never>);
+		return () => this.off(event, listener);
+	}
+
+	/**
+	 * Register a listener that is removed after its first call
+	 */
+	once<K extends keyof Events>(
+		event: K,
+		listener: EventListener<Events[K]>,
+	): () => void {
+		const unsubscribe = this.on(event, (payload) => {
+			unsubscribe();
+			return listener(payload);
+		});
+		return unsubscribe;
+	}
+
+	/**
+	 * Remove a listener
+	 */
+	off<K extends keyof Events>(
+		event: K,
+		listener: EventListener<Events[K]>,
+	): void {
+		this.listeners.get(event)?.delete(listener as EventListener<never>);
+	}
+
+	/**
+	 * Call every listener registered for an event
+	 */
+	emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+		const set = this.listeners.get(event);
+		if (!set) return;
+
+		for (const listener of [...set]) {
+			try {
+				const result: unknown = (listener as EventListener<Events[K]>)(payload);
+				if (result instanceof Promise) {
+					result.catch((error) => this.reportError(event, error));
+				}
+			} catch (error) {
+				this.reportError(event, error);
+			}
+		}
+	}
+
+	/**
+	 * Count listeners for an event
+	 */
+	listenerCount(event: keyof Events): number {
+		return this.listeners.get(event)?.size ?? 0;
+	}
+
+	/**
+	 * Remove all listeners, or all listeners for one event
+	 */
+	removeAllListeners(event?: keyof Events): void {
+		if (event === undefined) {
+			this.listeners.clear();
+		} else {
+			this.listeners.delete(event);
+		}
+	}
+
+	/**
+	 * Log a listener failure
+	 */
+	private reportError(event: keyof Events, error: unknown): void {
+		logger.warn(`Listener for ${String(event)} failed: ${error}`);
+	}
+}
@@ -0,0 +1,5 @@
+/**
+ * Event exports for Ralph Orchestrator
+ */
+
+export { type EventListener, TypedEventEmitter } from "./emitter.ts";
@@ -0,0 +1,10 @@
+/**
+ * Hook exports for Ralph Orchestrator
+ */
+
+export {
+	HookRunner,
+	type HookContext,
+	type HookResult,
+	buildHookEnv,
+} from "./runner.ts";
@@ -0,0 +1,142 @@
+/**
+ * Lifecycle hook runner for Ralph Orchestrator
+ */
+
+import type { HookName, HooksConfig } from "../types/index.ts";
+import { createLogger } from "../utils/logger.ts";
+import { extractErrorMessage } from "../utils/shared.ts";
+import { runShellCommand } from "../utils/shell.ts";
+
+const logger = createLogger("ralph-orchestrator.hooks");
+
+/**
+ * Run context passed to hooks as environment variables
+ */
+export interface HookContext {
+	runId: string;
+	iteration: number;
+	/** Outcome of the latest iteration, undefined before the first one */
+	success?: boolean;
+	/** Total cost so far in USD */
+	cost: number;
+	lastError?: string;
+}
+
+/**
+ * Result of running a hook command
+ */
+export interface HookResult {
+	hook: HookName;
+	command: string;
+	success: boolean;
+	exitCode: number;
+	stdout: string;
+	stderr: string;
+	/** Duration in seconds */
+	duration: number;
+}
+
+/**
+ * Runs the shell commands configured for lifecycle hooks
+ */
+export class HookRunner {
+	private readonly hooks: HooksConfig;
+	private readonly timeout: number;
+	private readonly cwd?: string;
+
+	/**
+	 * @param timeout Timeout per hook in seconds
+	 */
+	constructor(hooks: HooksConfig, timeout: number, cwd?: string) {
+		this.hooks = hooks;
+		this.timeout = timeout;
+		this.cwd = cwd;
+	}
+
+	/**
+	 * Check whether a hook has a command configured
+	 */
+	has(hook: HookName): boolean {
+		return Boolean(this.hooks[hook]?.trim());
+	}
+
+	/**
+	 * Get the names of configured hooks
+	 */
+	getConfiguredHooks(): HookName[] {
+		return (Object.keys(this.hooks) as HookName[]).filter((hook) =>
+			this.has(hook),
+		);
+	}
+
+	/**
+	 * Run a hook, returns null when the hook is not configured
+	 */
+	async run(hook: HookName, context: HookContext): Promise<HookResult | null> {
+		const command = this.hooks[hook]?.trim();
+		if (!command) {
+			return null;
+		}
+
+		logger.info(`Running ${hook} hook: ${command}`);
+		const startTime = Date.now();
+
+		try {
+			const { stdout, stderr, exitCode, duration } = await runShellCommand(
+				command,
+				{
+					cwd: this.cwd,
+					env: buildHookEnv(hook, context),
+					timeout: this.timeout * 1000,
+				},
+			);
+			const result: HookResult = {
+				hook,
+				command,
+				success: exitCode === 0,
+				exitCode,
+				stdout,
+				stderr,
+				duration,
+			};
+
+			if (result.success) {
+				logger.debug(`${hook} hook completed in ${result.duration}s`);
+			} else {
+				logger.warn(
+					`${hook} hook exited with code ${exitCode}${stderr ? `: ${stderr.trim()}` : ""}`,
+				);
+			}
+			return result;
+		} catch (error) {
+			const message = extractErrorMessage(error);
+			logger.warn(`${hook} hook failed to start: ${message}`);
+			return {
+				hook,
+				command,
+				success: false,
+				exitCode: -1,
+				stdout: "",
+				stderr: message,
+				duration: (Date.now() - startTime) / 1000,
+			};
+		}
+	}
+}
+
+/**
+ * Build the environment variables describing the run for a hook
+ */
+export function buildHookEnv(
+	hook: HookName,
+	context: HookContext,
+): Record<string, string> {
+	return {
+		RALPH_HOOK: hook,
+		RALPH_RUN_ID: context.runId,
+		RALPH_ITERATION: String(context.iteration),
+		RALPH_SUCCESS: context.success === undefined ? "" : String(context.success),
+		RALPH_COST: context.cost.toFixed(4),
+		RALPH_LAST_ERROR: context.lastError ?? "",
+	};
+}
@@ -35,12 +35,24 @@ export {
 	GeminiAdapter,
 	QChatAdapter,
 	ACPAdapter,
+	DryRunAdapter,
 	createAdapter,
 	autoDetectAdapter,
 	getAdapter,
 	getAvailableAdapters,
 } from "./adapters/index.ts";
 
+// Export doctor
+export { runDoctor, type DoctorOptions } from "./doctor/index.ts";
+
+// Export checkpoints
+export {
+	type Checkpoint,
+	getCheckpoint,
+	listCheckpoints,
+	restoreCheckpoint,
+} from "./checkpoints/index.ts";
+
 // Export orchestrator
 export { RalphOrchestrator, type OrchestratorState } from "./orchestrator.ts";
 
@@ -2,72 +2,76 @@
  * Cost tracking for Ralph Orchestrator
  */
 
-import type { CostEntry, CostSummary } from "../types/index.ts";
+import type { CostEntry, CostSummary, UsageDetails } from "../types/index.ts";
 import { toJsonString } from "../utils/shared.ts";
+import { PricingRegistry } from "./pricing.ts";
 
 /**
- * Cost per 1K tokens by tool (approximate)
+ * Built-in prices, used by the static estimate
  */
-export const TOOL_COSTS: Record<string, { input: number; output: number }> = {
-	claude: {
-		input: 0.003, // $3 per 1M input tokens
-		output: 0.015, // $15 per 1M output tokens
-	},
-	gemini: {
-		input: 0.00025, // $0.25 per 1M input tokens
-		output: 0.001, // $1 per 1M output tokens
-	},
-	qchat: {
-		input: 0, // Free/local
-		output: 0,
-	},
-	acp: {
-		input: 0, // ACP doesn't provide billing info
-		output: 0, // Cost depends on underlying agent
-	},
-	"gpt-4": {
-		input: 0.03, // $30 per 1M input tokens
-		output: 0.06, // $60 per 1M output tokens
-	},
-};
+const defaultPricing = new PricingRegistry();
 
 /**
  * Cost tracker class
  */
 export class CostTracker {
 	private totalCost = 0;
+	private inputTokens = 0;
+	private outputTokens = 0;
+	private cachedTokens = 0;
+	private cacheWriteTokens = 0;
 	private readonly costsByTool: Map<string, number> = new Map();
 	private usageHistory: CostEntry[] = [];
 
+	constructor(private readonly pricing = defaultPricing) {}
+
 	/**
 	 * Add usage and calculate cost
 	 * @param tool Name of the AI tool
 	 * @param inputTokens Number of input tokens
 	 * @param outputTokens Number of output tokens
+	 * @param details Prompt cache usage and the model, when known
 	 * @returns Cost for this usage
 	 */
-	addUsage(tool: string, inputTokens: number, outputTokens: number): number {
-		const costs = TOOL_COSTS[tool] ?? TOOL_COSTS.qchat!;
-
-		const inputCost = (inputTokens / 1000) * costs.input;
-		const outputCost = (outputTokens / 1000) * costs.output;
-		const total = inputCost + outputCost;
-
-		// Update tracking
-		this.totalCost += total;
-		const currentToolCost = this.costsByTool.get(tool) ?? 0;
-		this.costsByTool.set(tool, currentToolCost + total);
+	addUsage(
+		tool: string,
+		inputTokens: number,
+		outputTokens: number,
+		details: UsageDetails = {},
+	): number {
+		const { cachedTokens = 0, cacheWriteTokens = 0, model } = details;
+		const cost = this.pricing.calculateCost(
+			tool,
+			{ inputTokens, outputTokens, cachedTokens, cacheWriteTokens },
+			model,
+		);
 
-		// Add to history
-		this.usageHistory.push({
+		this.record({
 			timestamp: Date.now(),
 			tool,
+			model,
 			inputTokens,
 			outputTokens,
-			cost: total,
+			cachedTokens,
+			cacheWriteTokens,
+			cost,
 		});
 
-		return total;
+		return cost;
+	}
+
+	/**
+	 * Add an entry to the totals and history
+	 */
+	private record(entry: CostEntry): void {
+		this.totalCost += entry.cost;
+		this.inputTokens += entry.inputTokens;
+		this.outputTokens += entry.outputTokens;
+		this.cachedTokens += entry.cachedTokens ?? 0;
+		this.cacheWriteTokens += entry.cacheWriteTokens ?? 0;
+		const currentToolCost = this.costsByTool.get(entry.tool) ?? 0;
+		this.costsByTool.set(entry.tool, currentToolCost + entry.cost);
+		this.usageHistory.push(entry);
 	}
 
 	/**
@@ -77,6 +81,14 @@ export class CostTracker {
 		return this.totalCost;
 	}
 
+	/**
+	 * Get total input and output tokens (prompt cache reads and writes are
+	 * not counted)
+	 */
+	getTotalTokens(): number {
+		return this.inputTokens + this.outputTokens;
+	}
+
 	/**
 	 * Get cost by tool
 	 */
@@ -133,6 +145,11 @@ export class CostTracker {
 			costsByTool: this.getAllCostsByTool(),
 			usageCount: this.usageHistory.length,
 			averageCost: this.getAverageCost(),
+			inputTokens: this.inputTokens,
+			outputTokens: this.outputTokens,
+			cachedTokens: this.cachedTokens,
+			cacheWriteTokens: this.cacheWriteTokens,
+			totalTokens: this.getTotalTokens(),
 		};
 	}
 
@@ -143,27 +160,42 @@ export class CostTracker {
 		return toJsonString(this.getSummary());
 	}
 
+	/**
+	 * Restore tracker state from a saved usage history
+	 */
+	restore(history: CostEntry[]): void {
+		this.reset();
+		for (const entry of history) {
+			this.record({ ...entry });
+		}
+	}
+
 	/**
 	 * Reset tracker
 	 */
 	reset(): void {
 		this.totalCost = 0;
+		this.inputTokens = 0;
+		this.outputTokens = 0;
+		this.cachedTokens = 0;
+		this.cacheWriteTokens = 0;
 		this.costsByTool.clear();
 		this.usageHistory = [];
 	}
 
 	/**
-	 * Estimate cost for a prompt
+	 * Estimate cost for a prompt with the built-in prices
 	 */
 	static estimateCost(
 		tool: string,
 		inputTokens: number,
 		estimatedOutputTokens: number,
+		model?: string,
 	): number {
-		const costs = TOOL_COSTS[tool] ?? TOOL_COSTS.qchat!;
-		return (
-			(inputTokens / 1000) * costs.input +
-			(estimatedOutputTokens / 1000) * costs.output
+		return defaultPricing.calculateCost(
+			tool,
+			{ inputTokens, outputTokens: estimatedOutputTokens },
+			model,
 		);
 	}
 }
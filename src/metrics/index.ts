@@ -3,5 +3,6 @@
  */
 
 export { MetricsTracker } from "./metrics.ts";
-export { CostTracker, TOOL_COSTS } from "./cost-tracker.ts";
+export { CostTracker } from "./cost-tracker.ts";
+export { DEFAULT_PRICING, PricingRegistry } from "./pricing.ts";
 export { IterationStats } from "./iteration-stats.ts";
@@ -3,9 +3,12 @@
  */
 
 import {
+	type DiffStats,
 	type IterationData,
+	type IterationStatsSnapshot,
 	type IterationStatsSummary,
 	TriggerReason,
+	type VerificationResult,
 } from "../types/index.ts";
 import { toJsonString } from "../utils/shared.ts";
 
@@ -65,6 +68,9 @@ export class IterationStats {
 		tokensUsed?: number;
 		cost?: number;
 		toolsUsed?: string[];
+		adapter?: string;
+		verification?: VerificationResult;
+		diffStats?: DiffStats;
 	}): void {
 		// Update basic statistics
 		this.total = Math.max(this.total, params.iteration);
@@ -95,6 +101,15 @@ export class IterationStats {
 			cost: params.cost ?? 0,
 			toolsUsed: params.toolsUsed ?? [],
 		};
+		if (params.adapter) {
+			iterationData.adapter = params.adapter;
+		}
+		if (params.verification) {
+			iterationData.verification = params.verification;
+		}
+		if (params.diffStats) {
+			iterationData.diffStats = params.diffStats;
+		}
 
 		this.iterations.push(iterationData);
 
@@ -217,6 +232,32 @@ export class IterationStats {
 		return toJsonString(this.toDict());
 	}
 
+	/**
+	 * Get serializable state for persistence
+	 */
+	toSnapshot(): IterationStatsSnapshot {
+		return {
+			total: this.total,
+			successes: this.successes,
+			failures: this.failures,
+			currentIteration: this.currentIteration,
+			startTime: this.startTime.toISOString(),
+			iterations: [...this.iterations],
+		};
+	}
+
+	/**
+	 * Restore state saved with toSnapshot()
+	 */
+	restore(snapshot: IterationStatsSnapshot): void {
+		this.total = snapshot.total;
+		this.successes = snapshot.successes;
+		this.failures = snapshot.failures;
+		this.currentIteration = snapshot.currentIteration;
+		this.startTime = new Date(snapshot.startTime);
+		this.iterations = snapshot.iterations.slice(-this.maxIterationsStored);
+	}
+
 	/**
 	 * Reset statistics
 	 */
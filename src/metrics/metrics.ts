@@ -13,6 +13,7 @@ function createInitialMetrics(): Metrics {
 		iterations: 0,
 		successfulIterations: 0,
 		failedIterations: 0,
+		retries: 0,
 		errors: 0,
 		checkpoints: 0,
 		rollbacks: 0,
@@ -42,6 +43,13 @@ export class MetricsTracker {
 		}
 	}
 
+	/**
+	 * Record a retried adapter call
+	 */
+	recordRetry(): void {
+		this.metrics.retries++;
+	}
+
 	/**
 	 * Record an error
 	 */
@@ -102,6 +110,7 @@ export class MetricsTracker {
 			iterations: this.metrics.iterations,
 			successfulIterations: this.metrics.successfulIterations,
 			failedIterations: this.metrics.failedIterations,
+			retries: this.metrics.retries,
 			errors: this.metrics.errors,
 			checkpoints: this.metrics.checkpoints,
 			rollbacks: this.metrics.rollbacks,
@@ -117,6 +126,14 @@ export class MetricsTracker {
 		return toJsonString(this.toDict());
 	}
 
+	/**
+	 * Restore metrics saved with getMetrics()
+	 */
+	restore(metrics: Metrics): void {
+		// Runs saved before retries were tracked have no retry count
+		this.metrics = { ...metrics, retries: metrics.retries ?? 0 };
+	}
+
 	/**
 	 * Reset metrics
 	 */
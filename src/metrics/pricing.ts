@@ -0,0 +1,148 @@
+/**
+ * Model pricing for Ralph Orchestrator
+ */
+
+import type {
+	ModelPricing,
+	PricingTable,
+	TokenCounts,
+} from "../types/index.ts";
+
+/**
+ * Pricing used for adapters and models without an entry
+ */
+const FREE: ModelPricing = { input: 0, output: 0 };
+
+const CLAUDE_OPUS_4_5: ModelPricing = {
+	input: 5,
+	output: 25,
+	cacheRead: 0.5,
+	cacheWrite: 6.25,
+};
+const CLAUDE_OPUS_4: ModelPricing = {
+	input: 15,
+	output: 75,
+	cacheRead: 1.5,
+	cacheWrite: 18.75,
+};
+const CLAUDE_SONNET: ModelPricing = {
+	input: 3,
+	output: 15,
+	cacheRead: 0.3,
+	cacheWrite: 3.75,
+};
+const CLAUDE_HAIKU_4_5: ModelPricing = {
+	input: 1,
+	output: 5,
+	cacheRead: 0.1,
+	cacheWrite: 1.25,
+};
+const CLAUDE_HAIKU_3_5: ModelPricing = {
+	input: 0.8,
+	output: 4,
+	cacheRead: 0.08,
+	cacheWrite: 1,
+};
+const GEMINI_PRO: ModelPricing = { input: 1.25, output: 10, cacheRead: 0.31 };
+
+/**
+ * Built-in prices in USD per 1M tokens
+ *
+ * Models are matched by their longest listed prefix, so dated model names
+ * such as `claude-sonnet-4-5-20250929` use the `claude-sonnet-4-5` entry.
+ */
+export const DEFAULT_PRICING: PricingTable = {
+	claude: {
+		"claude-opus-4-5": CLAUDE_OPUS_4_5,
+		"claude-opus-4-1": CLAUDE_OPUS_4,
+		"claude-opus-4": CLAUDE_OPUS_4,
+		"claude-sonnet-4-5": CLAUDE_SONNET,
+		"claude-sonnet-4": CLAUDE_SONNET,
+		"claude-3-7-sonnet": CLAUDE_SONNET,
+		"claude-haiku-4-5": CLAUDE_HAIKU_4_5,
+		"claude-3-5-haiku": CLAUDE_HAIKU_3_5,
+		// Aliases accepted by the Claude CLI
+		opus: CLAUDE_OPUS_4_5,
+		sonnet: CLAUDE_SONNET,
+		haiku: CLAUDE_HAIKU_4_5,
+		default: CLAUDE_SONNET,
+	},
+	gemini: {
+		"gemini-2.5-pro": GEMINI_PRO,
+		"gemini-2.5-flash": { input: 0.3, output: 2.5, cacheRead: 0.075 },
+		"gemini-2.5-flash-lite": { input: 0.1, output: 0.4, cacheRead: 0.025 },
+		default: GEMINI_PRO,
+	},
+	// Q and ACP agents do not report billing information
+	qchat: { default: FREE },
+	acp: { default: FREE },
+};
+
+/**
+ * Registry of model prices, built from the defaults and config overrides
+ */
+export class PricingRegistry {
+	private readonly table: PricingTable;
+
+	/**
+	 * @param overrides Prices that replace or add to the defaults, per model
+	 */
+	constructor(overrides: PricingTable = {}) {
+		this.table = {};
+		for (const source of [DEFAULT_PRICING, overrides]) {
+			for (const [adapter, models] of Object.entries(source)) {
+				this.table[adapter] = { ...this.table[adapter], ...models };
+			}
+		}
+	}
+
+	/**
+	 * Get the prices for an adapter and model
+	 *
+	 * Falls back to the longest matching model prefix, then the adapter's
+	 * `default` entry, then free.
+	 */
+	getPricing(adapter: string, model?: string): ModelPricing {
+		const models = this.table[adapter];
+		if (!models) {
+			return FREE;
+		}
+
+		if (model) {
+			const exact = models[model];
+			if (exact) {
+				return exact;
+			}
+			const prefix = Object.keys(models)
+				.filter((name) => model.startsWith(name))
+				.sort((a, b) => b.length - a.length)[0];
+			if (prefix) {
+				return models[prefix] ?? FREE;
+			}
+		}
+
+		return models.default ?? FREE;
+	}
+
+	/**
+	 * Get the models with prices listed for an adapter
+	 */
+	getModels(adapter: string): string[] {
+		return Object.keys(this.table[adapter] ?? {}).filter(
+			(model) => model !== "default",
+		);
+	}
+
+	/**
+	 * Calculate the cost in USD of the given token counts
+	 */
+	calculateCost(adapter: string, tokens: TokenCounts, model?: string): number {
+		const pricing = this.getPricing(adapter, model);
+		const cost =
+			tokens.inputTokens * pricing.input +
+			tokens.outputTokens * pricing.output +
+			(tokens.cachedTokens ?? 0) * (pricing.cacheRead ?? pricing.input) +
+			(tokens.cacheWriteTokens ?? 0) * (pricing.cacheWrite ?? pricing.input);
+		return cost / 1_000_000;
+	}
+}
@@ -2,49 +2,98 @@
  * Ralph Orchestrator - Main orchestration loop
  */
 
+import { realpath } from "node:fs/promises";
+import { join, relative, resolve } from "node:path";
 import type { ACPAdapterOptions } from "./adapters/acp/index.ts";
 import {
+	DryRunAdapter,
+	type RetryResult,
 	type ToolAdapter,
 	autoDetectAdapter,
+	executeWithRetry,
 	getAdapter,
+	isRetryable,
 } from "./adapters/index.ts";
-import { ContextManager } from "./context/index.ts";
+import {
+	formatCheckpointMessage,
+	getRunBranch,
+	tagCheckpoint,
+} from "./checkpoints/index.ts";
+import { ContextManager, ContextSummarizer } from "./context/index.ts";
+import { type EventListener, TypedEventEmitter } from "./events/index.ts";
+import { HookRunner } from "./hooks/index.ts";
 import {
 	CostTracker,
 	IterationStats,
 	MetricsTracker,
+	PricingRegistry,
 } from "./metrics/index.ts";
-import { SafetyGuard } from "./safety/index.ts";
+import { TaskWorkspace } from "./parallel/index.ts";
+import {
+	PromptArchive,
+	buildFocusedPrompt,
+	composePrompt,
+	countDroppedOutputs,
+} from "./prompt/index.ts";
+import { CircuitBreaker, SafetyGuard, StallDetector } from "./safety/index.ts";
 import { SonarQubeExecutor } from "./sonarqube/executor.ts";
 import {
+	RUN_SNAPSHOT_VERSION,
+	type RunSnapshot,
+	type RunSnapshotStatus,
+	RunStateStore,
+	createRunId,
+} from "./state/index.ts";
+import {
+	TaskTracker,
+	checkOffTask,
+	formatStatusInstructions,
+	matchCompletedTasks,
+	parseStatusBlock,
+	parseTasks,
+} from "./tasks/index.ts";
+import {
+	type AdapterErrorClass,
 	AgentType,
+	type DiffStats,
+	type HookName,
 	type RalphConfig,
+	type Task,
+	type TaskProgress,
+	type ToolResponse,
 	TriggerReason,
+	type VerificationResult,
 	createDefaultConfig,
+	createErrorResponse,
 } from "./types/index.ts";
-import { createCheckpoint, hasUncommittedChanges } from "./utils/git.ts";
+import {
+	branchExists,
+	checkoutBranch,
+	createCheckpoint,
+	getCurrentBranch,
+	getCurrentCommit,
+	getDiffStats,
+	getGitRoot,
+	hasTrackedChanges,
+	hasUncommittedChanges,
+	resetToCommit,
+	writeWorkingTree,
+} from "./utils/git.ts";
 import { createLogger } from "./utils/index.ts";
-import { extractErrorMessage } from "./utils/shared.ts";
+import { estimateTokens, extractErrorMessage } from "./utils/shared.ts";
+import { type MergeResult, pruneWorktrees } from "./utils/worktree.ts";
+import { Verifier, formatVerificationFeedback } from "./verification/index.ts";
 
 const logger = createLogger("ralph-orchestrator");
 
-/**
- * Task object for tracking
- */
-interface Task {
-	id: number;
-	description: string;
-	status: "pending" | "in_progress" | "completed";
-	createdAt: string;
-	completedAt?: string;
-	iteration?: number;
-}
+export type { Task } from "./types/index.ts";
 
 /**
  * Orchestrator state
  */
 export interface OrchestratorState {
 	id: number;
+	runId: string;
 	status: "running" | "paused" | "stopped" | "completed" | "error";
 	primaryTool: string;
 	promptFile: string;
@@ -52,49 +101,204 @@ export interface OrchestratorState {
 	maxIterations: number;
 	runtime: number;
 	maxRuntime: number;
+	/** Tasks not yet started */
 	tasks: Task[];
+	currentTask: Task | null;
 	completedTasks: Task[];
+	/** Tasks skipped after exceeding their budget */
+	skippedTasks: Task[];
+	taskProgress: TaskProgress;
+}
+
+/**
+ * Options for constructing an orchestrator
+ */
+export interface RalphOrchestratorOptions {
+	/** Run ID used for persisted state (generated when omitted) */
+	runId?: string;
+	/** Store used to persist run state between iterations */
+	stateStore?: RunStateStore;
+}
+
+/**
+ * Result of a single iteration
+ */
+export interface IterationResult {
+	iteration: number;
+	triggerReason: TriggerReason;
+	/** Adapter that produced the response (differs from primary after a fallback) */
+	adapter: string;
+	success: boolean;
+	output?: string;
+	error?: string;
+	/** Class of the adapter failure, when the agent call failed */
+	errorClass?: AdapterErrorClass;
+	/** Adapter calls repeated after transient failures */
+	retries?: number;
+	tokensUsed?: number;
+	inputTokens?: number;
+	outputTokens?: number;
+	cachedTokens?: number;
+	cacheWriteTokens?: number;
+	/** Model that produced the response, when known */
+	model?: string;
+	cost?: number;
+	/** Verification outcome, when verify commands ran */
+	verification?: VerificationResult;
+	/** Changes made during the iteration, when working in a git repository */
+	diffStats?: DiffStats;
+	/** Duration in seconds, including verification */
+	duration: number;
+}
+
+/**
+ * Lifecycle events emitted by the orchestrator, keyed by name
+ */
+export interface OrchestratorEvents {
+	"run:start": { runId: string; config: RalphConfig; resumed: boolean };
+	"iteration:start": {
+		runId: string;
+		iteration: number;
+		triggerReason: TriggerReason;
+		task: Task | null;
+	};
+	"iteration:end": { runId: string; result: IterationResult };
+	checkpoint: {
+		runId: string;
+		iteration: number;
+		commit: string | null;
+		message?: string;
+	};
+	rollback: {
+		runId: string;
+		iteration: number;
+		commit: string;
+		/** Consecutive failed iterations that were undone */
+		failures: number;
+	};
+	stall: {
+		runId: string;
+		iteration: number;
+		/** Iterations in a row that changed no files */
+		iterations: number;
+	};
+	fallback: {
+		runId: string;
+		iteration: number;
+		from: string;
+		to: string;
+		/** Whether `from` failed or was skipped with its circuit breaker open */
+		reason: "failed" | "circuit_open";
+		error?: string;
+	};
+	"safety:tripped": { runId: string; iteration: number; reason: string };
+	"safety:warning": { runId: string; iteration: number; warning: string };
+	"loop:detected": { runId: string; iteration: number };
+	"task:completed": { runId: string; iteration: number; task: Task };
+	"task:skipped": { runId: string; iteration: number; task: Task };
+	"task:conflict": {
+		runId: string;
+		iteration: number;
+		task: Task;
+		files: string[];
+	};
+	"run:end": {
+		runId: string;
+		status: "completed" | "stopped" | "error";
+		iterations: number;
+		elapsedSeconds: number;
+		totalCost: number;
+		error?: string;
+	};
+	"status:change": OrchestratorState;
 }
 
+/**
+ * Listener notified when the orchestrator status changes
+ */
+export type StatusChangeListener = (state: OrchestratorState) => void;
+
 /**
  * Ralph Orchestrator - The main orchestration engine
  */
 export class RalphOrchestrator {
 	private readonly config: RalphConfig;
+	private readonly runId: string;
+	private readonly stateStore: RunStateStore;
+	// Absolute directory the run works in
+	private readonly workingDir: string;
 	private adapter: ToolAdapter | null = null;
 	private fallbackAdapters: ToolAdapter[] = [];
+	private readonly circuitBreakers = new Map<string, CircuitBreaker>();
 
 	// State management
 	private readonly metrics: MetricsTracker;
+	private readonly pricing: PricingRegistry;
 	private readonly costTracker: CostTracker;
 	private readonly iterationStats: IterationStats;
 	private readonly safetyGuard: SafetyGuard;
+	private readonly stallDetector: StallDetector;
 	private readonly contextManager: ContextManager;
+	private readonly promptArchive: PromptArchive | null;
+	private summarizer = new ContextSummarizer();
 	private readonly sonarQubeExecutor?: SonarQubeExecutor;
+	private readonly hookRunner: HookRunner;
+	private readonly verifier: Verifier;
+	private lastVerificationPassed = true;
+	// Last checkpoint of a successful iteration, where a rollback resets to
+	private lastGoodCommit: string | null = null;
+	private checkpointCount = 0;
+	private lastIterationSuccess?: boolean;
+	private lastError?: string;
 
 	// Task tracking
-	private taskQueue: Task[] = [];
-	private readonly completedTasks: Task[] = [];
-	private currentTask: Task | null = null;
+	private readonly taskTracker = new TaskTracker();
+
+	// Parallel workers merge into the run branch one at a time
+	private mergeQueue: Promise<unknown> = Promise.resolve();
+	// Why each task's last parallel attempt failed, for its next prompt
+	private readonly taskFeedback = new Map<number, string>();
+	// Run branch commit of the last checkpoint in parallel mode
+	private lastCheckpointCommit: string | null = null;
+
+	// Loop position, restored when resuming a run
+	private completedIteration = 0;
+	private nextTriggerReason = TriggerReason.INITIAL;
+	private resumedElapsedSeconds: number | null = null;
 
 	// Control flags
 	private stopRequested = false;
+	private pauseRequested = false;
+	private paused = false;
 	private running = false;
 	private startTime = 0;
+	private pausedAt = 0;
+	private pausedDuration = 0;
+	private resumeWaiter: (() => void) | null = null;
+	private readonly events = new TypedEventEmitter<OrchestratorEvents>();
 
 	// ACP options
 	private readonly acpOptions?: ACPAdapterOptions;
 
-	constructor(config: RalphConfig | Partial<RalphConfig> = {}) {
+	constructor(
+		config: RalphConfig | Partial<RalphConfig> = {},
+		options: RalphOrchestratorOptions = {},
+	) {
 		// Create full config from partial
 		this.config =
 			"agent" in config && "maxIterations" in config
 				? (config as RalphConfig)
 				: createDefaultConfig(config);
+		this.runId = options.runId ?? createRunId();
+		this.workingDir = resolve(this.config.workingDir ?? process.cwd());
+		this.stateStore =
+			options.stateStore ??
+			new RunStateStore(join(this.workingDir, ".agent", "runs"));
 
 		// Initialize components
 		this.metrics = new MetricsTracker();
-		this.costTracker = new CostTracker();
+		this.pricing = new PricingRegistry(this.config.pricing);
+		this.costTracker = new CostTracker(this.pricing);
 		this.iterationStats = new IterationStats(
 			1000,
 			this.config.outputPreviewLength,
@@ -103,11 +307,33 @@ export class RalphOrchestrator {
 			maxIterations: this.config.maxIterations,
 			maxRuntime: this.config.maxRuntime,
 			maxCost: this.config.maxCost,
+			maxTokens: this.config.maxTokens,
+			tokenWarningThreshold: this.config.tokenWarningThreshold,
+		});
+		this.stallDetector = new StallDetector({
+			stallLimit: this.config.stallLimit,
 		});
 		this.contextManager = new ContextManager({
 			promptFile: this.config.promptFile,
 			promptText: this.config.promptText,
+			workingDir: this.workingDir,
 		});
+		// Direct prompt text cannot be changed by the agent, so only files are
+		// archived
+		this.promptArchive =
+			this.config.archivePrompts && !this.config.promptText
+				? new PromptArchive(join(this.workingDir, ".agent", "prompts"))
+				: null;
+		this.hookRunner = new HookRunner(
+			this.config.hooks,
+			this.config.hookTimeout,
+			this.workingDir,
+		);
+		this.verifier = new Verifier(
+			this.config.verify,
+			this.config.verifyTimeout,
+			{ cwd: this.workingDir },
+		);
 
 		// Set up ACP options
 		if (this.config.acpAgent || this.config.acpPermissionMode) {
@@ -120,7 +346,10 @@ export class RalphOrchestrator {
 
 		// Set up SonarQube executor
 		if (this.config.sonarqube?.enabled) {
-			this.sonarQubeExecutor = new SonarQubeExecutor(this.config.sonarqube);
+			this.sonarQubeExecutor = new SonarQubeExecutor(
+				this.config.sonarqube,
+				this.workingDir,
+			);
 			logger.info("SonarQube scanning enabled");
 		}
 
@@ -128,6 +357,35 @@ export class RalphOrchestrator {
 		this.setupSignalHandlers();
 	}
 
+	/**
+	 * Rebuild an orchestrator from a persisted run snapshot
+	 * @param runId Run to resume, defaults to the most recently saved run
+	 */
+	static async resume(
+		runId?: string,
+		stateStore: RunStateStore = new RunStateStore(),
+	): Promise<RalphOrchestrator> {
+		const snapshot = runId
+			? await stateStore.load(runId)
+			: await stateStore.latest();
+
+		if (!snapshot) {
+			throw new Error(
+				runId ? `No saved state for run ${runId}` : "No saved runs to resume",
+			);
+		}
+		if (snapshot.status === "completed") {
+			throw new Error(`Run ${snapshot.runId} has already completed`);
+		}
+
+		const orchestrator = new RalphOrchestrator(snapshot.config, {
+			runId: snapshot.runId,
+			stateStore,
+		});
+		await orchestrator.restoreSnapshot(snapshot);
+		return orchestrator;
+	}
+
 	/**
 	 * Run the orchestration loop (synchronous wrapper)
 	 */
@@ -145,53 +403,278 @@ export class RalphOrchestrator {
 
 		this.running = true;
 		this.stopRequested = false;
-		this.startTime = Date.now();
+		this.startTime = Date.now() - (this.resumedElapsedSeconds ?? 0) * 1000;
+		this.pausedDuration = 0;
 
 		logger.info("Starting Ralph Orchestrator");
+		this.notifyStatusChange();
+		this.events.emit("run:start", {
+			runId: this.runId,
+			config: this.config,
+			resumed: this.resumedElapsedSeconds !== null,
+		});
 
+		let runError: string | undefined;
 		try {
+			if (this.config.dryRun) {
+				await this.runDryRun();
+				return;
+			}
+
 			await this.initializeAdapter();
 			if (!this.adapter) {
 				throw new Error("No adapter available");
 			}
 			logger.info(`Using adapter: ${this.adapter.name}`);
 
-			const initialPrompt = await this.contextManager.getPrompt();
-			this.extractTasksFromPrompt(initialPrompt);
+			await this.checkoutRunBranch();
+			if (this.resumedElapsedSeconds === null) {
+				const initialPrompt = await this.contextManager.getPrompt();
+				this.loadTasks(initialPrompt);
+				await this.recordRollbackBaseline();
+			} else {
+				logger.info(
+					`Resuming run ${this.runId} after iteration ${this.completedIteration}`,
+				);
+			}
+			await this.archivePrompt(this.completedIteration);
+
+			if (!(await this.runHook("pre_run", this.completedIteration))) {
+				this.stopForHook("pre_run");
+			}
 
-			const finalIteration = await this.runMainLoop();
+			const finalIteration =
+				this.config.parallelWorkers > 1
+					? await this.runParallelLoop()
+					: await this.runMainLoop();
 			await this.finalize(finalIteration);
 		} catch (error) {
 			const message = extractErrorMessage(error);
 			logger.error(`Orchestration failed: ${message}`);
+			runError = message;
+			if (this.completedIteration > 0) {
+				await this.persistRunState("error");
+			}
 			throw error;
 		} finally {
 			this.running = false;
+			this.events.emit("run:end", {
+				runId: this.runId,
+				status: runError
+					? "error"
+					: this.stopRequested
+						? "stopped"
+						: "completed",
+				iterations: this.completedIteration,
+				elapsedSeconds: this.getElapsedSeconds(),
+				totalCost: this.costTracker.getTotalCost(),
+				error: runError,
+			});
+			this.notifyStatusChange();
+		}
+	}
+
+	/**
+	 * Simulate the orchestration loop without running an agent or touching git
+	 */
+	private async runDryRun(): Promise<void> {
+		this.adapter = new DryRunAdapter(this.config.agent);
+		logger.info(`Dry run: simulating adapter ${this.config.agent}`);
+
+		const prompt = await this.contextManager.getPrompt();
+		this.loadTasks(prompt);
+		this.printDryRunPlan();
+
+		let iteration = 0;
+		let previousPrompt: { iteration: number; text: string } | null = null;
+
+		while (!this.stopRequested) {
+			await this.waitWhilePaused();
+			if (this.stopRequested) break;
+			iteration++;
+
+			const safetyCheck = this.safetyGuard.check({
+				iterations: iteration,
+				elapsedTime: 0,
+				totalCost: 0,
+				totalTokens: 0,
+			});
+			if (!safetyCheck.passed) {
+				console.log(
+					`Plan stops before iteration ${iteration}: ${safetyCheck.reason}`,
+				);
+				break;
+			}
+
+			this.iterationStats.recordStart(iteration);
+			const task = this.taskTracker.start();
+
+			// The prompt a first iteration on this task would get
+			const prompt = this.composeIterationPrompt(
+				await this.buildPrompt(task),
+				task,
+				TriggerReason.INITIAL,
+				{ history: [] },
+			);
+			const response = await this.adapter.execute(prompt, {
+				verbose: this.config.verbose,
+			});
+
+			console.log(`\n--- Iteration ${iteration} (dry run) ---`);
+			console.log(
+				`Task: ${task ? `#${task.id} ${task.description}` : "(none)"}`,
+			);
+			console.log(`Checkpoint: ${this.describeDryRunCheckpoint(iteration)}`);
+			if (previousPrompt && previousPrompt.text === response.output) {
+				console.log(
+					`Prompt: unchanged from iteration ${previousPrompt.iteration}`,
+				);
+			} else {
+				console.log("Prompt:");
+				console.log(response.output);
+				previousPrompt = { iteration, text: response.output };
+			}
+
+			if (task) {
+				this.taskTracker.complete(task, iteration);
+			}
+			if (this.taskTracker.getPending().length === 0) {
+				console.log("\nPlan ends: no pending tasks remain");
+				break;
+			}
+		}
+
+		if (this.config.gitCheckpoint) {
+			console.log("Final checkpoint: would commit any uncommitted changes");
+		}
+		logger.info("Dry run completed");
+	}
+
+	/**
+	 * Print the tasks and safety limits a dry run is planned against
+	 */
+	private printDryRunPlan(): void {
+		const limits = this.safetyGuard.getConfig();
+
+		console.log("\n=== Dry Run Plan ===");
+		console.log(
+			`Agent: ${this.config.agent} (simulated, no process is spawned)`,
+		);
+		console.log(
+			`Prompt: ${this.config.promptText ? "inline text" : this.config.promptFile}`,
+		);
+		console.log(`Prompt mode: ${this.config.promptMode}`);
+		if (this.config.parallelWorkers > 1) {
+			console.log(
+				`Parallel workers: ${this.config.parallelWorkers} (each task in its own git worktree)`,
+			);
+		}
+		const pending = this.taskTracker.getPending();
+		const checked = this.taskTracker.getCompleted().length;
+		console.log(
+			`Tasks found: ${pending.length}${checked > 0 ? ` (${checked} already checked)` : ""}`,
+		);
+		for (const task of pending) {
+			const dependsOn =
+				task.dependsOn.length > 0
+					? ` (depends on ${task.dependsOn.map((id) => `#${id}`).join(", ")})`
+					: "";
+			console.log(
+				`  ${"  ".repeat(task.depth)}#${task.id} ${task.description}${dependsOn}`,
+			);
+		}
+		console.log("Safety limits:");
+		console.log(`  Max iterations: ${limits.maxIterations}`);
+		console.log(`  Max runtime: ${limits.maxRuntime}s`);
+		console.log(`  Max cost: $${limits.maxCost.toFixed(2)}`);
+		console.log(
+			`  Max tokens: ${limits.maxTokens} (warning at ${(limits.tokenWarningThreshold * 100).toFixed(0)}%)`,
+		);
+		console.log(
+			`  Consecutive failure limit: ${limits.consecutiveFailureLimit}`,
+		);
+		console.log(
+			`  Loop similarity threshold: ${(limits.loopThreshold * 100).toFixed(0)}%`,
+		);
+		console.log(
+			`Checkpoints: ${this.config.gitCheckpoint ? `every ${this.config.checkpointInterval} iterations` : "disabled"}`,
+		);
+		if (this.config.gitCheckpoint && this.config.runBranch) {
+			console.log(`Run branch: ${getRunBranch(this.runId)}`);
+		}
+		if (this.isRollbackEnabled()) {
+			console.log(
+				`Rollback: after ${this.config.rollbackAfter} consecutive failures (at most ${this.config.maxRollbacks} per run)`,
+			);
+		}
+		if (this.stallDetector.isEnabled()) {
+			console.log(
+				`Stall action: ${this.config.stallAction} after ${this.config.stallLimit} iterations without file changes`,
+			);
+		}
+		if (this.verifier.isEnabled()) {
+			console.log(
+				`Verification (not run in dry run): ${this.verifier.getCommands().join(", ")}`,
+			);
+		}
+		const hooks = this.hookRunner.getConfiguredHooks();
+		if (hooks.length > 0) {
+			console.log(`Hooks (not run in dry run): ${hooks.join(", ")}`);
+		}
+		console.log("====================");
+	}
+
+	/**
+	 * Describe what checkpointing would do after a dry-run iteration
+	 */
+	private describeDryRunCheckpoint(iteration: number): string {
+		if (!this.config.gitCheckpoint) {
+			return "disabled";
+		}
+		if (iteration % this.config.checkpointInterval !== 0) {
+			return "no";
 		}
+		return this.sonarQubeExecutor?.isEnabled()
+			? "yes, followed by a SonarQube scan"
+			: "yes";
 	}
 
 	/**
 	 * Main orchestration loop - extracted for reduced complexity
 	 */
 	private async runMainLoop(): Promise<number> {
-		let iteration = 0;
-		let triggerReason = TriggerReason.INITIAL;
+		let iteration = this.completedIteration;
+		let triggerReason = this.nextTriggerReason;
 
 		while (!this.stopRequested) {
+			await this.waitWhilePaused();
+			if (this.stopRequested) break;
+
 			iteration++;
 			this.iterationStats.recordStart(iteration);
 
 			const shouldStop = await this.checkStopConditions(iteration);
 			if (shouldStop) break;
 
+			if (!(await this.runHook("pre_iteration", iteration))) {
+				this.stopForHook("pre_iteration");
+				break;
+			}
+
 			const result = await this.runIteration(iteration, triggerReason);
+			await this.archivePrompt(iteration);
 			triggerReason = this.updateStateAfterIteration(result);
+			this.completedIteration = iteration;
+			this.nextTriggerReason = triggerReason;
+			await this.runIterationHooks(iteration, result);
 
-			if (this.shouldStopOnLoop(result)) {
+			if (this.shouldStopOnLoop(iteration, result)) {
 				break;
 			}
 
+			await this.rollbackIfNeeded(iteration);
 			await this.checkpointIfNeeded(iteration);
+			await this.persistRunState("running");
 			await this.waitBeforeNextIteration();
 		}
 
@@ -206,10 +689,29 @@ export class RalphOrchestrator {
 			iterations: iteration,
 			elapsedTime: this.getElapsedSeconds(),
 			totalCost: this.costTracker.getTotalCost(),
+			totalTokens: this.costTracker.getTotalTokens(),
 		});
 
+		if (safetyCheck.warning) {
+			logger.warn(safetyCheck.warning);
+			this.events.emit("safety:warning", {
+				runId: this.runId,
+				iteration,
+				warning: safetyCheck.warning,
+			});
+		}
+
 		if (!safetyCheck.passed) {
 			logger.warn(`Safety check failed: ${safetyCheck.reason}`);
+			this.events.emit("safety:tripped", {
+				runId: this.runId,
+				iteration,
+				reason: safetyCheck.reason ?? "Safety check failed",
+			});
+			return true;
+		}
+
+		if (await this.handleStall(iteration)) {
 			return true;
 		}
 
@@ -224,53 +726,502 @@ export class RalphOrchestrator {
 	/**
 	 * Run a single iteration and record results
 	 */
-	private async runIteration(iteration: number, triggerReason: TriggerReason) {
+	private async runIteration(
+		iteration: number,
+		triggerReason: TriggerReason,
+	): Promise<IterationResult> {
 		const startTime = Date.now();
-		const result = await this.executeIteration(iteration, triggerReason);
-		const duration = (Date.now() - startTime) / 1000;
+		const startTree = await this.snapshotWorkingTree();
+		const response = await this.executeIteration(iteration, triggerReason);
+		const { tree, diffStats } = await this.measureChanges(startTree);
+		// Failed agent calls are left to the consecutive failure limit
+		if (response.success) {
+			this.stallDetector.record(diffStats, tree);
+		}
+		const verification =
+			response.success && this.verifier.isEnabled()
+				? await this.verifyIteration()
+				: undefined;
+		const result: IterationResult = {
+			...response,
+			iteration,
+			triggerReason,
+			verification,
+			diffStats,
+			duration: (Date.now() - startTime) / 1000,
+		};
+		if (verification && !verification.passed) {
+			result.success = false;
+			result.error = this.describeVerificationFailure(verification);
+		}
+
+		// Only credit task progress once the work has been verified
+		const task = this.taskTracker.getCurrent();
+		if (result.success && result.output) {
+			await this.checkTaskCompletion(iteration, result.output);
+		}
+
+		this.recordIteration(result, task);
+		return result;
+	}
+
+	/**
+	 * Charge an iteration to its task and record its stats, metrics and cost
+	 */
+	private recordIteration(result: IterationResult, task: Task | null): void {
+		const { iteration } = result;
+		if (task && this.taskTracker.recordUsage(task, result.cost ?? 0)) {
+			logger.warn(
+				`Task #${task.id} used its budget without completing, skipping it`,
+			);
+			this.events.emit("task:skipped", { runId: this.runId, iteration, task });
+		}
 
 		this.iterationStats.recordIteration({
 			iteration,
-			duration,
+			duration: result.duration,
 			success: result.success,
 			error: result.error ?? "",
-			triggerReason,
+			triggerReason: result.triggerReason,
 			outputPreview: result.output?.substring(
 				0,
 				this.config.outputPreviewLength,
 			),
 			tokensUsed: result.tokensUsed,
 			cost: result.cost,
+			adapter: result.adapter,
+			verification: result.verification,
+			diffStats: result.diffStats,
 		});
 
 		this.metrics.recordIteration(result.success);
-		if (result.cost && this.adapter) {
-			this.costTracker.addUsage(this.adapter.name, result.tokensUsed ?? 0, 0);
+		if (result.cost || result.tokensUsed) {
+			this.recordUsage(result.adapter, result);
+		}
+
+		this.events.emit("iteration:end", { runId: this.runId, result });
+	}
+
+	/**
+	 * Add the tokens of an adapter call to the run's cost
+	 */
+	private recordUsage(
+		adapter: string,
+		usage: Pick<
+			ToolResponse,
+			| "tokensUsed"
+			| "inputTokens"
+			| "outputTokens"
+			| "cachedTokens"
+			| "cacheWriteTokens"
+			| "model"
+		>,
+	): void {
+		const outputTokens = usage.outputTokens ?? 0;
+		this.costTracker.addUsage(
+			adapter,
+			usage.inputTokens ?? Math.max((usage.tokensUsed ?? 0) - outputTokens, 0),
+			outputTokens,
+			{
+				cachedTokens: usage.cachedTokens,
+				cacheWriteTokens: usage.cacheWriteTokens,
+				model: usage.model,
+			},
+		);
+	}
+
+	/**
+	 * Work on tasks with parallel workers, each in its own git worktree
+	 *
+	 * Every worker start counts as an iteration. Workers still running when
+	 * the run stops are allowed to finish and merge.
+	 */
+	private async runParallelLoop(): Promise<number> {
+		const repoRoot = await getGitRoot(this.workingDir);
+		if (!repoRoot) {
+			throw new Error("Parallel workers require a git repository");
+		}
+		if (this.taskTracker.getOpen().length === 0) {
+			logger.warn("No tasks found in the prompt, running sequentially");
+			return this.runMainLoop();
+		}
+		// Task branches are merged into this working tree
+		if (await this.hasUserChanges()) {
+			throw new Error(
+				"Parallel workers need a clean working tree: commit or stash your changes first",
+			);
+		}
+		await pruneWorktrees(repoRoot);
+		const protectedPaths = await this.getProtectedPaths(repoRoot);
+		this.lastCheckpointCommit ??= await getCurrentCommit(this.workingDir);
+
+		// Tasks interrupted by a restart are started over
+		for (const task of this.taskTracker.getInProgress()) {
+			this.taskTracker.requeue(task);
+		}
+
+		logger.info(`Running up to ${this.config.parallelWorkers} workers`);
+		const workers = new Set<Promise<void>>();
+		let iteration = this.completedIteration;
+		let stopping = false;
+
+		while (!this.stopRequested && !stopping) {
+			await this.waitWhilePaused();
+			if (this.stopRequested) break;
+
+			while (workers.size < this.config.parallelWorkers) {
+				if (await this.checkStopConditions(iteration + 1)) {
+					stopping = true;
+					break;
+				}
+				// Only start a blocked task when nothing else is running
+				const task = this.taskTracker.startNext(workers.size === 0);
+				if (!task) break;
+
+				iteration++;
+				this.iterationStats.recordStart(iteration);
+				if (!(await this.runHook("pre_iteration", iteration))) {
+					this.taskTracker.requeue(task);
+					this.stopForHook("pre_iteration");
+					break;
+				}
+
+				const worker: Promise<void> = this.runWorker(
+					iteration,
+					task,
+					repoRoot,
+					protectedPaths,
+				).finally(() => workers.delete(worker));
+				workers.add(worker);
+			}
+
+			if (workers.size === 0) break;
+			await Promise.race(workers);
+		}
+
+		await Promise.all(workers);
+		return iteration;
+	}
+
+	/**
+	 * Get Ralph's own files relative to the repository root: the orchestrator
+	 * checks off tasks in the prompt file and keeps its state in `.agent`, so
+	 * workers' changes to them are never merged
+	 */
+	private async getProtectedPaths(repoRoot: string): Promise<string[]> {
+		const workingDir = await realpath(this.workingDir);
+		return [".agent", this.config.promptFile].map((path) =>
+			relative(repoRoot, resolve(workingDir, path)),
+		);
+	}
+
+	/**
+	 * Work on one task in its own worktree, then record the iteration
+	 */
+	private async runWorker(
+		iteration: number,
+		task: Task,
+		repoRoot: string,
+		protectedPaths: string[],
+	): Promise<void> {
+		const startTime = Date.now();
+		const triggerReason = this.taskFeedback.has(task.id)
+			? TriggerReason.RECOVERY
+			: task.usage.iterations === 0
+				? TriggerReason.INITIAL
+				: TriggerReason.TASK_INCOMPLETE;
+
+		logger.info(`Starting iteration ${iteration} on task #${task.id}`);
+		this.events.emit("iteration:start", {
+			runId: this.runId,
+			iteration,
+			triggerReason,
+			task,
+		});
+
+		const workspace = new TaskWorkspace(
+			repoRoot,
+			this.runId,
+			task,
+			protectedPaths,
+		);
+		let result: IterationResult;
+		try {
+			await workspace.create();
+			result = await this.runWorkerIteration(
+				iteration,
+				triggerReason,
+				task,
+				workspace,
+			);
+		} catch (error) {
+			result = {
+				iteration,
+				triggerReason,
+				adapter: this.adapter?.name ?? "unknown",
+				success: false,
+				error: extractErrorMessage(error),
+				duration: 0,
+			};
+		} finally {
+			await workspace.remove();
+		}
+		result.duration = (Date.now() - startTime) / 1000;
+
+		if (result.success) {
+			this.taskFeedback.delete(task.id);
+		}
+
+		// Tasks that did not complete go back in the queue
+		this.taskTracker.requeue(task);
+		this.recordIteration(result, task);
+		await this.archivePrompt(iteration);
+		this.updateStateAfterIteration(result);
+		this.completedIteration = Math.max(this.completedIteration, iteration);
+		await this.runIterationHooks(iteration, result);
+		// Checkpoints commit in the main working tree, so they wait for merges
+		await this.inMergeQueue(() => this.checkpointIfNeeded(iteration));
+		await this.persistRunState("running");
+	}
+
+	/**
+	 * Run the agent in a task's worktree, merge and verify the work on the run
+	 * branch and complete the task if the agent reports it done
+	 */
+	private async runWorkerIteration(
+		iteration: number,
+		triggerReason: TriggerReason,
+		task: Task,
+		workspace: TaskWorkspace,
+	): Promise<IterationResult> {
+		// Workers always get a focused prompt so they stay on their own task,
+		// with only the reason its previous attempt failed as feedback
+		const feedback = this.taskFeedback.get(task.id);
+		const prompt =
+			composePrompt({
+				prompt: buildFocusedPrompt({
+					prompt: await this.contextManager.getPrompt(),
+					task,
+					tasks: this.taskTracker.getAll(),
+				}),
+				triggerReason,
+				errors: feedback ? [feedback] : [],
+				budget: this.config.feedbackBudget,
+			}) + formatStatusInstructions([task]);
+
+		const startTree = await this.snapshotWorkingTree(workspace.path);
+		const { adapter, response, errorClass, retries } =
+			await this.executeWithFallback(iteration, prompt, workspace.path);
+		const result: IterationResult = {
+			iteration,
+			triggerReason,
+			adapter,
+			success: response.success,
+			output: response.output,
+			error: response.error,
+			errorClass,
+			retries,
+			tokensUsed: response.tokensUsed,
+			inputTokens: response.inputTokens,
+			outputTokens: response.outputTokens,
+			cachedTokens: response.cachedTokens,
+			cacheWriteTokens: response.cacheWriteTokens,
+			model: response.model,
+			cost: response.cost,
+			diffStats: (await this.measureChanges(startTree, workspace.path))
+				.diffStats,
+			duration: 0,
+		};
+		if (!response.success) {
+			if (response.error) {
+				this.contextManager.addErrorFeedback(response.error);
+				this.taskFeedback.set(task.id, response.error);
+			}
+			return result;
+		}
+		// Worktrees have different trees, so only the diff is compared
+		this.stallDetector.record(result.diffStats);
+
+		const done = this.isTaskReportedDone(task, response.output);
+		const committed = await workspace.commit(
+			`[Ralph] Task #${task.id}: ${task.description}`,
+		);
+		const { merge, verification } = await this.integrateWorkspace(
+			workspace,
+			task,
+			committed,
+		);
+		if (merge && !merge.success) {
+			result.success = false;
+			result.error = this.describeMergeFailure(iteration, task, merge);
+			this.taskFeedback.set(
+				task.id,
+				`${result.error}. Your previous attempt at this task was not merged; redo it on top of the current code, which now includes work merged from other tasks.`,
+			);
+			return result;
+		}
+		if (verification) {
+			result.verification = verification;
+			if (!verification.passed) {
+				result.success = false;
+				result.error = this.describeVerificationFailure(verification);
+				const feedback = formatVerificationFeedback(verification);
+				this.contextManager.addErrorFeedback(feedback);
+				this.taskFeedback.set(
+					task.id,
+					`${feedback}\n\nYour previous attempt at this task was not merged because of these failures.`,
+				);
+				return result;
+			}
+		}
+
+		if (done) {
+			await this.completeTasks(iteration, [task]);
 		}
+		return result;
+	}
+
+	/**
+	 * Merge a task branch into the run branch and verify the result, one
+	 * worker at a time
+	 *
+	 * Verification runs in the main working tree, which has the dependencies
+	 * and other ignored files that a fresh worktree lacks. A merge that fails
+	 * verification is undone.
+	 */
+	private integrateWorkspace(
+		workspace: TaskWorkspace,
+		task: Task,
+		committed: boolean,
+	): Promise<{ merge?: MergeResult; verification?: VerificationResult }> {
+		return this.inMergeQueue(async () => {
+			let merge: MergeResult | undefined;
+			if (committed) {
+				if (await this.hasUserChanges()) {
+					return {
+						merge: {
+							success: false,
+							stdout: "",
+							stderr: "the working tree has uncommitted changes",
+							exitCode: 1,
+							conflicts: [],
+						},
+					};
+				}
+				merge = await workspace.merge(
+					`[Ralph] Merge task #${task.id}: ${task.description}`,
+				);
+				if (!merge.success) {
+					return { merge };
+				}
+			}
+			if (!this.verifier.isEnabled()) {
+				return { merge };
+			}
+
+			const verification = await this.verifier.run();
+			if (!verification.passed && committed) {
+				const undo = await workspace.undoMerge();
+				if (!undo.success) {
+					logger.warn(
+						`Failed to undo the merge of task #${task.id}: ${undo.stderr}`,
+					);
+				}
+			}
+			return { merge, verification };
+		});
+	}
 
+	/**
+	 * Run work that changes the main working tree once earlier merges and
+	 * checkpoints are done
+	 */
+	private inMergeQueue<T>(work: () => Promise<T>): Promise<T> {
+		const result = this.mergeQueue.then(work);
+		this.mergeQueue = result.catch(() => undefined);
 		return result;
 	}
 
+	/**
+	 * Report a failed merge, returning the iteration error
+	 */
+	private describeMergeFailure(
+		iteration: number,
+		task: Task,
+		merge: MergeResult,
+	): string {
+		if (merge.conflicts.length === 0) {
+			return `Merge failed: ${merge.stderr}`;
+		}
+
+		logger.warn(
+			`Task #${task.id} conflicts with the run branch in ${merge.conflicts.join(", ")}, requeueing it`,
+		);
+		this.events.emit("task:conflict", {
+			runId: this.runId,
+			iteration,
+			task,
+			files: merge.conflicts,
+		});
+		return `Merge conflict in ${merge.conflicts.join(", ")}`;
+	}
+
+	/**
+	 * Summarize which verification commands failed
+	 */
+	private describeVerificationFailure(
+		verification: VerificationResult,
+	): string {
+		return `Verification failed: ${verification.commands
+			.filter((command) => !command.passed)
+			.map((command) => command.command)
+			.join(", ")}`;
+	}
+
+	/**
+	 * Run verification commands, feeding failures back into the context
+	 */
+	private async verifyIteration(): Promise<VerificationResult> {
+		const verification = await this.verifier.run();
+		this.lastVerificationPassed = verification.passed;
+		if (!verification.passed) {
+			this.contextManager.addErrorFeedback(
+				formatVerificationFeedback(verification),
+			);
+		}
+		return verification;
+	}
+
 	/**
 	 * Update state after iteration and return next trigger reason
 	 */
 	private updateStateAfterIteration(result: {
 		success: boolean;
+		errorClass?: AdapterErrorClass;
 	}): TriggerReason {
 		if (result.success) {
 			this.safetyGuard.recordSuccess();
 			return TriggerReason.PREVIOUS_SUCCESS;
 		}
-		this.safetyGuard.recordFailure();
+		// Crashes, timeouts and rate limits say nothing about the agent's
+		// progress, so they do not count toward the consecutive failure limit;
+		// the iteration and runtime limits still stop a tool that never recovers
+		if (!result.errorClass || !isRetryable(result.errorClass)) {
+			this.safetyGuard.recordFailure();
+		}
 		return TriggerReason.RECOVERY;
 	}
 
 	/**
 	 * Check if we should stop due to loop detection
 	 */
-	private shouldStopOnLoop(result: { output?: string }): boolean {
+	private shouldStopOnLoop(
+		iteration: number,
+		result: { output?: string },
+	): boolean {
 		if (result.output && this.safetyGuard.detectLoop(result.output)) {
 			logger.warn("Loop detected, stopping");
+			this.events.emit("loop:detected", { runId: this.runId, iteration });
 			return true;
 		}
 		return false;
@@ -285,6 +1236,16 @@ export class RalphOrchestrator {
 			iteration % this.config.checkpointInterval === 0;
 
 		if (!shouldCheckpoint) return;
+		if (!this.lastVerificationPassed) {
+			logger.info(
+				`Skipping checkpoint for iteration ${iteration}: verification failed`,
+			);
+			return;
+		}
+		if (!(await this.runHook("on_checkpoint", iteration))) {
+			logger.info(`Checkpoint for iteration ${iteration} vetoed by hook`);
+			return;
+		}
 
 		await this.createCheckpoint(iteration);
 
@@ -294,9 +1255,244 @@ export class RalphOrchestrator {
 	}
 
 	/**
-	 * Wait before next iteration if configured
+	 * Archive the prompt file if it changed since its last snapshot
 	 */
-	private async waitBeforeNextIteration(): Promise<void> {
+	private async archivePrompt(iteration: number): Promise<void> {
+		if (!this.promptArchive) return;
+
+		try {
+			const prompt = await this.contextManager.getPrompt();
+			await this.promptArchive.save(this.runId, iteration, prompt);
+		} catch (error) {
+			logger.warn(`Failed to archive prompt: ${extractErrorMessage(error)}`);
+		}
+	}
+
+	/**
+	 * Whether tracked files have uncommitted changes, leaving out Ralph's own
+	 * files under `.agent` and the prompt file, whose task checklist it updates
+	 */
+	private hasUserChanges(): Promise<boolean> {
+		return hasTrackedChanges(this.workingDir, [
+			".agent",
+			this.config.promptFile,
+		]);
+	}
+
+	/**
+	 * Snapshot the working tree so an iteration's changes can be measured,
+	 * leaving out Ralph's own files under `.agent`
+	 */
+	private snapshotWorkingTree(cwd = this.workingDir): Promise<string | null> {
+		return writeWorkingTree(cwd, [".agent"]);
+	}
+
+	/**
+	 * Snapshot the working tree again and count the changes made since an
+	 * earlier snapshot
+	 */
+	private async measureChanges(
+		startTree: string | null,
+		cwd = this.workingDir,
+	): Promise<{ tree: string | null; diffStats?: DiffStats }> {
+		const tree = startTree ? await this.snapshotWorkingTree(cwd) : null;
+		if (!startTree || !tree) {
+			return { tree };
+		}
+		return {
+			tree,
+			diffStats: (await getDiffStats(startTree, tree, cwd)) ?? undefined,
+		};
+	}
+
+	/**
+	 * Switch to the run's own branch, creating it on the first run
+	 *
+	 * The branch starts from whatever is checked out, and uncommitted changes
+	 * come along with it.
+	 */
+	private async checkoutRunBranch(): Promise<void> {
+		if (!this.config.gitCheckpoint || !this.config.runBranch) return;
+
+		const current = await getCurrentBranch(this.workingDir);
+		const branch = getRunBranch(this.runId);
+		if (current === null || current === branch) return;
+
+		const exists = await branchExists(branch, this.workingDir);
+		const result = await checkoutBranch(branch, !exists, this.workingDir);
+		if (!result.success) {
+			logger.warn(
+				`Failed to check out ${branch}, checkpointing on ${current || "the current commit"}: ${result.stderr}`,
+			);
+			return;
+		}
+		logger.info(
+			exists
+				? `Switched to run branch ${branch}`
+				: `Created run branch ${branch} from ${current || "the current commit"}`,
+		);
+	}
+
+	/**
+	 * Whether failed iterations are rolled back
+	 *
+	 * Parallel workers fail in their own worktrees and are never merged, so
+	 * only sequential runs can leave the working tree broken.
+	 */
+	private isRollbackEnabled(): boolean {
+		return (
+			this.config.gitCheckpoint &&
+			this.config.rollbackAfter > 0 &&
+			this.config.parallelWorkers <= 1
+		);
+	}
+
+	/**
+	 * Use the starting commit as the first rollback target
+	 *
+	 * A hard reset would discard uncommitted changes to tracked files made
+	 * before the run, so a dirty tree waits for the first checkpoint instead.
+	 */
+	private async recordRollbackBaseline(): Promise<void> {
+		if (!this.isRollbackEnabled()) return;
+
+		if (await hasTrackedChanges(this.workingDir)) {
+			logger.info(
+				"Uncommitted changes at start, rollback is available after the first checkpoint",
+			);
+			return;
+		}
+		this.lastGoodCommit = await getCurrentCommit(this.workingDir);
+	}
+
+	/**
+	 * Act on a stall: stop the run, or run the recovery action once per stall
+	 * @returns Whether the run should stop
+	 */
+	private async handleStall(iteration: number): Promise<boolean> {
+		const stall = this.stallDetector.check();
+		if (stall.passed) {
+			return false;
+		}
+
+		const reason = stall.reason ?? "No progress";
+		if (
+			this.config.stallAction === "recover" &&
+			!this.stallDetector.hasRecovered()
+		) {
+			const iterations = this.stallDetector.getStalledIterations();
+			logger.warn(`${reason}, running stall recovery`);
+			this.stallDetector.markRecovered();
+			this.contextManager.addErrorFeedback(
+				`The last ${iterations} iterations changed no files in the repository. Make a concrete change toward the current task instead of describing the work again, or take a different approach.`,
+			);
+			this.events.emit("stall", { runId: this.runId, iteration, iterations });
+			if (!(await this.runHook("on_stall", iteration))) {
+				this.stopForHook("on_stall");
+				return true;
+			}
+			return false;
+		}
+
+		logger.warn(`Safety check failed: ${reason}`);
+		this.events.emit("safety:tripped", {
+			runId: this.runId,
+			iteration,
+			reason,
+		});
+		return true;
+	}
+
+	/**
+	 * Reset the working tree to the last good checkpoint after too many
+	 * consecutive failures, telling the agent what was undone
+	 */
+	private async rollbackIfNeeded(iteration: number): Promise<void> {
+		const failures = this.safetyGuard.getConsecutiveFailures();
+		if (!this.isRollbackEnabled() || failures < this.config.rollbackAfter) {
+			return;
+		}
+		if (this.metrics.getMetrics().rollbacks >= this.config.maxRollbacks) {
+			logger.warn(
+				`Not rolling back: reached the limit of ${this.config.maxRollbacks} rollbacks`,
+			);
+			return;
+		}
+		if (!this.lastGoodCommit) {
+			logger.warn("Not rolling back: no good checkpoint yet");
+			return;
+		}
+
+		const commit = this.lastGoodCommit;
+		const result = await resetToCommit(commit, true, this.workingDir);
+		if (!result.success) {
+			logger.warn(`Rollback to ${commit} failed: ${result.stderr}`);
+			return;
+		}
+
+		const shortCommit = commit.substring(0, 7);
+		logger.warn(
+			`Rolled back to ${shortCommit} after ${failures} consecutive failures`,
+		);
+		this.metrics.recordRollback();
+		this.safetyGuard.resetConsecutiveFailures();
+		this.contextManager.addErrorFeedback(
+			`The last ${failures} iterations failed, so the repository was reset to checkpoint ${shortCommit} and their changes to tracked files were undone. The last error was: ${this.lastError ?? "unknown error"}. Work from the checkpoint and take a different approach.`,
+		);
+		this.events.emit("rollback", {
+			runId: this.runId,
+			iteration,
+			commit,
+			failures,
+		});
+	}
+
+	/**
+	 * Run post_iteration and on_failure hooks, stopping the run if one fails
+	 */
+	private async runIterationHooks(
+		iteration: number,
+		result: IterationResult,
+	): Promise<void> {
+		this.lastIterationSuccess = result.success;
+		if (!result.success) {
+			this.lastError = result.error;
+		}
+
+		if (!(await this.runHook("post_iteration", iteration))) {
+			this.stopForHook("post_iteration");
+		}
+		if (!result.success && !(await this.runHook("on_failure", iteration))) {
+			this.stopForHook("on_failure");
+		}
+	}
+
+	/**
+	 * Run a lifecycle hook, returns false if it exited with an error
+	 */
+	private async runHook(hook: HookName, iteration: number): Promise<boolean> {
+		const result = await this.hookRunner.run(hook, {
+			runId: this.runId,
+			iteration,
+			success: this.lastIterationSuccess,
+			cost: this.costTracker.getTotalCost(),
+			lastError: this.lastError,
+		});
+		return result?.success ?? true;
+	}
+
+	/**
+	 * Stop the run because a hook failed
+	 */
+	private stopForHook(hook: HookName): void {
+		logger.warn(`Stopping run: ${hook} hook failed`);
+		this.stopRequested = true;
+	}
+
+	/**
+	 * Wait before next iteration if configured
+	 */
+	private async waitBeforeNextIteration(): Promise<void> {
 		if (!this.stopRequested && this.config.retryDelay > 0) {
 			await this.sleep(this.config.retryDelay * 1000);
 		}
@@ -306,19 +1502,180 @@ export class RalphOrchestrator {
 	 * Finalize orchestration
 	 */
 	private async finalize(iteration: number): Promise<void> {
-		if (this.config.gitCheckpoint && (await hasUncommittedChanges())) {
-			await this.createCheckpoint(iteration, "Final checkpoint");
+		if (
+			this.config.gitCheckpoint &&
+			(await hasUncommittedChanges(this.workingDir))
+		) {
+			if (!this.lastVerificationPassed) {
+				logger.info("Skipping final checkpoint: verification failed");
+			} else if (await this.runHook("on_checkpoint", this.completedIteration)) {
+				await this.createCheckpoint(iteration, "Final checkpoint");
+			} else {
+				logger.info("Final checkpoint vetoed by hook");
+			}
 		}
+		await this.persistRunState(this.stopRequested ? "stopped" : "completed");
+		await this.runHook("on_complete", this.completedIteration);
 		logger.info("Orchestration completed");
 		this.printSummary();
 	}
 
+	/**
+	 * Capture the run state needed to resume after a restart
+	 */
+	private createSnapshot(status: RunSnapshotStatus): RunSnapshot {
+		return {
+			version: RUN_SNAPSHOT_VERSION,
+			runId: this.runId,
+			status,
+			savedAt: new Date().toISOString(),
+			config: this.config,
+			iteration: this.completedIteration,
+			triggerReason: this.nextTriggerReason,
+			elapsedSeconds: this.getElapsedSeconds(),
+			metrics: this.metrics.getMetrics(),
+			costHistory: this.costTracker.getHistory(),
+			iterationStats: this.iterationStats.toSnapshot(),
+			safety: this.safetyGuard.getState(),
+			stall: this.stallDetector.getState(),
+			tasks: this.taskTracker.getAll(),
+			lastGoodCommit: this.lastGoodCommit ?? undefined,
+			checkpoints: this.checkpointCount,
+		};
+	}
+
+	/**
+	 * Restore counters, budgets, tasks and context from a snapshot
+	 */
+	private async restoreSnapshot(snapshot: RunSnapshot): Promise<void> {
+		this.completedIteration = snapshot.iteration;
+		this.nextTriggerReason = snapshot.triggerReason;
+		this.resumedElapsedSeconds = snapshot.elapsedSeconds;
+
+		this.metrics.restore(snapshot.metrics);
+		this.costTracker.restore(snapshot.costHistory);
+		this.iterationStats.restore(snapshot.iterationStats);
+		this.safetyGuard.restoreState(snapshot.safety);
+		if (snapshot.stall) {
+			this.stallDetector.restoreState(snapshot.stall);
+		}
+
+		this.taskTracker.load(snapshot.tasks);
+		this.lastGoodCommit = snapshot.lastGoodCommit ?? null;
+		this.checkpointCount = snapshot.checkpoints ?? 0;
+
+		await this.contextManager.loadFromCache(this.getContextCacheKey());
+	}
+
+	/**
+	 * Persist run state and context, logging rather than failing the run
+	 */
+	private async persistRunState(status: RunSnapshotStatus): Promise<void> {
+		try {
+			await this.stateStore.save(this.createSnapshot(status));
+			await this.contextManager.saveToCache(this.getContextCacheKey());
+		} catch (error) {
+			logger.warn(`Failed to save run state: ${extractErrorMessage(error)}`);
+		}
+	}
+
+	/**
+	 * Cache key for this run's context
+	 */
+	private getContextCacheKey(): string {
+		return `run-${this.runId}`;
+	}
+
 	/**
 	 * Stop the orchestration loop
 	 */
 	stop(): void {
 		logger.info("Stop requested");
 		this.stopRequested = true;
+		// Release a paused loop so it can observe the stop request
+		this.resumeWaiter?.();
+	}
+
+	/**
+	 * Pause the orchestration loop once the current iteration finishes
+	 */
+	pause(): void {
+		if (this.pauseRequested) return;
+		logger.info("Pause requested");
+		this.pauseRequested = true;
+	}
+
+	/**
+	 * Resume a paused orchestration loop
+	 */
+	resume(): void {
+		if (!this.pauseRequested) return;
+		logger.info("Resume requested");
+		this.pauseRequested = false;
+		this.resumeWaiter?.();
+	}
+
+	/**
+	 * Check whether the loop is currently paused
+	 */
+	isPaused(): boolean {
+		return this.paused;
+	}
+
+	/**
+	 * Register a listener for status changes, returns an unsubscribe function
+	 */
+	onStatusChange(listener: StatusChangeListener): () => void {
+		return this.events.on("status:change", listener);
+	}
+
+	/**
+	 * Register a listener for a lifecycle event, returns an unsubscribe function
+	 */
+	on<K extends keyof OrchestratorEvents>(
+		event: K,
+		listener: EventListener<OrchestratorEvents[K]>,
+	): () => void {
+		return this.events.on(event, listener);
+	}
+
+	/**
+	 * Register a listener for the next occurrence of a lifecycle event
+	 */
+	once<K extends keyof OrchestratorEvents>(
+		event: K,
+		listener: EventListener<OrchestratorEvents[K]>,
+	): () => void {
+		return this.events.once(event, listener);
+	}
+
+	/**
+	 * Hold between iterations while a pause is requested
+	 */
+	private async waitWhilePaused(): Promise<void> {
+		if (!this.pauseRequested || this.stopRequested) return;
+
+		this.paused = true;
+		this.pausedAt = Date.now();
+		logger.info("Orchestration paused");
+		this.notifyStatusChange();
+
+		await new Promise<void>((resolve) => {
+			this.resumeWaiter = resolve;
+		});
+
+		this.resumeWaiter = null;
+		this.pausedDuration += Date.now() - this.pausedAt;
+		this.paused = false;
+		logger.info("Orchestration resumed");
+		this.notifyStatusChange();
+	}
+
+	/**
+	 * Notify status listeners of the current state
+	 */
+	private notifyStatusChange(): void {
+		this.events.emit("status:change", this.getState());
 	}
 
 	/**
@@ -340,60 +1697,206 @@ export class RalphOrchestrator {
 		if (!this.adapter) {
 			throw new Error(`No adapter available for type: ${this.config.agent}`);
 		}
+		this.adapter.setPricing(this.pricing);
 
-		// Set up fallback adapters
-		this.fallbackAdapters = [];
-		const fallbackTypes = [AgentType.CLAUDE, AgentType.Q, AgentType.GEMINI];
+		if (this.config.summaryAgent) {
+			const summaryAdapter = await getAdapter(
+				this.config.summaryAgent,
+				this.config.adapters[this.config.summaryAgent] ?? {},
+			);
+			if (!summaryAdapter) {
+				logger.warn(
+					`Summary agent ${this.config.summaryAgent} is not available, using extractive summaries`,
+				);
+			}
+			summaryAdapter?.setPricing(this.pricing);
+			this.summarizer = new ContextSummarizer({
+				adapter: summaryAdapter,
+				model: this.config.summaryModel,
+			});
+		}
 
-		for (const type of fallbackTypes) {
-			if (type !== this.config.agent) {
-				const fallback = await getAdapter(type, adapterConfig);
-				if (fallback) {
-					this.fallbackAdapters.push(fallback);
-				}
+		// Set up fallback adapters in the configured order, each with its own
+		// adapter config
+		this.fallbackAdapters = [];
+		for (const type of this.config.fallback.order) {
+			if (type === this.config.agent) {
+				continue;
+			}
+			const fallback = await getAdapter(type, this.config.adapters[type] ?? {});
+			if (fallback && fallback.name !== this.adapter.name) {
+				fallback.setPricing(this.pricing);
+				this.fallbackAdapters.push(fallback);
 			}
 		}
 	}
 
 	/**
-	 * Execute a single iteration
+	 * Get the circuit breaker for an adapter, creating it on first use
 	 */
-	private async executeIteration(
+	private getCircuitBreaker(name: string): CircuitBreaker {
+		let breaker = this.circuitBreakers.get(name);
+		if (!breaker) {
+			breaker = new CircuitBreaker(name, {
+				failureThreshold: this.config.fallback.failureThreshold,
+				cooldown: this.config.fallback.cooldown,
+			});
+			this.circuitBreakers.set(name, breaker);
+		}
+		return breaker;
+	}
+
+	/**
+	 * Run a prompt on the primary adapter, moving down the fallback chain
+	 * while an adapter fails with one of the configured error classes
+	 *
+	 * Each adapter retries transient failures first. Adapters whose circuit
+	 * breaker is open are skipped. Ordinary task failures are returned as
+	 * they are and do not count against the breaker.
+	 */
+	private async executeWithFallback(
 		iteration: number,
-		_triggerReason: TriggerReason,
+		prompt: string,
+		cwd: string = this.workingDir,
 	): Promise<{
-		success: boolean;
-		output?: string;
-		error?: string;
-		tokensUsed?: number;
-		cost?: number;
+		adapter: string;
+		response: ToolResponse;
+		errorClass?: AdapterErrorClass;
+		retries: number;
 	}> {
-		logger.info(`Starting iteration ${iteration}`);
+		const primary = this.adapter;
+		if (!primary) {
+			throw new Error("No adapter available");
+		}
 
-		// Update current task
-		this.updateCurrentTask("in_progress");
+		let retries = 0;
+		let previous: {
+			adapter: string;
+			response: ToolResponse;
+			errorClass: AdapterErrorClass;
+		} | null = null;
+		let skipped: string | null = null;
+		for (const adapter of [primary, ...this.fallbackAdapters]) {
+			const breaker = this.getCircuitBreaker(adapter.name);
+			if (!breaker.canExecute()) {
+				logger.debug(`Skipping ${adapter.name}, its circuit breaker is open`);
+				skipped ??= adapter.name;
+				continue;
+			}
 
-		// Get prompt
-		const prompt = await this.contextManager.getPrompt();
+			if (previous) {
+				logger.warn(`${previous.adapter} failed, trying ${adapter.name}`);
+				this.events.emit("fallback", {
+					runId: this.runId,
+					iteration,
+					from: previous.adapter,
+					to: adapter.name,
+					reason: "failed",
+					error: previous.response.error,
+				});
+			} else if (skipped) {
+				logger.warn(
+					`${skipped} circuit breaker is open, using ${adapter.name}`,
+				);
+				this.events.emit("fallback", {
+					runId: this.runId,
+					iteration,
+					from: skipped,
+					to: adapter.name,
+					reason: "circuit_open",
+				});
+			}
 
-		// Execute with primary adapter
-		let response = await this.adapter!.execute(prompt, {
-			verbose: this.config.verbose,
-			timeout: this.config.adapters[this.adapter!.name]?.timeout ?? 300000,
-		});
+			let result: RetryResult;
+			try {
+				result = await executeWithRetry(
+					adapter,
+					prompt,
+					{
+						verbose: this.config.verbose,
+						timeout: adapter.getConfig().timeout * 1000,
+						cwd,
+					},
+					{
+						onRetry: () => this.metrics.recordRetry(),
+						shouldStop: () => this.stopRequested,
+						sleep: (ms) => this.sleep(ms),
+					},
+				);
+			} catch (error) {
+				// Release a half-open breaker's trial
+				breaker.recordFailure();
+				throw error;
+			}
+			retries += result.retries;
+			const { response, errorClass } = result;
+			if (!errorClass) {
+				breaker.recordSuccess();
+				return { adapter: adapter.name, response, retries };
+			}
 
-		// Try fallbacks if primary failed
-		if (!response.success && this.fallbackAdapters.length > 0) {
-			for (const fallback of this.fallbackAdapters) {
-				logger.warn(`Primary adapter failed, trying ${fallback.name}`);
-				response = await fallback.execute(prompt, {
-					verbose: this.config.verbose,
-				});
-				if (response.success) {
-					break;
-				}
+			if (errorClass === "task") {
+				breaker.recordSuccess();
+			} else {
+				breaker.recordFailure();
 			}
+			previous = { adapter: adapter.name, response, errorClass };
+			if (!this.config.fallback.on.includes(errorClass)) {
+				break;
+			}
+		}
+
+		if (!previous) {
+			return {
+				adapter: primary.name,
+				response: createErrorResponse(
+					"All adapters are unavailable (circuit breakers open)",
+				),
+				retries,
+			};
 		}
+		return { ...previous, retries };
+	}
+
+	/**
+	 * Execute a single iteration
+	 */
+	private async executeIteration(
+		iteration: number,
+		triggerReason: TriggerReason,
+	): Promise<
+		Omit<IterationResult, "iteration" | "triggerReason" | "duration">
+	> {
+		logger.info(`Starting iteration ${iteration}`);
+
+		// Update current task
+		const task = this.taskTracker.start();
+		this.events.emit("iteration:start", {
+			runId: this.runId,
+			iteration,
+			triggerReason,
+			task,
+		});
+
+		const basePrompt = await this.buildPrompt(task);
+		await this.summarizeContextIfNeeded(iteration, basePrompt, triggerReason);
+		const prompt = this.composeIterationPrompt(
+			basePrompt,
+			task,
+			triggerReason,
+			{
+				history: this.contextManager.getHistory(),
+				summary: this.contextManager.getSummary(),
+				errors: this.contextManager.getErrorHistory(),
+			},
+		);
+
+		const {
+			adapter: adapterName,
+			response,
+			errorClass,
+			retries,
+		} = await this.executeWithFallback(iteration, prompt);
 
 		// Update context
 		if (response.output) {
@@ -404,76 +1907,235 @@ export class RalphOrchestrator {
 			this.contextManager.addErrorFeedback(response.error);
 		}
 
-		// Check for task completion in output
-		if (response.success && response.output) {
-			this.checkTaskCompletion(response.output);
-		}
-
 		return {
+			adapter: adapterName,
 			success: response.success,
 			output: response.output,
 			error: response.error,
+			errorClass,
+			retries,
 			tokensUsed: response.tokensUsed,
+			inputTokens: response.inputTokens,
+			outputTokens: response.outputTokens,
+			cachedTokens: response.cachedTokens,
+			cacheWriteTokens: response.cacheWriteTokens,
+			model: response.model,
 			cost: response.cost,
 		};
 	}
 
 	/**
-	 * Extract tasks from prompt
+	 * Compose the prompt sent for an iteration: the full or focused prompt
+	 * with feedback from earlier iterations, asking for a status report while
+	 * tasks remain open
 	 */
-	private extractTasksFromPrompt(prompt: string): void {
-		// Pattern to match "TO" + "DO:" prefix (split to avoid triggering code smell rule)
-		const todoPattern = new RegExp("^TO" + String.raw`DO:\s*(.+)`, "gim");
-		const patterns = [
-			/- \[ \] (.+)/g, // Markdown checkbox
-			/^\d+\.\s+(.+)/gm, // Numbered list
-			/^Task:\s*(.+)/gim, // Task: prefix
-			todoPattern, // Matches task prefix in prompts
-		];
+	private composeIterationPrompt(
+		basePrompt: string,
+		task: Task | null,
+		triggerReason: TriggerReason,
+		feedback: { history: string[]; summary?: string; errors?: string[] },
+	): string {
+		const openTasks =
+			this.config.promptMode === "focused" && task
+				? [task]
+				: this.taskTracker.getOpen();
+		let prompt = composePrompt({
+			prompt: basePrompt,
+			triggerReason,
+			previousOutput: feedback.history.at(-1),
+			earlierOutputs: feedback.history.slice(0, -1),
+			summary: feedback.summary,
+			errors: feedback.errors,
+			budget: this.config.feedbackBudget,
+		});
+		if (openTasks.length > 0) {
+			prompt += formatStatusInstructions(openTasks);
+		}
+		return prompt;
+	}
 
-		const tasks: Task[] = [];
-		let id = 1;
-
-		for (const pattern of patterns) {
-			let match;
-			while ((match = pattern.exec(prompt)) !== null) {
-				if (match[1]) {
-					tasks.push({
-						id: id++,
-						description: match[1].trim(),
-						status: "pending",
-						createdAt: new Date().toISOString(),
-					});
-				}
+	/**
+	 * Fold earlier outputs into the rolling summary: those that no longer
+	 * fit in the feedback budget, or all but the latest once the prompt and
+	 * context pass the context threshold
+	 */
+	private async summarizeContextIfNeeded(
+		iteration: number,
+		prompt: string,
+		triggerReason: TriggerReason,
+	): Promise<void> {
+		const history = this.contextManager.getHistory();
+		if (history.length < 2) {
+			return;
+		}
+
+		const limit = Math.floor(
+			this.config.contextWindow * this.config.contextThreshold,
+		);
+		const tokens = estimateTokens(
+			[
+				prompt,
+				this.contextManager.getSummary(),
+				...history,
+				...this.contextManager.getErrorHistory(),
+			].join("\n\n"),
+		);
+		const dropped = countDroppedOutputs({
+			prompt,
+			triggerReason,
+			previousOutput: history.at(-1),
+			earlierOutputs: history.slice(0, -1),
+			summary: this.contextManager.getSummary(),
+			errors: this.contextManager.getErrorHistory(),
+			budget: this.config.feedbackBudget,
+		});
+
+		let older: string[];
+		if (tokens > limit) {
+			older = history.slice(0, -1);
+			logger.info(
+				`Context at ~${tokens} tokens exceeds ${limit}, summarizing ${older.length} earlier outputs`,
+			);
+		} else if (dropped > 0) {
+			older = history.slice(0, dropped);
+			logger.info(
+				`${dropped} earlier outputs no longer fit the feedback budget, summarizing them`,
+			);
+		} else {
+			return;
+		}
+
+		try {
+			const summary = await this.summarizer.summarize(
+				this.contextManager.getSummary(),
+				older,
+			);
+			// The summary call counts toward the cost and token limits like
+			// any iteration
+			if (summary.usage) {
+				this.recordUsage(summary.usage.adapter, summary.usage);
 			}
+			this.contextManager.compact(summary.text, history.length - older.length);
+			const path = await this.contextManager.saveSummary(
+				`run-${this.runId}-iteration-${iteration}`,
+				`<!-- ${summary.method} summary of ${older.length} outputs before iteration ${iteration}${summary.adapter ? ` by ${summary.adapter}` : ""} -->\n\n${summary.text}\n`,
+			);
+			logger.debug(`Saved context summary to ${path}`);
+		} catch (error) {
+			logger.warn(`Failed to summarize context: ${extractErrorMessage(error)}`);
+		}
+	}
+
+	/**
+	 * Get the prompt for an iteration, narrowed to the current task in
+	 * focused prompt mode
+	 */
+	private async buildPrompt(task: Task | null): Promise<string> {
+		const prompt = await this.contextManager.getPrompt();
+		if (this.config.promptMode !== "focused" || !task) {
+			return prompt;
 		}
 
-		this.taskQueue = tasks;
-		logger.debug(`Extracted ${tasks.length} tasks from prompt`);
+		return buildFocusedPrompt({
+			prompt,
+			task,
+			tasks: this.taskTracker.getAll(),
+		});
 	}
 
 	/**
-	 * Update current task status
+	 * Load tasks from the prompt, applying the configured task budget
 	 */
-	private updateCurrentTask(status: Task["status"]): void {
-		if (!this.currentTask && this.taskQueue.length > 0) {
-			this.currentTask = this.taskQueue.shift()!;
+	private loadTasks(prompt: string): void {
+		this.taskTracker.load(
+			parseTasks(prompt, {
+				maxIterations: this.config.taskMaxIterations || undefined,
+				maxCost: this.config.taskMaxCost || undefined,
+			}),
+		);
+	}
+
+	/**
+	 * Mark tasks as completed and tick them off in the prompt
+	 */
+	private async completeTasks(iteration: number, tasks: Task[]): Promise<void> {
+		for (const task of tasks) {
+			this.taskTracker.complete(task, iteration);
+			this.events.emit("task:completed", {
+				runId: this.runId,
+				iteration,
+				task,
+			});
+		}
+
+		const checkboxes = tasks.filter((task) => task.source === "checkbox");
+		if (checkboxes.length === 0) {
+			return;
 		}
 
-		if (this.currentTask) {
-			this.currentTask.status = status;
-			if (status === "completed") {
-				this.currentTask.completedAt = new Date().toISOString();
-				this.completedTasks.push(this.currentTask);
-				this.currentTask = null;
+		try {
+			let prompt = await this.contextManager.getPrompt();
+			for (const task of checkboxes) {
+				const updated = checkOffTask(prompt, task);
+				if (updated === null) {
+					logger.warn(`Task #${task.id} not found in the prompt checklist`);
+					continue;
+				}
+				prompt = updated;
 			}
+			await this.contextManager.updatePrompt(prompt);
+		} catch (error) {
+			logger.warn(
+				`Failed to update prompt checklist: ${extractErrorMessage(error)}`,
+			);
+		}
+	}
+
+	/**
+	 * Complete the tasks listed in the agent's status block
+	 */
+	private async checkTaskCompletion(
+		iteration: number,
+		output: string,
+	): Promise<void> {
+		const openTasks = this.taskTracker.getOpen();
+		if (openTasks.length === 0) {
+			return;
+		}
+
+		const { report, error } = parseStatusBlock(output);
+		if (!report) {
+			logger.warn(`${error}; falling back to completion keywords`);
+			await this.checkTaskCompletionKeywords(iteration, output);
+			return;
+		}
+
+		await this.completeTasks(iteration, matchCompletedTasks(report, openTasks));
+		if (report.blockers.length > 0) {
+			logger.warn(`Agent reported blockers: ${report.blockers.join("; ")}`);
+		}
+		if (report.confidence !== undefined) {
+			logger.debug(`Agent confidence: ${report.confidence}`);
+		}
+	}
+
+	/**
+	 * Complete the current task if output contains completion indicators
+	 */
+	private async checkTaskCompletionKeywords(
+		iteration: number,
+		output: string,
+	): Promise<void> {
+		const task = this.taskTracker.getCurrent();
+		if (task && this.hasCompletionKeyword(output)) {
+			await this.completeTasks(iteration, [task]);
 		}
 	}
 
 	/**
 	 * Check if output contains task completion indicators
 	 */
-	private checkTaskCompletion(output: string): void {
+	private hasCompletionKeyword(output: string): boolean {
 		const completionMarkers = [
 			"completed",
 			"done",
@@ -483,26 +2145,80 @@ export class RalphOrchestrator {
 		];
 
 		const lowerOutput = output.toLowerCase();
-		for (const marker of completionMarkers) {
-			if (lowerOutput.includes(marker)) {
-				this.updateCurrentTask("completed");
-				break;
-			}
+		return completionMarkers.some((marker) => lowerOutput.includes(marker));
+	}
+
+	/**
+	 * Check whether a worker's status block (or, failing that, its
+	 * completion keywords) reports its task as done
+	 */
+	private isTaskReportedDone(task: Task, output: string): boolean {
+		const { report, error } = parseStatusBlock(output);
+		if (!report) {
+			logger.warn(`${error}; falling back to completion keywords`);
+			return this.hasCompletionKeyword(output);
 		}
+
+		if (report.blockers.length > 0) {
+			logger.warn(
+				`Task #${task.id} reported blockers: ${report.blockers.join("; ")}`,
+			);
+		}
+		return matchCompletedTasks(report, [task]).length > 0;
 	}
 
 	/**
-	 * Create a checkpoint
+	 * Create a checkpoint, tagging the commit when there was something to
+	 * commit
 	 */
 	private async createCheckpoint(
 		iteration: number,
 		message?: string,
 	): Promise<void> {
 		try {
-			const result = await createCheckpoint(iteration, message);
+			const number = this.checkpointCount + 1;
+			const before = await getCurrentCommit(this.workingDir);
+			// Parallel work is committed by its merges, so the checkpoint gets
+			// an empty commit of its own when merges happened since the last one
+			const allowEmpty =
+				this.config.parallelWorkers > 1 && before !== this.lastCheckpointCommit;
+			const result = await createCheckpoint(
+				iteration,
+				formatCheckpointMessage(
+					message ?? `[Ralph Checkpoint] Iteration ${iteration}`,
+					{
+						runId: this.runId,
+						number,
+						iteration,
+						cost: this.costTracker.getTotalCost(),
+						// Checkpoints are skipped when verification fails
+						verification: this.verifier.isEnabled() ? "passed" : "none",
+					},
+				),
+				this.workingDir,
+				allowEmpty,
+			);
 			if (result.success) {
 				this.metrics.recordCheckpoint();
 				logger.debug(`Checkpoint created for iteration ${iteration}`);
+				const commit = await getCurrentCommit(this.workingDir);
+				if (commit && commit !== before) {
+					this.checkpointCount = number;
+					this.lastCheckpointCommit = commit;
+					const tag = await tagCheckpoint(this.runId, number, this.workingDir);
+					if (!tag.success) {
+						logger.warn(`Failed to tag checkpoint ${number}: ${tag.stderr}`);
+					}
+				}
+				if (commit && this.lastIterationSuccess !== false) {
+					this.lastGoodCommit = commit;
+				}
+				this.events.emit("checkpoint", {
+					runId: this.runId,
+					iteration,
+					commit,
+					message,
+				});
 			}
 		} catch (error) {
 			logger.warn(`Failed to create checkpoint: ${error}`);
@@ -510,10 +2226,13 @@ export class RalphOrchestrator {
 	}
 
 	/**
-	 * Get elapsed time in seconds
+	 * Get elapsed time in seconds, excluding time spent paused
 	 */
 	private getElapsedSeconds(): number {
-		return (Date.now() - this.startTime) / 1000;
+		const currentPause = this.paused ? Date.now() - this.pausedAt : 0;
+		return (
+			(Date.now() - this.startTime - this.pausedDuration - currentPause) / 1000
+		);
 	}
 
 	/**
@@ -550,6 +2269,9 @@ export class RalphOrchestrator {
 		console.log(`Success Rate: ${stats.successRate.toFixed(1)}%`);
 		console.log(`Runtime: ${stats.runtime}`);
 		console.log(`Total Cost: $${costs.totalCost.toFixed(4)}`);
+		console.log(
+			`Tokens: ${costs.totalTokens} (${costs.inputTokens} input, ${costs.outputTokens} output, ${costs.cachedTokens} cached)`,
+		);
 		console.log("=============================\n");
 	}
 
@@ -559,18 +2281,37 @@ export class RalphOrchestrator {
 	getState(): OrchestratorState {
 		return {
 			id: Date.now(),
-			status: this.running ? "running" : "stopped",
+			runId: this.runId,
+			status: this.getStatus(),
 			primaryTool: this.adapter?.name ?? "unknown",
 			promptFile: this.config.promptFile,
 			iteration: this.iterationStats.currentIteration,
 			maxIterations: this.config.maxIterations,
 			runtime: this.getElapsedSeconds(),
 			maxRuntime: this.config.maxRuntime,
-			tasks: this.taskQueue,
-			completedTasks: this.completedTasks,
+			tasks: this.taskTracker.getPending(),
+			currentTask: this.taskTracker.getCurrent(),
+			completedTasks: this.taskTracker.getCompleted(),
+			skippedTasks: this.taskTracker.getSkipped(),
+			taskProgress: this.taskTracker.getProgress(),
 		};
 	}
 
+	/**
+	 * Get the current run status
+	 */
+	private getStatus(): OrchestratorState["status"] {
+		if (!this.running) return "stopped";
+		return this.paused ? "paused" : "running";
+	}
+
+	/**
+	 * Get the run ID used for persisted state
+	 */
+	getRunId(): string {
+		return this.runId;
+	}
+
 	/**
 	 * Get metrics
 	 */
@@ -0,0 +1,5 @@
+/**
+ * Parallel worker exports for Ralph Orchestrator
+ */
+
+export { TaskWorkspace } from "./workspace.ts";
@@ -0,0 +1,130 @@
+/**
+ * Per-task git worktrees for parallel workers
+ *
+ * Each worker gets its own checkout on a `ralph/<run>/task-<id>` branch, so
+ * agents working on different tasks never see each other's half-finished
+ * changes. Finished work is merged back into the run branch one task at a
+ * time.
+ */
+
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Task } from "../types/index.ts";
+import {
+	type GitResult,
+	commit,
+	execGit,
+	getCurrentCommit,
+	hasStagedChanges,
+	stageAll,
+} from "../utils/git.ts";
+import {
+	type MergeResult,
+	createWorktree,
+	deleteBranch,
+	mergeBranch,
+	removeWorktree,
+	undoMerge,
+} from "../utils/worktree.ts";
+
+/**
+ * Git worktree and branch a single task is worked on in
+ */
+export class TaskWorkspace {
+	readonly branch: string;
+	readonly path: string;
+	private readonly repoRoot: string;
+	private readonly protectedPaths: string[];
+	private baseCommit: string | null = null;
+	// Run branch commit before the last merge, for undoMerge()
+	private mergedInto: string | null = null;
+
+	/**
+	 * @param repoRoot Root of the repository holding the run branch
+	 * @param protectedPaths Paths, relative to repoRoot, that only the
+	 * orchestrator writes on the run branch; task changes to them are dropped
+	 */
+	constructor(
+		repoRoot: string,
+		runId: string,
+		task: Task,
+		protectedPaths: string[] = [],
+	) {
+		this.repoRoot = repoRoot;
+		this.protectedPaths = protectedPaths;
+		this.branch = `ralph/${runId}/task-${task.id}`;
+		// Kept outside the repository so checkpoints never pick it up
+		this.path = join(tmpdir(), "ralph-worktrees", runId, `task-${task.id}`);
+	}
+
+	/**
+	 * Check out a new branch from the run branch's current commit
+	 */
+	async create(): Promise<void> {
+		// Clear anything left behind by an earlier attempt at the same task
+		await this.remove();
+
+		const result = await createWorktree(
+			this.path,
+			this.branch,
+			"HEAD",
+			this.repoRoot,
+		);
+		if (!result.success) {
+			throw new Error(`Failed to create worktree: ${result.stderr}`);
+		}
+		this.baseCommit = await getCurrentCommit(this.path);
+	}
+
+	/**
+	 * Commit outstanding changes, with protected paths restored to the base
+	 * commit; returns false if the task branch has no new commits, including
+	 * any the agent made itself
+	 */
+	async commit(message: string): Promise<boolean> {
+		if (!this.baseCommit) {
+			throw new Error("Workspace has not been created");
+		}
+		await stageAll(this.path);
+		if (this.protectedPaths.length > 0) {
+			// Undoes changes the agent committed itself as well
+			await execGit(
+				["reset", "-q", this.baseCommit, "--", ...this.protectedPaths],
+				this.path,
+			);
+		}
+		if (await hasStagedChanges(this.path)) {
+			const result = await commit(message, this.path);
+			if (!result.success) {
+				throw new Error(`Failed to commit task changes: ${result.stderr}`);
+			}
+		}
+		return (await getCurrentCommit(this.path)) !== this.baseCommit;
+	}
+
+	/**
+	 * Merge the task branch into the run branch
+	 */
+	async merge(message: string): Promise<MergeResult> {
+		this.mergedInto = await getCurrentCommit(this.repoRoot);
+		return mergeBranch(this.branch, message, this.repoRoot);
+	}
+
+	/**
+	 * Move the run branch back to where it was before merge()
+	 */
+	async undoMerge(): Promise<GitResult> {
+		if (!this.mergedInto) {
+			throw new Error("No merge to undo");
+		}
+		return undoMerge(this.mergedInto, this.repoRoot);
+	}
+
+	/**
+	 * Remove the worktree and its branch, discarding unmerged work
+	 */
+	async remove(): Promise<void> {
+		await removeWorktree(this.path, this.repoRoot);
+		await deleteBranch(this.branch, this.repoRoot);
+	}
+}
@@ -0,0 +1,146 @@
+/**
+ * Prompt archiving for Ralph Orchestrator
+ *
+ * The agent rewrites its own prompt file as it works (ticking off tasks,
+ * adding notes). A snapshot is saved whenever the prompt changes so the
+ * rewrites can be reviewed after the run.
+ */
+
+import { mkdir, readdir, stat } from "node:fs/promises";
+import { join } from "node:path";
+import { createLogger } from "../utils/logger.ts";
+
+const logger = createLogger("ralph-orchestrator.prompt.archive");
+
+/**
+ * An archived copy of the prompt
+ */
+export interface PromptSnapshot {
+	runId: string;
+	/** Iteration after which the prompt was saved (0 for the starting prompt) */
+	iteration: number;
+	path: string;
+	savedAt: Date;
+	/** Size in bytes */
+	size: number;
+}
+
+/**
+ * Store for prompt snapshots under `.agent/prompts/<runId>/<iteration>.md`
+ */
+export class PromptArchive {
+	private readonly baseDir: string;
+
+	constructor(baseDir = ".agent/prompts") {
+		this.baseDir = baseDir;
+	}
+
+	/**
+	 * Get the snapshot path for a run's iteration
+	 */
+	getPath(runId: string, iteration: number): string {
+		return join(this.baseDir, runId, `${iteration}.md`);
+	}
+
+	/**
+	 * Save the prompt for an iteration if it differs from the run's last
+	 * snapshot, returning whether a snapshot was written
+	 */
+	async save(
+		runId: string,
+		iteration: number,
+		prompt: string,
+	): Promise<boolean> {
+		const previous = (await this.list(runId)).at(-1);
+		if (previous && (await Bun.file(previous.path).text()) === prompt) {
+			return false;
+		}
+
+		await mkdir(join(this.baseDir, runId), { recursive: true });
+		await Bun.write(this.getPath(runId, iteration), prompt);
+		logger.debug(`Archived prompt for run ${runId} iteration ${iteration}`);
+		return true;
+	}
+
+	/**
+	 * List snapshots oldest first, for one run or for every run
+	 */
+	async list(runId?: string): Promise<PromptSnapshot[]> {
+		const runIds = runId ? [runId] : await this.listRuns();
+
+		const snapshots: PromptSnapshot[] = [];
+		for (const id of runIds) {
+			let entries: string[];
+			try {
+				entries = await readdir(join(this.baseDir, id));
+			} catch {
+				continue;
+			}
+
+			for (const entry of entries) {
+				const match = /^(\d+)\.md$/.exec(entry);
+				if (!match) {
+					continue;
+				}
+				const path = join(this.baseDir, id, entry);
+				const info = await stat(path);
+				snapshots.push({
+					runId: id,
+					iteration: Number(match[1]),
+					path,
+					savedAt: info.mtime,
+					size: info.size,
+				});
+			}
+		}
+
+		// Run IDs start with a timestamp, so they sort by start time
+		return snapshots.sort(
+			(a, b) => a.runId.localeCompare(b.runId) || a.iteration - b.iteration,
+		);
+	}
+
+	/**
+	 * List the runs with snapshots, oldest first
+	 */
+	async listRuns(): Promise<string[]> {
+		try {
+			const entries = await readdir(this.baseDir, { withFileTypes: true });
+			return entries
+				.filter((entry) => entry.isDirectory())
+				.map((entry) => entry.name)
+				.sort();
+		} catch {
+			return [];
+		}
+	}
+
+	/**
+	 * Find the prompt as it was at an iteration: the run's last snapshot
+	 * saved at or before it
+	 */
+	async find(runId: string, iteration: number): Promise<PromptSnapshot | null> {
+		const snapshots = await this.list(runId);
+		return (
+			snapshots.filter((snapshot) => snapshot.iteration <= iteration).at(-1) ??
+			null
+		);
+	}
+
+	/**
+	 * Find the snapshot for a reference, `<runId>/<iteration>` or just
+	 * `<iteration>` for the most recent run
+	 */
+	async resolve(ref: string): Promise<PromptSnapshot | null> {
+		const separator = ref.lastIndexOf("/");
+		const runId =
+			separator >= 0
+				? ref.substring(0, separator)
+				: (await this.listRuns()).at(-1);
+		const iteration = Number(ref.substring(separator + 1));
+		if (!runId || !Number.isInteger(iteration) || iteration < 0) {
+			return null;
+		}
+		return this.find(runId, iteration);
+	}
+}
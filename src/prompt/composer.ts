@@ -0,0 +1,215 @@
+/**
+ * Iteration prompt composition for Ralph Orchestrator
+ *
+ * Adds what happened in earlier iterations to the prompt: guidance that
+ * depends on why the iteration was triggered, the previous iteration's
+ * output, a summary of older output and the recent error history, within a
+ * character budget.
+ */
+
+import { TriggerReason } from "../types/index.ts";
+import { truncateOutput } from "../utils/shell.ts";
+
+/**
+ * Sections smaller than this are left out rather than truncated to nothing
+ */
+const MIN_SECTION_LENGTH = 200;
+
+/**
+ * Input for composing an iteration prompt
+ */
+export interface ComposePromptInput {
+	/** Full or focused prompt for the iteration */
+	prompt: string;
+	triggerReason: TriggerReason;
+	/** Output of the previous iteration */
+	previousOutput?: string;
+	/** Output of iterations before the previous one, oldest first */
+	earlierOutputs?: string[];
+	/** Rolling summary of output older than `earlierOutputs` */
+	summary?: string;
+	/** Recent errors, oldest first */
+	errors?: string[];
+	/** Characters available for the summary, earlier output and errors */
+	budget: number;
+}
+
+/**
+ * Guidance for the agent based on why the iteration was triggered
+ */
+export function getTriggerGuidance(
+	triggerReason: TriggerReason,
+): string | null {
+	switch (triggerReason) {
+		case TriggerReason.RECOVERY:
+			return "The previous iteration failed. Read the errors below and find their cause before changing anything, then take a different approach instead of repeating the steps that failed.";
+		case TriggerReason.PREVIOUS_SUCCESS:
+			return "The previous iteration succeeded. Continue from where it left off without redoing work that is already done.";
+		case TriggerReason.TASK_INCOMPLETE:
+			return "The previous iteration did not finish the current task. Check what is left and finish it.";
+		case TriggerReason.LOOP_DETECTED:
+			return "Recent iterations produced nearly identical output. Stop and try a different approach.";
+		default:
+			return null;
+	}
+}
+
+/**
+ * Add iteration context to a prompt
+ *
+ * Feedback is shown oldest first: the summary, earlier output, the previous
+ * output and then errors. When the budget is tight the previous output is
+ * kept first, except after a failure, when the errors are. Errors are left
+ * out when the previous iteration succeeded.
+ */
+export function composePrompt(input: ComposePromptInput): string {
+	return compose(input).prompt;
+}
+
+/**
+ * Count the oldest earlier outputs that do not fit in the budget and are
+ * left out of the composed prompt
+ */
+export function countDroppedOutputs(input: ComposePromptInput): number {
+	return compose(input).droppedOutputs;
+}
+
+/**
+ * Compose the prompt, noting how many earlier outputs were left out
+ */
+function compose(input: ComposePromptInput): {
+	prompt: string;
+	droppedOutputs: number;
+} {
+	const sections = [input.prompt.trimEnd()];
+
+	const guidance = getTriggerGuidance(input.triggerReason);
+	if (guidance) {
+		sections.push(`## Iteration Context\n\n${guidance}`);
+	}
+
+	const errors =
+		input.triggerReason === TriggerReason.PREVIOUS_SUCCESS
+			? []
+			: (input.errors ?? []);
+	const earlierOutputs = input.earlierOutputs ?? [];
+	let includedOutputs = 0;
+
+	// Builders in display order
+	const builders = [
+		(budget: number) => formatSummary(input.summary, budget),
+		(budget: number) => {
+			const entries = formatEntries(
+				"## Earlier Iterations (oldest first)",
+				earlierOutputs,
+				(index) => `${earlierOutputs.length - index + 1} iterations ago`,
+				budget,
+			);
+			includedOutputs = entries?.count ?? 0;
+			return entries?.text ?? null;
+		},
+		(budget: number) => formatPreviousOutput(input.previousOutput, budget),
+		(budget: number) =>
+			formatEntries(
+				"## Recent Errors (oldest first)",
+				errors,
+				(index) => `Error ${index + 1}`,
+				budget,
+			)?.text ?? null,
+	];
+	const priority =
+		input.triggerReason === TriggerReason.RECOVERY
+			? [3, 2, 0, 1]
+			: [2, 0, 1, 3];
+
+	let remaining = input.budget;
+	const feedback: Array<string | null> = builders.map(() => null);
+	for (const index of priority) {
+		const section = builders[index]?.(remaining) ?? null;
+		if (section) {
+			feedback[index] = section;
+			// Count the blank line that separates it from the previous section
+			remaining -= section.length + 2;
+		}
+	}
+
+	return {
+		prompt: `${[...sections, ...feedback.filter((section) => section !== null)].join("\n\n")}\n`,
+		droppedOutputs: earlierOutputs.length - includedOutputs,
+	};
+}
+
+/**
+ * Format the rolling summary of earlier iterations
+ */
+function formatSummary(
+	summary: string | undefined,
+	budget: number,
+): string | null {
+	const heading = "## Summary of Earlier Iterations\n\n";
+	const available = budget - heading.length - 2;
+	if (!summary?.trim() || available < MIN_SECTION_LENGTH) {
+		return null;
+	}
+	return `${heading}${truncateToLength(summary.trim(), available)}`;
+}
+
+/**
+ * Format the end of the previous iteration's output
+ */
+function formatPreviousOutput(
+	output: string | undefined,
+	budget: number,
+): string | null {
+	const heading = "## Previous Iteration\n\n";
+	const available = budget - heading.length - 2;
+	if (!output?.trim() || available < MIN_SECTION_LENGTH) {
+		return null;
+	}
+	return `${heading}${truncateToLength(output.trim(), available)}`;
+}
+
+/**
+ * Format as many of the most recent entries as fit in the budget, with the
+ * number of entries included
+ */
+function formatEntries(
+	heading: string,
+	entries: string[],
+	label: (index: number) => string,
+	budget: number,
+): { text: string; count: number } | null {
+	let available = budget - heading.length - 2;
+	const included: string[] = [];
+
+	for (let index = entries.length - 1; index >= 0; index--) {
+		const entry = entries[index]?.trim() ?? "";
+		const title = `### ${label(index)}\n\n`;
+		const room = available - title.length - 2;
+		if (room < entry.length && room < MIN_SECTION_LENGTH) {
+			break;
+		}
+		const text = `${title}${truncateToLength(entry, room)}`;
+		included.unshift(text);
+		available -= text.length + 2;
+	}
+
+	if (included.length === 0) {
+		return null;
+	}
+	return {
+		text: [heading, ...included].join("\n\n"),
+		count: included.length,
+	};
+}
+
+/**
+ * Keep the end of the text, including the truncation marker, within length
+ */
+function truncateToLength(text: string, length: number): string {
+	if (text.length <= length) {
+		return text;
+	}
+	const marker = `[... ${text.length} characters truncated ...]\n`.length;
+	return truncateOutput(text, length - marker);
+}
@@ -0,0 +1,84 @@
+/**
+ * Focused prompt mode for Ralph Orchestrator
+ *
+ * Instead of resending the whole prompt file every iteration, a focused
+ * prompt carries the prompt's header, the current task and a short list of
+ * completed tasks.
+ */
+
+import { parseTaskLine } from "../tasks/parser.ts";
+import type { Task } from "../types/index.ts";
+
+/**
+ * Completed tasks listed before the rest are summarized as a count
+ */
+const COMPLETED_TASK_LIMIT = 10;
+
+/**
+ * Input for building a focused prompt
+ */
+export interface FocusedPromptInput {
+	/** Full prompt text */
+	prompt: string;
+	/** Task to work on this iteration */
+	task: Task;
+	/** Every task from the prompt */
+	tasks: Task[];
+}
+
+/**
+ * Get the part of the prompt before its first task, without trailing
+ * headings that only introduce the task list
+ */
+export function extractPromptHeader(prompt: string): string {
+	const lines = prompt.split("\n");
+	const firstTask = lines.findIndex((line) => parseTaskLine(line) !== null);
+	const header = firstTask === -1 ? lines : lines.slice(0, firstTask);
+
+	while (header.length > 0) {
+		const last = header.at(-1)?.trim() ?? "";
+		if (last !== "" && !last.startsWith("#")) {
+			break;
+		}
+		header.pop();
+	}
+
+	return header.join("\n");
+}
+
+/**
+ * Build the prompt for one task
+ */
+export function buildFocusedPrompt(input: FocusedPromptInput): string {
+	const { task, tasks } = input;
+	const sections: string[] = [];
+
+	const header = extractPromptHeader(input.prompt);
+	if (header) {
+		sections.push(header);
+	}
+
+	const current = [`## Current Task\n\n#${task.id} ${task.description}`];
+	const parent = tasks.find((other) => other.id === task.parentId);
+	if (parent) {
+		current.push(`Part of: #${parent.id} ${parent.description}`);
+	}
+	sections.push(current.join("\n"));
+
+	const completed = tasks.filter((other) => other.status === "completed");
+	if (completed.length > 0) {
+		const listed = completed
+			.slice(-COMPLETED_TASK_LIMIT)
+			.map((other) => `- #${other.id} ${other.description}`);
+		if (completed.length > COMPLETED_TASK_LIMIT) {
+			listed.unshift(
+				`- ...and ${completed.length - COMPLETED_TASK_LIMIT} earlier tasks`,
+			);
+		}
+		sections.push(
+			`## Completed Tasks (${completed.length} of ${tasks.length})\n\n${listed.join("\n")}`,
+		);
+	}
+
+	return `${sections.join("\n\n")}\n`;
+}
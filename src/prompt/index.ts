@@ -0,0 +1,16 @@
+/**
+ * Prompt exports for Ralph Orchestrator
+ */
+
+export { PromptArchive, type PromptSnapshot } from "./archive.ts";
+export {
+	type ComposePromptInput,
+	composePrompt,
+	countDroppedOutputs,
+	getTriggerGuidance,
+} from "./composer.ts";
+export {
+	type FocusedPromptInput,
+	buildFocusedPrompt,
+	extractPromptHeader,
+} from "./focused.ts";
@@ -0,0 +1,110 @@
+/**
+ * Circuit breaker for Ralph Orchestrator adapters
+ */
+
+import {
+	type CircuitBreakerOptions,
+	type CircuitState,
+	DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+} from "../types/index.ts";
+import { createLogger } from "../utils/logger.ts";
+
+const logger = createLogger("ralph-orchestrator.safety");
+
+/**
+ * Stops using an adapter after repeated failures
+ *
+ * The breaker opens after `failureThreshold` failures in a row. Once the
+ * cooldown has passed it half-opens and allows one trial run: a success
+ * closes it again, a failure reopens it for another cooldown. Other callers
+ * are turned away until the trial is recorded.
+ */
+export class CircuitBreaker {
+	readonly name: string;
+	private failureThreshold: number;
+	private cooldown: number;
+	private failures = 0;
+	private openedAt: number | null = null;
+	private trialInFlight = false;
+
+	constructor(name: string, options: CircuitBreakerOptions = {}) {
+		const opts = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...options };
+		this.name = name;
+		this.failureThreshold = opts.failureThreshold;
+		this.cooldown = opts.cooldown;
+	}
+
+	/**
+	 * Get the current state
+	 */
+	getState(): CircuitState {
+		if (this.openedAt === null) {
+			return "closed";
+		}
+		const elapsed = (Date.now() - this.openedAt) / 1000;
+		return elapsed >= this.cooldown ? "half_open" : "open";
+	}
+
+	/**
+	 * Whether the adapter may be used, taking the trial run when half-open
+	 */
+	canExecute(): boolean {
+		const state = this.getState();
+		if (state === "closed") {
+			return true;
+		}
+		if (state === "open" || this.trialInFlight) {
+			return false;
+		}
+		this.trialInFlight = true;
+		return true;
+	}
+
+	/**
+	 * Record a run that reached the adapter, closing the breaker
+	 */
+	recordSuccess(): void {
+		if (this.openedAt !== null) {
+			logger.info(`Circuit breaker for ${this.name} closed`);
+		}
+		this.failures = 0;
+		this.openedAt = null;
+		this.trialInFlight = false;
+	}
+
+	/**
+	 * Record a failed run, opening the breaker at the threshold or when a
+	 * half-open trial fails
+	 */
+	recordFailure(): void {
+		this.failures++;
+		if (
+			this.getState() === "half_open" ||
+			this.failures >= this.failureThreshold
+		) {
+			if (this.openedAt === null) {
+				logger.warn(
+					`Circuit breaker for ${this.name} opened after ${this.failures} failures`,
+				);
+			}
+			this.openedAt = Date.now();
+		}
+		this.trialInFlight = false;
+	}
+
+	/**
+	 * Get the number of failures in a row
+	 */
+	getFailures(): number {
+		return this.failures;
+	}
+
+	/**
+	 * Close the breaker and clear the failure count
+	 */
+	reset(): void {
+		this.failures = 0;
+		this.openedAt = null;
+		this.trialInFlight = false;
+	}
+}
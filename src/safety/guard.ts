@@ -7,6 +7,7 @@ import {
 	type SafetyCheckParams,
 	type SafetyCheckResult,
 	type SafetyGuardOptions,
+	type SafetyGuardState,
 	safeFailed,
 	safePassed,
 } from "../types/index.ts";
@@ -22,6 +23,9 @@ export class SafetyGuard {
 	private maxIterations: number;
 	private maxRuntime: number;
 	private maxCost: number;
+	private maxTokens: number;
+	private tokenWarningThreshold: number;
+	private tokenWarningIssued = false;
 	private consecutiveFailureLimit: number;
 	private consecutiveFailures = 0;
 	private recentOutputs: string[] = [];
@@ -33,6 +37,8 @@ export class SafetyGuard {
 		this.maxIterations = opts.maxIterations;
 		this.maxRuntime = opts.maxRuntime;
 		this.maxCost = opts.maxCost;
+		this.maxTokens = opts.maxTokens;
+		this.tokenWarningThreshold = opts.tokenWarningThreshold;
 		this.consecutiveFailureLimit = opts.consecutiveFailureLimit;
 		this.loopThreshold = opts.loopThreshold;
 		this.maxRecentOutputs = opts.maxRecentOutputs;
@@ -42,7 +48,7 @@ export class SafetyGuard {
 	 * Check all safety conditions
 	 */
 	check(params: SafetyCheckParams): SafetyCheckResult {
-		const { iterations, elapsedTime, totalCost } = params;
+		const { iterations, elapsedTime, totalCost, totalTokens = 0 } = params;
 
 		// Check iteration limit
 		if (iterations >= this.maxIterations) {
@@ -60,6 +66,13 @@ export class SafetyGuard {
 			return safeFailed(`Reached maximum cost ($${totalCost.toFixed(2)})`);
 		}
 
+		// Check token limit
+		if (totalTokens >= this.maxTokens) {
+			return safeFailed(
+				`Reached maximum tokens (${totalTokens.toLocaleString("en-US")} of ${this.maxTokens.toLocaleString("en-US")})`,
+			);
+		}
+
 		// Check consecutive failures
 		if (this.consecutiveFailures >= this.consecutiveFailureLimit) {
 			return safeFailed(
@@ -79,7 +92,23 @@ export class SafetyGuard {
 			}
 		}
 
-		return safePassed();
+		const warning = this.getTokenWarning(totalTokens);
+		return warning ? { passed: true, warning } : safePassed();
+	}
+
+	/**
+	 * Warning for the first check that passes the token warning threshold
+	 */
+	private getTokenWarning(totalTokens: number): string | undefined {
+		if (
+			this.tokenWarningIssued ||
+			totalTokens < this.maxTokens * this.tokenWarningThreshold
+		) {
+			return undefined;
+		}
+		this.tokenWarningIssued = true;
+		const percent = Math.floor((totalTokens / this.maxTokens) * 100);
+		return `Used ${percent}% of the token budget (${totalTokens.toLocaleString("en-US")} of ${this.maxTokens.toLocaleString("en-US")})`;
 	}
 
 	/**
@@ -97,6 +126,13 @@ export class SafetyGuard {
 		logger.warn(`Consecutive failures: ${this.consecutiveFailures}`);
 	}
 
+	/**
+	 * Start counting consecutive failures again, such as after a rollback
+	 */
+	resetConsecutiveFailures(): void {
+		this.consecutiveFailures = 0;
+	}
+
 	/**
 	 * Get consecutive failure count
 	 */
@@ -110,6 +146,7 @@ export class SafetyGuard {
 	reset(): void {
 		this.consecutiveFailures = 0;
 		this.recentOutputs = [];
+		this.tokenWarningIssued = false;
 	}
 
 	/**
@@ -151,6 +188,26 @@ export class SafetyGuard {
 		this.recentOutputs = [];
 	}
 
+	/**
+	 * Get the mutable counters for persistence
+	 */
+	getState(): SafetyGuardState {
+		return {
+			consecutiveFailures: this.consecutiveFailures,
+			recentOutputs: [...this.recentOutputs],
+			tokenWarningIssued: this.tokenWarningIssued,
+		};
+	}
+
+	/**
+	 * Restore counters saved with getState()
+	 */
+	restoreState(state: SafetyGuardState): void {
+		this.consecutiveFailures = state.consecutiveFailures;
+		this.recentOutputs = state.recentOutputs.slice(-this.maxRecentOutputs);
+		this.tokenWarningIssued = state.tokenWarningIssued ?? false;
+	}
+
 	/**
 	 * Update configuration
 	 */
@@ -164,6 +221,12 @@ export class SafetyGuard {
 		if (options.maxCost !== undefined) {
 			this.maxCost = options.maxCost;
 		}
+		if (options.maxTokens !== undefined) {
+			this.maxTokens = options.maxTokens;
+		}
+		if (options.tokenWarningThreshold !== undefined) {
+			this.tokenWarningThreshold = options.tokenWarningThreshold;
+		}
 		if (options.consecutiveFailureLimit !== undefined) {
 			this.consecutiveFailureLimit = options.consecutiveFailureLimit;
 		}
@@ -183,6 +246,8 @@ export class SafetyGuard {
 			maxIterations: this.maxIterations,
 			maxRuntime: this.maxRuntime,
 			maxCost: this.maxCost,
+			maxTokens: this.maxTokens,
+			tokenWarningThreshold: this.tokenWarningThreshold,
 			consecutiveFailureLimit: this.consecutiveFailureLimit,
 			loopThreshold: this.loopThreshold,
 			maxRecentOutputs: this.maxRecentOutputs,
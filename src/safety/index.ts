@@ -2,4 +2,6 @@
  * Safety exports for Ralph Orchestrator
  */
 
+export { CircuitBreaker } from "./circuit-breaker.ts";
 export { SafetyGuard } from "./guard.ts";
+export { StallDetector } from "./stall-detector.ts";
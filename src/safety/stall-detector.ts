@@ -0,0 +1,123 @@
+/**
+ * Stall detection for Ralph Orchestrator
+ */
+
+import {
+	DEFAULT_STALL_DETECTOR_OPTIONS,
+	type DiffStats,
+	type SafetyCheckResult,
+	type StallDetectorOptions,
+	type StallDetectorState,
+	safeFailed,
+	safePassed,
+} from "../types/index.ts";
+import { createLogger } from "../utils/logger.ts";
+
+const logger = createLogger("ralph-orchestrator.safety");
+
+/**
+ * Notices when iterations stop changing the repository
+ *
+ * Loop detection compares the agent's output, but an agent can describe
+ * its work differently every time while changing nothing. An iteration
+ * counts as stalled when its diff touched no files or the working tree hash
+ * is the same as after the previous iteration. Iterations that could not be
+ * measured (outside a git repository) are not counted either way.
+ */
+export class StallDetector {
+	private stallLimit: number;
+	private stalledIterations = 0;
+	private lastTree: string | null = null;
+	private recovered = false;
+
+	constructor(options: StallDetectorOptions = {}) {
+		const opts = { ...DEFAULT_STALL_DETECTOR_OPTIONS, ...options };
+		this.stallLimit = opts.stallLimit;
+	}
+
+	/**
+	 * Whether stalls are detected at all
+	 */
+	isEnabled(): boolean {
+		return this.stallLimit > 0;
+	}
+
+	/**
+	 * Record what an iteration changed, returning whether it made progress
+	 * @param tree - Working tree hash after the iteration, if known
+	 */
+	record(diffStats?: DiffStats, tree?: string | null): boolean {
+		if (!diffStats && !tree) {
+			return true;
+		}
+
+		const unchangedTree = !!tree && tree === this.lastTree;
+		if (tree) {
+			this.lastTree = tree;
+		}
+
+		if (diffStats?.filesChanged === 0 || unchangedTree) {
+			this.stalledIterations++;
+			logger.debug(`Iterations without changes: ${this.stalledIterations}`);
+			return false;
+		}
+
+		this.stalledIterations = 0;
+		this.recovered = false;
+		return true;
+	}
+
+	/**
+	 * Check whether the run has stalled
+	 */
+	check(): SafetyCheckResult {
+		if (!this.isEnabled() || this.stalledIterations < this.stallLimit) {
+			return safePassed();
+		}
+		return safeFailed(
+			`No progress in the last ${this.stalledIterations} iterations: no files changed`,
+		);
+	}
+
+	/**
+	 * Give the run another stallLimit iterations after a recovery action
+	 */
+	markRecovered(): void {
+		this.stalledIterations = 0;
+		this.recovered = true;
+	}
+
+	/**
+	 * Whether a recovery action already ran for the current stall
+	 */
+	hasRecovered(): boolean {
+		return this.recovered;
+	}
+
+	/**
+	 * Get the number of iterations in a row that changed nothing
+	 */
+	getStalledIterations(): number {
+		return this.stalledIterations;
+	}
+
+	/**
+	 * Get the mutable counters for persistence
+	 */
+	getState(): StallDetectorState {
+		return {
+			stalledIterations: this.stalledIterations,
+			lastTree: this.lastTree,
+			recovered: this.recovered,
+		};
+	}
+
+	/**
+	 * Restore counters saved with getState()
+	 */
+	restoreState(state: StallDetectorState): void {
+		this.stalledIterations = state.stalledIterations;
+		this.lastTree = state.lastTree;
+		this.recovered = state.recovered;
+	}
+}
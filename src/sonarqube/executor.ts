@@ -19,6 +19,11 @@ const logger = createLogger("ralph-orchestrator.sonarqube");
  */
 export type ScanMode = "changed" | "full";
 
+/**
+ * Scan script, relative to the working directory.
+ */
+export const SONAR_SCAN_SCRIPT = join(".adws", "adw_sonar_scan.ts");
+
 /**
  * SonarQube executor for Ralph orchestrator.
  *
@@ -45,7 +50,7 @@ export class SonarQubeExecutor {
 		logger.info(`Executing SonarQube scan: ${mode}`);
 
 		try {
-			const scriptPath = join(this.workingDir, ".adws", "adw_sonar_scan.ts");
+			const scriptPath = join(this.workingDir, SONAR_SCAN_SCRIPT);
 
 			// Spawn ADW script
 			const proc = spawn({
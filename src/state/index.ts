@@ -0,0 +1,11 @@
+/**
+ * State exports for Ralph Orchestrator
+ */
+
+export {
+	RunStateStore,
+	RUN_SNAPSHOT_VERSION,
+	type RunSnapshot,
+	type RunSnapshotStatus,
+	createRunId,
+} from "./run-state.ts";
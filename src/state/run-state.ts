@@ -0,0 +1,159 @@
+/**
+ * Run state persistence for Ralph Orchestrator
+ *
+ * Snapshots are written after every iteration so that a run can be
+ * rebuilt with `ralph resume` after the process dies.
+ */
+
+import { mkdir, readdir, rename } from "node:fs/promises";
+import { join } from "node:path";
+import type {
+	CostEntry,
+	IterationStatsSnapshot,
+	Metrics,
+	RalphConfig,
+	SafetyGuardState,
+	StallDetectorState,
+	Task,
+	TriggerReason,
+} from "../types/index.ts";
+import { createLogger } from "../utils/logger.ts";
+import { toJsonString } from "../utils/shared.ts";
+
+const logger = createLogger("ralph-orchestrator.state");
+
+/**
+ * Snapshot format version
+ */
+export const RUN_SNAPSHOT_VERSION = 2;
+
+/**
+ * Status recorded in a run snapshot
+ */
+export type RunSnapshotStatus = "running" | "stopped" | "completed" | "error";
+
+/**
+ * Persisted state of an orchestration run
+ */
+export interface RunSnapshot {
+	version: number;
+	runId: string;
+	status: RunSnapshotStatus;
+	savedAt: string;
+	config: RalphConfig;
+	/** Last completed iteration */
+	iteration: number;
+	/** Trigger reason for the next iteration */
+	triggerReason: TriggerReason;
+	/** Active (unpaused) runtime in seconds */
+	elapsedSeconds: number;
+	metrics: Metrics;
+	costHistory: CostEntry[];
+	iterationStats: IterationStatsSnapshot;
+	safety: SafetyGuardState;
+	stall?: StallDetectorState;
+	/** Every task from the prompt, in prompt order */
+	tasks: Task[];
+	/** Commit a rollback resets to, if there is one */
+	lastGoodCommit?: string;
+	/** Checkpoints tagged so far */
+	checkpoints?: number;
+}
+
+/**
+ * Generate a sortable, filesystem and branch safe run ID
+ */
+export function createRunId(date: Date = new Date()): string {
+	const stamp = date
+		.toISOString()
+		.replace(/[-:]/g, "")
+		.replace("T", "-")
+		.substring(0, 15);
+	return `${stamp}-${crypto.randomUUID().substring(0, 4)}`;
+}
+
+/**
+ * Store for run snapshots under `.agent/runs/<runId>/state.json`
+ */
+export class RunStateStore {
+	private readonly baseDir: string;
+
+	constructor(baseDir = ".agent/runs") {
+		this.baseDir = baseDir;
+	}
+
+	/**
+	 * Get the snapshot path for a run
+	 */
+	getPath(runId: string): string {
+		return join(this.baseDir, runId, "state.json");
+	}
+
+	/**
+	 * Save a snapshot, replacing the previous one atomically
+	 */
+	async save(snapshot: RunSnapshot): Promise<void> {
+		const path = this.getPath(snapshot.runId);
+		await mkdir(join(this.baseDir, snapshot.runId), { recursive: true });
+
+		const tempPath = `${path}.tmp`;
+		await Bun.write(tempPath, toJsonString(snapshot));
+		await rename(tempPath, path);
+		logger.debug(`Saved run state for ${snapshot.runId}`);
+	}
+
+	/**
+	 * Load the snapshot for a run
+	 */
+	async load(runId: string): Promise<RunSnapshot | null> {
+		const file = Bun.file(this.getPath(runId));
+
+		if (!(await file.exists())) {
+			return null;
+		}
+
+		try {
+			const snapshot = (await file.json()) as RunSnapshot;
+			if (snapshot.version !== RUN_SNAPSHOT_VERSION) {
+				logger.warn(
+					`Unsupported run state version ${snapshot.version} for ${runId}`,
+				);
+				return null;
+			}
+			return snapshot;
+		} catch (error) {
+			logger.warn(`Failed to load run state for ${runId}: ${error}`);
+			return null;
+		}
+	}
+
+	/**
+	 * List saved snapshots, most recently saved first
+	 */
+	async list(): Promise<RunSnapshot[]> {
+		let entries: string[];
+		try {
+			entries = await readdir(this.baseDir);
+		} catch {
+			return [];
+		}
+
+		const snapshots: RunSnapshot[] = [];
+		for (const runId of entries) {
+			const snapshot = await this.load(runId);
+			if (snapshot) {
+				snapshots.push(snapshot);
+			}
+		}
+
+		return snapshots.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+	}
+
+	/**
+	 * Get the most recently saved snapshot
+	 */
+	async latest(): Promise<RunSnapshot | null> {
+		const snapshots = await this.list();
+		return snapshots[0] ?? null;
+	}
+}
@@ -0,0 +1,54 @@
+/**
+ * Prompt checklist updates for Ralph Orchestrator
+ */
+
+import type { Task } from "../types/index.ts";
+import { parseTaskLine } from "./parser.ts";
+
+/**
+ * Flip a task's `- [ ]` to `- [x]` in the prompt
+ *
+ * Looks at the line the task was read from first, then anywhere else in
+ * case the prompt has been edited since. Returns null if no unchecked item
+ * with the task's description is found.
+ */
+export function checkOffTask(prompt: string, task: Task): string | null {
+	const lines = prompt.split("\n");
+	const candidates = [task.line - 1, ...lines.keys()];
+
+	for (const index of candidates) {
+		const line = lines[index];
+		if (line === undefined) {
+			continue;
+		}
+		const parsed = parseTaskLine(line);
+		if (
+			parsed?.source === "checkbox" &&
+			!parsed.checked &&
+			parsed.description === task.description
+		) {
+			lines[index] = line.replace("[ ]", "[x]");
+			return lines.join("\n");
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Check whether the prompt has a checklist with every item checked
+ */
+export function isChecklistComplete(prompt: string): boolean {
+	let checkboxes = 0;
+	for (const line of prompt.split("\n")) {
+		const parsed = parseTaskLine(line);
+		if (parsed?.source !== "checkbox") {
+			continue;
+		}
+		if (!parsed.checked) {
+			return false;
+		}
+		checkboxes++;
+	}
+	return checkboxes > 0;
+}
@@ -0,0 +1,17 @@
+/**
+ * Task exports for Ralph Orchestrator
+ */
+
+export { type TaskLine, parseTaskLine, parseTasks } from "./parser.ts";
+
+export { checkOffTask, isChecklistComplete } from "./checklist.ts";
+
+export { TaskTracker } from "./tracker.ts";
+
+export {
+	STATUS_BLOCK_LANGUAGE,
+	type StatusBlockParseResult,
+	parseStatusBlock,
+	matchCompletedTasks,
+	formatStatusInstructions,
+} from "./status-block.ts";
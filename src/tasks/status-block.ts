@@ -0,0 +1,177 @@
+/**
+ * Structured completion protocol for Ralph Orchestrator
+ *
+ * The agent is asked to end its output with a fenced `ralph-status` JSON
+ * block, so task progress comes from what it reports rather than from
+ * keywords that appear in almost every response.
+ */
+
+import type { Task, TaskStatusReport } from "../types/index.ts";
+import { findBestMatch } from "../utils/fuzzy-match.ts";
+import { extractErrorMessage } from "../utils/shared.ts";
+
+/**
+ * Info string of the fenced status block
+ */
+export const STATUS_BLOCK_LANGUAGE = "ralph-status";
+
+/**
+ * Minimum similarity for a reported description to match a task
+ */
+const DESCRIPTION_MATCH_THRESHOLD = 0.7;
+
+const STATUS_BLOCK_PATTERN = new RegExp(
+	`\`\`\`${STATUS_BLOCK_LANGUAGE}[^\\S\\n]*\\n([\\s\\S]*?)\`\`\``,
+	"g",
+);
+
+/**
+ * Result of parsing a status block
+ */
+export type StatusBlockParseResult =
+	| { report: TaskStatusReport; error?: undefined }
+	| { report: null; error: string };
+
+/**
+ * Parse and validate the last `ralph-status` block in agent output
+ */
+export function parseStatusBlock(output: string): StatusBlockParseResult {
+	const blocks = [...output.matchAll(STATUS_BLOCK_PATTERN)];
+	const body = blocks.at(-1)?.[1];
+	if (body === undefined) {
+		return { report: null, error: `No ${STATUS_BLOCK_LANGUAGE} block found` };
+	}
+
+	let data: unknown;
+	try {
+		data = JSON.parse(body);
+	} catch (error) {
+		return {
+			report: null,
+			error: `Invalid JSON in ${STATUS_BLOCK_LANGUAGE} block: ${extractErrorMessage(error)}`,
+		};
+	}
+
+	return validateStatusReport(data);
+}
+
+/**
+ * Check the shape of a parsed status block
+ */
+function validateStatusReport(data: unknown): StatusBlockParseResult {
+	if (typeof data !== "object" || data === null || Array.isArray(data)) {
+		return {
+			report: null,
+			error: `${STATUS_BLOCK_LANGUAGE} block must be a JSON object`,
+		};
+	}
+
+	const {
+		completed = [],
+		blockers = [],
+		confidence,
+	} = data as Record<string, unknown>;
+
+	if (
+		!Array.isArray(completed) ||
+		!completed.every(
+			(item) => Number.isInteger(item) || typeof item === "string",
+		)
+	) {
+		return {
+			report: null,
+			error: '"completed" must be an array of task IDs or descriptions',
+		};
+	}
+
+	if (
+		!Array.isArray(blockers) ||
+		!blockers.every((item) => typeof item === "string")
+	) {
+		return { report: null, error: '"blockers" must be an array of strings' };
+	}
+
+	if (
+		confidence !== undefined &&
+		(typeof confidence !== "number" || confidence < 0 || confidence > 1)
+	) {
+		return {
+			report: null,
+			error: '"confidence" must be a number between 0 and 1',
+		};
+	}
+
+	return { report: { completed, blockers, confidence } };
+}
+
+/**
+ * Resolve the tasks a report marks as completed
+ *
+ * Numeric entries (and strings like "#3") are task IDs; other strings are
+ * matched fuzzily against task descriptions.
+ */
+export function matchCompletedTasks(
+	report: TaskStatusReport,
+	tasks: Task[],
+	threshold = DESCRIPTION_MATCH_THRESHOLD,
+): Task[] {
+	const matched = new Set<Task>();
+	const descriptions = tasks.map((task) => task.description);
+
+	for (const entry of report.completed) {
+		const id = parseTaskId(entry);
+		if (id !== null) {
+			const task = tasks.find((candidate) => candidate.id === id);
+			if (task) {
+				matched.add(task);
+			}
+			continue;
+		}
+
+		const best = findBestMatch(String(entry), descriptions);
+		if (best && best.score >= threshold) {
+			const task = tasks[descriptions.indexOf(best.match)];
+			if (task) {
+				matched.add(task);
+			}
+		}
+	}
+
+	return [...matched];
+}
+
+/**
+ * Read a task ID from a numeric entry or a string like "3" or "#3"
+ */
+function parseTaskId(entry: number | string): number | null {
+	if (typeof entry === "number") {
+		return entry;
+	}
+	const match = /^#?(\d+)$/.exec(entry.trim());
+	return match?.[1] ? Number.parseInt(match[1], 10) : null;
+}
+
+/**
+ * Instructions asking the agent to report progress in a status block
+ */
+export function formatStatusInstructions(tasks: Task[]): string {
+	const taskList = tasks
+		.map((task) => `- ${task.id}: ${task.description}`)
+		.join("\n");
+
+	return `
+
+---
+STATUS REPORT:
+End your response with a fenced ${STATUS_BLOCK_LANGUAGE} block listing the IDs of the
+tasks you fully completed in this iteration, anything blocking you, and your
+confidence (0-1) that the completed work is correct:
+
+\`\`\`${STATUS_BLOCK_LANGUAGE}
+{"completed": [1], "blockers": [], "confidence": 0.9}
+\`\`\`
+
+Open tasks:
+${taskList}
+`;
+}
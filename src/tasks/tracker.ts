@@ -0,0 +1,175 @@
+/**
+ * Task tracking for Ralph Orchestrator
+ */
+
+import type { Task, TaskProgress } from "../types/index.ts";
+import { createLogger } from "../utils/logger.ts";
+
+const logger = createLogger("ralph-orchestrator.tasks");
+
+/**
+ * Tracks task status, selects the next task and enforces task budgets
+ */
+export class TaskTracker {
+	private tasks: Task[];
+
+	constructor(tasks: Task[] = []) {
+		this.tasks = tasks;
+	}
+
+	/**
+	 * Replace the tracked tasks
+	 */
+	load(tasks: Task[]): void {
+		this.tasks = tasks;
+	}
+
+	/**
+	 * Get every task in prompt order
+	 */
+	getAll(): Task[] {
+		return [...this.tasks];
+	}
+
+	/**
+	 * Get the task currently being worked on
+	 */
+	getCurrent(): Task | null {
+		return this.tasks.find((task) => task.status === "in_progress") ?? null;
+	}
+
+	/**
+	 * Get tasks that have not been started
+	 */
+	getPending(): Task[] {
+		return this.tasks.filter((task) => task.status === "pending");
+	}
+
+	/**
+	 * Get the current task followed by the pending tasks
+	 */
+	getOpen(): Task[] {
+		const current = this.getCurrent();
+		return current ? [current, ...this.getPending()] : this.getPending();
+	}
+
+	/**
+	 * Get completed tasks
+	 */
+	getCompleted(): Task[] {
+		return this.tasks.filter((task) => task.status === "completed");
+	}
+
+	/**
+	 * Get tasks skipped after exceeding their budget
+	 */
+	getSkipped(): Task[] {
+		return this.tasks.filter((task) => task.status === "skipped");
+	}
+
+	/**
+	 * Get task counts by status
+	 */
+	getProgress(): TaskProgress {
+		const completed = this.getCompleted().length;
+		const skipped = this.getSkipped().length;
+		return {
+			total: this.tasks.length,
+			completed,
+			skipped,
+			pending: this.tasks.length - completed - skipped,
+		};
+	}
+
+	/**
+	 * Get tasks being worked on
+	 */
+	getInProgress(): Task[] {
+		return this.tasks.filter((task) => task.status === "in_progress");
+	}
+
+	/**
+	 * Get the current task, starting the next ready one if there is none
+	 *
+	 * A task is ready once its dependencies and subtasks are completed. If no
+	 * pending task is ready, the first pending task is started anyway so an
+	 * unsatisfiable dependency cannot stall the run.
+	 */
+	start(): Task | null {
+		return this.getCurrent() ?? this.startNext(true);
+	}
+
+	/**
+	 * Start the next ready pending task alongside any already in progress
+	 * @param allowBlocked Start the first pending task if none is ready
+	 */
+	startNext(allowBlocked = false): Task | null {
+		const pending = this.getPending();
+		let next = pending.find((task) => this.isReady(task));
+		if (!next && allowBlocked && pending[0]) {
+			next = pending[0];
+			logger.warn(
+				`No task has its dependencies met, starting task #${next.id} anyway`,
+			);
+		}
+		if (next) {
+			next.status = "in_progress";
+		}
+		return next ?? null;
+	}
+
+	/**
+	 * Return an in-progress task to the pending queue
+	 */
+	requeue(task: Task): void {
+		if (task.status === "in_progress") {
+			task.status = "pending";
+		}
+	}
+
+	/**
+	 * Mark a task as completed
+	 */
+	complete(task: Task, iteration: number): void {
+		task.status = "completed";
+		task.completedAt = new Date().toISOString();
+		task.iteration = iteration;
+	}
+
+	/**
+	 * Charge an iteration to a task; skips it and returns true if an open
+	 * task has used up its budget
+	 */
+	recordUsage(task: Task, cost: number): boolean {
+		task.usage.iterations++;
+		task.usage.cost += cost;
+
+		if (task.status === "completed" || task.status === "skipped") {
+			return false;
+		}
+
+		const { maxIterations, maxCost } = task.budget;
+		const exceeded =
+			(maxIterations !== undefined && task.usage.iterations >= maxIterations) ||
+			(maxCost !== undefined && task.usage.cost >= maxCost);
+		if (exceeded) {
+			task.status = "skipped";
+		}
+		return exceeded;
+	}
+
+	/**
+	 * Check whether a task's dependencies and subtasks are completed
+	 */
+	private isReady(task: Task): boolean {
+		const done = (id: number) =>
+			this.tasks.find((other) => other.id === id)?.status === "completed";
+
+		return (
+			task.dependsOn.every(done) &&
+			this.tasks
+				.filter((other) => other.parentId === task.id)
+				.every((child) => child.status === "completed")
+		);
+	}
+}
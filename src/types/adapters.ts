@@ -14,6 +14,16 @@ export interface ToolResponse {
 	error?: string;
 	/** Number of tokens used */
 	tokensUsed?: number;
+	/** Input (prompt) tokens, when the tool reports them */
+	inputTokens?: number;
+	/** Output (completion) tokens, when the tool reports them */
+	outputTokens?: number;
+	/** Input tokens read from the prompt cache */
+	cachedTokens?: number;
+	/** Input tokens written to the prompt cache */
+	cacheWriteTokens?: number;
+	/** Model that produced the output, when known */
+	model?: string;
 	/** Cost of the execution in USD */
 	cost?: number;
 	/** Additional metadata */
@@ -32,6 +42,11 @@ export function createSuccessResponse(
 		output,
 		metadata: options.metadata ?? {},
 		tokensUsed: options.tokensUsed,
+		inputTokens: options.inputTokens,
+		outputTokens: options.outputTokens,
+		cachedTokens: options.cachedTokens,
+		cacheWriteTokens: options.cacheWriteTokens,
+		model: options.model,
 		cost: options.cost,
 	};
 }
@@ -78,6 +93,10 @@ export interface ExecuteOptions {
 	additionalArgs?: string[];
 	/** Environment variables */
 	env?: Record<string, string>;
+	/** Working directory for the agent (defaults to the current directory) */
+	cwd?: string;
+	/** Send the prompt as-is, without the orchestration instructions */
+	raw?: boolean;
 }
 
 /**
@@ -113,6 +132,56 @@ export interface IToolAdapter {
 	estimateCost(prompt: string): number;
 }
 
+/**
+ * Kinds of adapter failure: the tool timed out, was rate limited, crashed,
+ * is not installed or could not be started, could not authenticate or was
+ * given bad arguments, or it ran and reported an ordinary task failure
+ */
+export const ADAPTER_ERROR_CLASSES = [
+	"timeout",
+	"rate_limit",
+	"crash",
+	"unavailable",
+	"auth",
+	"invalid_args",
+	"task",
+] as const;
+
+export type AdapterErrorClass = (typeof ADAPTER_ERROR_CLASSES)[number];
+
+/**
+ * Error classes that are worth retrying on the same adapter
+ */
+export const RETRYABLE_ERROR_CLASSES: readonly AdapterErrorClass[] = [
+	"timeout",
+	"rate_limit",
+	"crash",
+];
+
+/**
+ * Backoff between retries of a failed adapter call
+ */
+export interface RetryPolicy {
+	/** Retries after the first attempt (0 disables retries) */
+	maxRetries: number;
+	/** Delay before the first retry in milliseconds, doubled for each retry */
+	baseDelay: number;
+	/** Upper bound on the delay in milliseconds */
+	maxDelay: number;
+	/** Fraction of the delay that is randomized (0-1) */
+	jitter: number;
+}
+
+/**
+ * Default retry policy
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	maxRetries: 3,
+	baseDelay: 1000,
+	maxDelay: 30000,
+	jitter: 0.5,
+};
+
 /**
  * Token usage information
  */
@@ -2,6 +2,9 @@
  * Configuration types for Ralph Orchestrator
  */
 
+import type { AdapterErrorClass } from "./adapters.ts";
+import type { PricingTable } from "./metrics.ts";
+
 /**
  * Supported AI agent types
  */
@@ -23,6 +26,22 @@ export type OutputFormat = "plain" | "rich" | "json";
  */
 export type OutputVerbosity = "quiet" | "normal" | "verbose" | "debug";
 
+/**
+ * Prompt sent to the agent each iteration: the whole prompt file, or only
+ * its header and the current task
+ */
+export const PROMPT_MODES = ["full", "focused"] as const;
+
+export type PromptMode = (typeof PROMPT_MODES)[number];
+
+/**
+ * What to do when iterations stop changing the repository: stop the run, or
+ * run the on_stall hook and tell the agent, stopping if the stall continues
+ */
+export const STALL_ACTIONS = ["stop", "recover"] as const;
+
+export type StallAction = (typeof STALL_ACTIONS)[number];
+
 /**
  * Configuration for individual adapters
  */
@@ -33,6 +52,8 @@ export interface AdapterConfig {
 	timeout: number;
 	maxRetries: number;
 	toolPermissions: Record<string, unknown>;
+	/** Model to run (the tool's default if unset), also used for pricing */
+	model?: string;
 }
 
 /**
@@ -47,6 +68,30 @@ export const DEFAULT_ADAPTER_CONFIG: AdapterConfig = {
 	toolPermissions: {},
 };
 
+/**
+ * Adapters tried after the primary fails, and when to try them
+ */
+export interface FallbackConfig {
+	/** Adapters to fall back to, in order (the primary is skipped) */
+	order: AgentType[];
+	/** Error classes that move on to the next adapter */
+	on: AdapterErrorClass[];
+	/** Failures in a row that open an adapter's circuit breaker */
+	failureThreshold: number;
+	/** Seconds an open circuit breaker waits before allowing a trial run */
+	cooldown: number;
+}
+
+/**
+ * Default fallback configuration
+ */
+export const DEFAULT_FALLBACK_CONFIG: FallbackConfig = {
+	order: [AgentType.CLAUDE, AgentType.Q, AgentType.GEMINI],
+	on: ["timeout", "rate_limit", "crash", "unavailable"],
+	failureThreshold: 3,
+	cooldown: 300,
+};
+
 /**
  * Configuration defaults
  */
@@ -57,23 +102,25 @@ export const CONFIG_DEFAULTS = {
 	CHECKPOINT_INTERVAL: 5,
 	RETRY_DELAY: 2,
 	MAX_TOKENS: 1000000, // 1M tokens total
+	TOKEN_WARNING_THRESHOLD: 0.8, // Warn at 80% of max tokens
 	MAX_COST: 50, // $50 USD
 	CONTEXT_WINDOW: 200000, // 200K token context window
 	CONTEXT_THRESHOLD: 0.8, // Trigger summarization at 80% of context
 	METRICS_INTERVAL: 10, // Log metrics every 10 iterations
 	MAX_PROMPT_SIZE: 10485760, // 10MB max prompt file size
 	OUTPUT_PREVIEW_LENGTH: 500,
+	HOOK_TIMEOUT: 300, // 5 minutes per hook
+	VERIFY_TIMEOUT: 600, // 10 minutes per verification command
+	VERIFY_OUTPUT_LIMIT: 2000, // Characters of failing output kept as feedback
+	TASK_MAX_ITERATIONS: 0, // No per-task iteration budget
+	TASK_MAX_COST: 0, // No per-task cost budget
+	PARALLEL_WORKERS: 1, // Work on one task at a time
+	ROLLBACK_AFTER: 0, // Never roll back unless enabled
+	MAX_ROLLBACKS: 2, // Rollbacks per run
+	STALL_LIMIT: 0, // Never act on stalls unless enabled
+	FEEDBACK_BUDGET: 8000, // Characters of previous output and errors per prompt
 } as const;
 
-/**
- * Token costs per million (approximate)
- */
-export const TOKEN_COSTS: Record<string, { input: number; output: number }> = {
-	claude: { input: 3, output: 15 }, // Claude 3.5 Sonnet
-	q: { input: 0.5, output: 1.5 }, // Estimated
-	gemini: { input: 0.5, output: 1.5 }, // Gemini Pro
-};
-
 /**
  * SonarQube scanning configuration
  */
@@ -86,12 +133,38 @@ export interface SonarQubeConfig {
 	failOnQualityGate: boolean;
 }
 
+/**
+ * Lifecycle hook names, in the order they can fire during a run
+ */
+export const HOOK_NAMES = [
+	"pre_run",
+	"pre_iteration",
+	"post_iteration",
+	"on_checkpoint",
+	"on_failure",
+	"on_stall",
+	"on_complete",
+] as const;
+
+/**
+ * Lifecycle hook name
+ */
+export type HookName = (typeof HOOK_NAMES)[number];
+
+/**
+ * Shell commands to run at lifecycle hooks
+ */
+export type HooksConfig = Partial<Record<HookName, string>>;
+
 /**
  * Main configuration for Ralph Orchestrator
  */
 export interface RalphConfig {
 	// Core configuration
 	agent: AgentType;
+	/** Directory the run works in (the current directory if unset) */
+	workingDir?: string;
+	/** Prompt file, relative to workingDir */
 	promptFile: string;
 	promptText?: string;
 	maxIterations: number;
@@ -100,10 +173,16 @@ export interface RalphConfig {
 	retryDelay: number;
 	archivePrompts: boolean;
 	gitCheckpoint: boolean;
+	/** Work on a `ralph/run-<id>` branch (requires gitCheckpoint) */
+	runBranch: boolean;
 	verbose: boolean;
 	dryRun: boolean;
 	maxTokens: number;
+	/** Fraction of maxTokens at which to warn */
+	tokenWarningThreshold: number;
 	maxCost: number;
+	/** Prices that override or add to the built-in pricing */
+	pricing: PricingTable;
 	contextWindow: number;
 	contextThreshold: number;
 	metricsInterval: number;
@@ -112,6 +191,15 @@ export interface RalphConfig {
 	allowUnsafePaths: boolean;
 	agentArgs: string[];
 	adapters: Record<string, AdapterConfig>;
+	/** Fallback adapters and their circuit breakers */
+	fallback: FallbackConfig;
+	promptMode: PromptMode;
+	/** Characters of previous output and errors added to each prompt */
+	feedbackBudget: number;
+	/** Adapter that summarizes older context (extractive summary if unset) */
+	summaryAgent?: AgentType;
+	/** Model used for summaries */
+	summaryModel?: string;
 
 	// Output formatting configuration
 	outputFormat: OutputFormat;
@@ -129,6 +217,34 @@ export interface RalphConfig {
 
 	// SonarQube configuration
 	sonarqube?: SonarQubeConfig;
+
+	// Lifecycle hooks
+	hooks: HooksConfig;
+	/** Timeout per hook command in seconds */
+	hookTimeout: number;
+
+	// Verification commands that must pass for an iteration to succeed
+	verify: string[];
+	/** Timeout per verification command in seconds */
+	verifyTimeout: number;
+
+	// Default budget per task (0 = unlimited), overridable per task in the prompt
+	taskMaxIterations: number;
+	/** Cost budget per task in USD */
+	taskMaxCost: number;
+
+	// Tasks worked on at once, each in its own git worktree (1 = sequential)
+	parallelWorkers: number;
+
+	// Consecutive failed iterations before the working tree is reset to the
+	// last good checkpoint (0 = never)
+	rollbackAfter: number;
+	/** Rollbacks allowed per run */
+	maxRollbacks: number;
+	// Iterations in a row that change no files before stallAction is taken
+	// (0 = never)
+	stallLimit: number;
+	stallAction: StallAction;
 }
 
 /**
@@ -144,6 +260,7 @@ export function createDefaultConfig(
 ): RalphConfig {
 	return {
 		agent: options.agent ?? AgentType.AUTO,
+		workingDir: options.workingDir,
 		promptFile: options.promptFile ?? CONFIG_DEFAULTS.PROMPT_FILE,
 		promptText: options.promptText,
 		maxIterations: options.maxIterations ?? CONFIG_DEFAULTS.MAX_ITERATIONS,
@@ -153,10 +270,14 @@ export function createDefaultConfig(
 		retryDelay: options.retryDelay ?? CONFIG_DEFAULTS.RETRY_DELAY,
 		archivePrompts: options.archivePrompts ?? true,
 		gitCheckpoint: options.gitCheckpoint ?? true,
+		runBranch: options.runBranch ?? true,
 		verbose: options.verbose ?? false,
 		dryRun: options.dryRun ?? false,
 		maxTokens: options.maxTokens ?? CONFIG_DEFAULTS.MAX_TOKENS,
+		tokenWarningThreshold:
+			options.tokenWarningThreshold ?? CONFIG_DEFAULTS.TOKEN_WARNING_THRESHOLD,
 		maxCost: options.maxCost ?? CONFIG_DEFAULTS.MAX_COST,
+		pricing: options.pricing ?? {},
 		contextWindow: options.contextWindow ?? CONFIG_DEFAULTS.CONTEXT_WINDOW,
 		contextThreshold:
 			options.contextThreshold ?? CONFIG_DEFAULTS.CONTEXT_THRESHOLD,
@@ -167,6 +288,15 @@ export function createDefaultConfig(
 		allowUnsafePaths: options.allowUnsafePaths ?? false,
 		agentArgs: options.agentArgs ?? [],
 		adapters: options.adapters ?? {},
+		fallback: options.fallback ?? {
+			...DEFAULT_FALLBACK_CONFIG,
+			order: [...DEFAULT_FALLBACK_CONFIG.order],
+			on: [...DEFAULT_FALLBACK_CONFIG.on],
+		},
+		promptMode: options.promptMode ?? "full",
+		feedbackBudget: options.feedbackBudget ?? CONFIG_DEFAULTS.FEEDBACK_BUDGET,
+		summaryAgent: options.summaryAgent,
+		summaryModel: options.summaryModel,
 		outputFormat: options.outputFormat ?? "rich",
 		outputVerbosity: options.outputVerbosity ?? "normal",
 		showTokenUsage: options.showTokenUsage ?? true,
@@ -177,6 +307,19 @@ export function createDefaultConfig(
 		acpAgent: options.acpAgent,
 		acpPermissionMode: options.acpPermissionMode,
 		sonarqube: options.sonarqube,
+		hooks: options.hooks ?? {},
+		hookTimeout: options.hookTimeout ?? CONFIG_DEFAULTS.HOOK_TIMEOUT,
+		verify: options.verify ?? [],
+		verifyTimeout: options.verifyTimeout ?? CONFIG_DEFAULTS.VERIFY_TIMEOUT,
+		taskMaxIterations:
+			options.taskMaxIterations ?? CONFIG_DEFAULTS.TASK_MAX_ITERATIONS,
+		taskMaxCost: options.taskMaxCost ?? CONFIG_DEFAULTS.TASK_MAX_COST,
+		parallelWorkers:
+			options.parallelWorkers ?? CONFIG_DEFAULTS.PARALLEL_WORKERS,
+		rollbackAfter: options.rollbackAfter ?? CONFIG_DEFAULTS.ROLLBACK_AFTER,
+		maxRollbacks: options.maxRollbacks ?? CONFIG_DEFAULTS.MAX_ROLLBACKS,
+		stallLimit: options.stallLimit ?? CONFIG_DEFAULTS.STALL_LIMIT,
+		stallAction: options.stallAction ?? "stop",
 	};
 }
 
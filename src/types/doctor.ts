@@ -0,0 +1,43 @@
+/**
+ * Doctor types for Ralph Orchestrator
+ */
+
+/**
+ * Outcome of a preflight check: skipped checks did not apply
+ */
+export type DoctorStatus = "ok" | "warn" | "fail" | "skip";
+
+/**
+ * Outcome of an environment check
+ */
+export interface DoctorCheck {
+	name: string;
+	status: DoctorStatus;
+	detail: string;
+}
+
+/**
+ * Outcome of checking one adapter
+ */
+export interface AdapterDiagnosis {
+	name: string;
+	/** Whether the tool's command was found on PATH */
+	installed: boolean;
+	version: string | null;
+	/** Whether a trivial prompt (or the ACP handshake) succeeded */
+	auth: DoctorStatus;
+	/** Why the prompt or handshake failed, or why it was skipped */
+	authDetail?: string;
+	/** Models with known prices */
+	models: string[];
+}
+
+/**
+ * Full report of `ralph doctor`
+ */
+export interface DoctorReport {
+	adapters: AdapterDiagnosis[];
+	checks: DoctorCheck[];
+	/** False if any adapter or check failed */
+	healthy: boolean;
+}
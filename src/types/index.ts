@@ -7,14 +7,22 @@ export {
 	AgentType,
 	type AdapterConfig,
 	DEFAULT_ADAPTER_CONFIG,
+	type FallbackConfig,
+	DEFAULT_FALLBACK_CONFIG,
 	CONFIG_DEFAULTS,
-	TOKEN_COSTS,
 	type RalphConfig,
 	type RalphConfigOptions,
 	createDefaultConfig,
 	VALIDATION_THRESHOLDS,
 	type OutputFormat,
 	type OutputVerbosity,
+	PROMPT_MODES,
+	type PromptMode,
+	STALL_ACTIONS,
+	type StallAction,
+	HOOK_NAMES,
+	type HookName,
+	type HooksConfig,
 } from "./config.ts";
 
 // Adapter types
@@ -23,6 +31,11 @@ export {
 	createSuccessResponse,
 	createErrorResponse,
 	type ExecuteOptions,
+	ADAPTER_ERROR_CLASSES,
+	type AdapterErrorClass,
+	RETRYABLE_ERROR_CLASSES,
+	type RetryPolicy,
+	DEFAULT_RETRY_POLICY,
 	type IToolAdapter,
 	type TokenUsage,
 	totalTokens,
@@ -37,19 +50,56 @@ export {
 	elapsedHours,
 	successRate,
 	metricsToDict,
+	type DiffStats,
 	type IterationData,
+	type IterationStatsSnapshot,
+	type ModelPricing,
+	type PricingTable,
+	type TokenCounts,
+	type UsageDetails,
 	type CostEntry,
 	type CostSummary,
 	type IterationStatsSummary,
 	type MetricsSummary,
 } from "./metrics.ts";
 
+// Verification types
+export type {
+	VerificationCommandResult,
+	VerificationResult,
+} from "./verification.ts";
+
+// Doctor types
+export type {
+	DoctorStatus,
+	DoctorCheck,
+	AdapterDiagnosis,
+	DoctorReport,
+} from "./doctor.ts";
+
+// Task types
+export type {
+	Task,
+	TaskSource,
+	TaskBudget,
+	TaskUsage,
+	TaskProgress,
+	TaskStatusReport,
+} from "./tasks.ts";
+
 // Safety types
 export {
 	type SafetyCheckResult,
 	safePassed,
 	safeFailed,
 	type SafetyGuardOptions,
+	type SafetyGuardState,
 	DEFAULT_SAFETY_OPTIONS,
+	type CircuitState,
+	type CircuitBreakerOptions,
+	DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+	type StallDetectorOptions,
+	type StallDetectorState,
+	DEFAULT_STALL_DETECTOR_OPTIONS,
 	type SafetyCheckParams,
 } from "./safety.ts";
@@ -2,6 +2,8 @@
  * Metrics types for Ralph Orchestrator
  */
 
+import type { VerificationResult } from "./verification.ts";
+
 /**
  * Reasons why an iteration was triggered
  */
@@ -29,6 +31,8 @@ export interface Metrics {
 	iterations: number;
 	successfulIterations: number;
 	failedIterations: number;
+	/** Adapter calls repeated after a transient failure, not counted as iterations */
+	retries: number;
 	errors: number;
 	checkpoints: number;
 	rollbacks: number;
@@ -43,6 +47,7 @@ export function createMetrics(): Metrics {
 		iterations: 0,
 		successfulIterations: 0,
 		failedIterations: 0,
+		retries: 0,
 		errors: 0,
 		checkpoints: 0,
 		rollbacks: 0,
@@ -74,6 +79,7 @@ export function metricsToDict(metrics: Metrics): Record<string, unknown> {
 		iterations: metrics.iterations,
 		successfulIterations: metrics.successfulIterations,
 		failedIterations: metrics.failedIterations,
+		retries: metrics.retries,
 		errors: metrics.errors,
 		checkpoints: metrics.checkpoints,
 		rollbacks: metrics.rollbacks,
@@ -82,6 +88,16 @@ export function metricsToDict(metrics: Metrics): Record<string, unknown> {
 	};
 }
 
+/**
+ * What an iteration changed in the working tree, from `git diff --numstat`
+ * (binary files count as changed files without lines)
+ */
+export interface DiffStats {
+	filesChanged: number;
+	linesAdded: number;
+	linesRemoved: number;
+}
+
 /**
  * Single iteration data
  */
@@ -96,6 +112,65 @@ export interface IterationData {
 	tokensUsed: number;
 	cost: number;
 	toolsUsed: string[];
+	/** Adapter that served the iteration, after any fallback */
+	adapter?: string;
+	/** Verification outcome, when verify commands are configured */
+	verification?: VerificationResult;
+	/** Changes made during the iteration, when working in a git repository */
+	diffStats?: DiffStats;
+}
+
+/**
+ * Serializable iteration statistics, used to persist and restore a run
+ */
+export interface IterationStatsSnapshot {
+	total: number;
+	successes: number;
+	failures: number;
+	currentIteration: number;
+	startTime: string;
+	iterations: IterationData[];
+}
+
+/**
+ * Prices for a model in USD per 1M tokens
+ */
+export interface ModelPricing {
+	input: number;
+	output: number;
+	/** Price of input tokens read from the prompt cache (defaults to input) */
+	cacheRead?: number;
+	/** Price of input tokens written to the prompt cache (defaults to input) */
+	cacheWrite?: number;
+}
+
+/**
+ * Model prices keyed by adapter name, then model name or prefix
+ *
+ * The `default` model is used when no other entry matches.
+ */
+export type PricingTable = Record<string, Record<string, ModelPricing>>;
+
+/**
+ * Token counts for a single tool execution
+ */
+export interface TokenCounts {
+	inputTokens: number;
+	outputTokens: number;
+	/** Input tokens read from the prompt cache */
+	cachedTokens?: number;
+	/** Input tokens written to the prompt cache */
+	cacheWriteTokens?: number;
+}
+
+/**
+ * Optional details for a usage record
+ */
+export interface UsageDetails {
+	cachedTokens?: number;
+	cacheWriteTokens?: number;
+	/** Model that was used, for model-specific pricing */
+	model?: string;
 }
 
 /**
@@ -104,8 +179,14 @@ export interface IterationData {
 export interface CostEntry {
 	timestamp: number;
 	tool: string;
+	/** Model that was used, when known */
+	model?: string;
 	inputTokens: number;
 	outputTokens: number;
+	/** Input tokens read from the prompt cache (absent in older history) */
+	cachedTokens?: number;
+	/** Input tokens written to the prompt cache (absent in older history) */
+	cacheWriteTokens?: number;
 	cost: number;
 }
 
@@ -117,6 +198,11 @@ export interface CostSummary {
 	costsByTool: Record<string, number>;
 	usageCount: number;
 	averageCost: number;
+	inputTokens: number;
+	outputTokens: number;
+	cachedTokens: number;
+	cacheWriteTokens: number;
+	totalTokens: number;
 }
 
 /**
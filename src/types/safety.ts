@@ -10,6 +10,8 @@ export interface SafetyCheckResult {
 	passed: boolean;
 	/** Reason for failure if check didn't pass */
 	reason?: string;
+	/** Limit that is close to being reached, reported once */
+	warning?: string;
 }
 
 /**
@@ -36,6 +38,10 @@ export interface SafetyGuardOptions {
 	maxRuntime?: number;
 	/** Maximum allowed cost in USD (default: 10) */
 	maxCost?: number;
+	/** Maximum input and output tokens (default: 1000000) */
+	maxTokens?: number;
+	/** Fraction of maxTokens at which to warn (default: 0.8) */
+	tokenWarningThreshold?: number;
 	/** Maximum consecutive failures before stopping (default: 5) */
 	consecutiveFailureLimit?: number;
 	/** Similarity threshold for loop detection (default: 0.9 = 90%) */
@@ -51,11 +57,77 @@ export const DEFAULT_SAFETY_OPTIONS: Required<SafetyGuardOptions> = {
 	maxIterations: 100,
 	maxRuntime: 14400, // 4 hours
 	maxCost: 10,
+	maxTokens: 1000000,
+	tokenWarningThreshold: 0.8,
 	consecutiveFailureLimit: 5,
 	loopThreshold: 0.9,
 	maxRecentOutputs: 5,
 };
 
+/**
+ * Circuit breaker state: closed runs normally, open skips the adapter and
+ * half-open allows a trial run after the cooldown
+ */
+export type CircuitState = "closed" | "open" | "half_open";
+
+/**
+ * Options for CircuitBreaker initialization
+ */
+export interface CircuitBreakerOptions {
+	/** Failures in a row that open the breaker (default: 3) */
+	failureThreshold?: number;
+	/** Seconds before an open breaker half-opens (default: 300) */
+	cooldown?: number;
+}
+
+/**
+ * Default circuit breaker options
+ */
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: Required<CircuitBreakerOptions> =
+	{
+		failureThreshold: 3,
+		cooldown: 300,
+	};
+
+/**
+ * Options for StallDetector initialization
+ */
+export interface StallDetectorOptions {
+	/** Unchanged iterations in a row that make a stall, 0 to disable (default: 0) */
+	stallLimit?: number;
+}
+
+/**
+ * Default stall detector options
+ */
+export const DEFAULT_STALL_DETECTOR_OPTIONS: Required<StallDetectorOptions> = {
+	stallLimit: 0,
+};
+
+/**
+ * Mutable stall detector counters, used to persist and restore a run
+ */
+export interface StallDetectorState {
+	/** Iterations in a row that changed nothing */
+	stalledIterations: number;
+	/** Working tree hash after the last measured iteration */
+	lastTree: string | null;
+	/** Whether the current stall has already been recovered from */
+	recovered: boolean;
+}
+
+/**
+ * Mutable safety guard counters, used to persist and restore a run
+ */
+export interface SafetyGuardState {
+	/** Consecutive failed iterations */
+	consecutiveFailures: number;
+	/** Recent outputs kept for loop detection */
+	recentOutputs: string[];
+	/** Whether the token budget warning was already emitted */
+	tokenWarningIssued?: boolean;
+}
+
 /**
  * Safety check input parameters
  */
@@ -66,4 +138,6 @@ export interface SafetyCheckParams {
 	elapsedTime: number;
 	/** Total cost so far in USD */
 	totalCost: number;
+	/** Input and output tokens used so far */
+	totalTokens?: number;
 }
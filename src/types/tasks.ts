@@ -0,0 +1,69 @@
+/**
+ * Task types for Ralph Orchestrator
+ */
+
+/**
+ * Markdown syntax a task was read from
+ */
+export type TaskSource = "checkbox" | "numbered" | "prefix";
+
+/**
+ * Iteration and cost limits for a single task (unset = unlimited)
+ */
+export interface TaskBudget {
+	maxIterations?: number;
+	/** Cost limit in USD */
+	maxCost?: number;
+}
+
+/**
+ * Iterations and cost spent on a task so far
+ */
+export interface TaskUsage {
+	iterations: number;
+	cost: number;
+}
+
+/**
+ * Task object for tracking
+ */
+export interface Task {
+	id: number;
+	description: string;
+	status: "pending" | "in_progress" | "completed" | "skipped";
+	createdAt: string;
+	completedAt?: string;
+	/** Iteration the task was completed in */
+	iteration?: number;
+	source: TaskSource;
+	/** 1-based line of the task in the prompt */
+	line: number;
+	/** Nesting level, 0 for top-level items */
+	depth: number;
+	parentId?: number;
+	/** IDs of tasks that must be completed first */
+	dependsOn: number[];
+	budget: TaskBudget;
+	usage: TaskUsage;
+}
+
+/**
+ * Task counts for progress reporting
+ */
+export interface TaskProgress {
+	total: number;
+	completed: number;
+	skipped: number;
+	pending: number;
+}
+
+/**
+ * Progress report the agent emits in a `ralph-status` block
+ */
+export interface TaskStatusReport {
+	/** Completed task IDs or descriptions */
+	completed: Array<number | string>;
+	blockers: string[];
+	/** Agent's confidence in the reported progress (0-1) */
+	confidence?: number;
+}
@@ -0,0 +1,27 @@
+/**
+ * Verification types for Ralph Orchestrator
+ */
+
+/**
+ * Outcome of a single verification command
+ */
+export interface VerificationCommandResult {
+	command: string;
+	passed: boolean;
+	exitCode: number;
+	timedOut: boolean;
+	/** Combined stdout and stderr, truncated to the end of the output */
+	output: string;
+	/** Duration in seconds */
+	duration: number;
+}
+
+/**
+ * Outcome of running every verification command after an iteration
+ */
+export interface VerificationResult {
+	passed: boolean;
+	commands: VerificationCommandResult[];
+	/** Duration in seconds */
+	duration: number;
+}
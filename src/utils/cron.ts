@@ -0,0 +1,198 @@
+/**
+ * Cron expression parsing for scheduled runs
+ *
+ * Supports the standard five fields (minute, hour, day of month, month, day
+ * of week) with `*`, lists, ranges and steps, plus the `@hourly`, `@daily`,
+ * `@weekly`, `@monthly` and `@yearly` shorthands. Times are local.
+ */
+
+/**
+ * Parsed cron expression: the values each field matches
+ */
+export interface CronSchedule {
+	minutes: Set<number>;
+	hours: Set<number>;
+	daysOfMonth: Set<number>;
+	months: Set<number>;
+	daysOfWeek: Set<number>;
+	/** Whether day of month was restricted (does not start with `*`) */
+	dayOfMonthRestricted: boolean;
+	/** Whether day of week was restricted (does not start with `*`) */
+	dayOfWeekRestricted: boolean;
+}
+
+const SHORTHANDS: Record<string, string> = {
+	"@hourly": "0 * * * *",
+	"@daily": "0 0 * * *",
+	"@midnight": "0 0 * * *",
+	"@weekly": "0 0 * * 0",
+	"@monthly": "0 0 1 * *",
+	"@yearly": "0 0 1 1 *",
+	"@annually": "0 0 1 1 *",
+};
+
+const FIELDS = [
+	{ name: "minute", min: 0, max: 59 },
+	{ name: "hour", min: 0, max: 23 },
+	{ name: "day of month", min: 1, max: 31 },
+	{ name: "month", min: 1, max: 12 },
+	// 7 is accepted as Sunday and folded into 0
+	{ name: "day of week", min: 0, max: 7 },
+] as const;
+
+/** How far ahead to look for a matching time before giving up */
+const SEARCH_LIMIT_YEARS = 5;
+
+/**
+ * Parse one cron field into the values it matches
+ */
+function parseField(field: string, spec: (typeof FIELDS)[number]): Set<number> {
+	const values = new Set<number>();
+
+	for (const part of field.split(",")) {
+		const [range, stepText] = part.split("/");
+		const step = stepText === undefined ? 1 : Number(stepText);
+		if (!Number.isInteger(step) || step < 1) {
+			throw new Error(`Invalid step in ${spec.name} field: ${part}`);
+		}
+
+		let start: number;
+		let end: number;
+		if (range === "*") {
+			start = spec.min;
+			end = spec.max;
+		} else {
+			const [startText, endText] = (range ?? "").split("-");
+			start = Number(startText);
+			// A step without a range ("5/15") runs to the end of the field
+			end =
+				endText !== undefined
+					? Number(endText)
+					: stepText !== undefined
+						? spec.max
+						: start;
+			if (
+				startText === "" ||
+				endText === "" ||
+				!Number.isInteger(start) ||
+				!Number.isInteger(end)
+			) {
+				throw new Error(`Invalid ${spec.name} field: ${part}`);
+			}
+		}
+
+		if (start < spec.min || end > spec.max || start > end) {
+			throw new Error(
+				`${spec.name} must be between ${spec.min} and ${spec.max}: ${part}`,
+			);
+		}
+
+		for (let value = start; value <= end; value += step) {
+			values.add(value);
+		}
+	}
+
+	return values;
+}
+
+/**
+ * Parse a cron expression, throwing if it is invalid
+ */
+export function parseCron(expression: string): CronSchedule {
+	const trimmed = expression.trim();
+	const fields = (SHORTHANDS[trimmed] ?? trimmed).split(/\s+/);
+	if (fields.length !== FIELDS.length) {
+		throw new Error(
+			`Cron expression must have ${FIELDS.length} fields: ${expression}`,
+		);
+	}
+
+	const [minutes, hours, daysOfMonth, months, daysOfWeek] = FIELDS.map(
+		(spec, index) => parseField(fields[index] as string, spec),
+	) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+	if (daysOfWeek.delete(7)) {
+		daysOfWeek.add(0);
+	}
+
+	return {
+		minutes,
+		hours,
+		daysOfMonth,
+		months,
+		daysOfWeek,
+		dayOfMonthRestricted: !fields[2]?.startsWith("*"),
+		dayOfWeekRestricted: !fields[4]?.startsWith("*"),
+	};
+}
+
+/**
+ * Check whether a cron expression is valid
+ */
+export function isValidCron(expression: string): boolean {
+	try {
+		parseCron(expression);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Whether a date's day matches the schedule
+ *
+ * As in standard cron, when both day fields are restricted a day matching
+ * either one is enough.
+ */
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+	const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+	const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+
+	if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+		return dayOfMonth || dayOfWeek;
+	}
+	return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Get the first time after `after` that a cron expression fires, or null if
+ * it never fires (such as `0 0 30 2 *`)
+ */
+export function getNextCronTime(
+	expression: string | CronSchedule,
+	after: Date = new Date(),
+): Date | null {
+	const schedule =
+		typeof expression === "string" ? parseCron(expression) : expression;
+
+	const next = new Date(after);
+	next.setSeconds(0, 0);
+	next.setMinutes(next.getMinutes() + 1);
+
+	const limit = new Date(next);
+	limit.setFullYear(limit.getFullYear() + SEARCH_LIMIT_YEARS);
+
+	while (next <= limit) {
+		if (!schedule.months.has(next.getMonth() + 1)) {
+			next.setMonth(next.getMonth() + 1, 1);
+			next.setHours(0, 0);
+			continue;
+		}
+		if (!matchesDay(schedule, next)) {
+			next.setDate(next.getDate() + 1);
+			next.setHours(0, 0);
+			continue;
+		}
+		if (!schedule.hours.has(next.getHours())) {
+			next.setHours(next.getHours() + 1, 0);
+			continue;
+		}
+		if (!schedule.minutes.has(next.getMinutes())) {
+			next.setMinutes(next.getMinutes() + 1);
+			continue;
+		}
+		return next;
+	}
+
+	return null;
+}
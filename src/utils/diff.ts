@@ -0,0 +1,140 @@
+/**
+ * Line diffs for comparing text files
+ */
+
+/**
+ * One line of a diff
+ */
+export interface DiffLine {
+	type: "equal" | "add" | "remove";
+	text: string;
+}
+
+/**
+ * Options for formatUnifiedDiff
+ */
+export interface UnifiedDiffOptions {
+	/** Label for the old text in the `---` header */
+	fromLabel?: string;
+	/** Label for the new text in the `+++` header */
+	toLabel?: string;
+	/** Unchanged lines shown around each change (default: 3) */
+	context?: number;
+}
+
+/**
+ * Split text into lines, ignoring the newline at the end of the last line
+ */
+function splitLines(text: string): string[] {
+	if (text === "") {
+		return [];
+	}
+	const lines = text.split("\n");
+	if (lines[lines.length - 1] === "") {
+		lines.pop();
+	}
+	return lines;
+}
+
+/**
+ * Diff two texts line by line using their longest common subsequence
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+	const a = splitLines(oldText);
+	const b = splitLines(newText);
+
+	// LCS lengths of a[i..] and b[j..], stored row by row
+	const width = b.length + 1;
+	const lengths = new Array<number>((a.length + 1) * width).fill(0);
+	const lcs = (i: number, j: number) => lengths[i * width + j] ?? 0;
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lengths[i * width + j] =
+				a[i] === b[j]
+					? lcs(i + 1, j + 1) + 1
+					: Math.max(lcs(i + 1, j), lcs(i, j + 1));
+		}
+	}
+
+	const lines: DiffLine[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < a.length || j < b.length) {
+		if (i < a.length && j < b.length && a[i] === b[j]) {
+			lines.push({ type: "equal", text: a[i] ?? "" });
+			i++;
+			j++;
+		} else if (
+			j >= b.length ||
+			(i < a.length && lcs(i + 1, j) >= lcs(i, j + 1))
+		) {
+			lines.push({ type: "remove", text: a[i] ?? "" });
+			i++;
+		} else {
+			lines.push({ type: "add", text: b[j] ?? "" });
+			j++;
+		}
+	}
+
+	return lines;
+}
+
+/**
+ * Format a unified diff of two texts, or an empty string if they are equal
+ */
+export function formatUnifiedDiff(
+	oldText: string,
+	newText: string,
+	options: UnifiedDiffOptions = {},
+): string {
+	const lines = diffLines(oldText, newText);
+	const context = options.context ?? 3;
+
+	// Group changes whose context overlaps into hunks of [start, end)
+	const hunks: [number, number][] = [];
+	for (const [index, line] of lines.entries()) {
+		if (line.type === "equal") {
+			continue;
+		}
+		const start = Math.max(index - context, 0);
+		const end = Math.min(index + context + 1, lines.length);
+		const last = hunks[hunks.length - 1];
+		if (last && start <= last[1]) {
+			last[1] = end;
+		} else {
+			hunks.push([start, end]);
+		}
+	}
+	if (hunks.length === 0) {
+		return "";
+	}
+
+	const output = [
+		`--- ${options.fromLabel ?? "a"}`,
+		`+++ ${options.toLabel ?? "b"}`,
+	];
+	for (const [start, end] of hunks) {
+		// Line numbers of the hunk's first line in the old and new text
+		let oldLine = 1;
+		let newLine = 1;
+		for (const line of lines.slice(0, start)) {
+			if (line.type !== "add") oldLine++;
+			if (line.type !== "remove") newLine++;
+		}
+
+		const hunk = lines.slice(start, end);
+		const oldCount = hunk.filter((line) => line.type !== "add").length;
+		const newCount = hunk.filter((line) => line.type !== "remove").length;
+		// An empty side is numbered by the line before it, as in `diff -u`
+		output.push(
+			`@@ -${oldCount === 0 ? oldLine - 1 : oldLine},${oldCount} +${newCount === 0 ? newLine - 1 : newLine},${newCount} @@`,
+		);
+		for (const line of hunk) {
+			const prefix =
+				line.type === "add" ? "+" : line.type === "remove" ? "-" : " ";
+			output.push(`${prefix}${line.text}`);
+		}
+	}
+
+	return `${output.join("\n")}\n`;
+}
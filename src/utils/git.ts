@@ -2,6 +2,10 @@
  * Git utilities for Ralph Orchestrator
  */
 
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import type { DiffStats } from "../types/metrics.ts";
 import { createLogger } from "./logger.ts";
 
 const logger = createLogger("ralph-orchestrator.git");
@@ -22,9 +26,11 @@ export interface GitResult {
 export async function execGit(
 	args: string[],
 	cwd?: string,
+	env?: Record<string, string>,
 ): Promise<GitResult> {
 	const proc = Bun.spawn(["git", ...args], {
 		cwd: cwd || process.cwd(),
+		env: env ? { ...process.env, ...env } : undefined,
 		stdout: "pipe",
 		stderr: "pipe",
 	});
@@ -60,6 +66,32 @@ export async function getCurrentBranch(cwd?: string): Promise<string | null> {
 	return result.success ? result.stdout : null;
 }
 
+/**
+ * Switch to a branch, creating it from the current commit if asked
+ */
+export async function checkoutBranch(
+	branch: string,
+	create = false,
+	cwd?: string,
+): Promise<GitResult> {
+	const args = create ? ["checkout", "-b", branch] : ["checkout", branch];
+	return execGit(args, cwd);
+}
+
+/**
+ * Check if a local branch exists
+ */
+export async function branchExists(
+	branch: string,
+	cwd?: string,
+): Promise<boolean> {
+	const result = await execGit(
+		["rev-parse", "--verify", "--quiet", `refs/heads/${branch}`],
+		cwd,
+	);
+	return result.success;
+}
+
 /**
  * Get the current git commit hash
  */
@@ -95,21 +127,29 @@ export async function stageFiles(
 
 /**
  * Create a commit with the given message
+ * @param allowEmpty - Commit even if nothing changed
  */
 export async function commit(
 	message: string,
 	cwd?: string,
+	allowEmpty = false,
 ): Promise<GitResult> {
-	return execGit(["commit", "-m", message], cwd);
+	const args = ["commit", "-m", message];
+	if (allowEmpty) {
+		args.push("--allow-empty");
+	}
+	return execGit(args, cwd);
 }
 
 /**
  * Create a checkpoint commit
+ * @param allowEmpty - Commit even if nothing changed since the last commit
  */
 export async function createCheckpoint(
 	iteration: number,
 	message?: string,
 	cwd?: string,
+	allowEmpty = false,
 ): Promise<GitResult> {
 	// Stage all changes first
 	const stageResult = await stageAll(cwd);
@@ -123,7 +163,7 @@ export async function createCheckpoint(
 		message ||
 		`[Ralph Checkpoint] Iteration ${iteration}\n\nAutomated checkpoint by Ralph Orchestrator`;
 
-	const commitResult = await commit(commitMessage, cwd);
+	const commitResult = await commit(commitMessage, cwd, allowEmpty);
 
 	if (commitResult.success) {
 		logger.info(`Created checkpoint for iteration ${iteration}`);
@@ -152,6 +192,116 @@ export async function hasUncommittedChanges(cwd?: string): Promise<boolean> {
 	return result.success && result.stdout.length > 0;
 }
 
+/**
+ * Check if the index has changes that are not committed yet
+ */
+export async function hasStagedChanges(cwd?: string): Promise<boolean> {
+	const result = await execGit(["diff", "--cached", "--quiet"], cwd);
+	return result.exitCode === 1;
+}
+
+/**
+ * Check if tracked files have uncommitted changes, ignoring untracked files
+ * @param exclude - Paths, relative to cwd, whose changes are ignored too
+ */
+export async function hasTrackedChanges(
+	cwd?: string,
+	exclude: string[] = [],
+): Promise<boolean> {
+	const pathspec =
+		exclude.length > 0
+			? ["--", ":/", ...exclude.map((path) => `:(exclude)${path}`)]
+			: [];
+	const result = await execGit(
+		["status", "--porcelain", "--untracked-files=no", ...pathspec],
+		cwd,
+	);
+	return result.success && result.stdout.length > 0;
+}
+
+/**
+ * Write the working tree, including untracked files, to a tree object
+ *
+ * The files are staged in a temporary copy of the index, so the real index
+ * is left alone. Ignored files and the excluded paths are left out.
+ * @returns The tree hash, or null if the tree could not be written
+ */
+export async function writeWorkingTree(
+	cwd?: string,
+	exclude: string[] = [],
+): Promise<string | null> {
+	const indexPath = await execGit(["rev-parse", "--git-path", "index"], cwd);
+	if (!indexPath.success) {
+		return null;
+	}
+
+	const index = join(
+		tmpdir(),
+		`ralph-index-${process.pid}-${Math.random().toString(36).slice(2)}`,
+	);
+	const env = { GIT_INDEX_FILE: index };
+	try {
+		// Start from the real index so unchanged files are not hashed again
+		const realIndex = Bun.file(resolve(cwd ?? process.cwd(), indexPath.stdout));
+		if (await realIndex.exists()) {
+			await Bun.write(index, realIndex);
+		}
+
+		const added = await execGit(["add", "-A", "--", "."], cwd, env);
+		if (!added.success) {
+			logger.debug(`Failed to stage working tree: ${added.stderr}`);
+			return null;
+		}
+		if (exclude.length > 0) {
+			await execGit(
+				[
+					"rm",
+					"-r",
+					"--cached",
+					"--quiet",
+					"--ignore-unmatch",
+					"--",
+					...exclude,
+				],
+				cwd,
+				env,
+			);
+		}
+
+		const tree = await execGit(["write-tree"], cwd, env);
+		return tree.success ? tree.stdout : null;
+	} finally {
+		await rm(index, { force: true });
+	}
+}
+
+/**
+ * Count the files and lines changed between two commits or trees
+ */
+export async function getDiffStats(
+	from: string,
+	to: string,
+	cwd?: string,
+): Promise<DiffStats | null> {
+	const result = await execGit(["diff", "--numstat", from, to], cwd);
+	if (!result.success) {
+		return null;
+	}
+
+	const stats: DiffStats = { filesChanged: 0, linesAdded: 0, linesRemoved: 0 };
+	for (const line of result.stdout.split("\n")) {
+		// "<added>\t<removed>\t<path>", with "-" counts for binary files
+		const [added, removed] = line.split("\t");
+		if (added === undefined || removed === undefined || line === "") {
+			continue;
+		}
+		stats.filesChanged++;
+		stats.linesAdded += Number(added) || 0;
+		stats.linesRemoved += Number(removed) || 0;
+	}
+	return stats;
+}
+
 /**
  * Get recent commits
  */
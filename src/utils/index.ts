@@ -25,6 +25,8 @@ export {
 	execGit,
 	isGitRepo,
 	getCurrentBranch,
+	checkoutBranch,
+	branchExists,
 	getCurrentCommit,
 	getShortCommit,
 	stageAll,
@@ -33,6 +35,8 @@ export {
 	createCheckpoint,
 	getStatus,
 	hasUncommittedChanges,
+	hasStagedChanges,
+	hasTrackedChanges,
 	getRecentCommits,
 	resetToCommit,
 	createTag,
@@ -40,6 +44,16 @@ export {
 	getGitRoot,
 } from "./git.ts";
 
+export {
+	type MergeResult,
+	createWorktree,
+	removeWorktree,
+	pruneWorktrees,
+	deleteBranch,
+	mergeBranch,
+	undoMerge,
+} from "./worktree.ts";
+
 export {
 	similarityRatio,
 	isSimilar,
@@ -48,3 +62,23 @@ export {
 	partialRatio,
 	tokenSortRatio,
 } from "./fuzzy-match.ts";
+
+export {
+	type ShellResult,
+	runShellCommand,
+	truncateOutput,
+} from "./shell.ts";
+
+export {
+	type CronSchedule,
+	parseCron,
+	isValidCron,
+	getNextCronTime,
+} from "./cron.ts";
+
+export {
+	type DiffLine,
+	type UnifiedDiffOptions,
+	diffLines,
+	formatUnifiedDiff,
+} from "./diff.ts";
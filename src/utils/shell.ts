@@ -0,0 +1,84 @@
+/**
+ * Shell command utilities for Ralph Orchestrator
+ */
+
+import { createLogger } from "./logger.ts";
+
+const logger = createLogger("ralph-orchestrator.shell");
+
+/**
+ * Result of a shell command
+ */
+export interface ShellResult {
+	stdout: string;
+	stderr: string;
+	exitCode: number;
+	timedOut: boolean;
+	/** Duration in seconds */
+	duration: number;
+}
+
+/**
+ * Run a command with `sh -c` in its own process group, so a timeout also
+ * stops any children it started
+ */
+export async function runShellCommand(
+	command: string,
+	options: {
+		cwd?: string;
+		env?: Record<string, string>;
+		/** Timeout in milliseconds */
+		timeout?: number;
+	} = {},
+): Promise<ShellResult> {
+	const startTime = Date.now();
+	const proc = Bun.spawn(["sh", "-c", command], {
+		cwd: options.cwd,
+		env: { ...process.env, ...options.env },
+		stdout: "pipe",
+		stderr: "pipe",
+		detached: true,
+	});
+
+	let timedOut = false;
+	let timeoutId: Timer | undefined;
+	if (options.timeout) {
+		timeoutId = setTimeout(() => {
+			timedOut = true;
+			logger.warn(`Command timed out after ${options.timeout}ms: ${command}`);
+			try {
+				process.kill(-proc.pid, "SIGTERM");
+			} catch {
+				proc.kill();
+			}
+		}, options.timeout);
+	}
+
+	try {
+		const [stdout, stderr, exitCode] = await Promise.all([
+			new Response(proc.stdout).text(),
+			new Response(proc.stderr).text(),
+			proc.exited,
+		]);
+		return {
+			stdout,
+			stderr,
+			exitCode,
+			timedOut,
+			duration: (Date.now() - startTime) / 1000,
+		};
+	} finally {
+		clearTimeout(timeoutId);
+	}
+}
+
+/**
+ * Keep the end of long command output, where errors are usually reported
+ */
+export function truncateOutput(output: string, maxLength: number): string {
+	if (output.length <= maxLength) {
+		return output;
+	}
+	const omitted = output.length - maxLength;
+	return `[... ${omitted} characters truncated ...]\n${output.slice(-maxLength)}`;
+}
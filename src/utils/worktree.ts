@@ -0,0 +1,108 @@
+/**
+ * Git worktree utilities for Ralph Orchestrator
+ */
+
+import { type GitResult, execGit } from "./git.ts";
+import { createLogger } from "./logger.ts";
+
+const logger = createLogger("ralph-orchestrator.git");
+
+/**
+ * Result of merging a branch
+ */
+export interface MergeResult extends GitResult {
+	/** Files left in conflict (the merge is aborted when non-empty) */
+	conflicts: string[];
+}
+
+/**
+ * Create a worktree at `path` on a new branch started from `base`
+ */
+export async function createWorktree(
+	path: string,
+	branch: string,
+	base = "HEAD",
+	cwd?: string,
+): Promise<GitResult> {
+	const result = await execGit(
+		["worktree", "add", "-b", branch, path, base],
+		cwd,
+	);
+	if (!result.success) {
+		logger.warn(`Failed to create worktree ${path}: ${result.stderr}`);
+	}
+	return result;
+}
+
+/**
+ * Remove a worktree, discarding any changes left in it
+ */
+export async function removeWorktree(
+	path: string,
+	cwd?: string,
+): Promise<GitResult> {
+	return execGit(["worktree", "remove", "--force", path], cwd);
+}
+
+/**
+ * Remove administrative data for worktrees whose directory is gone
+ */
+export async function pruneWorktrees(cwd?: string): Promise<GitResult> {
+	return execGit(["worktree", "prune"], cwd);
+}
+
+/**
+ * Delete a local branch, even if it has not been merged
+ */
+export async function deleteBranch(
+	branch: string,
+	cwd?: string,
+): Promise<GitResult> {
+	return execGit(["branch", "-D", branch], cwd);
+}
+
+/**
+ * Merge a branch into the current branch with a merge commit
+ *
+ * On conflicts the merge is aborted, leaving the working tree as it was,
+ * and the conflicting files are returned.
+ */
+export async function mergeBranch(
+	branch: string,
+	message: string,
+	cwd?: string,
+): Promise<MergeResult> {
+	const result = await execGit(
+		["merge", "--no-ff", "-m", message, branch],
+		cwd,
+	);
+	if (result.success) {
+		return { ...result, conflicts: [] };
+	}
+
+	const unmerged = await execGit(
+		["diff", "--name-only", "--diff-filter=U"],
+		cwd,
+	);
+	const conflicts = unmerged.stdout
+		.split("\n")
+		.filter((file) => file.length > 0);
+	if (conflicts.length > 0) {
+		await execGit(["merge", "--abort"], cwd);
+	}
+
+	return { ...result, conflicts };
+}
+
+/**
+ * Move the current branch back to a commit, undoing a merge
+ *
+ * Unlike a hard reset, local changes to files the merge did not touch are
+ * kept, and the reset fails rather than overwrite changes to files it did.
+ */
+export async function undoMerge(
+	commit: string,
+	cwd?: string,
+): Promise<GitResult> {
+	return execGit(["reset", "--keep", commit], cwd);
+}
@@ -5,9 +5,17 @@
 import yaml from "js-yaml";
 import {
 	type AdapterConfig,
+	type AdapterErrorClass,
 	AgentType,
 	DEFAULT_ADAPTER_CONFIG,
+	DEFAULT_FALLBACK_CONFIG,
+	type FallbackConfig,
+	type HooksConfig,
+	type ModelPricing,
+	type PricingTable,
+	type PromptMode,
 	type RalphConfig,
+	type StallAction,
 	createDefaultConfig,
 } from "../types/index.ts";
 
@@ -65,14 +73,102 @@ function parseAdapterConfig(adapterData: unknown): AdapterConfig {
 		return { ...DEFAULT_ADAPTER_CONFIG, enabled: adapterData };
 	}
 	if (typeof adapterData === "object" && adapterData !== null) {
+		// max_retries is the documented spelling, maxRetries is also accepted
+		const { max_retries: maxRetries, ...rest } = adapterData as ConfigData;
 		return {
 			...DEFAULT_ADAPTER_CONFIG,
-			...(adapterData as Partial<AdapterConfig>),
+			...(typeof maxRetries === "number" ? { maxRetries } : {}),
+			...(rest as Partial<AdapterConfig>),
 		};
 	}
 	return DEFAULT_ADAPTER_CONFIG;
 }
 
+function parseHooks(data: ConfigData): HooksConfig | undefined {
+	const hooksData = data.hooks;
+
+	if (!hooksData || typeof hooksData !== "object") {
+		return undefined;
+	}
+
+	// Unknown hook names are kept so validation can report them
+	const hooks: Record<string, string> = {};
+	for (const [name, command] of Object.entries(hooksData as ConfigData)) {
+		if (typeof command === "string") {
+			hooks[name] = command;
+		}
+	}
+	return hooks as HooksConfig;
+}
+
+function parseFallback(data: ConfigData): FallbackConfig | undefined {
+	const fallbackData = data.fallback;
+
+	if (!fallbackData || typeof fallbackData !== "object") {
+		return undefined;
+	}
+
+	// Agent names and error classes are kept as written so validation can
+	// report unknown ones
+	const fallback = fallbackData as ConfigData;
+	return {
+		order: (getStringArray(fallback, "order") ?? [
+			...DEFAULT_FALLBACK_CONFIG.order,
+		]) as AgentType[],
+		on: (getStringArray(fallback, "on") ?? [
+			...DEFAULT_FALLBACK_CONFIG.on,
+		]) as AdapterErrorClass[],
+		failureThreshold:
+			getNumber(fallback, "failure_threshold") ??
+			DEFAULT_FALLBACK_CONFIG.failureThreshold,
+		cooldown:
+			getNumber(fallback, "cooldown") ?? DEFAULT_FALLBACK_CONFIG.cooldown,
+	};
+}
+
+function parsePricing(data: ConfigData): PricingTable | undefined {
+	const pricingData = data.pricing;
+
+	if (!pricingData || typeof pricingData !== "object") {
+		return undefined;
+	}
+
+	// Values are kept as written so validation can report bad rates
+	const pricing: PricingTable = {};
+	for (const [adapter, models] of Object.entries(pricingData as ConfigData)) {
+		if (!models || typeof models !== "object") {
+			continue;
+		}
+		pricing[adapter] = {};
+		for (const [model, rates] of Object.entries(models as ConfigData)) {
+			const rateData = (rates ?? {}) as ConfigData;
+			pricing[adapter][model] = {
+				input: rateData.input,
+				output: rateData.output,
+				cacheRead: rateData.cache_read,
+				cacheWrite: rateData.cache_write,
+			} as ModelPricing;
+		}
+	}
+	return pricing;
+}
+
+function pricingToYamlData(pricing: PricingTable): Record<string, unknown> {
+	const data: Record<string, Record<string, unknown>> = {};
+	for (const [adapter, models] of Object.entries(pricing)) {
+		data[adapter] = {};
+		for (const [model, rates] of Object.entries(models)) {
+			data[adapter][model] = {
+				input: rates.input,
+				output: rates.output,
+				cache_read: rates.cacheRead,
+				cache_write: rates.cacheWrite,
+			};
+		}
+	}
+	return data;
+}
+
 /**
  * Load configuration from YAML file
  */
@@ -105,6 +201,7 @@ export function loadConfigFromYamlString(yamlString: string): RalphConfig {
 function parseConfig(data: ConfigData): RalphConfig {
 	return createDefaultConfig({
 		agent: parseAgentType(data),
+		workingDir: getString(data, "working_dir"),
 		promptFile: getString(data, "prompt_file"),
 		promptText: getString(data, "prompt_text"),
 		maxIterations: getNumber(data, "max_iterations"),
@@ -113,9 +210,12 @@ function parseConfig(data: ConfigData): RalphConfig {
 		retryDelay: getNumber(data, "retry_delay"),
 		archivePrompts: getBoolean(data, "archive_prompts"),
 		gitCheckpoint: getBoolean(data, "git_checkpoint"),
+		runBranch: getBoolean(data, "run_branch"),
 		verbose: getBoolean(data, "verbose"),
 		dryRun: getBoolean(data, "dry_run"),
 		maxTokens: getNumber(data, "max_tokens"),
+		tokenWarningThreshold: getNumber(data, "token_warning_threshold"),
+		pricing: parsePricing(data),
 		maxCost: getNumber(data, "max_cost"),
 		contextWindow: getNumber(data, "context_window"),
 		contextThreshold: getNumber(data, "context_threshold"),
@@ -125,6 +225,11 @@ function parseConfig(data: ConfigData): RalphConfig {
 		allowUnsafePaths: getBoolean(data, "allow_unsafe_paths"),
 		agentArgs: getStringArray(data, "agent_args"),
 		adapters: parseAdapters(data),
+		fallback: parseFallback(data),
+		promptMode: getString(data, "prompt_mode") as PromptMode | undefined,
+		feedbackBudget: getNumber(data, "feedback_budget"),
+		summaryAgent: getString(data, "summary_agent") as AgentType | undefined,
+		summaryModel: getString(data, "summary_model"),
 		outputFormat: getString(data, "output_format") as
 			| "plain"
 			| "rich"
@@ -142,6 +247,17 @@ function parseConfig(data: ConfigData): RalphConfig {
 		outputPreviewLength: getNumber(data, "output_preview_length"),
 		acpAgent: getString(data, "acp_agent"),
 		acpPermissionMode: getString(data, "acp_permission_mode"),
+		hooks: parseHooks(data),
+		hookTimeout: getNumber(data, "hook_timeout"),
+		verify: getStringArray(data, "verify"),
+		verifyTimeout: getNumber(data, "verify_timeout"),
+		taskMaxIterations: getNumber(data, "task_max_iterations"),
+		taskMaxCost: getNumber(data, "task_max_cost"),
+		parallelWorkers: getNumber(data, "parallel_workers"),
+		rollbackAfter: getNumber(data, "rollback_after"),
+		maxRollbacks: getNumber(data, "max_rollbacks"),
+		stallLimit: getNumber(data, "stall_limit"),
+		stallAction: getString(data, "stall_action") as StallAction | undefined,
 	});
 }
 
@@ -167,6 +283,7 @@ export async function saveConfigToYaml(
 function configToYamlData(config: RalphConfig): Record<string, unknown> {
 	return {
 		agent: config.agent,
+		working_dir: config.workingDir,
 		prompt_file: config.promptFile,
 		prompt_text: config.promptText,
 		max_iterations: config.maxIterations,
@@ -175,9 +292,12 @@ function configToYamlData(config: RalphConfig): Record<string, unknown> {
 		retry_delay: config.retryDelay,
 		archive_prompts: config.archivePrompts,
 		git_checkpoint: config.gitCheckpoint,
+		run_branch: config.runBranch,
 		verbose: config.verbose,
 		dry_run: config.dryRun,
 		max_tokens: config.maxTokens,
+		token_warning_threshold: config.tokenWarningThreshold,
+		pricing: pricingToYamlData(config.pricing),
 		max_cost: config.maxCost,
 		context_window: config.contextWindow,
 		context_threshold: config.contextThreshold,
@@ -187,6 +307,16 @@ function configToYamlData(config: RalphConfig): Record<string, unknown> {
 		allow_unsafe_paths: config.allowUnsafePaths,
 		agent_args: config.agentArgs,
 		adapters: config.adapters,
+		fallback: {
+			order: config.fallback.order,
+			on: config.fallback.on,
+			failure_threshold: config.fallback.failureThreshold,
+			cooldown: config.fallback.cooldown,
+		},
+		prompt_mode: config.promptMode,
+		feedback_budget: config.feedbackBudget,
+		summary_agent: config.summaryAgent,
+		summary_model: config.summaryModel,
 		output_format: config.outputFormat,
 		output_verbosity: config.outputVerbosity,
 		show_token_usage: config.showTokenUsage,
@@ -195,6 +325,17 @@ function configToYamlData(config: RalphConfig): Record<string, unknown> {
 		output_preview_length: config.outputPreviewLength,
 		acp_agent: config.acpAgent,
 		acp_permission_mode: config.acpPermissionMode,
+		hooks: config.hooks,
+		hook_timeout: config.hookTimeout,
+		verify: config.verify,
+		verify_timeout: config.verifyTimeout,
+		task_max_iterations: config.taskMaxIterations,
+		task_max_cost: config.taskMaxCost,
+		parallel_workers: config.parallelWorkers,
+		rollback_after: config.rollbackAfter,
+		max_rollbacks: config.maxRollbacks,
+		stall_limit: config.stallLimit,
+		stall_action: config.stallAction,
 	};
 }
 
@@ -208,7 +349,10 @@ export function generateDefaultYaml(): string {
 # Agent to use (claude, q, gemini, acp, auto)
 agent: auto
 
-# Prompt file path
+# Directory the run works in (default: the current directory)
+# working_dir: ../my-project
+
+# Prompt file path, relative to working_dir
 prompt_file: PROMPT.md
 
 # Maximum iterations before stopping
@@ -223,13 +367,37 @@ checkpoint_interval: 5
 # Retry delay in seconds
 retry_delay: 2
 
-# Cost and token limits
+# Cost and token limits. Input and output tokens count toward max_tokens;
+# a warning is shown once usage passes token_warning_threshold of it.
 max_tokens: 1000000
+token_warning_threshold: 0.8
 max_cost: 50.0
 
+# Prices in USD per 1M tokens, by adapter and model name or prefix (optional)
+# Overrides or adds to the built-in prices; "default" is used for models
+# without an entry. Cache rates default to the input rate.
+# pricing:
+#   claude:
+#     claude-opus-4-5: { input: 5, output: 25, cache_read: 0.5, cache_write: 6.25 }
+#   gemini:
+#     default: { input: 1.25, output: 10 }
+
 # Context management
+# Once the prompt and earlier output pass context_threshold of context_window
+# (in estimated tokens), older output is folded into a rolling summary, written
+# by summary_agent if set or extracted locally otherwise.
 context_window: 200000
 context_threshold: 0.8
+# summary_agent: gemini
+# summary_model: gemini-2.5-flash
+
+# Prompt sent each iteration: "full" (the whole prompt file) or "focused"
+# (the prompt header, the current task, completed tasks and the last error)
+prompt_mode: full
+
+# Characters of the previous iteration's output and recent errors added to
+# each prompt (0 = none)
+feedback_budget: 8000
 
 # Metrics and telemetry
 enable_metrics: true
@@ -245,16 +413,81 @@ show_timestamps: true
 
 # Git and archiving
 git_checkpoint: true
+# Work on a ralph/run-<id> branch, tagging each checkpoint
+run_branch: true
 archive_prompts: true
 
 # Security
 allow_unsafe_paths: false
 max_prompt_size: 10485760
 
+# Lifecycle hooks (optional)
+# Shell commands run with RALPH_RUN_ID, RALPH_ITERATION, RALPH_SUCCESS,
+# RALPH_COST and RALPH_LAST_ERROR set. A non-zero exit from on_checkpoint
+# skips that checkpoint; from any other hook except on_complete it stops the run.
+# hooks:
+#   pre_run: ./scripts/regenerate-fixtures.sh
+#   post_iteration: npm test --silent
+#   on_failure: ./scripts/restart-dev-server.sh
+#   on_stall: ./scripts/reset-test-db.sh
+# hook_timeout: 300
+
+# Verification commands (optional)
+# Run after each iteration; the iteration only succeeds, and is only
+# checkpointed, if every command exits with code 0.
+# verify:
+#   - bun test
+#   - tsc --noEmit
+# verify_timeout: 600
+
+# Task budgets (optional, 0 = unlimited)
+# A task that uses up its budget is skipped. Override per task in the prompt,
+# e.g. "- [ ] Add login endpoint (depends: 1; iterations: 3; cost: 2.50)"
+# task_max_iterations: 0
+# task_max_cost: 0
+
+# Parallel workers (optional, requires git)
+# Each worker takes a task and runs the agent in its own git worktree on a
+# ralph/<run>/task-<id> branch, then merges it back once verified. Tasks whose
+# merge conflicts are requeued.
+# parallel_workers: 1
+
+# Automatic rollback (requires git checkpoints)
+# After rollback_after consecutive failed iterations, the working tree is
+# hard reset to the last checkpoint of a successful iteration and the agent
+# is told what was undone (0, the default, disables). Tracked edits made
+# since that checkpoint are discarded, including your own. At most
+# max_rollbacks per run.
+# rollback_after: 3
+# max_rollbacks: 2
+
+# Stall detection (requires git)
+# After stall_limit iterations in a row that change no files, stall_action
+# either stops the run (stop) or runs the on_stall hook and tells the agent
+# (recover), stopping if the next stall_limit iterations change nothing
+# either (0, the default, disables).
+# stall_limit: 5
+# stall_action: stop
+
+# Fallback adapters (optional)
+# When the agent still times out, is rate limited or crashes after its
+# retries, or is not installed, the next available adapter in order is
+# tried (on may also list auth and invalid_args); ordinary task failures
+# never fall back. An adapter is skipped for cooldown seconds after
+# failure_threshold such failures in a row, then gets one trial run.
+# fallback:
+#   order: [claude, q, gemini]
+#   on: [timeout, rate_limit, crash, unavailable]
+#   failure_threshold: 3
+#   cooldown: 300
+
 # Adapter-specific configuration (optional)
+# max_retries retries timeouts, rate limits and crashes with exponential
+# backoff; authentication, argument and task errors are not retried.
 # adapters:
 #   claude:
 #     enabled: true
+#     model: claude-sonnet-4-5
 #     timeout: 300
 #     max_retries: 3
 #   gemini:
@@ -0,0 +1,5 @@
+/**
+ * Verification exports for Ralph Orchestrator
+ */
+
+export { Verifier, formatVerificationFeedback } from "./verifier.ts";
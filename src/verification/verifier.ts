@@ -0,0 +1,137 @@
+/**
+ * Iteration verification for Ralph Orchestrator
+ *
+ * Runs the configured `verify` commands after an iteration so that an agent
+ * exiting cleanly is not mistaken for the work actually being correct.
+ */
+
+import {
+	CONFIG_DEFAULTS,
+	type VerificationCommandResult,
+	type VerificationResult,
+} from "../types/index.ts";
+import { createLogger } from "../utils/logger.ts";
+import { extractErrorMessage } from "../utils/shared.ts";
+import { runShellCommand, truncateOutput } from "../utils/shell.ts";
+
+const logger = createLogger("ralph-orchestrator.verification");
+
+/**
+ * Runs verification commands and reports their combined outcome
+ */
+export class Verifier {
+	private readonly commands: string[];
+	private readonly timeout: number;
+	private readonly outputLimit: number;
+	private readonly cwd?: string;
+
+	/**
+	 * @param timeout Timeout per command in seconds
+	 */
+	constructor(
+		commands: string[],
+		timeout: number,
+		options: { cwd?: string; outputLimit?: number } = {},
+	) {
+		this.commands = commands.map((command) => command.trim()).filter(Boolean);
+		this.timeout = timeout;
+		this.outputLimit =
+			options.outputLimit ?? CONFIG_DEFAULTS.VERIFY_OUTPUT_LIMIT;
+		this.cwd = options.cwd;
+	}
+
+	/**
+	 * Check whether any verification commands are configured
+	 */
+	isEnabled(): boolean {
+		return this.commands.length > 0;
+	}
+
+	/**
+	 * Get the configured commands
+	 */
+	getCommands(): string[] {
+		return [...this.commands];
+	}
+
+	/**
+	 * Run every command in order; verification passes only if all pass
+	 */
+	async run(): Promise<VerificationResult> {
+		const startTime = Date.now();
+		const commands: VerificationCommandResult[] = [];
+
+		for (const command of this.commands) {
+			commands.push(await this.runCommand(command));
+		}
+
+		const passed = commands.every((result) => result.passed);
+		if (passed) {
+			logger.info("Verification passed");
+		} else {
+			const failed = commands.filter((result) => !result.passed);
+			logger.warn(
+				`Verification failed: ${failed.map((result) => result.command).join(", ")}`,
+			);
+		}
+
+		return {
+			passed,
+			commands,
+			duration: (Date.now() - startTime) / 1000,
+		};
+	}
+
+	/**
+	 * Run a single verification command
+	 */
+	private async runCommand(
+		command: string,
+	): Promise<VerificationCommandResult> {
+		logger.debug(`Verifying: ${command}`);
+
+		try {
+			const result = await runShellCommand(command, {
+				cwd: this.cwd,
+				timeout: this.timeout * 1000,
+			});
+			const output = [result.stdout, result.stderr]
+				.filter((text) => text.trim())
+				.join("\n");
+
+			return {
+				command,
+				passed: result.exitCode === 0,
+				exitCode: result.exitCode,
+				timedOut: result.timedOut,
+				output: truncateOutput(output, this.outputLimit),
+				duration: result.duration,
+			};
+		} catch (error) {
+			return {
+				command,
+				passed: false,
+				exitCode: -1,
+				timedOut: false,
+				output: extractErrorMessage(error),
+				duration: 0,
+			};
+		}
+	}
+}
+
+/**
+ * Format failed verification commands as feedback for the next iteration
+ */
+export function formatVerificationFeedback(result: VerificationResult): string {
+	const sections = result.commands
+		.filter((command) => !command.passed)
+		.map((command) => {
+			const status = command.timedOut
+				? "timed out"
+				: `exit code ${command.exitCode}`;
+			return `$ ${command.command} (${status})\n${command.output}`;
+		});
+
+	return `Verification failed:\n\n${sections.join("\n\n")}`;
+}
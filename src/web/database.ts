@@ -3,7 +3,9 @@
  */
 
 import { Database } from "bun:sqlite";
+import type { DiffStats, VerificationResult } from "../types/index.ts";
 import { createLogger } from "../utils/logger.ts";
+import type { RunRequest } from "./queue.ts";
 
 const logger = createLogger("ralph-orchestrator.web.database");
 
@@ -35,9 +37,21 @@ export interface Session {
  */
 export interface RunRecord {
 	id: number;
-	status: "running" | "completed" | "error" | "stopped";
+	status:
+		| "queued"
+		| "running"
+		| "completed"
+		| "error"
+		| "stopped"
+		| "cancelled";
 	agent: string;
 	promptFile: string;
+	/** Queued runs with a higher priority start first */
+	priority: number;
+	/** Repository the run works in, for the per-repository limit */
+	repository?: string;
+	/** Options the run was submitted with, used to start it from the queue */
+	request?: RunRequest;
 	iterations: number;
 	runtime: number;
 	totalCost: number;
@@ -59,6 +73,8 @@ export interface IterationRecord {
 	cost?: number;
 	outputPreview?: string;
 	error?: string;
+	verification?: VerificationResult;
+	diffStats?: DiffStats;
 	createdAt: string;
 }
 
@@ -74,8 +90,86 @@ export interface AddIterationInput {
 	cost?: number;
 	outputPreview?: string;
 	error?: string;
+	verification?: VerificationResult;
+	diffStats?: DiffStats;
 }
 
+/**
+ * Schedule record (recurring run)
+ */
+export interface ScheduleRecord {
+	id: number;
+	name: string;
+	/** Cron expression, evaluated in the server's local time */
+	cron: string;
+	/** Options each run is submitted with */
+	request: RunRequest;
+	priority: number;
+	enabled: boolean;
+	lastRunAt?: string;
+	/** Next fire time (unset while disabled) */
+	nextRunAt?: string;
+	createdAt: string;
+	updatedAt: string;
+}
+
+/**
+ * Input for creating or updating a schedule
+ */
+export interface ScheduleInput {
+	name: string;
+	cron: string;
+	request: RunRequest;
+	priority: number;
+	enabled: boolean;
+	nextRunAt: string | null;
+}
+
+/**
+ * One firing of a schedule
+ */
+export interface ScheduleFiring {
+	id: number;
+	scheduleId: number;
+	/** Run submitted by this firing */
+	runId?: number;
+	status: "started" | "skipped" | "failed";
+	message?: string;
+	firedAt: string;
+}
+
+/**
+ * Input for queueing a run
+ */
+export interface QueueRunInput {
+	agent: string;
+	promptFile: string;
+	priority: number;
+	repository: string;
+	request: RunRequest;
+}
+
+/**
+ * Schema migrations applied in order, tracked with `PRAGMA user_version`
+ */
+const MIGRATIONS: string[] = [
+	// 1: verification results per iteration (JSON)
+	"ALTER TABLE iterations ADD COLUMN verification TEXT",
+	// 2-4: run queue
+	"ALTER TABLE runs ADD COLUMN priority INTEGER NOT NULL DEFAULT 0",
+	"ALTER TABLE runs ADD COLUMN repository TEXT",
+	"ALTER TABLE runs ADD COLUMN request TEXT",
+	// 5-7: git diff stats per iteration
+	"ALTER TABLE iterations ADD COLUMN files_changed INTEGER",
+	"ALTER TABLE iterations ADD COLUMN lines_added INTEGER",
+	"ALTER TABLE iterations ADD COLUMN lines_removed INTEGER",
+];
+
+/**
+ * Schema version of a fully migrated database
+ */
+export const SCHEMA_VERSION = MIGRATIONS.length;
+
 /**
  * Database manager
  */
@@ -159,6 +253,36 @@ export class DatabaseManager {
       )
     `);
 
+		// Schedules table
+		this.db.run(`
+      CREATE TABLE IF NOT EXISTS schedules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        cron TEXT NOT NULL,
+        request TEXT NOT NULL,
+        priority INTEGER NOT NULL DEFAULT 0,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        last_run_at TEXT,
+        next_run_at TEXT,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+		// Schedule history table
+		this.db.run(`
+      CREATE TABLE IF NOT EXISTS schedule_firings (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        schedule_id INTEGER NOT NULL,
+        run_id INTEGER,
+        status TEXT NOT NULL,
+        message TEXT,
+        fired_at TEXT NOT NULL,
+        FOREIGN KEY (schedule_id) REFERENCES schedules(id),
+        FOREIGN KEY (run_id) REFERENCES runs(id)
+      )
+    `);
+
 		// Create indexes
 		this.db.run(
 			"CREATE INDEX IF NOT EXISTS idx_sessions_token ON sessions(token)",
@@ -170,10 +294,32 @@ export class DatabaseManager {
 		this.db.run(
 			"CREATE INDEX IF NOT EXISTS idx_iterations_run ON iterations(run_id)",
 		);
+		this.db.run(
+			"CREATE INDEX IF NOT EXISTS idx_schedule_firings_schedule ON schedule_firings(schedule_id)",
+		);
+
+		this.migrate();
 
 		logger.debug("Database schema initialized");
 	}
 
+	/**
+	 * Apply schema migrations newer than the stored schema version
+	 */
+	private migrate(): void {
+		const { user_version: version } = this.db
+			.prepare("PRAGMA user_version")
+			.get() as { user_version: number };
+
+		for (let index = version; index < MIGRATIONS.length; index++) {
+			this.db.transaction(() => {
+				this.db.run(MIGRATIONS[index] as string);
+				this.db.run(`PRAGMA user_version = ${index + 1}`);
+			})();
+			logger.debug(`Applied database migration ${index + 1}`);
+		}
+	}
+
 	/**
 	 * Create a user
 	 */
@@ -295,6 +441,92 @@ export class DatabaseManager {
 		}
 	}
 
+	/**
+	 * Create a run record that waits in the queue
+	 */
+	queueRun(input: QueueRunInput): RunRecord | null {
+		try {
+			const stmt = this.db.prepare(`
+        INSERT INTO runs (status, agent, prompt_file, priority, repository, request)
+        VALUES ('queued', ?, ?, ?, ?, ?)
+      `);
+			const result = stmt.run(
+				input.agent,
+				input.promptFile,
+				input.priority,
+				input.repository,
+				JSON.stringify(input.request),
+			);
+			return this.getRunById(Number(result.lastInsertRowid));
+		} catch (error) {
+			logger.error(`Failed to queue run: ${error}`);
+			return null;
+		}
+	}
+
+	/**
+	 * Get queued runs in the order they start: highest priority first, then
+	 * oldest first
+	 */
+	getQueuedRuns(): RunRecord[] {
+		const rows = this.db
+			.prepare(
+				"SELECT * FROM runs WHERE status = 'queued' ORDER BY priority DESC, id ASC",
+			)
+			.all() as Record<string, unknown>[];
+		return rows.map((row) => this.mapRun(row));
+	}
+
+	/**
+	 * Move a queued run to running, restarting its clock
+	 *
+	 * Returns false if the run is no longer queued.
+	 */
+	startQueuedRun(id: number): boolean {
+		const result = this.db
+			.prepare(`
+      UPDATE runs
+      SET status = 'running', started_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND status = 'queued'
+    `)
+			.run(id);
+		return result.changes > 0;
+	}
+
+	/**
+	 * Cancel a queued run
+	 *
+	 * Returns false if the run is not queued.
+	 */
+	cancelQueuedRun(id: number): boolean {
+		const result = this.db
+			.prepare(`
+      UPDATE runs
+      SET status = 'cancelled', completed_at = ?
+      WHERE id = ? AND status = 'queued'
+    `)
+			.run(new Date().toISOString(), id);
+		return result.changes > 0;
+	}
+
+	/**
+	 * Mark runs still recorded as running as stopped, returning how many
+	 * were changed
+	 *
+	 * Used at startup, when no orchestrator from a previous server process
+	 * can still be running.
+	 */
+	stopRunningRuns(errorMessage: string): number {
+		const result = this.db
+			.prepare(`
+      UPDATE runs
+      SET status = 'stopped', completed_at = ?, error_message = ?
+      WHERE status = 'running'
+    `)
+			.run(new Date().toISOString(), errorMessage);
+		return result.changes;
+	}
+
 	/**
 	 * Get run by ID
 	 */
@@ -367,8 +599,8 @@ export class DatabaseManager {
 	addIteration(input: AddIterationInput): IterationRecord | null {
 		try {
 			const stmt = this.db.prepare(`
-        INSERT INTO iterations (run_id, iteration, success, duration, tokens_used, cost, output_preview, error)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        INSERT INTO iterations (run_id, iteration, success, duration, tokens_used, cost, output_preview, error, verification, files_changed, lines_added, lines_removed)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
 			const result = stmt.run(
 				input.runId,
@@ -379,6 +611,10 @@ export class DatabaseManager {
 				input.cost ?? null,
 				input.outputPreview ?? null,
 				input.error ?? null,
+				input.verification ? JSON.stringify(input.verification) : null,
+				input.diffStats?.filesChanged ?? null,
+				input.diffStats?.linesAdded ?? null,
+				input.diffStats?.linesRemoved ?? null,
 			);
 			return this.getIterationById(Number(result.lastInsertRowid));
 		} catch (error) {
@@ -409,11 +645,185 @@ export class DatabaseManager {
 		return rows.map((row) => this.mapIteration(row));
 	}
 
+	/**
+	 * Create a schedule
+	 */
+	createSchedule(input: ScheduleInput): ScheduleRecord | null {
+		try {
+			const stmt = this.db.prepare(`
+        INSERT INTO schedules (name, cron, request, priority, enabled, next_run_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `);
+			const result = stmt.run(
+				input.name,
+				input.cron,
+				JSON.stringify(input.request),
+				input.priority,
+				input.enabled ? 1 : 0,
+				input.nextRunAt,
+			);
+			return this.getScheduleById(Number(result.lastInsertRowid));
+		} catch (error) {
+			logger.error(`Failed to create schedule: ${error}`);
+			return null;
+		}
+	}
+
+	/**
+	 * Get schedule by ID
+	 */
+	getScheduleById(id: number): ScheduleRecord | null {
+		const row = this.db
+			.prepare("SELECT * FROM schedules WHERE id = ?")
+			.get(id) as Record<string, unknown> | null;
+		return row ? this.mapSchedule(row) : null;
+	}
+
+	/**
+	 * Get all schedules
+	 */
+	getSchedules(): ScheduleRecord[] {
+		const rows = this.db
+			.prepare("SELECT * FROM schedules ORDER BY id ASC")
+			.all() as Record<string, unknown>[];
+		return rows.map((row) => this.mapSchedule(row));
+	}
+
+	/**
+	 * Get enabled schedules whose next fire time has passed
+	 */
+	getDueSchedules(now: Date): ScheduleRecord[] {
+		const rows = this.db
+			.prepare(
+				"SELECT * FROM schedules WHERE enabled = 1 AND next_run_at <= ? ORDER BY next_run_at ASC",
+			)
+			.all(now.toISOString()) as Record<string, unknown>[];
+		return rows.map((row) => this.mapSchedule(row));
+	}
+
+	/**
+	 * Replace a schedule's settings
+	 */
+	updateSchedule(id: number, input: ScheduleInput): ScheduleRecord | null {
+		this.db
+			.prepare(`
+      UPDATE schedules
+      SET name = ?,
+          cron = ?,
+          request = ?,
+          priority = ?,
+          enabled = ?,
+          next_run_at = ?,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `)
+			.run(
+				input.name,
+				input.cron,
+				JSON.stringify(input.request),
+				input.priority,
+				input.enabled ? 1 : 0,
+				input.nextRunAt,
+				id,
+			);
+		return this.getScheduleById(id);
+	}
+
+	/**
+	 * Delete a schedule and its history, returning false if it does not exist
+	 */
+	deleteSchedule(id: number): boolean {
+		return this.db.transaction(() => {
+			this.db
+				.prepare("DELETE FROM schedule_firings WHERE schedule_id = ?")
+				.run(id);
+			return (
+				this.db.prepare("DELETE FROM schedules WHERE id = ?").run(id).changes >
+				0
+			);
+		})();
+	}
+
+	/**
+	 * Record a schedule firing and move the schedule to its next fire time
+	 */
+	recordScheduleFiring(
+		scheduleId: number,
+		firing: {
+			status: ScheduleFiring["status"];
+			firedAt: Date;
+			nextRunAt: string | null;
+			runId?: number;
+			message?: string;
+		},
+	): ScheduleFiring | null {
+		try {
+			const firedAt = firing.firedAt.toISOString();
+			const id = this.db.transaction(() => {
+				this.db
+					.prepare(
+						"UPDATE schedules SET last_run_at = ?, next_run_at = ? WHERE id = ?",
+					)
+					.run(firedAt, firing.nextRunAt, scheduleId);
+				const result = this.db
+					.prepare(`
+          INSERT INTO schedule_firings (schedule_id, run_id, status, message, fired_at)
+          VALUES (?, ?, ?, ?, ?)
+        `)
+					.run(
+						scheduleId,
+						firing.runId ?? null,
+						firing.status,
+						firing.message ?? null,
+						firedAt,
+					);
+				return Number(result.lastInsertRowid);
+			})();
+
+			const row = this.db
+				.prepare("SELECT * FROM schedule_firings WHERE id = ?")
+				.get(id) as Record<string, unknown>;
+			return this.mapScheduleFiring(row);
+		} catch (error) {
+			logger.error(`Failed to record schedule firing: ${error}`);
+			return null;
+		}
+	}
+
+	/**
+	 * Get a schedule's most recent firings, newest first
+	 */
+	getScheduleHistory(scheduleId: number, limit = 20): ScheduleFiring[] {
+		const rows = this.db
+			.prepare(
+				"SELECT * FROM schedule_firings WHERE schedule_id = ? ORDER BY id DESC LIMIT ?",
+			)
+			.all(scheduleId, limit) as Record<string, unknown>[];
+		return rows.map((row) => this.mapScheduleFiring(row));
+	}
+
+	/**
+	 * Get the last run a schedule submitted
+	 */
+	getLastScheduledRun(scheduleId: number): RunRecord | null {
+		const row = this.db
+			.prepare(`
+      SELECT runs.* FROM schedule_firings
+      JOIN runs ON runs.id = schedule_firings.run_id
+      WHERE schedule_firings.schedule_id = ?
+      ORDER BY schedule_firings.id DESC
+      LIMIT 1
+    `)
+			.get(scheduleId) as Record<string, unknown> | null;
+		return row ? this.mapRun(row) : null;
+	}
+
 	/**
 	 * Get statistics
 	 */
 	getStats(): {
 		totalRuns: number;
+		queuedRuns: number;
 		runningRuns: number;
 		completedRuns: number;
 		errorRuns: number;
@@ -424,6 +834,7 @@ export class DatabaseManager {
 			.prepare(`
       SELECT
         COUNT(*) as total_runs,
+        SUM(CASE WHEN status = 'queued' THEN 1 ELSE 0 END) as queued_runs,
         SUM(CASE WHEN status = 'running' THEN 1 ELSE 0 END) as running_runs,
         SUM(CASE WHEN status = 'completed' THEN 1 ELSE 0 END) as completed_runs,
         SUM(CASE WHEN status = 'error' THEN 1 ELSE 0 END) as error_runs,
@@ -435,6 +846,7 @@ export class DatabaseManager {
 
 		return {
 			totalRuns: Number(stats.total_runs) || 0,
+			queuedRuns: Number(stats.queued_runs) || 0,
 			runningRuns: Number(stats.running_runs) || 0,
 			completedRuns: Number(stats.completed_runs) || 0,
 			errorRuns: Number(stats.error_runs) || 0,
@@ -479,6 +891,11 @@ export class DatabaseManager {
 			status: row.status as RunRecord["status"],
 			agent: row.agent as string,
 			promptFile: row.prompt_file as string,
+			priority: row.priority as number,
+			repository: row.repository as string | undefined,
+			request: row.request
+				? (JSON.parse(row.request as string) as RunRequest)
+				: undefined,
 			iterations: row.iterations as number,
 			runtime: row.runtime as number,
 			totalCost: row.total_cost as number,
@@ -488,6 +905,32 @@ export class DatabaseManager {
 		};
 	}
 
+	private mapSchedule(row: Record<string, unknown>): ScheduleRecord {
+		return {
+			id: row.id as number,
+			name: row.name as string,
+			cron: row.cron as string,
+			request: JSON.parse(row.request as string) as RunRequest,
+			priority: row.priority as number,
+			enabled: Boolean(row.enabled),
+			lastRunAt: row.last_run_at as string | undefined,
+			nextRunAt: row.next_run_at as string | undefined,
+			createdAt: row.created_at as string,
+			updatedAt: row.updated_at as string,
+		};
+	}
+
+	private mapScheduleFiring(row: Record<string, unknown>): ScheduleFiring {
+		return {
+			id: row.id as number,
+			scheduleId: row.schedule_id as number,
+			runId: row.run_id as number | undefined,
+			status: row.status as ScheduleFiring["status"],
+			message: row.message as string | undefined,
+			firedAt: row.fired_at as string,
+		};
+	}
+
 	private mapIteration(row: Record<string, unknown>): IterationRecord {
 		return {
 			id: row.id as number,
@@ -499,6 +942,17 @@ export class DatabaseManager {
 			cost: row.cost as number | undefined,
 			outputPreview: row.output_preview as string | undefined,
 			error: row.error as string | undefined,
+			verification: row.verification
+				? (JSON.parse(row.verification as string) as VerificationResult)
+				: undefined,
+			diffStats:
+				row.files_changed === null || row.files_changed === undefined
+					? undefined
+					: {
+							filesChanged: row.files_changed as number,
+							linesAdded: (row.lines_added as number | null) ?? 0,
+							linesRemoved: (row.lines_removed as number | null) ?? 0,
+						},
 			createdAt: row.created_at as string,
 		};
 	}
@@ -10,6 +10,8 @@ export {
 
 export {
 	createAPIRoutes,
+	startRun,
+	submitRun,
 	getActiveOrchestrator,
 	getActiveOrchestratorIds,
 	type APIConfig,
@@ -17,6 +19,7 @@ export {
 
 export {
 	createWebSocketHandlers,
+	attachRunBroadcasts,
 	broadcastToSubscribers,
 	broadcastToAll,
 	getClientCount,
@@ -34,8 +37,28 @@ export {
 	type Session,
 	type RunRecord,
 	type IterationRecord,
+	type QueueRunInput,
+	type ScheduleRecord,
+	type ScheduleInput,
+	type ScheduleFiring,
 } from "./database.ts";
 
+export {
+	RunQueue,
+	DEFAULT_QUEUE_CONFIG,
+	type QueueConfig,
+	type QueueSnapshot,
+	type RunRequest,
+	type RunStarter,
+} from "./queue.ts";
+
+export {
+	Scheduler,
+	getNextRunAt,
+	type RunSubmitter,
+	type SchedulerOptions,
+} from "./scheduler.ts";
+
 export {
 	authMiddleware,
 	requireRole,
@@ -0,0 +1,212 @@
+/**
+ * Run queue for the Ralph web dashboard
+ *
+ * Runs submitted through the API wait in the database until a slot is free
+ * under both the global and the per-repository concurrency limit.
+ */
+
+import { createLogger } from "../utils/logger.ts";
+import { extractErrorMessage } from "../utils/shared.ts";
+import { DatabaseManager, type RunRecord } from "./database.ts";
+
+const logger = createLogger("ralph-orchestrator.web.queue");
+
+/**
+ * Options a run is submitted with (the body of `POST /api/runs`)
+ */
+export interface RunRequest {
+	/** Repository to run in (the server's directory if unset) */
+	workingDir?: string;
+	/** Config file, relative to workingDir */
+	configFile?: string;
+	agent?: string;
+	promptFile?: string;
+	promptText?: string;
+	maxIterations?: number;
+	maxRuntime?: number;
+}
+
+/**
+ * Concurrency limits for the run queue
+ */
+export interface QueueConfig {
+	/** Runs active at once across all repositories */
+	maxConcurrent: number;
+	/** Runs active at once in the same repository */
+	maxPerRepository: number;
+}
+
+/**
+ * Default queue limits
+ */
+export const DEFAULT_QUEUE_CONFIG: QueueConfig = {
+	maxConcurrent: 2,
+	maxPerRepository: 1,
+};
+
+/**
+ * Starts a run taken off the queue, resolving once the run has finished
+ */
+export type RunStarter = (run: RunRecord, request: RunRequest) => Promise<void>;
+
+/**
+ * Snapshot of the queue returned by `GET /api/queue`
+ */
+export interface QueueSnapshot {
+	/** Waiting runs, in the order they will start */
+	queued: RunRecord[];
+	running: RunRecord[];
+	limits: QueueConfig;
+}
+
+/**
+ * Database-backed run queue with priorities and concurrency limits
+ */
+export class RunQueue {
+	private readonly config: QueueConfig;
+	private readonly start: RunStarter;
+
+	constructor(start: RunStarter, config: Partial<QueueConfig> = {}) {
+		this.start = start;
+		this.config = { ...DEFAULT_QUEUE_CONFIG, ...config };
+	}
+
+	/**
+	 * Get the queue limits
+	 */
+	getConfig(): QueueConfig {
+		return { ...this.config };
+	}
+
+	/**
+	 * Add a run to the queue and start it right away if a slot is free
+	 */
+	enqueue(
+		request: RunRequest,
+		options: {
+			agent: string;
+			promptFile: string;
+			repository: string;
+			priority?: number;
+		},
+	): RunRecord | null {
+		const db = DatabaseManager.getInstance();
+		const run = db.queueRun({
+			agent: options.agent,
+			promptFile: options.promptFile,
+			priority: options.priority ?? 0,
+			repository: options.repository,
+			request,
+		});
+		if (!run) {
+			return null;
+		}
+
+		logger.info(`Run ${run.id} queued (priority ${run.priority})`);
+		this.process();
+		return db.getRunById(run.id);
+	}
+
+	/**
+	 * Cancel a queued run, returning false if it is not queued
+	 */
+	cancel(id: number): boolean {
+		const cancelled = DatabaseManager.getInstance().cancelQueuedRun(id);
+		if (cancelled) {
+			logger.info(`Run ${id} cancelled`);
+		}
+		return cancelled;
+	}
+
+	/**
+	 * Start as many queued runs as the limits allow, returning the runs
+	 * started
+	 */
+	process(): RunRecord[] {
+		const db = DatabaseManager.getInstance();
+		const running = db.getRunningRuns();
+		const perRepository = new Map<string, number>();
+		for (const run of running) {
+			const repository = run.repository ?? "";
+			perRepository.set(repository, (perRepository.get(repository) ?? 0) + 1);
+		}
+
+		let active = running.length;
+		const started: RunRecord[] = [];
+		for (const run of db.getQueuedRuns()) {
+			if (active >= this.config.maxConcurrent) {
+				break;
+			}
+
+			const repository = run.repository ?? "";
+			const inRepository = perRepository.get(repository) ?? 0;
+			if (inRepository >= this.config.maxPerRepository) {
+				continue;
+			}
+			if (!db.startQueuedRun(run.id)) {
+				continue;
+			}
+
+			active++;
+			perRepository.set(repository, inRepository + 1);
+			started.push(run);
+			this.launch(run);
+		}
+
+		return started;
+	}
+
+	/**
+	 * Pick the queue back up after a server restart
+	 *
+	 * Runs recorded as running belonged to the previous server process and
+	 * are marked stopped; queued runs are kept and started as slots allow.
+	 */
+	recover(): RunRecord[] {
+		const stopped = DatabaseManager.getInstance().stopRunningRuns(
+			"Interrupted by server restart",
+		);
+		if (stopped > 0) {
+			logger.warn(`Marked ${stopped} interrupted run(s) as stopped`);
+		}
+		return this.process();
+	}
+
+	/**
+	 * Get the waiting and running runs
+	 */
+	getSnapshot(): QueueSnapshot {
+		const db = DatabaseManager.getInstance();
+		return {
+			queued: db.getQueuedRuns(),
+			running: db.getRunningRuns(),
+			limits: this.getConfig(),
+		};
+	}
+
+	/**
+	 * Start a run and free its slot once it finishes
+	 */
+	private launch(run: RunRecord): void {
+		logger.info(`Starting run ${run.id}`);
+		this.start(run, run.request ?? {})
+			.catch((error) => {
+				const message = extractErrorMessage(error);
+				logger.error(`Run ${run.id} failed: ${message}`);
+
+				// Record failures that happened before the orchestrator could
+				const db = DatabaseManager.getInstance();
+				if (db.getRunById(run.id)?.status === "running") {
+					db.updateRunStatus(
+						run.id,
+						"error",
+						undefined,
+						undefined,
+						undefined,
+						message,
+					);
+				}
+			})
+			.finally(() => this.process());
+	}
+}
@@ -2,12 +2,21 @@
  * REST API routes for Ralph web dashboard
  */
 
+import { resolve } from "node:path";
 import { Hono } from "hono";
-import { loadConfig } from "../../config.ts";
+import { ConfigValidator, loadConfig } from "../../config.ts";
 import { RalphOrchestrator } from "../../orchestrator.ts";
+import { CONFIG_DEFAULTS, type RalphConfig } from "../../types/index.ts";
+import { isValidCron } from "../../utils/cron.ts";
+import { getGitRoot } from "../../utils/git.ts";
 import { createLogger } from "../../utils/logger.ts";
 import { extractErrorMessage } from "../../utils/shared.ts";
-import { DatabaseManager } from "../database.ts";
+import {
+	DatabaseManager,
+	type RunRecord,
+	type ScheduleInput,
+	type ScheduleRecord,
+} from "../database.ts";
 import {
 	type AuthConfig,
 	type TokenPayload,
@@ -20,6 +29,9 @@ import {
 	defaultRateLimits,
 	rateLimitMiddleware,
 } from "../middleware/rate-limit.ts";
+import type { RunQueue, RunRequest } from "../queue.ts";
+import { getNextRunAt } from "../scheduler.ts";
+import { attachRunBroadcasts } from "./websocket.ts";
 
 const logger = createLogger("ralph-orchestrator.web.api");
 
@@ -28,13 +40,212 @@ const logger = createLogger("ralph-orchestrator.web.api");
  */
 export interface APIConfig {
 	auth: AuthConfig;
+	/** Queue that runs started through the API wait in */
+	queue: RunQueue;
 }
 
+/**
+ * Body fields of `POST /api/runs` that make up a run request
+ */
+const RUN_REQUEST_FIELDS = [
+	"workingDir",
+	"configFile",
+	"agent",
+	"promptFile",
+	"promptText",
+	"maxIterations",
+	"maxRuntime",
+] as const;
+
+/**
+ * Body of the schedule create and update routes
+ */
+type ScheduleBody = RunRequest & {
+	name?: string;
+	cron?: string;
+	priority?: number;
+	enabled?: boolean;
+};
+
 /**
  * Active orchestrator instances
  */
 const activeOrchestrators = new Map<number, RalphOrchestrator>();
 
+/**
+ * Record iterations and the final run status in the database as the
+ * orchestrator reports them
+ */
+function attachRunPersistence(
+	runId: number,
+	orchestrator: RalphOrchestrator,
+	db: DatabaseManager,
+): void {
+	orchestrator.on("iteration:end", ({ result }) => {
+		db.addIteration({
+			runId,
+			iteration: result.iteration,
+			success: result.success,
+			duration: result.duration,
+			tokensUsed: result.tokensUsed,
+			cost: result.cost,
+			outputPreview: result.output?.substring(
+				0,
+				CONFIG_DEFAULTS.OUTPUT_PREVIEW_LENGTH,
+			),
+			error: result.error,
+			verification: result.verification,
+			diffStats: result.diffStats,
+		});
+
+		const state = orchestrator.getState();
+		db.updateRunStatus(
+			runId,
+			"running",
+			result.iteration,
+			state.runtime,
+			orchestrator.getCostSummary().totalCost,
+		);
+	});
+
+	orchestrator.on("run:end", (summary) => {
+		db.updateRunStatus(
+			runId,
+			summary.status,
+			summary.iterations,
+			summary.elapsedSeconds,
+			summary.totalCost,
+			summary.error,
+		);
+	});
+}
+
+/**
+ * Build the configuration for a run request
+ */
+async function loadRunConfig(request: RunRequest): Promise<RalphConfig> {
+	const errors = await ConfigValidator.validateWorkingDir(request.workingDir);
+	if (errors.length > 0) {
+		throw new Error(errors.map((error) => error.message).join("; "));
+	}
+
+	if (request.configFile) {
+		// A relative config file lives in the run's working directory
+		const loaded = await loadConfig(
+			resolve(request.workingDir ?? "", request.configFile),
+			request.workingDir ? { workingDir: request.workingDir } : undefined,
+		);
+		return loaded.config;
+	}
+
+	const { createConfigFromArgs } = await import("../../config.ts");
+	return createConfigFromArgs({
+		agent: request.agent,
+		cwd: request.workingDir,
+		prompt: request.promptFile,
+		promptText: request.promptText,
+		maxIterations: request.maxIterations,
+		maxRuntime: request.maxRuntime,
+	});
+}
+
+/**
+ * Run an orchestrator for a run taken off the queue, resolving once it has
+ * finished
+ */
+export async function startRun(
+	run: RunRecord,
+	request: RunRequest,
+): Promise<void> {
+	const config = await loadRunConfig(request);
+	const db = DatabaseManager.getInstance();
+
+	const orchestrator = new RalphOrchestrator(config);
+	activeOrchestrators.set(run.id, orchestrator);
+	attachRunPersistence(run.id, orchestrator, db);
+	attachRunBroadcasts(run.id, orchestrator);
+
+	try {
+		await orchestrator.run();
+		logger.info(`Run ${run.id} completed`);
+	} finally {
+		activeOrchestrators.delete(run.id);
+	}
+}
+
+/**
+ * Submit a run to the queue, starting it right away if a slot is free
+ *
+ * Both `POST /api/runs` and the scheduler start runs this way. The config is
+ * loaded up front so a bad request fails before it is queued.
+ */
+export async function submitRun(
+	queue: RunQueue,
+	request: RunRequest,
+	priority?: number,
+): Promise<RunRecord | null> {
+	const config = await loadRunConfig(request);
+	const workingDir = resolve(config.workingDir ?? process.cwd());
+	return queue.enqueue(request, {
+		agent: config.agent,
+		promptFile: config.promptFile,
+		repository: (await getGitRoot(workingDir)) ?? workingDir,
+		priority,
+	});
+}
+
+/**
+ * Build a schedule from a request body, filling unset fields from an
+ * existing schedule
+ *
+ * Returns an error message if the result is invalid. When the body has any
+ * run request field, the schedule's run request is replaced as a whole.
+ */
+async function buildSchedule(
+	body: ScheduleBody,
+	existing?: ScheduleRecord,
+): Promise<ScheduleInput | string> {
+	const name = body.name ?? existing?.name;
+	const cron = body.cron ?? existing?.cron;
+	const priority = body.priority ?? existing?.priority ?? 0;
+	const enabled = body.enabled ?? existing?.enabled ?? true;
+
+	if (!name || !cron) {
+		return "Name and cron expression required";
+	}
+	if (!isValidCron(cron)) {
+		return `Invalid cron expression: ${cron}`;
+	}
+	if (!Number.isInteger(priority)) {
+		return "Priority must be an integer";
+	}
+
+	let request: RunRequest = existing?.request ?? {};
+	if (RUN_REQUEST_FIELDS.some((field) => body[field] !== undefined)) {
+		request = {};
+		for (const field of RUN_REQUEST_FIELDS) {
+			if (body[field] !== undefined) {
+				Object.assign(request, { [field]: body[field] });
+			}
+		}
+	}
+
+	try {
+		await loadRunConfig(request);
+	} catch (error) {
+		return extractErrorMessage(error);
+	}
+
+	return {
+		name,
+		cron,
+		request,
+		priority,
+		enabled,
+		nextRunAt: enabled ? getNextRunAt(cron, new Date()) : null,
+	};
+}
+
 /**
  * Create API routes
  */
@@ -198,41 +409,24 @@ export function createAPIRoutes(config: APIConfig) {
 		return c.json({ iterations });
 	});
 
-	// Start new run
+	// Queue new run, starting it right away if a slot is free
 	protectedRoutes.post(
 		"/runs",
 		requireRole("admin", "user"),
 		rateLimitMiddleware(defaultRateLimits.start),
 		async (c) => {
 			try {
-				const body = await c.req.json<{
-					configFile?: string;
-					agent?: string;
-					promptFile?: string;
-					promptText?: string;
-					maxIterations?: number;
-					maxRuntime?: number;
-				}>();
-
-				// Load config
-				let config;
-				if (body.configFile) {
-					const loaded = await loadConfig(body.configFile);
-					config = loaded.config;
-				} else {
-					const { createConfigFromArgs } = await import("../../config.ts");
-					config = createConfigFromArgs({
-						agent: body.agent,
-						prompt: body.promptFile,
-						promptText: body.promptText,
-						maxIterations: body.maxIterations,
-						maxRuntime: body.maxRuntime,
-					});
+				const body = await c.req.json<RunRequest & { priority?: number }>();
+				const { priority, ...request } = body;
+
+				if (priority !== undefined && !Number.isInteger(priority)) {
+					return c.json(
+						{ error: "Bad Request", message: "Priority must be an integer" },
+						400,
+					);
 				}
 
-				// Create database record
-				const db = DatabaseManager.getInstance();
-				const runRecord = db.createRun(config.agent, config.promptFile);
+				const runRecord = await submitRun(config.queue, request, priority);
 
 				if (!runRecord) {
 					return c.json(
@@ -244,40 +438,14 @@ export function createAPIRoutes(config: APIConfig) {
 					);
 				}
 
-				// Create orchestrator
-				const orchestrator = new RalphOrchestrator(config);
-				activeOrchestrators.set(runRecord.id, orchestrator);
-
-				// Start orchestration in background
-				orchestrator
-					.run()
-					.then(() => {
-						const state = orchestrator.getState();
-						db.updateRunStatus(
-							runRecord.id,
-							"completed",
-							state.iteration,
-							state.runtime,
-							orchestrator.getCostSummary().totalCost,
-						);
-						activeOrchestrators.delete(runRecord.id);
-						logger.info(`Run ${runRecord.id} completed`);
-					})
-					.catch((error) => {
-						const message = extractErrorMessage(error);
-						db.updateRunStatus(
-							runRecord.id,
-							"error",
-							undefined,
-							undefined,
-							undefined,
-							message,
-						);
-						activeOrchestrators.delete(runRecord.id);
-						logger.error(`Run ${runRecord.id} failed: ${message}`);
-					});
-
-				return c.json({ run: runRecord, message: "Run started" }, 201);
+				return c.json(
+					{
+						run: runRecord,
+						message:
+							runRecord.status === "queued" ? "Run queued" : "Run started",
+					},
+					201,
+				);
 			} catch (error) {
 				const message = extractErrorMessage(error);
 				logger.error(`Failed to start run: ${message}`);
@@ -286,6 +454,29 @@ export function createAPIRoutes(config: APIConfig) {
 		},
 	);
 
+	// Cancel queued run
+	protectedRoutes.post(
+		"/runs/:id/cancel",
+		requireRole("admin", "user"),
+		async (c) => {
+			const id = Number.parseInt(c.req.param("id"), 10);
+
+			if (!config.queue.cancel(id)) {
+				return c.json(
+					{ error: "Not Found", message: "Run not found or not queued" },
+					404,
+				);
+			}
+
+			return c.json({ message: "Run cancelled" });
+		},
+	);
+
+	// Queue contents and limits
+	protectedRoutes.get("/queue", (c) => {
+		return c.json(config.queue.getSnapshot());
+	});
+
 	// Stop run
 	protectedRoutes.post(
 		"/runs/:id/stop",
@@ -307,6 +498,139 @@ export function createAPIRoutes(config: APIConfig) {
 		},
 	);
 
+	// Pause run after the current iteration
+	protectedRoutes.post(
+		"/runs/:id/pause",
+		requireRole("admin", "user"),
+		async (c) => {
+			const id = Number.parseInt(c.req.param("id"), 10);
+			const orchestrator = activeOrchestrators.get(id);
+
+			if (!orchestrator) {
+				return c.json(
+					{ error: "Not Found", message: "Run not found or not active" },
+					404,
+				);
+			}
+
+			orchestrator.pause();
+
+			return c.json({ message: "Pause requested" });
+		},
+	);
+
+	// Resume paused run
+	protectedRoutes.post(
+		"/runs/:id/resume",
+		requireRole("admin", "user"),
+		async (c) => {
+			const id = Number.parseInt(c.req.param("id"), 10);
+			const orchestrator = activeOrchestrators.get(id);
+
+			if (!orchestrator) {
+				return c.json(
+					{ error: "Not Found", message: "Run not found or not active" },
+					404,
+				);
+			}
+
+			orchestrator.resume();
+
+			return c.json({ message: "Resume requested" });
+		},
+	);
+
+	// Schedules
+	protectedRoutes.get("/schedules", (c) => {
+		const db = DatabaseManager.getInstance();
+		return c.json({ schedules: db.getSchedules() });
+	});
+
+	protectedRoutes.get("/schedules/:id", (c) => {
+		const db = DatabaseManager.getInstance();
+		const id = Number.parseInt(c.req.param("id"), 10);
+		const schedule = db.getScheduleById(id);
+
+		if (!schedule) {
+			return c.json({ error: "Not Found", message: "Schedule not found" }, 404);
+		}
+
+		const limit = Number.parseInt(c.req.query("limit") ?? "20", 10);
+		return c.json({
+			schedule,
+			history: db.getScheduleHistory(id, Math.min(limit, 100)),
+		});
+	});
+
+	protectedRoutes.post(
+		"/schedules",
+		requireRole("admin", "user"),
+		async (c) => {
+			const body = await c.req.json<ScheduleBody>();
+			const input = await buildSchedule(body);
+
+			if (typeof input === "string") {
+				return c.json({ error: "Bad Request", message: input }, 400);
+			}
+
+			const schedule = DatabaseManager.getInstance().createSchedule(input);
+			if (!schedule) {
+				return c.json(
+					{
+						error: "Internal Server Error",
+						message: "Failed to create schedule",
+					},
+					500,
+				);
+			}
+
+			return c.json({ schedule }, 201);
+		},
+	);
+
+	protectedRoutes.put(
+		"/schedules/:id",
+		requireRole("admin", "user"),
+		async (c) => {
+			const db = DatabaseManager.getInstance();
+			const id = Number.parseInt(c.req.param("id"), 10);
+			const existing = db.getScheduleById(id);
+
+			if (!existing) {
+				return c.json(
+					{ error: "Not Found", message: "Schedule not found" },
+					404,
+				);
+			}
+
+			const body = await c.req.json<ScheduleBody>();
+			const input = await buildSchedule(body, existing);
+
+			if (typeof input === "string") {
+				return c.json({ error: "Bad Request", message: input }, 400);
+			}
+
+			return c.json({ schedule: db.updateSchedule(id, input) });
+		},
+	);
+
+	protectedRoutes.delete(
+		"/schedules/:id",
+		requireRole("admin", "user"),
+		(c) => {
+			const id = Number.parseInt(c.req.param("id"), 10);
+
+			if (!DatabaseManager.getInstance().deleteSchedule(id)) {
+				return c.json(
+					{ error: "Not Found", message: "Schedule not found" },
+					404,
+				);
+			}
+
+			return c.json({ message: "Schedule deleted" });
+		},
+	);
+
 	// Statistics
 	protectedRoutes.get("/stats", (c) => {
 		const db = DatabaseManager.getInstance();
@@ -3,13 +3,14 @@
  */
 
 import type { ServerWebSocket } from "bun";
+import type { RalphOrchestrator } from "../../orchestrator.ts";
 import { createLogger } from "../../utils/logger.ts";
 import {
 	type AuthConfig,
 	type TokenPayload,
 	verifyToken,
 } from "../middleware/auth.ts";
-import { getActiveOrchestrator, getActiveOrchestratorIds } from "./api.ts";
+import { getActiveOrchestrator } from "./api.ts";
 
 const logger = createLogger("ralph-orchestrator.web.websocket");
 
@@ -36,6 +37,7 @@ export enum MessageType {
 	ITERATION_UPDATE = "iteration_update",
 	STATE_UPDATE = "state_update",
 	METRICS_UPDATE = "metrics_update",
+	RUN_EVENT = "run_event",
 }
 
 /**
@@ -63,8 +65,6 @@ export interface WSClientData {
  */
 export interface WebSocketConfig {
 	auth: AuthConfig;
-	/** Send state updates at this interval (ms) */
-	updateInterval?: number;
 	/** Ping interval (ms) */
 	pingInterval?: number;
 }
@@ -74,11 +74,6 @@ export interface WebSocketConfig {
  */
 const clients = new Map<string, ServerWebSocket<WSClientData>>();
 
-/**
- * Update interval handle
- */
-let updateInterval: ReturnType<typeof setInterval> | null = null;
-
 /**
  * Generate client ID
  */
@@ -273,43 +268,66 @@ async function handleMessage(
 }
 
 /**
- * Start periodic update broadcasts
+ * Forward orchestrator lifecycle events to clients subscribed to a run,
+ * returns a function that detaches the listeners
  */
-function startUpdateBroadcasts(intervalMs: number): void {
-	if (updateInterval) return;
-
-	updateInterval = setInterval(() => {
-		const activeIds = getActiveOrchestratorIds();
-
-		for (const runId of activeIds) {
-			const orchestrator = getActiveOrchestrator(runId);
-			if (orchestrator) {
-				broadcastToSubscribers(runId, {
-					type: MessageType.STATE_UPDATE,
-					payload: orchestrator.getState(),
-				});
-			}
-		}
-	}, intervalMs);
-}
+export function attachRunBroadcasts(
+	runId: number,
+	orchestrator: RalphOrchestrator,
+): () => void {
+	const forwardEvent = (event: string) => (data: object) => {
+		broadcastToSubscribers(runId, {
+			type: MessageType.RUN_EVENT,
+			payload: { event, data },
+		});
+	};
 
-/**
- * Stop periodic broadcasts
- */
-function stopUpdateBroadcasts(): void {
-	if (updateInterval) {
-		clearInterval(updateInterval);
-		updateInterval = null;
-	}
+	const unsubscribers = [
+		orchestrator.on("status:change", (state) => {
+			broadcastToSubscribers(runId, {
+				type: MessageType.RUN_UPDATE,
+				payload: state,
+			});
+		}),
+		orchestrator.on("iteration:end", ({ result }) => {
+			broadcastToSubscribers(runId, {
+				type: MessageType.ITERATION_UPDATE,
+				payload: result,
+			});
+			broadcastToSubscribers(runId, {
+				type: MessageType.STATE_UPDATE,
+				payload: orchestrator.getState(),
+			});
+			broadcastToSubscribers(runId, {
+				type: MessageType.METRICS_UPDATE,
+				payload: orchestrator.getCostSummary(),
+			});
+		}),
+		orchestrator.on("iteration:start", forwardEvent("iteration:start")),
+		orchestrator.on("checkpoint", forwardEvent("checkpoint")),
+		orchestrator.on("rollback", forwardEvent("rollback")),
+		orchestrator.on("stall", forwardEvent("stall")),
+		orchestrator.on("fallback", forwardEvent("fallback")),
+		orchestrator.on("safety:warning", forwardEvent("safety:warning")),
+		orchestrator.on("safety:tripped", forwardEvent("safety:tripped")),
+		orchestrator.on("loop:detected", forwardEvent("loop:detected")),
+		orchestrator.on("task:completed", forwardEvent("task:completed")),
+		orchestrator.on("task:skipped", forwardEvent("task:skipped")),
+		orchestrator.on("task:conflict", forwardEvent("task:conflict")),
+		orchestrator.on("run:end", forwardEvent("run:end")),
+	];
+
+	return () => {
+		for (const unsubscribe of unsubscribers) {
+			unsubscribe();
+		}
+	};
 }
 
 /**
  * Create WebSocket handlers for Bun
  */
 export function createWebSocketHandlers(config: WebSocketConfig) {
-	// Start update broadcasts
-	startUpdateBroadcasts(config.updateInterval ?? 1000);
-
 	return {
 		/**
 		 * Handle new WebSocket connection
@@ -388,7 +406,6 @@ export function getAuthenticatedClientCount(): number {
  * Cleanup on shutdown
  */
 export function cleanup(): void {
-	stopUpdateBroadcasts();
 	for (const [, ws] of clients) {
 		ws.close(1000, "Server shutdown");
 	}
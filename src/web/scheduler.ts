@@ -0,0 +1,162 @@
+/**
+ * Scheduler for recurring runs in the Ralph web dashboard
+ */
+
+import { getNextCronTime } from "../utils/cron.ts";
+import { createLogger } from "../utils/logger.ts";
+import { extractErrorMessage } from "../utils/shared.ts";
+import {
+	DatabaseManager,
+	type RunRecord,
+	type ScheduleFiring,
+	type ScheduleRecord,
+} from "./database.ts";
+import type { RunRequest } from "./queue.ts";
+
+const logger = createLogger("ralph-orchestrator.web.scheduler");
+
+/**
+ * Submits a scheduled run, the same way `POST /api/runs` does
+ */
+export type RunSubmitter = (
+	request: RunRequest,
+	priority: number,
+) => Promise<RunRecord | null>;
+
+/**
+ * Scheduler options
+ */
+export interface SchedulerOptions {
+	/** How often to check for due schedules in milliseconds (default: 30000) */
+	interval?: number;
+}
+
+/**
+ * Get a schedule's next fire time after a date as stored in the database
+ */
+export function getNextRunAt(cron: string, after: Date): string | null {
+	return getNextCronTime(cron, after)?.toISOString() ?? null;
+}
+
+/**
+ * Fires due schedules by submitting their runs
+ *
+ * A firing is skipped while the schedule's previous run is still queued or
+ * running. Firings missed while the server was down are not replayed: a
+ * schedule that is overdue fires once and moves on to its next time.
+ */
+export class Scheduler {
+	private readonly submit: RunSubmitter;
+	private readonly interval: number;
+	private timer: ReturnType<typeof setInterval> | null = null;
+	private ticking = false;
+
+	constructor(submit: RunSubmitter, options: SchedulerOptions = {}) {
+		this.submit = submit;
+		this.interval = options.interval ?? 30000;
+	}
+
+	/**
+	 * Start checking for due schedules
+	 */
+	start(): void {
+		if (this.timer) {
+			return;
+		}
+		this.timer = setInterval(() => this.runTick(), this.interval);
+		logger.debug(`Scheduler started (checking every ${this.interval}ms)`);
+		this.runTick();
+	}
+
+	/**
+	 * Stop checking for due schedules
+	 */
+	stop(): void {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = null;
+		}
+	}
+
+	/**
+	 * Fire every schedule that is due, returning the recorded firings
+	 */
+	async tick(now: Date = new Date()): Promise<ScheduleFiring[]> {
+		// A slow submit must not let the next tick fire the same schedule again
+		if (this.ticking) {
+			return [];
+		}
+		this.ticking = true;
+
+		try {
+			const db = DatabaseManager.getInstance();
+			const firings: ScheduleFiring[] = [];
+			for (const schedule of db.getDueSchedules(now)) {
+				const firing = await this.fire(schedule, now);
+				if (firing) {
+					firings.push(firing);
+				}
+			}
+			return firings;
+		} finally {
+			this.ticking = false;
+		}
+	}
+
+	/**
+	 * Run a tick from the timer, logging rather than throwing errors
+	 */
+	private runTick(): void {
+		this.tick().catch((error) => {
+			logger.error(`Scheduler tick failed: ${extractErrorMessage(error)}`);
+		});
+	}
+
+	/**
+	 * Fire one schedule and record the outcome
+	 */
+	private async fire(
+		schedule: ScheduleRecord,
+		now: Date,
+	): Promise<ScheduleFiring | null> {
+		const db = DatabaseManager.getInstance();
+		const nextRunAt = getNextRunAt(schedule.cron, now);
+
+		const previous = db.getLastScheduledRun(schedule.id);
+		if (previous?.status === "queued" || previous?.status === "running") {
+			logger.info(
+				`Skipping schedule "${schedule.name}": run ${previous.id} is still ${previous.status}`,
+			);
+			return db.recordScheduleFiring(schedule.id, {
+				status: "skipped",
+				firedAt: now,
+				nextRunAt,
+				message: `Run ${previous.id} is still ${previous.status}`,
+			});
+		}
+
+		try {
+			const run = await this.submit(schedule.request, schedule.priority);
+			if (!run) {
+				throw new Error("Failed to create run record");
+			}
+
+			logger.info(`Schedule "${schedule.name}" submitted run ${run.id}`);
+			return db.recordScheduleFiring(schedule.id, {
+				status: "started",
+				firedAt: now,
+				nextRunAt,
+				runId: run.id,
+			});
+		} catch (error) {
+			const message = extractErrorMessage(error);
+			logger.error(`Schedule "${schedule.name}" failed: ${message}`);
+			return db.recordScheduleFiring(schedule.id, {
+				status: "failed",
+				firedAt: now,
+				nextRunAt,
+				message,
+			});
+		}
+	}
+}
@@ -10,11 +10,18 @@ import { secureHeaders } from "hono/secure-headers";
 import { createLogger } from "../utils/logger.ts";
 import { DatabaseManager } from "./database.ts";
 import { type AuthConfig, initDefaultAdmin } from "./middleware/auth.ts";
-import { type APIConfig, createAPIRoutes } from "./routes/api.ts";
+import { DEFAULT_QUEUE_CONFIG, type QueueConfig, RunQueue } from "./queue.ts";
+import {
+	type APIConfig,
+	createAPIRoutes,
+	startRun,
+	submitRun,
+} from "./routes/api.ts";
 import {
 	cleanup as cleanupWS,
 	createWebSocketHandlers,
 } from "./routes/websocket.ts";
+import { Scheduler } from "./scheduler.ts";
 
 const logger = createLogger("ralph-orchestrator.web.server");
 
@@ -40,13 +47,16 @@ export interface ServerConfig {
 	auth?: Partial<AuthConfig>;
 	/** Default admin password */
 	adminPassword?: string;
+	/** Run queue concurrency limits */
+	queue?: Partial<QueueConfig>;
 }
 
 /**
  * Default configuration
  */
-const defaultConfig: Required<Omit<ServerConfig, "auth">> & {
+const defaultConfig: Required<Omit<ServerConfig, "auth" | "queue">> & {
 	auth: AuthConfig;
+	queue: QueueConfig;
 } = {
 	port: 3000,
 	hostname: "0.0.0.0",
@@ -63,6 +73,7 @@ const defaultConfig: Required<Omit<ServerConfig, "auth">> & {
 		enabled: true,
 	},
 	adminPassword: process.env.RALPH_ADMIN_PASSWORD ?? "admin123",
+	queue: DEFAULT_QUEUE_CONFIG,
 };
 
 /**
@@ -76,11 +87,17 @@ export function createServer(userConfig: ServerConfig = {}) {
 			...defaultConfig.auth,
 			...userConfig.auth,
 		},
+		queue: {
+			...defaultConfig.queue,
+			...userConfig.queue,
+		},
 	};
 
 	// Initialize database
 	DatabaseManager.getInstance(config.dbPath);
 
+	const queue = new RunQueue(startRun, config.queue);
+
 	// Create Hono app
 	const app = new Hono();
 
@@ -126,6 +143,7 @@ export function createServer(userConfig: ServerConfig = {}) {
 	// API routes
 	const apiConfig: APIConfig = {
 		auth: config.auth,
+		queue,
 	};
 	app.route("/api", createAPIRoutes(apiConfig));
 
@@ -166,6 +184,7 @@ export function createServer(userConfig: ServerConfig = {}) {
 	return {
 		app,
 		config,
+		queue,
 	};
 }
 
@@ -175,7 +194,7 @@ export function createServer(userConfig: ServerConfig = {}) {
 export async function startServer(
 	userConfig: ServerConfig = {},
 ): Promise<void> {
-	const { app, config } = createServer(userConfig);
+	const { app, config, queue } = createServer(userConfig);
 
 	// Initialize default admin user
 	await initDefaultAdmin(config.adminPassword);
@@ -183,7 +202,6 @@ export async function startServer(
 	// Create WebSocket handlers
 	const wsHandlers = createWebSocketHandlers({
 		auth: config.auth,
-		updateInterval: 1000,
 		pingInterval: 30000,
 	});
 
@@ -200,9 +218,19 @@ export async function startServer(
 		`WebSocket available at ws://${config.hostname}:${config.port}/ws`,
 	);
 
+	// Start runs left queued by a previous server process
+	queue.recover();
+
+	// Fire scheduled runs through the same path as POST /api/runs
+	const scheduler = new Scheduler((request, priority) =>
+		submitRun(queue, request, priority),
+	);
+	scheduler.start();
+
 	// Handle shutdown
 	const shutdown = async () => {
 		logger.info("Shutting down server...");
+		scheduler.stop();
 		cleanupWS();
 		server.stop();
 		DatabaseManager.getInstance().close();
@@ -219,3 +247,5 @@ export async function startServer(
 export { createAPIRoutes } from "./routes/api.ts";
 export { createWebSocketHandlers } from "./routes/websocket.ts";
 export { DatabaseManager } from "./database.ts";
+export { RunQueue } from "./queue.ts";
+export { Scheduler } from "./scheduler.ts";
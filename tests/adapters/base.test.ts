@@ -47,8 +47,8 @@ class TestAdapter extends ToolAdapter {
 	}
 
 	// Expose protected method for testing
-	public testEnhancePrompt(prompt: string): string {
-		return this.enhancePromptWithInstructions(prompt);
+	public testEnhancePrompt(prompt: string, options?: ExecuteOptions): string {
+		return this.enhancePromptWithInstructions(prompt, options);
 	}
 }
 
@@ -198,6 +198,11 @@ describe("ToolAdapter base class", () => {
 		expect(enhanced).toContain("Test prompt");
 	});
 
+	test("should send raw prompts without instructions", () => {
+		const result = adapter.testEnhancePrompt("Summarize this", { raw: true });
+		expect(result).toBe("Summarize this");
+	});
+
 	test("should not add instructions if already present", () => {
 		const promptWithInstructions = "ORCHESTRATION CONTEXT: Test prompt";
 		const result = adapter.testEnhancePrompt(promptWithInstructions);
@@ -6,6 +6,7 @@ import { describe, expect, test, beforeEach, afterEach, mock } from "bun:test";
 import { mkdir, rm, writeFile } from "fs/promises";
 import { join } from "path";
 import { ClaudeAdapter } from "../../src/adapters/claude.ts";
+import { PricingRegistry } from "../../src/metrics/index.ts";
 
 const TEST_DIR = join(process.cwd(), ".test-claude-adapter-temp");
 
@@ -53,31 +54,21 @@ describe("ClaudeAdapter", () => {
 		const longCost = adapter.estimateCost("Long".repeat(1000));
 		expect(longCost).toBeGreaterThan(shortCost);
 	});
-});
-
-describe("ClaudeAdapter.getPricing", () => {
-	test("should return pricing for known model", () => {
-		const pricing = ClaudeAdapter.getPricing("claude-sonnet-4-5-20250929");
-		expect(pricing.input).toBe(3);
-		expect(pricing.output).toBe(15);
-	});
 
-	test("should return pricing for claude-opus-4-5", () => {
-		const pricing = ClaudeAdapter.getPricing("claude-opus-4-5-20251101");
-		expect(pricing.input).toBe(15);
-		expect(pricing.output).toBe(75);
-	});
-
-	test("should return pricing for claude-haiku-4-5", () => {
-		const pricing = ClaudeAdapter.getPricing("claude-haiku-4-5-20251001");
-		expect(pricing.input).toBe(0.8);
-		expect(pricing.output).toBe(4);
+	test("should price estimates by the configured model", () => {
+		const prompt = "Long".repeat(1000);
+		const haiku = new ClaudeAdapter({ model: "claude-haiku-4-5-20251001" });
+		const opus = new ClaudeAdapter({ model: "claude-opus-4-1" });
+		expect(opus.estimateCost(prompt)).toBeCloseTo(
+			haiku.estimateCost(prompt) * 15,
+		);
 	});
 
-	test("should return default pricing for unknown model", () => {
-		const pricing = ClaudeAdapter.getPricing("unknown-model");
-		expect(pricing.input).toBe(3);
-		expect(pricing.output).toBe(15);
+	test("should use pricing overrides", () => {
+		adapter.setPricing(
+			new PricingRegistry({ claude: { default: { input: 0, output: 0 } } }),
+		);
+		expect(adapter.estimateCost("Hello")).toBe(0);
 	});
 });
 
@@ -0,0 +1,38 @@
+/**
+ * Tests for DryRun adapter
+ */
+
+import { describe, expect, test } from "bun:test";
+import { DryRunAdapter } from "../../src/adapters/dry-run.ts";
+
+describe("DryRunAdapter", () => {
+	test("should have correct name", () => {
+		const adapter = new DryRunAdapter("claude");
+		expect(adapter.name).toBe("dry-run");
+		expect(adapter.getSimulatedAgent()).toBe("claude");
+	});
+
+	test("should always be available", async () => {
+		const adapter = new DryRunAdapter("claude");
+		expect(adapter.available).toBe(true);
+		expect(await adapter.checkAvailability()).toBe(true);
+	});
+
+	test("should return the enhanced prompt as output", async () => {
+		const adapter = new DryRunAdapter("gemini");
+		const response = await adapter.execute("Build the thing");
+
+		expect(response.success).toBe(true);
+		expect(response.output).toContain("ORCHESTRATION CONTEXT:");
+		expect(response.output).toContain("Build the thing");
+		expect(response.cost).toBe(0);
+		expect(response.metadata.dryRun).toBe(true);
+		expect(response.metadata.simulatedAgent).toBe("gemini");
+		expect(response.metadata.estimatedTokens).toBeGreaterThan(0);
+	});
+
+	test("should estimate zero cost", () => {
+		const adapter = new DryRunAdapter("claude");
+		expect(adapter.estimateCost("Some prompt")).toBe(0);
+	});
+});
@@ -0,0 +1,86 @@
+/**
+ * Tests for adapter error classification
+ */
+
+import { describe, expect, test } from "bun:test";
+import { classifyError } from "../../src/adapters/errors.ts";
+import { createErrorResponse } from "../../src/types/index.ts";
+
+describe("classifyError", () => {
+	test("should classify killed commands as timeouts", () => {
+		expect(
+			classifyError(
+				createErrorResponse("", "", { exitCode: 143, timedOut: true }),
+			),
+		).toBe("timeout");
+		expect(
+			classifyError(createErrorResponse("Request timed out", "", {})),
+		).toBe("timeout");
+	});
+
+	test("should classify rate limit errors", () => {
+		expect(
+			classifyError(
+				createErrorResponse("Error: 429 Too Many Requests", "", {
+					exitCode: 1,
+				}),
+			),
+		).toBe("rate_limit");
+		expect(
+			classifyError(
+				createErrorResponse("RESOURCE_EXHAUSTED: quota exceeded", "", {
+					exitCode: 1,
+				}),
+			),
+		).toBe("rate_limit");
+	});
+
+	test("should classify authentication errors", () => {
+		expect(
+			classifyError(
+				createErrorResponse("Error: Invalid API key", "", { exitCode: 1 }),
+			),
+		).toBe("auth");
+		expect(
+			classifyError(
+				createErrorResponse("Not logged in. Please run /login", "", {
+					exitCode: 1,
+				}),
+			),
+		).toBe("auth");
+	});
+
+	test("should classify bad arguments", () => {
+		expect(
+			classifyError(
+				createErrorResponse("error: unknown option '--fast'", "", {
+					exitCode: 1,
+				}),
+			),
+		).toBe("invalid_args");
+	});
+
+	test("should classify signals and missing exit codes as crashes", () => {
+		expect(
+			classifyError(createErrorResponse("Segmentation fault", "", {})),
+		).toBe("crash");
+		expect(
+			classifyError(createErrorResponse("Killed", "", { exitCode: 137 })),
+		).toBe("crash");
+	});
+
+	test("should classify missing binaries and spawn errors as unavailable", () => {
+		expect(
+			classifyError(createErrorResponse("Claude CLI is not available")),
+		).toBe("unavailable");
+		expect(
+			classifyError(createErrorResponse("spawn claude ENOENT", "", {})),
+		).toBe("unavailable");
+	});
+
+	test("should classify other exits as task failures", () => {
+		expect(
+			classifyError(createErrorResponse("Tests failed", "", { exitCode: 1 })),
+		).toBe("task");
+	});
+});
@@ -0,0 +1,132 @@
+/**
+ * Tests for adapter retries with backoff
+ */
+
+import { describe, expect, test } from "bun:test";
+import { ToolAdapter } from "../../src/adapters/base.ts";
+import { executeWithRetry, getRetryDelay } from "../../src/adapters/retry.ts";
+import {
+	type AdapterConfig,
+	DEFAULT_RETRY_POLICY,
+	type ToolResponse,
+	createErrorResponse,
+	createSuccessResponse,
+} from "../../src/types/index.ts";
+
+/**
+ * Adapter that returns queued responses, then succeeds
+ */
+class ScriptedAdapter extends ToolAdapter {
+	calls = 0;
+
+	constructor(
+		private responses: ToolResponse[],
+		config?: Partial<AdapterConfig>,
+	) {
+		super("scripted", config);
+	}
+
+	async checkAvailability(): Promise<boolean> {
+		return true;
+	}
+
+	async execute(): Promise<ToolResponse> {
+		this.calls++;
+		return this.responses.shift() ?? createSuccessResponse("done");
+	}
+}
+
+const crash = () => createErrorResponse("Segmentation fault", "", {});
+const noSleep = async () => {};
+
+describe("getRetryDelay", () => {
+	test("should double the delay for each retry", () => {
+		const policy = { ...DEFAULT_RETRY_POLICY, jitter: 0 };
+		expect(getRetryDelay(1, policy)).toBe(1000);
+		expect(getRetryDelay(2, policy)).toBe(2000);
+		expect(getRetryDelay(3, policy)).toBe(4000);
+	});
+
+	test("should cap the delay at maxDelay", () => {
+		const policy = { ...DEFAULT_RETRY_POLICY, jitter: 0, maxDelay: 5000 };
+		expect(getRetryDelay(10, policy)).toBe(5000);
+	});
+
+	test("should randomize up to the jitter fraction", () => {
+		const policy = { ...DEFAULT_RETRY_POLICY, jitter: 0.5 };
+		expect(getRetryDelay(1, policy, () => 0)).toBe(1000);
+		expect(getRetryDelay(1, policy, () => 1)).toBe(500);
+	});
+});
+
+describe("executeWithRetry", () => {
+	test("should retry crashes until the call succeeds", async () => {
+		const adapter = new ScriptedAdapter([crash(), crash()]);
+		const retries: number[] = [];
+
+		const result = await executeWithRetry(adapter, "prompt", undefined, {
+			sleep: noSleep,
+			onRetry: ({ attempt }) => retries.push(attempt),
+		});
+
+		expect(result.response.success).toBe(true);
+		expect(result.retries).toBe(2);
+		expect(result.errorClass).toBeUndefined();
+		expect(retries).toEqual([1, 2]);
+	});
+
+	test("should stop after the adapter's maxRetries", async () => {
+		const adapter = new ScriptedAdapter([crash(), crash(), crash()], {
+			maxRetries: 1,
+		});
+
+		const result = await executeWithRetry(adapter, "prompt", undefined, {
+			sleep: noSleep,
+		});
+
+		expect(adapter.calls).toBe(2);
+		expect(result.response.success).toBe(false);
+		expect(result.errorClass).toBe("crash");
+	});
+
+	test("should not retry authentication errors or bad arguments", async () => {
+		for (const error of [
+			"Error: Invalid API key",
+			"error: unknown option '--fast'",
+		]) {
+			const adapter = new ScriptedAdapter([
+				createErrorResponse(error, "", { exitCode: 1 }),
+			]);
+			const result = await executeWithRetry(adapter, "prompt", undefined, {
+				sleep: noSleep,
+			});
+			expect(adapter.calls).toBe(1);
+			expect(result.retries).toBe(0);
+		}
+	});
+
+	test("should not retry task failures", async () => {
+		const adapter = new ScriptedAdapter([
+			createErrorResponse("Tests failed", "", { exitCode: 1 }),
+		]);
+
+		const result = await executeWithRetry(adapter, "prompt", undefined, {
+			sleep: noSleep,
+		});
+
+		expect(adapter.calls).toBe(1);
+		expect(result.errorClass).toBe("task");
+	});
+
+	test("should give up when asked to stop", async () => {
+		const adapter = new ScriptedAdapter([crash(), crash()]);
+
+		const result = await executeWithRetry(adapter, "prompt", undefined, {
+			sleep: noSleep,
+			shouldStop: () => true,
+		});
+
+		expect(adapter.calls).toBe(1);
+		expect(result.retries).toBe(0);
+	});
+});
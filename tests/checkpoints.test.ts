@@ -0,0 +1,159 @@
+/**
+ * Tests for run branches and checkpoint tags
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	type CheckpointMetadata,
+	formatCheckpointMessage,
+	getCheckpoint,
+	getCheckpointTag,
+	getRunBranch,
+	listCheckpointRuns,
+	listCheckpoints,
+	parseCheckpointMessage,
+	restoreCheckpoint,
+	tagCheckpoint,
+} from "../src/checkpoints/index.ts";
+import {
+	checkoutBranch,
+	createCheckpoint,
+	getCurrentBranch,
+	getCurrentCommit,
+	initRepo,
+} from "../src/utils/git.ts";
+
+const RUN_ID = "20261019-101137-ab12";
+
+describe("checkpoint naming", () => {
+	test("run branch and tags are namespaced by run", () => {
+		expect(getRunBranch(RUN_ID)).toBe(`ralph/run-${RUN_ID}`);
+		expect(getCheckpointTag(RUN_ID, 3)).toBe(
+			`ralph/run-${RUN_ID}/checkpoint-3`,
+		);
+	});
+});
+
+describe("checkpoint messages", () => {
+	const metadata: CheckpointMetadata = {
+		runId: RUN_ID,
+		number: 2,
+		iteration: 10,
+		cost: 0.12345,
+		verification: "passed",
+	};
+
+	test("round-trips metadata through trailers", () => {
+		const message = formatCheckpointMessage("Iteration 10", metadata);
+		expect(message.split("\n")[0]).toBe("Iteration 10");
+		expect(message).toContain("Ralph-Cost: 0.1235");
+		expect(parseCheckpointMessage(message)).toEqual({
+			...metadata,
+			cost: 0.1235,
+		});
+	});
+
+	test("leaves missing or invalid trailers undefined", () => {
+		const parsed = parseCheckpointMessage(
+			"Manual commit\n\nRalph-Iteration: soon\nRalph-Verification: maybe",
+		);
+		expect(parsed.iteration).toBeUndefined();
+		expect(parsed.verification).toBeUndefined();
+		expect(parsed.runId).toBeUndefined();
+	});
+});
+
+describe("checkpoint tags", () => {
+	let repo: string;
+
+	/**
+	 * Write a file and commit it as a tagged checkpoint
+	 */
+	async function checkpoint(number: number, file: string): Promise<void> {
+		await Bun.write(join(repo, file), `checkpoint ${number}`);
+		await createCheckpoint(
+			number * 5,
+			formatCheckpointMessage(`Iteration ${number * 5}`, {
+				runId: RUN_ID,
+				number,
+				iteration: number * 5,
+				cost: number / 10,
+				verification: "none",
+			}),
+			repo,
+		);
+		await tagCheckpoint(RUN_ID, number, repo);
+	}
+
+	beforeEach(async () => {
+		repo = await mkdtemp(join(tmpdir(), "ralph-checkpoints-"));
+		await initRepo(repo);
+		await Bun.write(join(repo, "README.md"), "start");
+		await createCheckpoint(0, "initial", repo);
+		await checkoutBranch(getRunBranch(RUN_ID), true, repo);
+		await checkpoint(1, "a.txt");
+		await checkpoint(2, "b.txt");
+	});
+
+	afterEach(async () => {
+		await rm(repo, { recursive: true, force: true });
+	});
+
+	test("lists runs and their checkpoints in order", async () => {
+		expect(await listCheckpointRuns(repo)).toEqual([RUN_ID]);
+
+		const checkpoints = await listCheckpoints(RUN_ID, repo);
+		expect(checkpoints.map((c) => c.number)).toEqual([1, 2]);
+		expect(checkpoints[1]).toMatchObject({
+			tag: getCheckpointTag(RUN_ID, 2),
+			iteration: 10,
+			cost: 0.2,
+			verification: "none",
+			subject: "Iteration 10",
+			files: ["b.txt"],
+		});
+		expect(checkpoints[0]?.files).toEqual(["a.txt"]);
+	});
+
+	test("returns nothing for unknown runs and checkpoints", async () => {
+		expect(await listCheckpoints("missing", repo)).toEqual([]);
+		expect(await getCheckpoint(RUN_ID, 9, repo)).toBeNull();
+	});
+
+	test("restore resets the checked out run branch", async () => {
+		const first = await getCheckpoint(RUN_ID, 1, repo);
+		expect(first).not.toBeNull();
+		if (!first) return;
+
+		expect(await restoreCheckpoint(first, {}, repo)).toBe(true);
+		expect(await getCurrentCommit(repo)).toBe(first.commit);
+		expect(await Bun.file(join(repo, "b.txt")).exists()).toBe(false);
+	});
+
+	test("restore refuses to discard uncommitted changes unless forced", async () => {
+		const first = await getCheckpoint(RUN_ID, 1, repo);
+		if (!first) throw new Error("missing checkpoint");
+
+		await Bun.write(join(repo, "a.txt"), "edited");
+		await expect(restoreCheckpoint(first, {}, repo)).rejects.toThrow(
+			"Uncommitted changes",
+		);
+		expect(await restoreCheckpoint(first, { force: true }, repo)).toBe(true);
+		expect(await Bun.file(join(repo, "a.txt")).text()).toBe("checkpoint 1");
+	});
+
+	test("restore moves the run branch when another branch is checked out", async () => {
+		const first = await getCheckpoint(RUN_ID, 1, repo);
+		if (!first) throw new Error("missing checkpoint");
+
+		await checkoutBranch("other", true, repo);
+		expect(await restoreCheckpoint(first, {}, repo)).toBe(false);
+		expect(await getCurrentBranch(repo)).toBe("other");
+
+		await checkoutBranch(getRunBranch(RUN_ID), false, repo);
+		expect(await getCurrentCommit(repo)).toBe(first.commit);
+	});
+});
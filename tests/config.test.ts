@@ -9,6 +9,7 @@ import {
   AgentType,
   createDefaultConfig,
   CONFIG_DEFAULTS,
+  DEFAULT_FALLBACK_CONFIG,
 } from '../src/types/index.ts';
 import { ConfigValidator, loadConfig, createConfigFromArgs } from '../src/config.ts';
 
@@ -54,6 +55,100 @@ describe('ConfigValidator', () => {
     expect(ConfigValidator.validateContextThreshold(-0.1)).toHaveLength(1);
   });
 
+  it('should validate hooks', () => {
+    expect(ConfigValidator.validateHooks({ pre_run: 'make setup' })).toEqual([]);
+
+    const unknown = ConfigValidator.validateHooks({ post_run: 'echo' } as never);
+    expect(unknown).toHaveLength(1);
+    expect(unknown[0]?.field).toBe('hooks.post_run');
+
+    expect(ConfigValidator.validateHooks({ on_complete: '  ' })).toHaveLength(1);
+    expect(ConfigValidator.validateHookTimeout(-1)).toHaveLength(1);
+  });
+
+  it('should validate verify timeout', () => {
+    expect(ConfigValidator.validateVerifyTimeout(600)).toEqual([]);
+    expect(ConfigValidator.validateVerifyTimeout(-1)).toHaveLength(1);
+  });
+
+  it('should validate prompt mode', () => {
+    expect(ConfigValidator.validatePromptMode('full')).toEqual([]);
+    expect(ConfigValidator.validatePromptMode('focused')).toEqual([]);
+    expect(ConfigValidator.validatePromptMode('short')).toHaveLength(1);
+  });
+
+  it('should validate summary agent', () => {
+    expect(ConfigValidator.validateSummaryAgent(undefined)).toEqual([]);
+    expect(ConfigValidator.validateSummaryAgent('gemini')).toEqual([]);
+    expect(ConfigValidator.validateSummaryAgent('auto')).toHaveLength(1);
+  });
+
+  it('should validate pricing overrides', () => {
+    expect(
+      ConfigValidator.validatePricing({ claude: { opus: { input: 5, output: 25 } } }),
+    ).toEqual([]);
+
+    const errors = ConfigValidator.validatePricing({
+      claude: { opus: { input: -1, output: 'free', cacheRead: 0.5 } },
+    } as never);
+    expect(errors.map((error) => error.field)).toEqual([
+      'pricing.claude.opus.input',
+      'pricing.claude.opus.output',
+    ]);
+  });
+
+  it('should validate fallback settings', () => {
+    expect(ConfigValidator.validateFallback(DEFAULT_FALLBACK_CONFIG)).toEqual([]);
+
+    const errors = ConfigValidator.validateFallback({
+      order: ['claude', 'copilot'],
+      on: ['timeout', 'oops'],
+      failureThreshold: 0,
+      cooldown: -1,
+    } as never);
+    expect(errors.map((error) => error.field)).toEqual([
+      'fallback.order',
+      'fallback.on',
+      'fallback.failureThreshold',
+      'fallback.cooldown',
+    ]);
+  });
+
+  it('should validate token warning threshold', () => {
+    expect(ConfigValidator.validateTokenWarningThreshold(0.8)).toEqual([]);
+    expect(ConfigValidator.validateTokenWarningThreshold(1.5)).toHaveLength(1);
+    expect(ConfigValidator.validateTokenWarningThreshold(Number.NaN)).toHaveLength(1);
+  });
+
+  it('should validate feedback budget', () => {
+    expect(ConfigValidator.validateFeedbackBudget(0)).toEqual([]);
+    expect(ConfigValidator.validateFeedbackBudget(-1)).toHaveLength(1);
+  });
+
+  it('should validate task budgets', () => {
+    expect(ConfigValidator.validateTaskBudget(0, 0)).toEqual([]);
+    expect(ConfigValidator.validateTaskBudget(-1, -1)).toHaveLength(2);
+  });
+
+  it('should validate parallel workers', () => {
+    expect(ConfigValidator.validateParallelWorkers(1)).toEqual([]);
+    expect(ConfigValidator.validateParallelWorkers(4)).toEqual([]);
+    expect(ConfigValidator.validateParallelWorkers(0)).toHaveLength(1);
+    expect(ConfigValidator.validateParallelWorkers(1.5)).toHaveLength(1);
+  });
+
+  it('should validate rollback settings', () => {
+    expect(ConfigValidator.validateRollback(3, 2)).toEqual([]);
+    expect(ConfigValidator.validateRollback(0, 0)).toEqual([]);
+    expect(ConfigValidator.validateRollback(-1, 1.5)).toHaveLength(2);
+  });
+
+  it('should validate stall settings', () => {
+    expect(ConfigValidator.validateStall(5, 'stop')).toEqual([]);
+    expect(ConfigValidator.validateStall(0, 'recover')).toEqual([]);
+    expect(ConfigValidator.validateStall(-1, 'restart')).toHaveLength(2);
+  });
+
   it('should validate entire config', () => {
     const validConfig = createDefaultConfig();
     const result = ConfigValidator.validate(validConfig);
@@ -131,6 +226,13 @@ describe('ConfigValidator', () => {
     expect(warnings[0].field).toBe('maxRuntime');
   });
 
+  it('should warn when the failure limit stops the run before a rollback', () => {
+    const warnings = ConfigValidator.getWarningRollbackAfterFailureLimit(5);
+    expect(warnings.length).toBe(1);
+    expect(warnings[0]?.field).toBe('rollbackAfter');
+    expect(ConfigValidator.getWarningRollbackAfterFailureLimit(3)).toEqual([]);
+  });
+
   it('should not warn for normal timeout', () => {
     const warnings = ConfigValidator.getWarningShortTimeout(3600);
     expect(warnings.length).toBe(0);
@@ -166,6 +268,13 @@ describe('ConfigValidator.validatePromptFile', () => {
     expect(errors.length).toBe(1);
     expect(errors[0].field).toBe('promptFile');
   });
+
+  it('should resolve a relative file against the working directory', async () => {
+    await writeFile(join(TEST_DIR, 'PROMPT.md'), '# Test Prompt');
+
+    const errors = await ConfigValidator.validatePromptFile('PROMPT.md', TEST_DIR);
+    expect(errors.length).toBe(0);
+  });
 });
 
 describe('ConfigValidator.validateAsync', () => {
@@ -207,6 +316,15 @@ describe('ConfigValidator.validateAsync', () => {
     expect(result.valid).toBe(false);
     expect(result.errors.some(e => e.field === 'promptFile')).toBe(true);
   });
+
+  it('should fail for a missing working directory', async () => {
+    const config = createDefaultConfig({
+      workingDir: join(TEST_DIR, 'missing'),
+    });
+
+    const result = await ConfigValidator.validateAsync(config);
+    expect(result.errors.map(e => e.field)).toEqual(['workingDir']);
+  });
 });
 
 describe('loadConfig', () => {
@@ -268,12 +386,14 @@ describe('createConfigFromArgs', () => {
   it('should create config from CLI args', () => {
     const config = createConfigFromArgs({
       agent: 'claude',
+      cwd: '../other-repo',
       prompt: 'custom.md',
       maxIterations: 75,
       verbose: true,
     });
 
     expect(config.agent).toBe('claude');
+    expect(config.workingDir).toBe('../other-repo');
     expect(config.promptFile).toBe('custom.md');
     expect(config.maxIterations).toBe(75);
     expect(config.verbose).toBe(true);
@@ -3,8 +3,23 @@
  */
 
 import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
-import { ContextManager } from '../src/context/index.ts';
+import {
+  ContextManager,
+  ContextSummarizer,
+  SUMMARY_DISALLOWED_TOOLS,
+  buildSummaryPrompt,
+  extractiveSummary,
+} from '../src/context/index.ts';
+import { ToolAdapter } from '../src/adapters/base.ts';
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  type ExecuteOptions,
+  type ToolResponse,
+} from '../src/types/index.ts';
+import { existsSync } from 'node:fs';
 import { mkdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
 
 describe('ContextManager', () => {
   const testDir = '.agent-test';
@@ -197,6 +212,19 @@ describe('ContextManager - Completion Detection', () => {
     expect(hasMarker).toBe(true);
   });
 
+  test('should detect a fully checked checklist', async () => {
+    await Bun.write(testPromptFile, '# Task\n\n- [x] First\n- [x] Second');
+
+    const manager = new ContextManager({
+      promptFile: testPromptFile,
+    });
+
+    expect(await manager.hasCompletionMarker()).toBe(true);
+
+    await Bun.write(testPromptFile, '# Task\n\n- [x] First\n- [ ] Second');
+    expect(await manager.hasCompletionMarker()).toBe(false);
+  });
+
   test('should handle hasCompletionMarker with no prompt gracefully', async () => {
     const manager = new ContextManager({});
 
@@ -299,6 +327,20 @@ describe('ContextManager - File Operations', () => {
     expect(content).toBe('# Updated Content\n\nNew prompt text');
   });
 
+  test('should resolve prompt and cache paths against the working directory', async () => {
+    await Bun.write(`${testDir}/PROMPT.md`, 'Prompt in working dir');
+
+    const manager = new ContextManager({
+      promptFile: 'PROMPT.md',
+      workingDir: testDir,
+    });
+
+    expect(await manager.getPrompt()).toBe('Prompt in working dir');
+
+    await manager.saveToCache('state');
+    expect(await Bun.file(`${testDir}/.agent/cache/state.json`).exists()).toBe(true);
+  });
+
   test('should throw when writing prompt without file', async () => {
     const manager = new ContextManager({
       promptText: 'Direct text',
@@ -308,6 +350,15 @@ describe('ContextManager - File Operations', () => {
       'No prompt file specified'
     );
   });
+
+  test('should update direct prompt text without writing a file', async () => {
+    const manager = new ContextManager({
+      promptText: '- [ ] Task',
+    });
+
+    await manager.updatePrompt('- [x] Task');
+    expect(await manager.getPrompt()).toBe('- [x] Task');
+  });
 });
 
 describe('ContextManager - Cache Operations', () => {
@@ -422,3 +473,144 @@ describe('ContextManager - Cache Operations', () => {
     expect(manager2.getErrorHistory()).toEqual(['Error 1', 'Error 2']);
   });
 });
+
+describe('ContextManager - History and Summary', () => {
+  const testDir = '.agent-test-summary';
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  test('should keep output history until compacted', () => {
+    const manager = new ContextManager({ promptText: 'Prompt' });
+
+    manager.updateContext('First output');
+    manager.updateContext('Second output');
+    manager.updateContext('Third output');
+    expect(manager.getHistory()).toEqual(['First output', 'Second output', 'Third output']);
+    expect(manager.getContext()).toBe('Third output');
+
+    manager.compact('- Did the first two things');
+    expect(manager.getSummary()).toBe('- Did the first two things');
+    expect(manager.getHistory()).toEqual(['Third output']);
+  });
+
+  test('should round-trip history and summary through the cache', async () => {
+    const manager = new ContextManager({ promptText: 'Prompt', cacheDir: testDir });
+    manager.updateContext('Old output');
+    manager.updateContext('New output');
+    manager.compact('Summary', 2);
+    await manager.saveToCache('summary-key');
+
+    const restored = new ContextManager({ promptText: 'Prompt', cacheDir: testDir });
+    await restored.loadFromCache('summary-key');
+    expect(restored.getHistory()).toEqual(['Old output', 'New output']);
+    expect(restored.getSummary()).toBe('Summary');
+  });
+
+  test('should save summaries for inspection', async () => {
+    const manager = new ContextManager({ promptText: 'Prompt', cacheDir: testDir });
+
+    const path = await manager.saveSummary('run-1-iteration-4', 'Summary text');
+    expect(path).toBe(`${testDir}/summaries/run-1-iteration-4.md`);
+    expect(await Bun.file(path).text()).toBe('Summary text');
+  });
+});
+
+class SummaryAdapter extends ToolAdapter {
+  prompts: string[] = [];
+  options: Array<ExecuteOptions | undefined> = [];
+
+  constructor(private readonly response: ToolResponse) {
+    super('summary');
+  }
+
+  async checkAvailability(): Promise<boolean> {
+    return true;
+  }
+
+  async execute(prompt: string, options?: ExecuteOptions): Promise<ToolResponse> {
+    this.prompts.push(prompt);
+    this.options.push(options);
+    return this.response;
+  }
+}
+
+describe('ContextSummarizer', () => {
+  const outputs = [
+    'Looking around the repo.\nCreated src/auth.ts with a login handler.\n```ts\nconst fixed = true;\n```',
+    'Tests failed: missing session store.\nNothing else to report.',
+  ];
+
+  test('should keep informative lines in an extractive summary', () => {
+    const summary = extractiveSummary('- Set up the project', outputs);
+    expect(summary).toBe(
+      [
+        '- Set up the project',
+        '- Created src/auth.ts with a login handler.',
+        '- Tests failed: missing session store.',
+      ].join('\n'),
+    );
+  });
+
+  test('should drop the oldest lines when the summary is too long', () => {
+    const summary = extractiveSummary('- Old line that no longer fits', outputs, 80);
+    expect(summary.length).toBeLessThanOrEqual(80);
+    expect(summary).not.toContain('Old line');
+    expect(summary).toContain('Tests failed');
+  });
+
+  test('should fall back to the last line when nothing stands out', () => {
+    expect(extractiveSummary('', ['Looking around.\nReading files.'])).toBe('- Reading files.');
+  });
+
+  test('should ask the adapter for a summary without orchestration instructions', async () => {
+    const adapter = new SummaryAdapter(createSuccessResponse('Built the login handler.'));
+    const summarizer = new ContextSummarizer({ adapter, model: 'small-model' });
+
+    const summary = await summarizer.summarize('', outputs);
+    expect(summary).toEqual({
+      text: 'Built the login handler.',
+      method: 'adapter',
+      adapter: 'summary',
+    });
+    expect(adapter.prompts[0]).toBe(buildSummaryPrompt('', outputs));
+    expect(adapter.options[0]).toMatchObject({ raw: true, model: 'small-model' });
+  });
+
+  test('should report the tokens used and run without tools outside the repository', async () => {
+    const adapter = new SummaryAdapter(
+      createSuccessResponse('Built the login handler.', {
+        tokensUsed: 150,
+        inputTokens: 120,
+        outputTokens: 30,
+        model: 'small-model',
+      }),
+    );
+    const summarizer = new ContextSummarizer({ adapter });
+
+    const summary = await summarizer.summarize('', outputs);
+    expect(summary.usage).toEqual({
+      adapter: 'summary',
+      tokensUsed: 150,
+      inputTokens: 120,
+      outputTokens: 30,
+      cachedTokens: undefined,
+      cacheWriteTokens: undefined,
+      model: 'small-model',
+    });
+    expect(adapter.options[0]?.disallowedTools).toEqual(SUMMARY_DISALLOWED_TOOLS);
+    const cwd = adapter.options[0]?.cwd ?? '';
+    expect(cwd.startsWith(tmpdir())).toBe(true);
+    expect(existsSync(cwd)).toBe(false);
+  });
+
+  test('should fall back to an extractive summary when the adapter fails', async () => {
+    const adapter = new SummaryAdapter(createErrorResponse('rate limited'));
+    const summarizer = new ContextSummarizer({ adapter });
+
+    const summary = await summarizer.summarize('', outputs);
+    expect(summary.method).toBe('extractive');
+    expect(summary.text).toContain('Created src/auth.ts');
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Tests for `ralph doctor` preflight checks
+ */
+
+import { Database } from "bun:sqlite";
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, rm } from "node:fs/promises";
+import { join } from "node:path";
+import { ToolAdapter } from "../src/adapters/base.ts";
+import { diagnoseAdapter, runDoctor } from "../src/doctor/index.ts";
+import {
+	type ToolResponse,
+	createDefaultConfig,
+	createErrorResponse,
+	createSuccessResponse,
+} from "../src/types/index.ts";
+import { SCHEMA_VERSION } from "../src/web/database.ts";
+
+const TEST_DIR = join(process.cwd(), ".test-doctor-temp");
+
+/**
+ * Adapter with a fixed availability and probe response
+ */
+class FakeAdapter extends ToolAdapter {
+	prompts = 0;
+
+	constructor(
+		private installed: boolean,
+		private response: ToolResponse = createSuccessResponse("OK"),
+	) {
+		super("claude");
+	}
+
+	async checkAvailability(): Promise<boolean> {
+		this.setAvailable(this.installed);
+		return this.installed;
+	}
+
+	override async getVersion(): Promise<string | null> {
+		return "1.2.3";
+	}
+
+	async execute(): Promise<ToolResponse> {
+		this.prompts++;
+		return this.response;
+	}
+}
+
+describe("diagnoseAdapter", () => {
+	test("should report a working adapter with its version and models", async () => {
+		const diagnosis = await diagnoseAdapter(new FakeAdapter(true));
+		expect(diagnosis.installed).toBe(true);
+		expect(diagnosis.version).toBe("1.2.3");
+		expect(diagnosis.auth).toBe("ok");
+		expect(diagnosis.models).toContain("claude-sonnet-4-5");
+	});
+
+	test("should report expired authentication", async () => {
+		const diagnosis = await diagnoseAdapter(
+			new FakeAdapter(
+				true,
+				createErrorResponse("Invalid API key · Please run /login", "", {
+					exitCode: 1,
+				}),
+			),
+		);
+		expect(diagnosis.auth).toBe("fail");
+		expect(diagnosis.authDetail).toBe("not authenticated");
+	});
+
+	test("should skip the prompt when not installed or disabled", async () => {
+		const missing = await diagnoseAdapter(new FakeAdapter(false));
+		expect(missing.auth).toBe("skip");
+		expect(missing.version).toBeNull();
+
+		const adapter = new FakeAdapter(true);
+		const skipped = await diagnoseAdapter(adapter, { probe: false });
+		expect(skipped.auth).toBe("skip");
+		expect(adapter.prompts).toBe(0);
+	});
+});
+
+describe("runDoctor", () => {
+	beforeEach(async () => {
+		await mkdir(TEST_DIR, { recursive: true });
+	});
+
+	afterEach(async () => {
+		await rm(TEST_DIR, { recursive: true, force: true });
+	});
+
+	const findCheck = async (
+		config: Parameters<typeof runDoctor>[0],
+		name: string,
+		dbPath = join(TEST_DIR, "missing.db"),
+	) => {
+		const report = await runDoctor(config, { probe: false, dbPath });
+		return report.checks.find((check) => check.name === name);
+	};
+
+	test("should fail a prompt larger than maxPromptSize", async () => {
+		const config = createDefaultConfig({
+			promptText: "x".repeat(20),
+			maxPromptSize: 10,
+		});
+		expect((await findCheck(config, "Prompt"))?.status).toBe("fail");
+		expect(
+			(await findCheck({ ...config, maxPromptSize: 100 }, "Prompt"))?.status,
+		).toBe("ok");
+	});
+
+	test("should check the SonarQube script only when enabled", async () => {
+		const config = createDefaultConfig({ promptText: "task" });
+		expect((await findCheck(config, "SonarQube"))?.status).toBe("skip");
+
+		const enabled = createDefaultConfig({
+			promptText: "task",
+			sonarqube: {
+				enabled: true,
+				autoStart: false,
+				scanOnCheckpoint: true,
+				scanAfterIteration: false,
+				scanMode: "changed",
+				failOnQualityGate: false,
+			},
+		});
+		// The repository ships the scan script
+		expect((await findCheck(enabled, "SonarQube"))?.status).toBe("ok");
+	});
+
+	test("should compare the database schema version", async () => {
+		const config = createDefaultConfig({ promptText: "task" });
+		const dbPath = join(TEST_DIR, "ralph.db");
+		const db = new Database(dbPath);
+		db.run(`PRAGMA user_version = ${SCHEMA_VERSION}`);
+		db.close();
+		expect((await findCheck(config, "Web database", dbPath))?.status).toBe(
+			"ok",
+		);
+
+		const newer = new Database(dbPath);
+		newer.run(`PRAGMA user_version = ${SCHEMA_VERSION + 1}`);
+		newer.close();
+		expect((await findCheck(config, "Web database", dbPath))?.status).toBe(
+			"fail",
+		);
+	});
+
+	test("should fail invalid configuration", async () => {
+		const config = createDefaultConfig({ promptText: "task", maxCost: -1 });
+		const check = await findCheck(config, "Config");
+		expect(check?.status).toBe("fail");
+		expect(check?.detail).toContain("maxCost");
+	});
+});
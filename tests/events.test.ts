@@ -0,0 +1,79 @@
+/**
+ * Tests for the typed event emitter
+ */
+
+import { describe, expect, test } from "bun:test";
+import { TypedEventEmitter } from "../src/events/index.ts";
+
+interface TestEvents {
+	count: number;
+	message: { text: string };
+}
+
+describe("TypedEventEmitter", () => {
+	test("should deliver payloads to listeners", () => {
+		const emitter = new TypedEventEmitter<TestEvents>();
+		const received: number[] = [];
+		emitter.on("count", (value) => received.push(value));
+
+		emitter.emit("count", 1);
+		emitter.emit("count", 2);
+		emitter.emit("message", { text: "ignored" });
+
+		expect(received).toEqual([1, 2]);
+	});
+
+	test("should unsubscribe listeners", () => {
+		const emitter = new TypedEventEmitter<TestEvents>();
+		const received: number[] = [];
+		const unsubscribe = emitter.on("count", (value) => received.push(value));
+
+		emitter.emit("count", 1);
+		unsubscribe();
+		emitter.emit("count", 2);
+
+		expect(received).toEqual([1]);
+		expect(emitter.listenerCount("count")).toBe(0);
+	});
+
+	test("should call once listeners a single time", () => {
+		const emitter = new TypedEventEmitter<TestEvents>();
+		const received: string[] = [];
+		emitter.once("message", ({ text }) => received.push(text));
+
+		emitter.emit("message", { text: "first" });
+		emitter.emit("message", { text: "second" });
+
+		expect(received).toEqual(["first"]);
+	});
+
+	test("should isolate failing listeners", async () => {
+		const emitter = new TypedEventEmitter<TestEvents>();
+		const received: number[] = [];
+		emitter.on("count", () => {
+			throw new Error("sync failure");
+		});
+		emitter.on("count", async () => {
+			throw new Error("async failure");
+		});
+		emitter.on("count", (value) => received.push(value));
+
+		expect(() => emitter.emit("count", 1)).not.toThrow();
+		await Bun.sleep(0);
+
+		expect(received).toEqual([1]);
+	});
+
+	test("should remove all listeners", () => {
+		const emitter = new TypedEventEmitter<TestEvents>();
+		emitter.on("count", () => {});
+		emitter.on("message", () => {});
+
+		emitter.removeAllListeners("count");
+		expect(emitter.listenerCount("count")).toBe(0);
+		expect(emitter.listenerCount("message")).toBe(1);
+
+		emitter.removeAllListeners();
+		expect(emitter.listenerCount("message")).toBe(0);
+	});
+});
@@ -0,0 +1,113 @@
+/**
+ * Tests for lifecycle hooks
+ */
+
+import { afterEach, describe, expect, spyOn, test } from "bun:test";
+import { rm } from "node:fs/promises";
+import { HookRunner, buildHookEnv } from "../src/hooks/index.ts";
+import { RalphOrchestrator } from "../src/orchestrator.ts";
+import { createDefaultConfig } from "../src/types/index.ts";
+
+const context = {
+	runId: "run-1",
+	iteration: 3,
+	success: false,
+	cost: 0.5,
+	lastError: "boom",
+};
+
+describe("buildHookEnv", () => {
+	test("should describe the run context", () => {
+		expect(buildHookEnv("on_failure", context)).toEqual({
+			RALPH_HOOK: "on_failure",
+			RALPH_RUN_ID: "run-1",
+			RALPH_ITERATION: "3",
+			RALPH_SUCCESS: "false",
+			RALPH_COST: "0.5000",
+			RALPH_LAST_ERROR: "boom",
+		});
+	});
+
+	test("should leave success empty before the first iteration", () => {
+		const env = buildHookEnv("pre_run", {
+			runId: "run-1",
+			iteration: 0,
+			cost: 0,
+		});
+		expect(env.RALPH_SUCCESS).toBe("");
+		expect(env.RALPH_LAST_ERROR).toBe("");
+	});
+});
+
+describe("HookRunner", () => {
+	test("should skip hooks that are not configured", async () => {
+		const runner = new HookRunner({ pre_run: "  " }, 5);
+		expect(runner.has("pre_run")).toBe(false);
+		expect(runner.getConfiguredHooks()).toEqual([]);
+		expect(await runner.run("pre_run", context)).toBeNull();
+	});
+
+	test("should run the command with the run context", async () => {
+		const runner = new HookRunner(
+			{
+				post_iteration: 'echo "$RALPH_HOOK $RALPH_ITERATION $RALPH_LAST_ERROR"',
+			},
+			5,
+		);
+
+		const result = await runner.run("post_iteration", context);
+
+		expect(result?.success).toBe(true);
+		expect(result?.exitCode).toBe(0);
+		expect(result?.stdout.trim()).toBe("post_iteration 3 boom");
+	});
+
+	test("should report a non-zero exit as a failure", async () => {
+		const runner = new HookRunner({ on_checkpoint: "exit 3" }, 5);
+
+		const result = await runner.run("on_checkpoint", context);
+
+		expect(result?.success).toBe(false);
+		expect(result?.exitCode).toBe(3);
+	});
+
+	test("should stop hooks that exceed the timeout", async () => {
+		const runner = new HookRunner({ pre_iteration: "sleep 5; echo late" }, 0.2);
+
+		const startTime = Date.now();
+		const result = await runner.run("pre_iteration", context);
+
+		expect(result?.success).toBe(false);
+		expect(result?.stdout).toBe("");
+		expect(Date.now() - startTime).toBeLessThan(2000);
+	});
+});
+
+describe("RalphOrchestrator hooks", () => {
+	afterEach(async () => {
+		await rm(".agent-test-hooks", { recursive: true, force: true });
+	});
+
+	test("should not run hooks during a dry run", async () => {
+		const orchestrator = new RalphOrchestrator(
+			createDefaultConfig({
+				promptText: "- [ ] Only task\n",
+				dryRun: true,
+				hooks: { pre_run: "mkdir .agent-test-hooks" },
+			}),
+		);
+
+		const logs: string[] = [];
+		const logSpy = spyOn(console, "log").mockImplementation((line) => {
+			logs.push(String(line));
+		});
+		try {
+			await orchestrator.run();
+		} finally {
+			logSpy.mockRestore();
+		}
+
+		expect(logs).toContain("Hooks (not run in dry run): pre_run");
+		expect(await Bun.file(".agent-test-hooks").exists()).toBe(false);
+	});
+});
@@ -3,7 +3,12 @@
  */
 
 import { describe, test, expect, beforeEach } from 'bun:test';
-import { MetricsTracker, CostTracker, IterationStats } from '../src/metrics/index.ts';
+import {
+  MetricsTracker,
+  CostTracker,
+  IterationStats,
+  PricingRegistry,
+} from '../src/metrics/index.ts';
 
 describe('MetricsTracker', () => {
   let tracker: MetricsTracker;
@@ -40,6 +45,16 @@ describe('MetricsTracker', () => {
     expect(data.failedIterations).toBe(2);
   });
 
+  test('should count retries separately from iterations', () => {
+    tracker.recordRetry();
+    tracker.recordRetry();
+    tracker.recordIteration(true);
+
+    const data = tracker.toDict();
+    expect(data.retries).toBe(2);
+    expect(data.iterations).toBe(1);
+  });
+
   test('should record checkpoints', () => {
     tracker.recordCheckpoint();
     tracker.recordCheckpoint();
@@ -193,6 +208,42 @@ describe('CostTracker', () => {
     expect(geminiCost).toBeGreaterThan(0);
   });
 
+  test('should restore totals from history', () => {
+    tracker.addUsage('claude', 1000, 500);
+    tracker.addUsage('gemini', 2000, 1000);
+
+    const restored = new CostTracker();
+    restored.restore(tracker.getHistory());
+
+    expect(restored.getTotalCost()).toBeCloseTo(tracker.getTotalCost());
+    expect(restored.getCostByTool('gemini')).toBeCloseTo(tracker.getCostByTool('gemini'));
+    expect(restored.getHistory().length).toBe(2);
+    expect(restored.getTotalTokens()).toBe(4500);
+  });
+
+  test('should track input, output and cached tokens separately', () => {
+    tracker.addUsage('claude', 1000, 500, { cachedTokens: 3000 });
+    tracker.addUsage('gemini', 2000, 1000);
+
+    expect(tracker.getTotalTokens()).toBe(4500);
+    const summary = tracker.getSummary();
+    expect(summary.inputTokens).toBe(3000);
+    expect(summary.outputTokens).toBe(1500);
+    expect(summary.cachedTokens).toBe(3000);
+    expect(summary.totalTokens).toBe(4500);
+    expect(tracker.getHistory()[0]?.cachedTokens).toBe(3000);
+  });
+
+  test('should restore token totals from history without cached tokens', () => {
+    const restored = new CostTracker();
+    restored.restore([
+      { timestamp: 0, tool: 'claude', inputTokens: 800, outputTokens: 200, cost: 0.01 },
+    ]);
+
+    expect(restored.getTotalTokens()).toBe(1000);
+    expect(restored.getSummary().cachedTokens).toBe(0);
+  });
+
   test('should return zero for unknown tool in getCostByTool', () => {
     const cost = tracker.getCostByTool('nonexistent');
     expect(cost).toBe(0);
@@ -272,6 +323,7 @@ describe('CostTracker', () => {
     expect(tracker.getTotalCost()).toBe(0);
     expect(tracker.getUsageCount()).toBe(0);
     expect(tracker.getHistory().length).toBe(0);
+    expect(tracker.getTotalTokens()).toBe(0);
   });
 
   test('should estimate cost for different tools', () => {
@@ -289,6 +341,73 @@ describe('CostTracker', () => {
   });
 });
 
+describe('PricingRegistry', () => {
+  const registry = new PricingRegistry();
+
+  test('should match dated model names by prefix', () => {
+    expect(registry.getPricing('claude', 'claude-sonnet-4-5-20250929').input).toBe(3);
+    expect(registry.getPricing('claude', 'claude-opus-4-1-20250805').output).toBe(75);
+    expect(registry.getPricing('claude', 'claude-opus-4-5-20251101').output).toBe(25);
+    expect(registry.getPricing('gemini', 'gemini-2.5-flash-lite').input).toBe(0.1);
+  });
+
+  test('should fall back to the adapter default, then free', () => {
+    expect(registry.getPricing('claude', 'unknown-model')).toEqual(
+      registry.getPricing('claude', 'sonnet'),
+    );
+    expect(registry.getPricing('claude').input).toBe(3);
+    expect(registry.getPricing('unknown-tool', 'any')).toEqual({ input: 0, output: 0 });
+  });
+
+  test('should price cache reads and writes', () => {
+    const cost = registry.calculateCost(
+      'claude',
+      { inputTokens: 0, outputTokens: 0, cachedTokens: 1000000, cacheWriteTokens: 1000000 },
+      'claude-sonnet-4-5',
+    );
+    expect(cost).toBeCloseTo(0.3 + 3.75);
+  });
+
+  test('should charge the input rate for cache tokens without a cache rate', () => {
+    const custom = new PricingRegistry({ acp: { default: { input: 2, output: 8 } } });
+    const cost = custom.calculateCost('acp', {
+      inputTokens: 1000000,
+      outputTokens: 1000000,
+      cachedTokens: 1000000,
+    });
+    expect(cost).toBeCloseTo(12);
+  });
+
+  test('should let overrides replace and add models', () => {
+    const custom = new PricingRegistry({
+      claude: {
+        'claude-sonnet-4-5': { input: 2, output: 10 },
+        'claude-next': { input: 4, output: 20 },
+      },
+    });
+    expect(custom.getPricing('claude', 'claude-sonnet-4-5-20250929').input).toBe(2);
+    expect(custom.getPricing('claude', 'claude-next-1').output).toBe(20);
+    expect(custom.getPricing('claude', 'claude-haiku-4-5').input).toBe(1);
+  });
+
+  test('should list priced models without the default entry', () => {
+    const custom = new PricingRegistry({ qchat: { 'q-pro': { input: 1, output: 2 } } });
+    expect(custom.getModels('gemini')).toContain('gemini-2.5-flash');
+    expect(custom.getModels('gemini')).not.toContain('default');
+    expect(custom.getModels('qchat')).toEqual(['q-pro']);
+    expect(custom.getModels('unknown-tool')).toEqual([]);
+  });
+
+  test('should be used by the cost tracker', () => {
+    const tracker = new CostTracker(
+      new PricingRegistry({ claude: { default: { input: 1, output: 2 } } }),
+    );
+    expect(tracker.addUsage('claude', 1000000, 1000000)).toBeCloseTo(3);
+    expect(tracker.addUsage('claude', 1000000, 0, { model: 'claude-opus-4-5' })).toBeCloseTo(5);
+    expect(tracker.getHistory()[1]?.model).toBe('claude-opus-4-5');
+  });
+});
+
 describe('IterationStats', () => {
   let stats: IterationStats;
 
@@ -322,6 +441,16 @@ describe('IterationStats', () => {
     expect(summary.failures).toBe(0);
   });
 
+  test('should store diff stats with the iteration', () => {
+    const diffStats = { filesChanged: 2, linesAdded: 10, linesRemoved: 1 };
+    stats.recordIteration({ iteration: 1, duration: 1, success: true, error: '', diffStats });
+    stats.recordIteration({ iteration: 2, duration: 1, success: true, error: '' });
+
+    const [first, second] = stats.getRecentIterations(2);
+    expect(first?.diffStats).toEqual(diffStats);
+    expect(second?.diffStats).toBeUndefined();
+  });
+
   test('should track failures', () => {
     stats.recordStart(1);
     stats.recordIteration({
@@ -505,4 +634,19 @@ describe('IterationStats', () => {
     expect(typeof runtime).toBe('string');
     expect(runtime).toMatch(/^\d+s$|^\d+m \d+s$|^\d+h \d+m \d+s$/);
   });
+
+  test('should restore from snapshot', () => {
+    stats.recordStart(1);
+    stats.recordIteration({ iteration: 1, duration: 5, success: true, error: '' });
+    stats.recordStart(2);
+    stats.recordIteration({ iteration: 2, duration: 5, success: false, error: 'err' });
+
+    const restored = new IterationStats(10, 100);
+    restored.restore(JSON.parse(JSON.stringify(stats.toSnapshot())));
+
+    expect(restored.total).toBe(2);
+    expect(restored.failures).toBe(1);
+    expect(restored.currentIteration).toBe(2);
+    expect(restored.iterations.length).toBe(2);
+  });
 });
@@ -2,9 +2,22 @@
  * Tests for Ralph Orchestrator
  */
 
-import { describe, expect, test, beforeEach } from "bun:test";
+import { describe, expect, test, beforeEach, spyOn } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ToolAdapter } from "../src/adapters/base.ts";
 import { RalphOrchestrator, type OrchestratorState } from "../src/orchestrator.ts";
-import { AgentType, createDefaultConfig } from "../src/types/index.ts";
+import {
+	type AdapterConfig,
+	AgentType,
+	DEFAULT_FALLBACK_CONFIG,
+	createDefaultConfig,
+	createErrorResponse,
+	createSuccessResponse,
+	type ExecuteOptions,
+	type ToolResponse,
+} from "../src/types/index.ts";
 
 describe("RalphOrchestrator", () => {
 	test("should create orchestrator with default config", () => {
@@ -192,3 +205,427 @@ describe("RalphOrchestrator control", () => {
 		expect(metrics).toHaveProperty("checkpoints");
 	});
 });
+
+describe("RalphOrchestrator dry run", () => {
+	test("should plan one iteration per task without running an agent", async () => {
+		const { getCurrentCommit, getStatus } = await import(
+			"../src/utils/git.ts"
+		);
+		const commitBefore = await getCurrentCommit();
+		const statusBefore = (await getStatus()).stdout;
+
+		const orchestrator = new RalphOrchestrator(
+			createDefaultConfig({
+				agent: AgentType.CLAUDE,
+				promptText: "# Goals\n\n- [ ] First task\n- [ ] Second task\n",
+				dryRun: true,
+				gitCheckpoint: true,
+				checkpointInterval: 2,
+			}),
+		);
+
+		const lines: string[] = [];
+		const logSpy = spyOn(console, "log").mockImplementation((...args) => {
+			lines.push(args.join(" "));
+		});
+		try {
+			await orchestrator.run();
+		} finally {
+			logSpy.mockRestore();
+		}
+
+		const output = lines.join("\n");
+		expect(output).toContain("Tasks found: 2");
+		expect(output).toContain("Max iterations: 100");
+		expect(output).toContain("Iteration 1 (dry run)");
+		expect(output).toContain("Iteration 2 (dry run)");
+		expect(output).not.toContain("Iteration 3 (dry run)");
+		expect(output).toContain("ORCHESTRATION CONTEXT:");
+		// Each prompt asks for a status report on the tasks still open
+		expect(output).toContain("STATUS REPORT:");
+		expect(output).toContain("Open tasks:\n- 1: First task\n- 2: Second task");
+		expect(output).toContain("Open tasks:\n- 2: Second task");
+
+		const state = orchestrator.getState();
+		expect(state.primaryTool).toBe("dry-run");
+		expect(state.completedTasks).toHaveLength(2);
+		expect(orchestrator.getCostSummary().totalCost).toBe(0);
+		expect(orchestrator.getMetrics().checkpoints).toBe(0);
+
+		expect(await getCurrentCommit()).toBe(commitBefore);
+		expect((await getStatus()).stdout).toBe(statusBefore);
+	});
+
+	test("should stop the plan at the iteration limit", async () => {
+		const orchestrator = new RalphOrchestrator(
+			createDefaultConfig({
+				promptText: "- [ ] One\n- [ ] Two\n- [ ] Three\n",
+				dryRun: true,
+				maxIterations: 2,
+			}),
+		);
+
+		const lines: string[] = [];
+		const logSpy = spyOn(console, "log").mockImplementation((...args) => {
+			lines.push(args.join(" "));
+		});
+		try {
+			await orchestrator.run();
+		} finally {
+			logSpy.mockRestore();
+		}
+
+		const output = lines.join("\n");
+		expect(output).toContain("Iteration 1 (dry run)");
+		expect(output).toContain("Plan stops before iteration 2");
+	});
+
+	test("should send focused prompts in focused prompt mode", async () => {
+		const orchestrator = new RalphOrchestrator(
+			createDefaultConfig({
+				promptText: "# Project\n\n- [ ] First task\n- [ ] Second task\n",
+				dryRun: true,
+				promptMode: "focused",
+			}),
+		);
+
+		const lines: string[] = [];
+		const logSpy = spyOn(console, "log").mockImplementation((...args) => {
+			lines.push(args.join(" "));
+		});
+		try {
+			await orchestrator.run();
+		} finally {
+			logSpy.mockRestore();
+		}
+
+		const output = lines.join("\n");
+		expect(output).toContain("Prompt mode: focused");
+		expect(output).toContain("## Current Task\n\n#1 First task");
+		expect(output).toContain("## Current Task\n\n#2 Second task");
+		expect(output).toContain("## Completed Tasks (1 of 2)");
+		expect(output).not.toContain("- [ ] Second task");
+	});
+
+	test("should plan tasks in dependency order", async () => {
+		const orchestrator = new RalphOrchestrator(
+			createDefaultConfig({
+				promptText: "- [x] Setup\n- [ ] Deploy (depends: 3)\n- [ ] Build\n",
+				dryRun: true,
+			}),
+		);
+
+		const lines: string[] = [];
+		const logSpy = spyOn(console, "log").mockImplementation((...args) => {
+			lines.push(args.join(" "));
+		});
+		try {
+			await orchestrator.run();
+		} finally {
+			logSpy.mockRestore();
+		}
+
+		const output = lines.join("\n");
+		expect(output).toContain("Tasks found: 2 (1 already checked)");
+		expect(output).toContain("#2 Deploy (depends on #3)");
+		expect(output.indexOf("Task: #3 Build")).toBeLessThan(
+			output.indexOf("Task: #2 Deploy"),
+		);
+		expect(orchestrator.getState().taskProgress).toEqual({
+			total: 3,
+			completed: 3,
+			skipped: 0,
+			pending: 0,
+		});
+	});
+
+	test("should read the prompt from the working directory", async () => {
+		const { mkdtemp, rm } = await import("node:fs/promises");
+		const { tmpdir } = await import("node:os");
+		const { join } = await import("node:path");
+		const workingDir = await mkdtemp(join(tmpdir(), "ralph-cwd-"));
+		await Bun.write(join(workingDir, "PROMPT.md"), "- [ ] Only task\n");
+
+		const orchestrator = new RalphOrchestrator(
+			createDefaultConfig({
+				workingDir,
+				promptFile: "PROMPT.md",
+				dryRun: true,
+			}),
+		);
+
+		const logSpy = spyOn(console, "log").mockImplementation(() => {});
+		try {
+			await orchestrator.run();
+		} finally {
+			logSpy.mockRestore();
+			await rm(workingDir, { recursive: true, force: true });
+		}
+
+		expect(orchestrator.getState().completedTasks).toHaveLength(1);
+	});
+});
+
+describe("RalphOrchestrator pause and resume", () => {
+	const createDryRun = () =>
+		new RalphOrchestrator(
+			createDefaultConfig({
+				promptText: "- [ ] Only task\n",
+				dryRun: true,
+			}),
+		);
+
+	test("should hold before the next iteration until resumed", async () => {
+		const orchestrator = createDryRun();
+		const statuses: string[] = [];
+		orchestrator.onStatusChange((state) => statuses.push(state.status));
+
+		const logSpy = spyOn(console, "log").mockImplementation(() => {});
+		try {
+			orchestrator.pause();
+			const runPromise = orchestrator.run();
+			await Bun.sleep(10);
+
+			expect(orchestrator.isPaused()).toBe(true);
+			expect(orchestrator.getState().status).toBe("paused");
+			expect(orchestrator.getState().iteration).toBe(0);
+
+			orchestrator.resume();
+			await runPromise;
+		} finally {
+			logSpy.mockRestore();
+		}
+
+		expect(orchestrator.isPaused()).toBe(false);
+		expect(orchestrator.getState().iteration).toBe(1);
+		expect(statuses).toEqual(["running", "paused", "running", "stopped"]);
+	});
+
+	test("should release a paused loop when stopped", async () => {
+		const orchestrator = createDryRun();
+
+		const logSpy = spyOn(console, "log").mockImplementation(() => {});
+		try {
+			orchestrator.pause();
+			const runPromise = orchestrator.run();
+			await Bun.sleep(10);
+			orchestrator.stop();
+			await runPromise;
+		} finally {
+			logSpy.mockRestore();
+		}
+
+		expect(orchestrator.getState().status).toBe("stopped");
+		expect(orchestrator.getState().iteration).toBe(0);
+	});
+
+	test("should unsubscribe status listeners", () => {
+		const orchestrator = createDryRun();
+		const calls: string[] = [];
+		const unsubscribe = orchestrator.onStatusChange((state) =>
+			calls.push(state.status),
+		);
+		unsubscribe();
+		orchestrator.pause();
+		expect(calls).toEqual([]);
+	});
+});
+
+describe("RalphOrchestrator events", () => {
+	test("should emit run lifecycle events", async () => {
+		const orchestrator = new RalphOrchestrator(
+			createDefaultConfig({
+				promptText: "- [ ] Only task\n",
+				dryRun: true,
+			}),
+		);
+		const events: string[] = [];
+		orchestrator.on("run:start", ({ runId, resumed }) => {
+			expect(runId).toBe(orchestrator.getRunId());
+			expect(resumed).toBe(false);
+			events.push("run:start");
+		});
+		orchestrator.on("run:end", ({ status }) => {
+			events.push(`run:end:${status}`);
+		});
+		orchestrator.once("status:change", (state) => {
+			events.push(`status:${state.status}`);
+		});
+
+		const logSpy = spyOn(console, "log").mockImplementation(() => {});
+		try {
+			await orchestrator.run();
+		} finally {
+			logSpy.mockRestore();
+		}
+
+		expect(events).toEqual([
+			"status:running",
+			"run:start",
+			"run:end:completed",
+		]);
+	});
+});
+
+class RecordingAdapter extends ToolAdapter {
+	prompts: string[] = [];
+	options: Array<ExecuteOptions | undefined> = [];
+
+	constructor(
+		private readonly respond: (iteration: number) => ToolResponse,
+		config?: Partial<AdapterConfig>,
+		name = "claude",
+	) {
+		super(name, config);
+	}
+
+	async checkAvailability(): Promise<boolean> {
+		return true;
+	}
+
+	async execute(prompt: string, options?: ExecuteOptions): Promise<ToolResponse> {
+		this.prompts.push(prompt);
+		this.options.push(options);
+		return this.respond(this.prompts.length);
+	}
+}
+
+/**
+ * Run the orchestrator in a temporary directory with the given adapters
+ */
+async function runWithAdapter(
+	adapter: ToolAdapter,
+	options: Parameters<typeof createDefaultConfig>[0],
+	fallbackAdapters: ToolAdapter[] = [],
+	onCreate?: (orchestrator: RalphOrchestrator) => void,
+): Promise<RalphOrchestrator> {
+	const workingDir = await mkdtemp(join(tmpdir(), "ralph-orchestrator-"));
+	const orchestrator = new RalphOrchestrator(
+		createDefaultConfig({
+			promptText: "Build the feature.\n",
+			workingDir,
+			gitCheckpoint: false,
+			archivePrompts: false,
+			retryDelay: 0,
+			...options,
+		}),
+	);
+	const internals = orchestrator as unknown as {
+		adapter: ToolAdapter;
+		fallbackAdapters: ToolAdapter[];
+		initializeAdapter: () => Promise<void>;
+	};
+	internals.initializeAdapter = async () => {
+		internals.adapter = adapter;
+		internals.fallbackAdapters = fallbackAdapters;
+	};
+	onCreate?.(orchestrator);
+
+	const logSpy = spyOn(console, "log").mockImplementation(() => {});
+	try {
+		await orchestrator.run();
+	} finally {
+		logSpy.mockRestore();
+		await rm(workingDir, { recursive: true, force: true });
+	}
+	return orchestrator;
+}
+
+describe("RalphOrchestrator context", () => {
+	test("should summarize earlier output once it no longer fits the feedback budget", async () => {
+		const adapter = new RecordingAdapter((iteration) =>
+			createSuccessResponse(
+				`Created step-${iteration}.ts for the feature.\n${"abcd"[iteration - 1]?.repeat(370)}`,
+			),
+		);
+		await runWithAdapter(adapter, { maxIterations: 5, feedbackBudget: 1000 });
+
+		expect(adapter.prompts).toHaveLength(4);
+		// The third prompt still has room for both earlier outputs
+		expect(adapter.prompts[2]).toContain("Created step-1.ts");
+		expect(adapter.prompts[2]).not.toContain("## Summary of Earlier Iterations");
+
+		const prompt = adapter.prompts[3] ?? "";
+		expect(prompt).toContain(
+			"## Summary of Earlier Iterations\n\n- Created step-1.ts for the feature.",
+		);
+		expect(prompt).toContain("### 2 iterations ago\n\nCreated step-2.ts");
+		expect(prompt).not.toContain("### 3 iterations ago");
+	});
+});
+
+describe("RalphOrchestrator failures", () => {
+	// Keep the circuit breaker out of the way of the failure limit
+	const fallback = { ...DEFAULT_FALLBACK_CONFIG, failureThreshold: 100 };
+
+	test("should not count crashes toward the consecutive failure limit", async () => {
+		const adapter = new RecordingAdapter(
+			() => createErrorResponse("CLI exited unexpectedly"),
+			{ maxRetries: 0 },
+		);
+		await runWithAdapter(adapter, { maxIterations: 8, fallback });
+
+		// Only the iteration limit stops the run
+		expect(adapter.prompts).toHaveLength(7);
+	});
+
+	test("should stop after consecutive task failures", async () => {
+		const adapter = new RecordingAdapter(
+			() => createErrorResponse("Tests failed", "", { exitCode: 1 }),
+			{ maxRetries: 0 },
+		);
+		await runWithAdapter(adapter, { maxIterations: 8, fallback });
+
+		expect(adapter.prompts).toHaveLength(5);
+	});
+});
+
+describe("RalphOrchestrator fallback", () => {
+	test("should report the fallback when the primary's circuit breaker is open", async () => {
+		const primary = new RecordingAdapter(
+			() => createErrorResponse("CLI exited unexpectedly"),
+			{ maxRetries: 0 },
+		);
+		const fallback = new RecordingAdapter(
+			(iteration) => createSuccessResponse(`Updated step-${iteration}.ts`),
+			{ maxRetries: 0 },
+			"q",
+		);
+		const events: Array<{ from: string; to: string; reason: string }> = [];
+		await runWithAdapter(
+			primary,
+			{
+				maxIterations: 3,
+				fallback: { ...DEFAULT_FALLBACK_CONFIG, failureThreshold: 1 },
+			},
+			[fallback],
+			(orchestrator) =>
+				orchestrator.on("fallback", ({ from, to, reason }) =>
+					events.push({ from, to, reason }),
+				),
+		);
+
+		expect(primary.prompts).toHaveLength(1);
+		expect(fallback.prompts).toHaveLength(2);
+		expect(events).toEqual([
+			{ from: "claude", to: "q", reason: "failed" },
+			{ from: "claude", to: "q", reason: "circuit_open" },
+		]);
+	});
+
+	test("should run each adapter with its own timeout", async () => {
+		const primary = new RecordingAdapter(
+			() => createErrorResponse("CLI exited unexpectedly"),
+			{ maxRetries: 0, timeout: 60 },
+		);
+		const fallback = new RecordingAdapter(
+			() => createSuccessResponse("Updated step-1.ts"),
+			{ maxRetries: 0, timeout: 90 },
+			"qchat",
+		);
+		await runWithAdapter(primary, { maxIterations: 2 }, [fallback]);
+
+		expect(primary.options[0]?.timeout).toBe(60_000);
+		expect(fallback.options[0]?.timeout).toBe(90_000);
+	});
+});
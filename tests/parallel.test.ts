@@ -0,0 +1,130 @@
+/**
+ * Tests for parallel worker workspaces
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync } from "fs";
+import { mkdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { TaskWorkspace } from "../src/parallel/index.ts";
+import { parseTasks } from "../src/tasks/index.ts";
+import type { Task } from "../src/types/index.ts";
+import { execGit, initRepo } from "../src/utils/git.ts";
+
+const REPO_DIR = join(process.cwd(), ".test-parallel-temp");
+const WORKTREES_DIR = join(tmpdir(), "ralph-worktrees", "run-1");
+
+describe("TaskWorkspace", () => {
+	let task: Task;
+
+	beforeEach(async () => {
+		await mkdir(REPO_DIR, { recursive: true });
+		await initRepo(REPO_DIR);
+		await Bun.write(join(REPO_DIR, "README.md"), "# Project\n");
+		await execGit(["add", "."], REPO_DIR);
+		await execGit(["commit", "-m", "initial"], REPO_DIR);
+		task = parseTasks("- [ ] Add feature")[0] as Task;
+	});
+
+	afterEach(async () => {
+		await rm(REPO_DIR, { recursive: true, force: true });
+		await rm(WORKTREES_DIR, { recursive: true, force: true });
+	});
+
+	test("should name the branch after the run and task", () => {
+		const workspace = new TaskWorkspace(REPO_DIR, "run-1", task);
+		expect(workspace.branch).toBe("ralph/run-1/task-1");
+		expect(workspace.path.startsWith(REPO_DIR)).toBe(false);
+	});
+
+	test("should commit and merge the task's changes", async () => {
+		const workspace = new TaskWorkspace(REPO_DIR, "run-1", task);
+		await workspace.create();
+
+		expect(await workspace.commit("No changes")).toBe(false);
+
+		await Bun.write(join(workspace.path, "feature.txt"), "feature\n");
+		expect(await workspace.commit("Add feature")).toBe(true);
+
+		const merge = await workspace.merge("Merge task #1");
+		expect(merge.success).toBe(true);
+		expect(existsSync(join(REPO_DIR, "feature.txt"))).toBe(true);
+
+		await workspace.remove();
+		expect(existsSync(workspace.path)).toBe(false);
+		const branches = await execGit(["branch", "--list"], REPO_DIR);
+		expect(branches.stdout).not.toContain(workspace.branch);
+	});
+
+	test("should undo a merge without touching other local changes", async () => {
+		const workspace = new TaskWorkspace(REPO_DIR, "run-1", task);
+		await workspace.create();
+		const before = await execGit(["rev-parse", "HEAD"], REPO_DIR);
+
+		await Bun.write(join(workspace.path, "feature.txt"), "feature\n");
+		await workspace.commit("Add feature");
+		expect((await workspace.merge("Merge task #1")).success).toBe(true);
+		await Bun.write(join(REPO_DIR, "notes.txt"), "notes\n");
+
+		expect((await workspace.undoMerge()).success).toBe(true);
+		const after = await execGit(["rev-parse", "HEAD"], REPO_DIR);
+		expect(after.stdout).toBe(before.stdout);
+		expect(existsSync(join(REPO_DIR, "feature.txt"))).toBe(false);
+		expect(existsSync(join(REPO_DIR, "notes.txt"))).toBe(true);
+		await workspace.remove();
+	});
+
+	test("should leave protected files to the run branch", async () => {
+		await Bun.write(join(REPO_DIR, "PROMPT.md"), "- [ ] Add feature\n");
+		await execGit(["add", "."], REPO_DIR);
+		await execGit(["commit", "-m", "Add prompt"], REPO_DIR);
+		const workspace = new TaskWorkspace(REPO_DIR, "run-1", task, [
+			"PROMPT.md",
+			".agent",
+		]);
+		await workspace.create();
+
+		// The agent documents its work in the prompt, partly in its own commit
+		await Bun.write(join(workspace.path, "PROMPT.md"), "- [x] Add feature\n");
+		await execGit(["commit", "-am", "Agent commit"], workspace.path);
+		await Bun.write(join(workspace.path, "PROMPT.md"), "Notes\n");
+		await Bun.write(join(workspace.path, ".agent", "scratch.md"), "notes\n");
+		await Bun.write(join(workspace.path, "feature.txt"), "feature\n");
+		expect(await workspace.commit("Add feature")).toBe(true);
+
+		// Meanwhile the orchestrator checks off the task in the main tree
+		await Bun.write(join(REPO_DIR, "PROMPT.md"), "- [x] Add feature (done)\n");
+		const merge = await workspace.merge("Merge task #1");
+		expect(merge.success).toBe(true);
+		expect(existsSync(join(REPO_DIR, "feature.txt"))).toBe(true);
+		expect(existsSync(join(REPO_DIR, ".agent", "scratch.md"))).toBe(false);
+		expect(await Bun.file(join(REPO_DIR, "PROMPT.md")).text()).toBe(
+			"- [x] Add feature (done)\n",
+		);
+		await workspace.remove();
+	});
+
+	test("should count commits made by the agent as changes", async () => {
+		const workspace = new TaskWorkspace(REPO_DIR, "run-1", task);
+		await workspace.create();
+
+		await Bun.write(join(workspace.path, "feature.txt"), "feature\n");
+		await execGit(["add", "."], workspace.path);
+		await execGit(["commit", "-m", "Agent commit"], workspace.path);
+
+		expect(await workspace.commit("Nothing left")).toBe(true);
+		await workspace.remove();
+	});
+
+	test("should replace a workspace left over from an earlier attempt", async () => {
+		const first = new TaskWorkspace(REPO_DIR, "run-1", task);
+		await first.create();
+		await Bun.write(join(first.path, "stale.txt"), "stale\n");
+
+		const second = new TaskWorkspace(REPO_DIR, "run-1", task);
+		await second.create();
+		expect(existsSync(join(second.path, "stale.txt"))).toBe(false);
+		await second.remove();
+	});
+});
@@ -0,0 +1,276 @@
+/**
+ * Tests for prompt building
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+	PromptArchive,
+	buildFocusedPrompt,
+	composePrompt,
+	countDroppedOutputs,
+	extractPromptHeader,
+	getTriggerGuidance,
+} from "../src/prompt/index.ts";
+import { parseTasks } from "../src/tasks/index.ts";
+import { type Task, TriggerReason } from "../src/types/index.ts";
+
+const prompt = [
+	"# Auth Service",
+	"",
+	"Build the auth service in TypeScript.",
+	"",
+	"## Tasks",
+	"",
+	"- [x] Add login endpoint",
+	"- [ ] Add session store",
+	"  - [ ] Add logout endpoint",
+	"- [ ] Write docs",
+].join("\n");
+
+describe("extractPromptHeader", () => {
+	test("should keep the text before the first task", () => {
+		expect(extractPromptHeader(prompt)).toBe(
+			"# Auth Service\n\nBuild the auth service in TypeScript.",
+		);
+	});
+
+	test("should return the whole prompt when it has no tasks", () => {
+		expect(extractPromptHeader("Fix the build.")).toBe("Fix the build.");
+	});
+});
+
+describe("buildFocusedPrompt", () => {
+	test("should include the header, current task and completed tasks", () => {
+		const tasks = parseTasks(prompt);
+		const task = tasks[2] as Task;
+
+		expect(buildFocusedPrompt({ prompt, task, tasks })).toBe(
+			[
+				"# Auth Service",
+				"",
+				"Build the auth service in TypeScript.",
+				"",
+				"## Current Task",
+				"",
+				"#3 Add logout endpoint",
+				"Part of: #2 Add session store",
+				"",
+				"## Completed Tasks (1 of 4)",
+				"",
+				"- #1 Add login endpoint",
+				"",
+			].join("\n"),
+		);
+	});
+
+	test("should leave out the parent of top-level tasks", () => {
+		const tasks = parseTasks(prompt);
+
+		const focused = buildFocusedPrompt({
+			prompt,
+			task: tasks[3] as Task,
+			tasks,
+		});
+
+		expect(focused).toContain("#4 Write docs");
+		expect(focused).not.toContain("Part of:");
+	});
+
+	test("should summarize long lists of completed tasks", () => {
+		const checklist = Array.from(
+			{ length: 15 },
+			(_, index) => `- [x] Step ${index + 1}`,
+		);
+		const longPrompt = [...checklist, "- [ ] Final step"].join("\n");
+		const tasks = parseTasks(longPrompt);
+
+		const focused = buildFocusedPrompt({
+			prompt: longPrompt,
+			task: tasks[15] as Task,
+			tasks,
+		});
+
+		expect(focused).toContain("## Completed Tasks (15 of 16)");
+		expect(focused).toContain("- ...and 5 earlier tasks");
+		expect(focused).not.toContain("- #5 Step 5\n");
+		expect(focused).toContain("- #6 Step 6");
+	});
+});
+
+describe("composePrompt", () => {
+	test("should return the prompt unchanged on the first iteration", () => {
+		expect(
+			composePrompt({
+				prompt: "Fix the build.\n",
+				triggerReason: TriggerReason.INITIAL,
+				budget: 8000,
+			}),
+		).toBe("Fix the build.\n");
+	});
+
+	test("should add the previous output after a success", () => {
+		const composed = composePrompt({
+			prompt: "Fix the build.",
+			triggerReason: TriggerReason.PREVIOUS_SUCCESS,
+			previousOutput: "Updated tsconfig paths.",
+			errors: ["Old error"],
+			budget: 8000,
+		});
+
+		expect(composed).toContain(
+			getTriggerGuidance(TriggerReason.PREVIOUS_SUCCESS) as string,
+		);
+		expect(composed).toContain(
+			"## Previous Iteration\n\nUpdated tsconfig paths.",
+		);
+		expect(composed).not.toContain("Old error");
+	});
+
+	test("should add recovery guidance and errors after a failure", () => {
+		const composed = composePrompt({
+			prompt: "Fix the build.",
+			triggerReason: TriggerReason.RECOVERY,
+			previousOutput: "Ran the build.",
+			errors: ["First error", "Second error"],
+			budget: 8000,
+		});
+
+		expect(composed).toContain("## Iteration Context");
+		expect(composed).toContain("take a different approach");
+		expect(composed).toContain(
+			"## Recent Errors (oldest first)\n\n### Error 1\n\nFirst error\n\n### Error 2\n\nSecond error",
+		);
+		expect(composed.indexOf("## Previous Iteration")).toBeLessThan(
+			composed.indexOf("## Recent Errors"),
+		);
+	});
+
+	test("should keep feedback within the budget", () => {
+		const input = {
+			prompt: "Fix the build.",
+			triggerReason: TriggerReason.RECOVERY,
+			previousOutput: "o".repeat(5000),
+			errors: ["a".repeat(3000), "b".repeat(3000)],
+		};
+		const base = composePrompt({ ...input, budget: 0 });
+
+		const composed = composePrompt({ ...input, budget: 2000 });
+		expect(composed.length - base.length).toBeLessThanOrEqual(2000);
+		// Errors are kept ahead of the previous output when recovering
+		expect(composed).toContain("### Error 2");
+		expect(composed).not.toContain("### Error 1");
+		expect(composed).not.toContain("## Previous Iteration");
+	});
+
+	test("should show the summary and earlier output before the previous output", () => {
+		const composed = composePrompt({
+			prompt: "Fix the build.",
+			triggerReason: TriggerReason.PREVIOUS_SUCCESS,
+			summary: "- Set up the project",
+			earlierOutputs: ["Third to last", "Second to last"],
+			previousOutput: "Last output",
+			budget: 8000,
+		});
+
+		expect(composed).toContain(
+			[
+				"## Summary of Earlier Iterations\n\n- Set up the project",
+				"## Earlier Iterations (oldest first)",
+				"### 3 iterations ago\n\nThird to last",
+				"### 2 iterations ago\n\nSecond to last",
+				"## Previous Iteration\n\nLast output",
+			].join("\n\n"),
+		);
+	});
+
+	test("should leave out feedback with a zero budget", () => {
+		const composed = composePrompt({
+			prompt: "Fix the build.",
+			triggerReason: TriggerReason.RECOVERY,
+			previousOutput: "Ran the build.",
+			errors: ["Build failed"],
+			budget: 0,
+		});
+
+		expect(composed).toContain("## Iteration Context");
+		expect(composed).not.toContain("Build failed");
+		expect(composed).not.toContain("Ran the build.");
+	});
+
+	test("should count the earlier outputs left out of the budget", () => {
+		const input = {
+			prompt: "Fix the build.",
+			triggerReason: TriggerReason.PREVIOUS_SUCCESS,
+			earlierOutputs: ["a".repeat(500), "b".repeat(500), "c".repeat(500)],
+			previousOutput: "Last output",
+		};
+
+		expect(countDroppedOutputs({ ...input, budget: 8000 })).toBe(0);
+		const composed = composePrompt({ ...input, budget: 1200 });
+		expect(composed).not.toContain("a".repeat(10));
+		expect(composed).toContain("b".repeat(500));
+		expect(countDroppedOutputs({ ...input, budget: 1200 })).toBe(1);
+		expect(countDroppedOutputs({ ...input, budget: 0 })).toBe(3);
+	});
+});
+
+describe("PromptArchive", () => {
+	let baseDir: string;
+	let archive: PromptArchive;
+
+	beforeEach(async () => {
+		baseDir = await mkdtemp(join(tmpdir(), "ralph-prompts-"));
+		archive = new PromptArchive(baseDir);
+	});
+
+	afterEach(async () => {
+		await rm(baseDir, { recursive: true, force: true });
+	});
+
+	test("should only save the prompt when it changed", async () => {
+		expect(await archive.save("run-a", 0, "- [ ] First\n")).toBe(true);
+		expect(await archive.save("run-a", 1, "- [ ] First\n")).toBe(false);
+		expect(await archive.save("run-a", 2, "- [x] First\n")).toBe(true);
+
+		const snapshots = await archive.list("run-a");
+		expect(snapshots.map((snapshot) => snapshot.iteration)).toEqual([0, 2]);
+		expect(await Bun.file(archive.getPath("run-a", 2)).text()).toBe(
+			"- [x] First\n",
+		);
+	});
+
+	test("should list every run in order", async () => {
+		await archive.save("run-b", 0, "B");
+		await archive.save("run-a", 10, "A10");
+		await archive.save("run-a", 2, "A2");
+
+		const snapshots = await archive.list();
+		expect(
+			snapshots.map((snapshot) => `${snapshot.runId}/${snapshot.iteration}`),
+		).toEqual(["run-a/2", "run-a/10", "run-b/0"]);
+		expect(await archive.listRuns()).toEqual(["run-a", "run-b"]);
+	});
+
+	test("should resolve references to the prompt as of an iteration", async () => {
+		await archive.save("run-a", 0, "A0");
+		await archive.save("run-b", 0, "B0");
+		await archive.save("run-b", 3, "B3");
+
+		expect((await archive.resolve("run-a/5"))?.iteration).toBe(0);
+		expect((await archive.resolve("2"))?.runId).toBe("run-b");
+		expect((await archive.resolve("2"))?.iteration).toBe(0);
+		expect((await archive.resolve("4"))?.iteration).toBe(3);
+		expect(await archive.resolve("run-c/1")).toBeNull();
+		expect(await archive.resolve("latest")).toBeNull();
+	});
+
+	test("should return nothing when the archive does not exist", async () => {
+		const missing = new PromptArchive(join(baseDir, "missing"));
+
+		expect(await missing.list()).toEqual([]);
+		expect(await missing.resolve("1")).toBeNull();
+	});
+});
@@ -2,8 +2,8 @@
  * Safety guard and loop detection tests
  */
 
-import { describe, test, expect, beforeEach } from 'bun:test';
-import { SafetyGuard } from '../src/safety/index.ts';
+import { describe, test, expect, beforeEach, setSystemTime, afterEach } from 'bun:test';
+import { CircuitBreaker, SafetyGuard, StallDetector } from '../src/safety/index.ts';
 
 describe('SafetyGuard', () => {
   let guard: SafetyGuard;
@@ -60,6 +60,32 @@ describe('SafetyGuard', () => {
     expect(result.reason).toContain('cost');
   });
 
+  test('should fail when max tokens reached', () => {
+    guard.updateConfig({ maxTokens: 1000 });
+    const result = guard.check({
+      iterations: 1,
+      elapsedTime: 0,
+      totalCost: 0,
+      totalTokens: 1000,
+    });
+
+    expect(result.passed).toBe(false);
+    expect(result.reason).toContain('maximum tokens');
+  });
+
+  test('should warn once when tokens pass the warning threshold', () => {
+    guard.updateConfig({ maxTokens: 1000, tokenWarningThreshold: 0.5 });
+    const params = { iterations: 1, elapsedTime: 0, totalCost: 0 };
+
+    expect(guard.check({ ...params, totalTokens: 400 }).warning).toBeUndefined();
+
+    const result = guard.check({ ...params, totalTokens: 600 });
+    expect(result.passed).toBe(true);
+    expect(result.warning).toContain('60% of the token budget');
+
+    expect(guard.check({ ...params, totalTokens: 700 }).warning).toBeUndefined();
+  });
+
   test('should track successes and failures', () => {
     guard.recordSuccess();
     guard.recordSuccess();
@@ -70,6 +96,14 @@ describe('SafetyGuard', () => {
     guard.recordSuccess();
     expect(guard.getConsecutiveFailures()).toBe(0);
   });
+
+  test('should reset consecutive failures', () => {
+    guard.recordFailure();
+    guard.recordFailure();
+    guard.resetConsecutiveFailures();
+
+    expect(guard.getConsecutiveFailures()).toBe(0);
+  });
 });
 
 describe('Loop Detection', () => {
@@ -162,3 +196,184 @@ describe('SafetyGuard Configuration', () => {
     expect(guard.getConsecutiveFailures()).toBe(0);
   });
 });
+
+describe('SafetyGuard State', () => {
+  test('should restore failures and loop history', () => {
+    const guard = new SafetyGuard({ maxIterations: 10, maxRuntime: 60, maxCost: 5 });
+    const output = 'Repeated output that should be remembered across restarts';
+    guard.recordFailure();
+    guard.detectLoop(output);
+
+    const restored = new SafetyGuard({ maxIterations: 10, maxRuntime: 60, maxCost: 5 });
+    restored.restoreState(guard.getState());
+
+    expect(restored.getConsecutiveFailures()).toBe(1);
+    expect(restored.detectLoop(output)).toBe(true);
+  });
+
+  test('should not repeat the token warning after a restore', () => {
+    const options = { maxIterations: 10, maxRuntime: 60, maxCost: 5, maxTokens: 1000 };
+    const params = { iterations: 1, elapsedTime: 0, totalCost: 0, totalTokens: 900 };
+    const guard = new SafetyGuard(options);
+    expect(guard.check(params).warning).toBeDefined();
+
+    const restored = new SafetyGuard(options);
+    restored.restoreState(guard.getState());
+    expect(restored.check(params).warning).toBeUndefined();
+  });
+});
+
+describe('CircuitBreaker', () => {
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  test('should open after the failure threshold', () => {
+    const breaker = new CircuitBreaker('claude', { failureThreshold: 2 });
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('closed');
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.canExecute()).toBe(false);
+  });
+
+  test('should reset the failure count on success', () => {
+    const breaker = new CircuitBreaker('claude', { failureThreshold: 2 });
+
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    expect(breaker.getFailures()).toBe(1);
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  test('should half-open after the cooldown', () => {
+    const start = new Date('2026-01-01T00:00:00Z');
+    setSystemTime(start);
+    const breaker = new CircuitBreaker('gemini', { failureThreshold: 1, cooldown: 60 });
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+
+    setSystemTime(new Date(start.getTime() + 61_000));
+    expect(breaker.getState()).toBe('half_open');
+    expect(breaker.canExecute()).toBe(true);
+  });
+
+  test('should allow one trial while half-open', () => {
+    const start = new Date('2026-01-01T00:00:00Z');
+    setSystemTime(start);
+    const breaker = new CircuitBreaker('gemini', { failureThreshold: 1, cooldown: 60 });
+    breaker.recordFailure();
+
+    setSystemTime(new Date(start.getTime() + 61_000));
+    expect(breaker.canExecute()).toBe(true);
+    expect(breaker.canExecute()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.canExecute()).toBe(true);
+    expect(breaker.canExecute()).toBe(true);
+  });
+
+  test('should reopen when a half-open trial fails', () => {
+    const start = new Date('2026-01-01T00:00:00Z');
+    setSystemTime(start);
+    const breaker = new CircuitBreaker('gemini', { failureThreshold: 3, cooldown: 60 });
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    setSystemTime(new Date(start.getTime() + 61_000));
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+  });
+
+  test('should close when a half-open trial succeeds', () => {
+    const start = new Date('2026-01-01T00:00:00Z');
+    setSystemTime(start);
+    const breaker = new CircuitBreaker('q', { failureThreshold: 1, cooldown: 60 });
+    breaker.recordFailure();
+
+    setSystemTime(new Date(start.getTime() + 61_000));
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.getFailures()).toBe(0);
+  });
+});
+
+describe('StallDetector', () => {
+  const unchanged = { filesChanged: 0, linesAdded: 0, linesRemoved: 0 };
+  const changed = { filesChanged: 2, linesAdded: 10, linesRemoved: 3 };
+
+  test('should trip after the limit of iterations without changes', () => {
+    const detector = new StallDetector({ stallLimit: 2 });
+
+    expect(detector.record(unchanged, 'tree-a')).toBe(false);
+    expect(detector.check().passed).toBe(true);
+    expect(detector.record(unchanged, 'tree-a')).toBe(false);
+
+    const result = detector.check();
+    expect(result.passed).toBe(false);
+    expect(result.reason).toBe('No progress in the last 2 iterations: no files changed');
+  });
+
+  test('should count an unchanged tree as a stall', () => {
+    const detector = new StallDetector({ stallLimit: 1 });
+
+    expect(detector.record(changed, 'tree-a')).toBe(true);
+    expect(detector.record(changed, 'tree-a')).toBe(false);
+    expect(detector.check().passed).toBe(false);
+  });
+
+  test('should start over when files change', () => {
+    const detector = new StallDetector({ stallLimit: 2 });
+
+    detector.record(unchanged, 'tree-a');
+    detector.record(changed, 'tree-b');
+    detector.record(unchanged, 'tree-b');
+    expect(detector.getStalledIterations()).toBe(1);
+    expect(detector.check().passed).toBe(true);
+  });
+
+  test('should ignore iterations that could not be measured', () => {
+    const detector = new StallDetector({ stallLimit: 1 });
+
+    expect(detector.record(undefined, null)).toBe(true);
+    expect(detector.getStalledIterations()).toBe(0);
+  });
+
+  test('should never trip when disabled', () => {
+    const detector = new StallDetector({ stallLimit: 0 });
+
+    detector.record(unchanged, 'tree-a');
+    expect(detector.isEnabled()).toBe(false);
+    expect(detector.check().passed).toBe(true);
+  });
+
+  test('should be disabled by default', () => {
+    expect(new StallDetector().isEnabled()).toBe(false);
+  });
+
+  test('should allow one recovery per stall', () => {
+    const detector = new StallDetector({ stallLimit: 1 });
+
+    detector.record(unchanged);
+    detector.markRecovered();
+    expect(detector.check().passed).toBe(true);
+    expect(detector.hasRecovered()).toBe(true);
+
+    detector.record(changed);
+    expect(detector.hasRecovered()).toBe(false);
+  });
+
+  test('should restore its counters', () => {
+    const detector = new StallDetector({ stallLimit: 3 });
+    detector.record(unchanged, 'tree-a');
+
+    const restored = new StallDetector({ stallLimit: 3 });
+    restored.restoreState(detector.getState());
+
+    expect(restored.getStalledIterations()).toBe(1);
+    expect(restored.record(changed, 'tree-a')).toBe(false);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Tests for run state persistence
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { rm } from "node:fs/promises";
+import { RalphOrchestrator } from "../src/orchestrator.ts";
+import {
+	RUN_SNAPSHOT_VERSION,
+	type RunSnapshot,
+	RunStateStore,
+	createRunId,
+} from "../src/state/index.ts";
+import { TriggerReason, createDefaultConfig } from "../src/types/index.ts";
+
+const testDir = ".agent-test-runs";
+
+function createSnapshot(overrides: Partial<RunSnapshot> = {}): RunSnapshot {
+	return {
+		version: RUN_SNAPSHOT_VERSION,
+		runId: "20261019-101137-ab12",
+		status: "running",
+		savedAt: "2026-10-19T10:11:37.000Z",
+		config: createDefaultConfig({ promptText: "- [ ] First\n- [ ] Second\n" }),
+		iteration: 3,
+		triggerReason: TriggerReason.PREVIOUS_SUCCESS,
+		elapsedSeconds: 42,
+		metrics: {
+			iterations: 3,
+			successfulIterations: 2,
+			failedIterations: 1,
+			retries: 0,
+			errors: 1,
+			checkpoints: 0,
+			rollbacks: 0,
+			startTime: Date.now() - 42_000,
+		},
+		costHistory: [
+			{
+				timestamp: Date.now(),
+				tool: "claude",
+				inputTokens: 1000,
+				outputTokens: 500,
+				cost: 0.25,
+			},
+		],
+		iterationStats: {
+			total: 3,
+			successes: 2,
+			failures: 1,
+			currentIteration: 3,
+			startTime: new Date(Date.now() - 42_000).toISOString(),
+			iterations: [],
+		},
+		safety: { consecutiveFailures: 1, recentOutputs: ["last output"] },
+		tasks: [
+			{
+				id: 1,
+				description: "First",
+				status: "completed",
+				createdAt: "2026-10-19T10:00:00.000Z",
+				completedAt: "2026-10-19T10:05:00.000Z",
+				iteration: 2,
+				source: "checkbox",
+				line: 1,
+				depth: 0,
+				dependsOn: [],
+				budget: {},
+				usage: { iterations: 2, cost: 0.25 },
+			},
+			{
+				id: 2,
+				description: "Second",
+				status: "pending",
+				createdAt: "2026-10-19T10:00:00.000Z",
+				source: "checkbox",
+				line: 2,
+				depth: 0,
+				dependsOn: [1],
+				budget: {},
+				usage: { iterations: 0, cost: 0 },
+			},
+		],
+		...overrides,
+	};
+}
+
+describe("createRunId", () => {
+	test("should build a sortable ID from the date", () => {
+		const runId = createRunId(new Date("2026-10-19T10:11:37Z"));
+		expect(runId).toMatch(/^20261019-101137-[0-9a-f]{4}$/);
+	});
+});
+
+describe("RunStateStore", () => {
+	let store: RunStateStore;
+
+	beforeEach(() => {
+		store = new RunStateStore(testDir);
+	});
+
+	afterEach(async () => {
+		await rm(testDir, { recursive: true, force: true });
+	});
+
+	test("should save and load a snapshot", async () => {
+		const snapshot = createSnapshot();
+		await store.save(snapshot);
+
+		expect(await Bun.file(store.getPath(snapshot.runId)).exists()).toBe(true);
+		expect(await store.load(snapshot.runId)).toEqual(snapshot);
+	});
+
+	test("should return null for unknown runs", async () => {
+		expect(await store.load("missing")).toBeNull();
+		expect(await store.latest()).toBeNull();
+	});
+
+	test("should ignore snapshots with another version", async () => {
+		await store.save(createSnapshot({ version: RUN_SNAPSHOT_VERSION + 1 }));
+		expect(await store.load("20261019-101137-ab12")).toBeNull();
+	});
+
+	test("should return the most recently saved snapshot as latest", async () => {
+		await store.save(
+			createSnapshot({ runId: "older", savedAt: "2026-10-18T09:00:00.000Z" }),
+		);
+		await store.save(
+			createSnapshot({ runId: "newer", savedAt: "2026-10-19T09:00:00.000Z" }),
+		);
+
+		const runs = await store.list();
+		expect(runs.map((run) => run.runId)).toEqual(["newer", "older"]);
+		expect((await store.latest())?.runId).toBe("newer");
+	});
+});
+
+describe("RalphOrchestrator.resume", () => {
+	let store: RunStateStore;
+
+	beforeEach(() => {
+		store = new RunStateStore(testDir);
+	});
+
+	afterEach(async () => {
+		await rm(testDir, { recursive: true, force: true });
+	});
+
+	test("should restore iteration, cost and tasks", async () => {
+		await store.save(createSnapshot());
+
+		const orchestrator = await RalphOrchestrator.resume(undefined, store);
+		const state = orchestrator.getState();
+
+		expect(orchestrator.getRunId()).toBe("20261019-101137-ab12");
+		expect(state.iteration).toBe(3);
+		expect(state.runtime).toBeGreaterThanOrEqual(0);
+		expect(state.tasks.map((task) => task.description)).toEqual(["Second"]);
+		expect(state.completedTasks.map((task) => task.description)).toEqual([
+			"First",
+		]);
+		expect(orchestrator.getCostSummary().totalCost).toBe(0.25);
+		expect(orchestrator.getMetrics().failedIterations).toBe(1);
+	});
+
+	test("should throw when there is nothing to resume", async () => {
+		await expect(RalphOrchestrator.resume(undefined, store)).rejects.toThrow(
+			"No saved runs",
+		);
+		await expect(RalphOrchestrator.resume("missing", store)).rejects.toThrow(
+			"No saved state for run missing",
+		);
+	});
+
+	test("should refuse to resume a completed run", async () => {
+		await store.save(createSnapshot({ status: "completed" }));
+		await expect(
+			RalphOrchestrator.resume("20261019-101137-ab12", store),
+		).rejects.toThrow("already completed");
+	});
+});
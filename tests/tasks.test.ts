@@ -0,0 +1,356 @@
+/**
+ * Tests for the task completion protocol
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+	TaskTracker,
+	checkOffTask,
+	formatStatusInstructions,
+	isChecklistComplete,
+	matchCompletedTasks,
+	parseStatusBlock,
+	parseTasks,
+} from "../src/tasks/index.ts";
+import type { Task } from "../src/types/index.ts";
+
+function createTask(
+	id: number,
+	description: string,
+	overrides: Partial<Task> = {},
+): Task {
+	return {
+		id,
+		description,
+		status: "pending",
+		createdAt: "2026-10-19T10:00:00.000Z",
+		source: "checkbox",
+		line: id,
+		depth: 0,
+		dependsOn: [],
+		budget: {},
+		usage: { iterations: 0, cost: 0 },
+		...overrides,
+	};
+}
+
+const tasks = [
+	createTask(1, "Add login endpoint"),
+	createTask(2, "Write migration for users table"),
+	createTask(3, "Document the API"),
+];
+
+describe("parseStatusBlock", () => {
+	test("should parse a status block", () => {
+		const output = [
+			"Implemented the endpoint.",
+			"```ralph-status",
+			'{"completed": [1], "blockers": ["Need DB credentials"], "confidence": 0.8}',
+			"```",
+		].join("\n");
+
+		expect(parseStatusBlock(output)).toEqual({
+			report: {
+				completed: [1],
+				blockers: ["Need DB credentials"],
+				confidence: 0.8,
+			},
+		});
+	});
+
+	test("should use the last block and default missing lists", () => {
+		const output = [
+			"```ralph-status",
+			'{"completed": [1]}',
+			"```",
+			"Actually, one more change.",
+			"```ralph-status",
+			'{"completed": [2]}',
+			"```",
+		].join("\n");
+
+		expect(parseStatusBlock(output).report).toEqual({
+			completed: [2],
+			blockers: [],
+			confidence: undefined,
+		});
+	});
+
+	test("should report a missing block", () => {
+		const result = parseStatusBlock("All done!");
+		expect(result.report).toBeNull();
+		expect(result.error).toBe("No ralph-status block found");
+	});
+
+	test("should report invalid JSON", () => {
+		const result = parseStatusBlock("```ralph-status\n{completed: [1]}\n```");
+		expect(result.report).toBeNull();
+		expect(result.error).toContain("Invalid JSON");
+	});
+
+	test("should reject reports with the wrong shape", () => {
+		const invalid = [
+			"[1, 2]",
+			'{"completed": [true]}',
+			'{"completed": [1.5]}',
+			'{"blockers": "none"}',
+			'{"confidence": 2}',
+		];
+
+		for (const body of invalid) {
+			const result = parseStatusBlock(`\`\`\`ralph-status\n${body}\n\`\`\``);
+			expect(result.report).toBeNull();
+		}
+	});
+});
+
+describe("matchCompletedTasks", () => {
+	test("should match task IDs", () => {
+		const matched = matchCompletedTasks(
+			{ completed: [3, "#1", "2"], blockers: [] },
+			tasks,
+		);
+		expect(matched.map((task) => task.id)).toEqual([3, 1, 2]);
+	});
+
+	test("should match descriptions fuzzily", () => {
+		const matched = matchCompletedTasks(
+			{ completed: ["write the migration for the users table"], blockers: [] },
+			tasks,
+		);
+		expect(matched.map((task) => task.id)).toEqual([2]);
+	});
+
+	test("should ignore unknown IDs, unrelated descriptions and duplicates", () => {
+		const matched = matchCompletedTasks(
+			{ completed: [9, "Refactor the frontend", 1, "1"], blockers: [] },
+			tasks,
+		);
+		expect(matched.map((task) => task.id)).toEqual([1]);
+	});
+});
+
+describe("formatStatusInstructions", () => {
+	test("should list the open tasks with an example block", () => {
+		const instructions = formatStatusInstructions(tasks.slice(0, 2));
+
+		expect(instructions).toContain("```ralph-status");
+		expect(instructions).toContain("- 1: Add login endpoint");
+		expect(instructions).toContain("- 2: Write migration for users table");
+		expect(instructions).not.toContain("Document the API");
+	});
+});
+
+describe("parseTasks", () => {
+	test("should keep the source, line and nesting of each task", () => {
+		const prompt = [
+			"# Goals",
+			"",
+			"- [ ] Build the API",
+			"  - [x] Add login endpoint",
+			"  - [ ] Add logout endpoint",
+			"- [ ] Write docs",
+			"",
+			"Steps:",
+			"1. Run the migrations",
+			"Task: Deploy to staging",
+		].join("\n");
+
+		const tasks = parseTasks(prompt);
+
+		expect(
+			tasks.map(
+				({ id, description, status, source, line, depth, parentId }) => ({
+					id,
+					description,
+					status,
+					source,
+					line,
+					depth,
+					parentId,
+				}),
+			),
+		).toEqual([
+			{
+				id: 1,
+				description: "Build the API",
+				status: "pending",
+				source: "checkbox",
+				line: 3,
+				depth: 0,
+				parentId: undefined,
+			},
+			{
+				id: 2,
+				description: "Add login endpoint",
+				status: "completed",
+				source: "checkbox",
+				line: 4,
+				depth: 1,
+				parentId: 1,
+			},
+			{
+				id: 3,
+				description: "Add logout endpoint",
+				status: "pending",
+				source: "checkbox",
+				line: 5,
+				depth: 1,
+				parentId: 1,
+			},
+			{
+				id: 4,
+				description: "Write docs",
+				status: "pending",
+				source: "checkbox",
+				line: 6,
+				depth: 0,
+				parentId: undefined,
+			},
+			{
+				id: 5,
+				description: "Run the migrations",
+				status: "pending",
+				source: "numbered",
+				line: 9,
+				depth: 0,
+				parentId: undefined,
+			},
+			{
+				id: 6,
+				description: "Deploy to staging",
+				status: "pending",
+				source: "prefix",
+				line: 10,
+				depth: 0,
+				parentId: undefined,
+			},
+		]);
+	});
+
+	test("should read dependencies and budgets from annotations", () => {
+		const tasks = parseTasks(
+			[
+				"- [ ] Create schema",
+				"- [ ] Seed data (depends: 1; iterations: 3; cost: $2.50)",
+				"- [ ] Ship it (see notes)",
+			].join("\n"),
+			{ maxIterations: 10 },
+		);
+
+		expect(tasks[1]?.description).toBe("Seed data");
+		expect(tasks[1]?.dependsOn).toEqual([1]);
+		expect(tasks[1]?.budget).toEqual({ maxIterations: 3, maxCost: 2.5 });
+		expect(tasks[2]?.description).toBe("Ship it (see notes)");
+		expect(tasks[2]?.budget).toEqual({ maxIterations: 10 });
+	});
+
+	test("should drop dependencies on unknown tasks", () => {
+		const [task] = parseTasks("- [ ] Only task (depends: 4)");
+		expect(task?.dependsOn).toEqual([]);
+	});
+});
+
+describe("checkOffTask", () => {
+	test("should check the task's line", () => {
+		const prompt = "- [ ] First\n- [ ] Second (depends: 1)\n";
+		const [, second] = parseTasks(prompt);
+
+		expect(checkOffTask(prompt, second as Task)).toBe(
+			"- [ ] First\n- [x] Second (depends: 1)\n",
+		);
+	});
+
+	test("should find the task after the prompt has been edited", () => {
+		const [task] = parseTasks("- [ ] Write docs");
+		const edited = "# Notes\n\nAdded a heading.\n\n- [ ] Write docs";
+
+		expect(checkOffTask(edited, task as Task)).toBe(
+			"# Notes\n\nAdded a heading.\n\n- [x] Write docs",
+		);
+		expect(checkOffTask("- [x] Write docs", task as Task)).toBeNull();
+	});
+});
+
+describe("isChecklistComplete", () => {
+	test("should require every checkbox to be checked", () => {
+		expect(isChecklistComplete("- [x] First\n- [X] Second")).toBe(true);
+		expect(isChecklistComplete("- [x] First\n- [ ] Second")).toBe(false);
+		expect(isChecklistComplete("No checklist here")).toBe(false);
+	});
+});
+
+describe("TaskTracker", () => {
+	test("should start tasks once dependencies and subtasks are done", () => {
+		const tracker = new TaskTracker(
+			parseTasks(
+				[
+					"- [ ] Parent",
+					"  - [ ] Child",
+					"- [ ] Independent (depends: 2)",
+				].join("\n"),
+			),
+		);
+
+		const first = tracker.start();
+		expect(first?.description).toBe("Child");
+		expect(tracker.start()).toBe(first);
+
+		tracker.complete(first as Task, 1);
+		expect(tracker.start()?.description).toBe("Parent");
+	});
+
+	test("should start a blocked task rather than stall", () => {
+		const tracker = new TaskTracker(
+			parseTasks("- [ ] First (depends: 2)\n- [ ] Second (depends: 1)"),
+		);
+		expect(tracker.start()?.description).toBe("First");
+	});
+
+	test("should start several tasks and requeue unfinished ones", () => {
+		const tracker = new TaskTracker(
+			parseTasks("- [ ] First\n- [ ] Second\n- [ ] Third (depends: 1)"),
+		);
+
+		const first = tracker.startNext() as Task;
+		const second = tracker.startNext() as Task;
+		expect([first.id, second.id]).toEqual([1, 2]);
+		expect(tracker.startNext()).toBeNull();
+		expect(tracker.getInProgress()).toHaveLength(2);
+
+		tracker.requeue(second);
+		expect(second.status).toBe("pending");
+		expect(tracker.startNext()).toBe(second);
+
+		tracker.complete(first, 1);
+		expect(tracker.startNext()?.description).toBe("Third");
+	});
+
+	test("should skip tasks that use up their budget", () => {
+		const tracker = new TaskTracker(
+			parseTasks("- [ ] Expensive (iterations: 2; cost: 5)\n- [ ] Next"),
+		);
+		const task = tracker.start() as Task;
+
+		expect(tracker.recordUsage(task, 1)).toBe(false);
+		expect(tracker.recordUsage(task, 1)).toBe(true);
+		expect(task.status).toBe("skipped");
+		expect(task.usage).toEqual({ iterations: 2, cost: 2 });
+		expect(tracker.getProgress()).toEqual({
+			total: 2,
+			completed: 0,
+			skipped: 1,
+			pending: 1,
+		});
+		expect(tracker.start()?.description).toBe("Next");
+	});
+
+	test("should not skip completed tasks", () => {
+		const tracker = new TaskTracker(parseTasks("- [ ] Quick (iterations: 1)"));
+		const task = tracker.start() as Task;
+		tracker.complete(task, 1);
+
+		expect(tracker.recordUsage(task, 0)).toBe(false);
+		expect(tracker.getProgress().completed).toBe(1);
+	});
+});
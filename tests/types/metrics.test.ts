@@ -68,6 +68,11 @@ describe("createMetrics", () => {
 		expect(metrics.failedIterations).toBe(0);
 	});
 
+	test("should create metrics with zero retries", () => {
+		const metrics = createMetrics();
+		expect(metrics.retries).toBe(0);
+	});
+
 	test("should create metrics with zero errors", () => {
 		const metrics = createMetrics();
 		expect(metrics.errors).toBe(0);
@@ -111,6 +116,7 @@ describe("elapsedHours", () => {
 			iterations: 0,
 			successfulIterations: 0,
 			failedIterations: 0,
+			retries: 0,
 			errors: 0,
 			checkpoints: 0,
 			rollbacks: 0,
@@ -125,6 +131,7 @@ describe("elapsedHours", () => {
 			iterations: 0,
 			successfulIterations: 0,
 			failedIterations: 0,
+			retries: 0,
 			errors: 0,
 			checkpoints: 0,
 			rollbacks: 0,
@@ -139,6 +146,7 @@ describe("elapsedHours", () => {
 			iterations: 0,
 			successfulIterations: 0,
 			failedIterations: 0,
+			retries: 0,
 			errors: 0,
 			checkpoints: 0,
 			rollbacks: 0,
@@ -160,6 +168,7 @@ describe("successRate", () => {
 			iterations: 10,
 			successfulIterations: 10,
 			failedIterations: 0,
+			retries: 0,
 			errors: 0,
 			checkpoints: 0,
 			rollbacks: 0,
@@ -173,6 +182,7 @@ describe("successRate", () => {
 			iterations: 10,
 			successfulIterations: 0,
 			failedIterations: 10,
+			retries: 0,
 			errors: 10,
 			checkpoints: 0,
 			rollbacks: 0,
@@ -186,6 +196,7 @@ describe("successRate", () => {
 			iterations: 10,
 			successfulIterations: 5,
 			failedIterations: 5,
+			retries: 0,
 			errors: 5,
 			checkpoints: 0,
 			rollbacks: 0,
@@ -199,6 +210,7 @@ describe("successRate", () => {
 			iterations: 8,
 			successfulIterations: 6,
 			failedIterations: 2,
+			retries: 0,
 			errors: 2,
 			checkpoints: 0,
 			rollbacks: 0,
@@ -212,6 +224,7 @@ describe("successRate", () => {
 			iterations: 1,
 			successfulIterations: 1,
 			failedIterations: 0,
+			retries: 0,
 			errors: 0,
 			checkpoints: 0,
 			rollbacks: 0,
@@ -225,6 +238,7 @@ describe("successRate", () => {
 			iterations: 1,
 			successfulIterations: 0,
 			failedIterations: 1,
+			retries: 0,
 			errors: 1,
 			checkpoints: 0,
 			rollbacks: 0,
@@ -292,10 +306,10 @@ describe("metricsToDict", () => {
 		expect(dict.successRate).toBe(0.75);
 	});
 
-	test("should return all 8 properties", () => {
+	test("should return all 9 properties", () => {
 		const metrics = createMetrics();
 		const dict = metricsToDict(metrics);
-		expect(Object.keys(dict).length).toBe(8);
+		expect(Object.keys(dict).length).toBe(9);
 	});
 });
 
@@ -305,6 +319,7 @@ describe("Metrics interface", () => {
 			iterations: 10,
 			successfulIterations: 8,
 			failedIterations: 2,
+			retries: 0,
 			errors: 2,
 			checkpoints: 5,
 			rollbacks: 1,
@@ -380,11 +395,17 @@ describe("CostSummary interface", () => {
 			costsByTool: { claude: 0.3, gemini: 0.2 },
 			usageCount: 10,
 			averageCost: 0.05,
+			inputTokens: 40000,
+			outputTokens: 10000,
+			cachedTokens: 5000,
+			cacheWriteTokens: 1000,
+			totalTokens: 50000,
 		};
 		expect(summary.totalCost).toBe(0.5);
 		expect(summary.costsByTool.claude).toBe(0.3);
 		expect(summary.usageCount).toBe(10);
 		expect(summary.averageCost).toBe(0.05);
+		expect(summary.totalTokens).toBe(50000);
 	});
 });
 
@@ -436,6 +457,11 @@ describe("MetricsSummary interface", () => {
 				costsByTool: { claude: 0.25 },
 				usageCount: 10,
 				averageCost: 0.025,
+				inputTokens: 20000,
+				outputTokens: 5000,
+				cachedTokens: 0,
+				cacheWriteTokens: 0,
+				totalTokens: 25000,
 			},
 			analysis: {
 				avgIterationDuration: 5.5,
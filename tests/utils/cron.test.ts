@@ -0,0 +1,79 @@
+/**
+ * Tests for cron expression parsing
+ */
+
+import { describe, expect, test } from "bun:test";
+import {
+	getNextCronTime,
+	isValidCron,
+	parseCron,
+} from "../../src/utils/cron.ts";
+
+describe("parseCron", () => {
+	test("should expand wildcards, lists, ranges and steps", () => {
+		const schedule = parseCron("*/15 9-11 1,15 * 1-5");
+
+		expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+		expect([...schedule.hours]).toEqual([9, 10, 11]);
+		expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+		expect(schedule.months.size).toBe(12);
+		expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+	});
+
+	test("should treat a step without a range as running to the end", () => {
+		expect([...parseCron("50/5 * * * *").minutes]).toEqual([50, 55]);
+	});
+
+	test("should fold day of week 7 into Sunday", () => {
+		expect([...parseCron("0 0 * * 7").daysOfWeek]).toEqual([0]);
+	});
+
+	test("should expand shorthands", () => {
+		const schedule = parseCron("@daily");
+		expect([...schedule.minutes]).toEqual([0]);
+		expect([...schedule.hours]).toEqual([0]);
+	});
+
+	test("should reject invalid expressions", () => {
+		expect(() => parseCron("* * * *")).toThrow("5 fields");
+		expect(() => parseCron("60 * * * *")).toThrow("between 0 and 59");
+		expect(() => parseCron("*/0 * * * *")).toThrow("Invalid step");
+		expect(() => parseCron("5-1 * * * *")).toThrow();
+		expect(() => parseCron("a * * * *")).toThrow("Invalid minute");
+	});
+});
+
+describe("isValidCron", () => {
+	test("should validate expressions", () => {
+		expect(isValidCron("0 2 * * *")).toBe(true);
+		expect(isValidCron("@weekly")).toBe(true);
+		expect(isValidCron("0 25 * * *")).toBe(false);
+	});
+});
+
+describe("getNextCronTime", () => {
+	test("should return the next matching minute", () => {
+		const next = getNextCronTime("30 2 * * *", new Date(2026, 0, 1, 1, 0));
+		expect(next).toEqual(new Date(2026, 0, 1, 2, 30));
+	});
+
+	test("should move to the next day once today's time has passed", () => {
+		const next = getNextCronTime("30 2 * * *", new Date(2026, 0, 1, 2, 30));
+		expect(next).toEqual(new Date(2026, 0, 2, 2, 30));
+	});
+
+	test("should roll over months and years", () => {
+		const next = getNextCronTime("0 0 1 1 *", new Date(2026, 5, 15));
+		expect(next).toEqual(new Date(2027, 0, 1));
+	});
+
+	test("should match either day field when both are restricted", () => {
+		// 2026-01-03 is a Saturday; the 10th comes after the next Monday
+		const next = getNextCronTime("0 0 10 * 1", new Date(2026, 0, 3));
+		expect(next).toEqual(new Date(2026, 0, 5));
+	});
+
+	test("should return null for dates that never occur", () => {
+		expect(getNextCronTime("0 0 30 2 *", new Date(2026, 0, 1))).toBeNull();
+	});
+});
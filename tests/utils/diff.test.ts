@@ -0,0 +1,73 @@
+/**
+ * Tests for line diffs
+ */
+
+import { describe, expect, test } from "bun:test";
+import { diffLines, formatUnifiedDiff } from "../../src/utils/diff.ts";
+
+describe("diffLines", () => {
+	test("should mark added, removed and unchanged lines", () => {
+		const lines = diffLines(
+			"# Tasks\n- [ ] First\n- [ ] Second\n",
+			"# Tasks\n- [x] First\n- [ ] Second\n- [ ] Third\n",
+		);
+
+		expect(lines).toEqual([
+			{ type: "equal", text: "# Tasks" },
+			{ type: "remove", text: "- [ ] First" },
+			{ type: "add", text: "- [x] First" },
+			{ type: "equal", text: "- [ ] Second" },
+			{ type: "add", text: "- [ ] Third" },
+		]);
+	});
+
+	test("should handle empty texts", () => {
+		expect(diffLines("", "")).toEqual([]);
+		expect(diffLines("", "one\n")).toEqual([{ type: "add", text: "one" }]);
+		expect(diffLines("one\n", "")).toEqual([{ type: "remove", text: "one" }]);
+	});
+});
+
+describe("formatUnifiedDiff", () => {
+	test("should return an empty string for equal texts", () => {
+		expect(formatUnifiedDiff("same\n", "same\n")).toBe("");
+	});
+
+	test("should format hunks with context and line numbers", () => {
+		const oldText = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "10"].join(
+			"\n",
+		);
+		const newText = oldText.replace("2", "two").replace("9", "nine");
+
+		expect(
+			formatUnifiedDiff(oldText, newText, {
+				fromLabel: "run/0",
+				toLabel: "run/3",
+				context: 1,
+			}),
+		).toBe(
+			[
+				"--- run/0",
+				"+++ run/3",
+				"@@ -1,3 +1,3 @@",
+				" 1",
+				"-2",
+				"+two",
+				" 3",
+				"@@ -8,3 +8,3 @@",
+				" 8",
+				"-9",
+				"+nine",
+				" 10",
+				"",
+			].join("\n"),
+		);
+	});
+
+	test("should merge changes whose context overlaps", () => {
+		const diff = formatUnifiedDiff("a\nb\nc\nd\n", "A\nb\nc\nD\n");
+
+		expect(diff.match(/^@@/gm)).toHaveLength(1);
+		expect(diff).toContain("@@ -1,4 +1,4 @@");
+	});
+});
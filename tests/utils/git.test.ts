@@ -17,6 +17,11 @@ import {
 	createCheckpoint,
 	getStatus,
 	hasUncommittedChanges,
+	hasTrackedChanges,
+	writeWorkingTree,
+	getDiffStats,
+	branchExists,
+	checkoutBranch,
 	getRecentCommits,
 	resetToCommit,
 	createTag,
@@ -136,6 +141,87 @@ describe("Git utilities - repository operations", () => {
 		expect(dirty).toBe(true);
 	});
 
+	test("hasTrackedChanges should ignore untracked files", async () => {
+		await initRepo(TEST_DIR);
+		await Bun.write(join(TEST_DIR, "tracked.txt"), "content");
+		await stageAll(TEST_DIR);
+		await commit("initial", TEST_DIR);
+
+		await Bun.write(join(TEST_DIR, "untracked.txt"), "content");
+		expect(await hasTrackedChanges(TEST_DIR)).toBe(false);
+
+		await Bun.write(join(TEST_DIR, "tracked.txt"), "changed");
+		expect(await hasTrackedChanges(TEST_DIR)).toBe(true);
+	});
+
+	test("hasTrackedChanges should ignore excluded paths", async () => {
+		await initRepo(TEST_DIR);
+		await Bun.write(join(TEST_DIR, ".agent", "state.json"), "{}");
+		await Bun.write(join(TEST_DIR, "tracked.txt"), "content");
+		await stageAll(TEST_DIR);
+		await commit("initial", TEST_DIR);
+
+		await Bun.write(join(TEST_DIR, ".agent", "state.json"), "{ }");
+		expect(await hasTrackedChanges(TEST_DIR, [".agent"])).toBe(false);
+
+		await Bun.write(join(TEST_DIR, "tracked.txt"), "changed");
+		expect(await hasTrackedChanges(TEST_DIR, [".agent"])).toBe(true);
+	});
+
+	test("checkoutBranch should create and switch branches", async () => {
+		await initRepo(TEST_DIR);
+		await Bun.write(join(TEST_DIR, "test.txt"), "content");
+		await stageAll(TEST_DIR);
+		await commit("initial", TEST_DIR);
+		const original = await getCurrentBranch(TEST_DIR);
+
+		expect(await branchExists("feature", TEST_DIR)).toBe(false);
+		expect((await checkoutBranch("feature", false, TEST_DIR)).success).toBe(
+			false,
+		);
+
+		expect((await checkoutBranch("feature", true, TEST_DIR)).success).toBe(
+			true,
+		);
+		expect(await branchExists("feature", TEST_DIR)).toBe(true);
+		expect(await getCurrentBranch(TEST_DIR)).toBe("feature");
+
+		await checkoutBranch(original!, false, TEST_DIR);
+		expect(await getCurrentBranch(TEST_DIR)).toBe(original);
+	});
+
+	test("writeWorkingTree should snapshot untracked files without staging", async () => {
+		await initRepo(TEST_DIR);
+		await Bun.write(join(TEST_DIR, "tracked.txt"), "one\ntwo\n");
+		await stageAll(TEST_DIR);
+		await commit("initial", TEST_DIR);
+
+		const before = await writeWorkingTree(TEST_DIR);
+		expect(before).toMatch(/^[0-9a-f]{40}$/);
+		expect(await writeWorkingTree(TEST_DIR)).toBe(before);
+
+		await Bun.write(join(TEST_DIR, "tracked.txt"), "one\nthree\n");
+		await Bun.write(join(TEST_DIR, "new.txt"), "a\nb\nc\n");
+		await mkdir(join(TEST_DIR, ".agent"), { recursive: true });
+		await Bun.write(join(TEST_DIR, ".agent", "state.json"), "{}");
+		const after = await writeWorkingTree(TEST_DIR, [".agent"]);
+		expect(after).not.toBe(before);
+
+		// The real index is untouched
+		const status = await getStatus(TEST_DIR);
+		expect(status.stdout).toContain("?? new.txt");
+
+		expect(await getDiffStats(before!, after!, TEST_DIR)).toEqual({
+			filesChanged: 2,
+			linesAdded: 4,
+			linesRemoved: 1,
+		});
+	});
+
+	test("writeWorkingTree should return null outside a repository", async () => {
+		expect(await writeWorkingTree("/tmp")).toBeNull();
+	});
+
 	test("stageAll should stage all files", async () => {
 		await initRepo(TEST_DIR);
 		await Bun.write(join(TEST_DIR, "file1.txt"), "content1");
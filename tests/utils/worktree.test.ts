@@ -0,0 +1,100 @@
+/**
+ * Tests for git worktree utilities
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync } from "fs";
+import { mkdir, rm } from "fs/promises";
+import { join } from "path";
+import { execGit, getCurrentBranch, initRepo } from "../../src/utils/git.ts";
+import {
+	createWorktree,
+	deleteBranch,
+	mergeBranch,
+	pruneWorktrees,
+	removeWorktree,
+} from "../../src/utils/worktree.ts";
+
+const TEST_DIR = join(process.cwd(), ".test-worktree-temp");
+const REPO_DIR = join(TEST_DIR, "repo");
+const WORKTREE_DIR = join(TEST_DIR, "worktree");
+
+async function commitFile(cwd: string, file: string, content: string) {
+	await Bun.write(join(cwd, file), content);
+	await execGit(["add", "."], cwd);
+	await execGit(["commit", "-m", `Update ${file}`], cwd);
+}
+
+describe("Git worktree utilities", () => {
+	beforeEach(async () => {
+		await mkdir(REPO_DIR, { recursive: true });
+		await initRepo(REPO_DIR);
+		await commitFile(REPO_DIR, "shared.txt", "base\n");
+	});
+
+	afterEach(async () => {
+		await rm(TEST_DIR, { recursive: true, force: true });
+	});
+
+	test("createWorktree should check out a new branch", async () => {
+		const result = await createWorktree(
+			WORKTREE_DIR,
+			"ralph/run/task-1",
+			"HEAD",
+			REPO_DIR,
+		);
+
+		expect(result.success).toBe(true);
+		expect(existsSync(join(WORKTREE_DIR, "shared.txt"))).toBe(true);
+		expect(await getCurrentBranch(WORKTREE_DIR)).toBe("ralph/run/task-1");
+	});
+
+	test("removeWorktree should discard the worktree and its changes", async () => {
+		await createWorktree(WORKTREE_DIR, "task", "HEAD", REPO_DIR);
+		await Bun.write(join(WORKTREE_DIR, "scratch.txt"), "uncommitted");
+
+		const result = await removeWorktree(WORKTREE_DIR, REPO_DIR);
+		expect(result.success).toBe(true);
+		expect(existsSync(WORKTREE_DIR)).toBe(false);
+
+		expect((await deleteBranch("task", REPO_DIR)).success).toBe(true);
+	});
+
+	test("pruneWorktrees should forget worktrees deleted from disk", async () => {
+		await createWorktree(WORKTREE_DIR, "task", "HEAD", REPO_DIR);
+		await rm(WORKTREE_DIR, { recursive: true, force: true });
+
+		await pruneWorktrees(REPO_DIR);
+		const list = await execGit(["worktree", "list"], REPO_DIR);
+		expect(list.stdout).not.toContain(WORKTREE_DIR);
+	});
+
+	test("mergeBranch should merge a branch with a merge commit", async () => {
+		await createWorktree(WORKTREE_DIR, "task", "HEAD", REPO_DIR);
+		await commitFile(WORKTREE_DIR, "feature.txt", "feature\n");
+
+		const result = await mergeBranch("task", "Merge task", REPO_DIR);
+		expect(result.success).toBe(true);
+		expect(result.conflicts).toEqual([]);
+		expect(existsSync(join(REPO_DIR, "feature.txt"))).toBe(true);
+
+		const log = await execGit(["log", "-1", "--format=%s"], REPO_DIR);
+		expect(log.stdout).toBe("Merge task");
+	});
+
+	test("mergeBranch should report conflicts and abort the merge", async () => {
+		await createWorktree(WORKTREE_DIR, "task", "HEAD", REPO_DIR);
+		await commitFile(WORKTREE_DIR, "shared.txt", "from task\n");
+		await commitFile(REPO_DIR, "shared.txt", "from run branch\n");
+
+		const result = await mergeBranch("task", "Merge task", REPO_DIR);
+		expect(result.success).toBe(false);
+		expect(result.conflicts).toEqual(["shared.txt"]);
+
+		const status = await execGit(["status", "--porcelain"], REPO_DIR);
+		expect(status.stdout).toBe("");
+		expect(await Bun.file(join(REPO_DIR, "shared.txt")).text()).toBe(
+			"from run branch\n",
+		);
+	});
+});
@@ -11,7 +11,11 @@ import {
 	saveConfigToYaml,
 	generateDefaultYaml,
 } from "../../src/utils/yaml.ts";
-import { AgentType, createDefaultConfig } from "../../src/types/index.ts";
+import {
+	AgentType,
+	DEFAULT_FALLBACK_CONFIG,
+	createDefaultConfig,
+} from "../../src/types/index.ts";
 
 const TEST_DIR = join(process.cwd(), ".test-yaml-temp");
 
@@ -29,6 +33,7 @@ max_iterations: 50
 	test("should parse full YAML config", () => {
 		const yaml = `
 agent: gemini
+working_dir: ../project
 prompt_file: test.md
 prompt_text: "Hello world"
 max_iterations: 100
@@ -56,6 +61,7 @@ output_preview_length: 200
 `;
 		const config = loadConfigFromYamlString(yaml);
 		expect(config.agent).toBe(AgentType.GEMINI);
+		expect(config.workingDir).toBe("../project");
 		expect(config.promptFile).toBe("test.md");
 		expect(config.promptText).toBe("Hello world");
 		expect(config.maxIterations).toBe(100);
@@ -145,6 +151,13 @@ adapters:
 		expect(config.adapters.gemini.enabled).toBe(false);
 	});
 
+	test("should parse max_retries in adapter configuration", () => {
+		const config = loadConfigFromYamlString(
+			["adapters:", "  claude:", "    max_retries: 1"].join("\n"),
+		);
+		expect(config.adapters.claude?.maxRetries).toBe(1);
+	});
+
 	test("should handle boolean adapter config", () => {
 		const yaml = `
 adapters:
@@ -181,6 +194,156 @@ acp_permission_mode: auto
 		expect(config.acpAgent).toBe("my-agent");
 		expect(config.acpPermissionMode).toBe("auto");
 	});
+
+	test("should parse hooks configuration", () => {
+		const yaml = `
+hooks:
+  pre_run: ./scripts/setup.sh
+  on_failure: echo failed
+  on_complete: 42
+hook_timeout: 60
+`;
+		const config = loadConfigFromYamlString(yaml);
+		expect(config.hooks).toEqual({
+			pre_run: "./scripts/setup.sh",
+			on_failure: "echo failed",
+		});
+		expect(config.hookTimeout).toBe(60);
+	});
+
+	test("should default to no hooks", () => {
+		const config = loadConfigFromYamlString("agent: claude");
+		expect(config.hooks).toEqual({});
+		expect(config.hookTimeout).toBe(300);
+	});
+
+	test("should parse verification commands", () => {
+		const yaml = `
+verify:
+  - bun test
+  - tsc --noEmit
+verify_timeout: 120
+`;
+		const config = loadConfigFromYamlString(yaml);
+		expect(config.verify).toEqual(["bun test", "tsc --noEmit"]);
+		expect(config.verifyTimeout).toBe(120);
+	});
+
+	test("should default to no verification", () => {
+		const config = loadConfigFromYamlString("agent: claude");
+		expect(config.verify).toEqual([]);
+		expect(config.verifyTimeout).toBe(600);
+	});
+
+	test("should parse prompt mode", () => {
+		const config = loadConfigFromYamlString("prompt_mode: focused");
+		expect(config.promptMode).toBe("focused");
+		expect(loadConfigFromYamlString("agent: claude").promptMode).toBe("full");
+	});
+
+	test("should parse the summary agent and model", () => {
+		const config = loadConfigFromYamlString(
+			"summary_agent: gemini\nsummary_model: gemini-2.5-flash",
+		);
+		expect(config.summaryAgent).toBe(AgentType.GEMINI);
+		expect(config.summaryModel).toBe("gemini-2.5-flash");
+	});
+
+	test("should parse pricing overrides and adapter models", () => {
+		const config = loadConfigFromYamlString(
+			[
+				"pricing:",
+				"  claude:",
+				"    claude-opus-4-5: { input: 5, output: 25, cache_read: 0.5 }",
+				"adapters:",
+				"  claude:",
+				"    model: claude-opus-4-5",
+			].join("\n"),
+		);
+		expect(config.pricing.claude?.["claude-opus-4-5"]).toEqual({
+			input: 5,
+			output: 25,
+			cacheRead: 0.5,
+			cacheWrite: undefined,
+		});
+		expect(config.adapters.claude?.model).toBe("claude-opus-4-5");
+		expect(loadConfigFromYamlString("agent: claude").pricing).toEqual({});
+	});
+
+	test("should parse fallback settings", () => {
+		const config = loadConfigFromYamlString(
+			[
+				"fallback:",
+				"  order: [gemini, claude]",
+				"  on: [rate_limit]",
+				"  cooldown: 60",
+			].join("\n"),
+		);
+		expect(config.fallback).toEqual({
+			order: [AgentType.GEMINI, AgentType.CLAUDE],
+			on: ["rate_limit"],
+			failureThreshold: 3,
+			cooldown: 60,
+		});
+		expect(loadConfigFromYamlString("agent: claude").fallback).toEqual(
+			DEFAULT_FALLBACK_CONFIG,
+		);
+	});
+
+	test("should parse token warning threshold", () => {
+		const config = loadConfigFromYamlString("token_warning_threshold: 0.9");
+		expect(config.tokenWarningThreshold).toBe(0.9);
+		expect(
+			loadConfigFromYamlString("agent: claude").tokenWarningThreshold,
+		).toBe(0.8);
+	});
+
+	test("should parse feedback budget", () => {
+		const config = loadConfigFromYamlString("feedback_budget: 2000");
+		expect(config.feedbackBudget).toBe(2000);
+		expect(loadConfigFromYamlString("agent: claude").feedbackBudget).toBe(
+			8000,
+		);
+	});
+
+	test("should parse parallel workers", () => {
+		const config = loadConfigFromYamlString("parallel_workers: 3");
+		expect(config.parallelWorkers).toBe(3);
+		expect(loadConfigFromYamlString("agent: claude").parallelWorkers).toBe(1);
+	});
+
+	test("should parse rollback settings", () => {
+		const config = loadConfigFromYamlString(
+			"rollback_after: 4\nmax_rollbacks: 1",
+		);
+		expect(config.rollbackAfter).toBe(4);
+		expect(config.maxRollbacks).toBe(1);
+		expect(loadConfigFromYamlString("agent: claude").rollbackAfter).toBe(0);
+	});
+
+	test("should parse stall settings", () => {
+		const config = loadConfigFromYamlString(
+			"stall_limit: 4\nstall_action: recover",
+		);
+		expect(config.stallLimit).toBe(4);
+		expect(config.stallAction).toBe("recover");
+		const defaults = loadConfigFromYamlString("agent: claude");
+		expect(defaults.stallLimit).toBe(0);
+		expect(defaults.stallAction).toBe("stop");
+	});
+
+	test("should parse run_branch", () => {
+		expect(loadConfigFromYamlString("run_branch: false").runBranch).toBe(false);
+		expect(loadConfigFromYamlString("agent: claude").runBranch).toBe(true);
+	});
+
+	test("should parse task budgets", () => {
+		const config = loadConfigFromYamlString(
+			"task_max_iterations: 5\ntask_max_cost: 2.5",
+		);
+		expect(config.taskMaxIterations).toBe(5);
+		expect(config.taskMaxCost).toBe(2.5);
+	});
 });
 
 describe("loadConfigFromYaml", () => {
@@ -0,0 +1,141 @@
+/**
+ * Tests for iteration verification
+ */
+
+import { describe, expect, spyOn, test } from "bun:test";
+import { RalphOrchestrator } from "../src/orchestrator.ts";
+import { createDefaultConfig } from "../src/types/index.ts";
+import { truncateOutput } from "../src/utils/shell.ts";
+import {
+	Verifier,
+	formatVerificationFeedback,
+} from "../src/verification/index.ts";
+
+describe("truncateOutput", () => {
+	test("should leave short output untouched", () => {
+		expect(truncateOutput("ok", 10)).toBe("ok");
+	});
+
+	test("should keep the end of long output", () => {
+		const output = truncateOutput(`${"a".repeat(20)}tail`, 4);
+		expect(output).toBe("[... 20 characters truncated ...]\ntail");
+	});
+});
+
+describe("Verifier", () => {
+	test("should ignore blank commands", () => {
+		const verifier = new Verifier(["", "  "], 5);
+		expect(verifier.isEnabled()).toBe(false);
+		expect(verifier.getCommands()).toEqual([]);
+	});
+
+	test("should pass when every command succeeds", async () => {
+		const verifier = new Verifier(["true", "echo checked"], 5);
+
+		const result = await verifier.run();
+
+		expect(result.passed).toBe(true);
+		expect(result.commands.map((command) => command.passed)).toEqual([
+			true,
+			true,
+		]);
+		expect(result.commands[1]?.output).toBe("checked\n");
+	});
+
+	test("should fail when any command fails and keep running the rest", async () => {
+		const verifier = new Verifier(["echo broken >&2; exit 2", "true"], 5);
+
+		const result = await verifier.run();
+
+		expect(result.passed).toBe(false);
+		expect(result.commands).toHaveLength(2);
+		expect(result.commands[0]?.exitCode).toBe(2);
+		expect(result.commands[0]?.output).toContain("broken");
+		expect(result.commands[1]?.passed).toBe(true);
+	});
+
+	test("should truncate long output", async () => {
+		const verifier = new Verifier(["printf '%0500d' 0; exit 1"], 5, {
+			outputLimit: 100,
+		});
+
+		const result = await verifier.run();
+
+		expect(result.commands[0]?.output).toContain("characters truncated");
+		expect(result.commands[0]?.output.length).toBeLessThan(200);
+	});
+
+	test("should fail commands that exceed the timeout", async () => {
+		const verifier = new Verifier(["sleep 5"], 0.2);
+
+		const result = await verifier.run();
+
+		expect(result.passed).toBe(false);
+		expect(result.commands[0]?.timedOut).toBe(true);
+	});
+});
+
+describe("formatVerificationFeedback", () => {
+	test("should list only the failed commands", () => {
+		const feedback = formatVerificationFeedback({
+			passed: false,
+			duration: 2,
+			commands: [
+				{
+					command: "bun test",
+					passed: false,
+					exitCode: 1,
+					timedOut: false,
+					output: "1 fail",
+					duration: 1,
+				},
+				{
+					command: "tsc --noEmit",
+					passed: true,
+					exitCode: 0,
+					timedOut: false,
+					output: "",
+					duration: 1,
+				},
+				{
+					command: "bun run lint",
+					passed: false,
+					exitCode: -1,
+					timedOut: true,
+					output: "",
+					duration: 0,
+				},
+			],
+		});
+
+		expect(feedback).toBe(
+			"Verification failed:\n\n$ bun test (exit code 1)\n1 fail\n\n$ bun run lint (timed out)\n",
+		);
+	});
+});
+
+describe("RalphOrchestrator verification", () => {
+	test("should list verification commands without running them in a dry run", async () => {
+		const orchestrator = new RalphOrchestrator(
+			createDefaultConfig({
+				promptText: "- [ ] Only task\n",
+				dryRun: true,
+				verify: ["bun test", "tsc --noEmit"],
+			}),
+		);
+
+		const logs: string[] = [];
+		const logSpy = spyOn(console, "log").mockImplementation((line) => {
+			logs.push(String(line));
+		});
+		try {
+			await orchestrator.run();
+		} finally {
+			logSpy.mockRestore();
+		}
+
+		expect(logs).toContain(
+			"Verification (not run in dry run): bun test, tsc --noEmit",
+		);
+	});
+});
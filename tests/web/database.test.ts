@@ -3,6 +3,7 @@
  */
 
 import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { Database } from 'bun:sqlite';
 import { rm } from 'node:fs/promises';
 import { DatabaseManager } from '../../src/web/database.ts';
 
@@ -158,6 +159,127 @@ describe('DatabaseManager', () => {
     });
   });
 
+  describe('Queue', () => {
+    const queueInput = {
+      agent: 'claude',
+      promptFile: 'PROMPT.md',
+      priority: 0,
+      repository: '/repo',
+      request: { promptFile: 'PROMPT.md' },
+    };
+
+    test('should queue a run with its request', () => {
+      const run = db.queueRun({ ...queueInput, priority: 5 });
+
+      expect(run!.status).toBe('queued');
+      expect(run!.priority).toBe(5);
+      expect(run!.repository).toBe('/repo');
+      expect(run!.request).toEqual({ promptFile: 'PROMPT.md' });
+    });
+
+    test('should order queued runs by priority, then age', () => {
+      const low = db.queueRun(queueInput);
+      const high = db.queueRun({ ...queueInput, priority: 10 });
+      const later = db.queueRun(queueInput);
+
+      const ids = db.getQueuedRuns().map((run) => run.id);
+
+      expect(ids).toEqual([high!.id, low!.id, later!.id]);
+    });
+
+    test('should start a queued run only once', () => {
+      const run = db.queueRun(queueInput);
+
+      expect(db.startQueuedRun(run!.id)).toBe(true);
+      expect(db.startQueuedRun(run!.id)).toBe(false);
+      expect(db.getRunById(run!.id)!.status).toBe('running');
+    });
+
+    test('should cancel only queued runs', () => {
+      const queued = db.queueRun(queueInput);
+      const running = db.createRun('claude', 'PROMPT.md');
+
+      expect(db.cancelQueuedRun(queued!.id)).toBe(true);
+      expect(db.cancelQueuedRun(running!.id)).toBe(false);
+      expect(db.getRunById(queued!.id)!.status).toBe('cancelled');
+      expect(db.getStats().queuedRuns).toBe(0);
+    });
+
+    test('should stop runs left running', () => {
+      const run = db.createRun('claude', 'PROMPT.md');
+      db.queueRun(queueInput);
+
+      expect(db.stopRunningRuns('Interrupted')).toBe(1);
+      expect(db.getRunById(run!.id)!.status).toBe('stopped');
+      expect(db.getRunById(run!.id)!.errorMessage).toBe('Interrupted');
+      expect(db.getQueuedRuns().length).toBe(1);
+    });
+  });
+
+  describe('Schedules', () => {
+    const scheduleInput = {
+      name: 'nightly',
+      cron: '0 2 * * *',
+      request: { configFile: 'ralph.yml' },
+      priority: 0,
+      enabled: true,
+      nextRunAt: '2026-01-01T02:00:00.000Z',
+    };
+
+    test('should create and update a schedule', () => {
+      const schedule = db.createSchedule(scheduleInput);
+
+      expect(schedule!.request).toEqual({ configFile: 'ralph.yml' });
+      expect(schedule!.enabled).toBe(true);
+
+      const updated = db.updateSchedule(schedule!.id, {
+        ...scheduleInput,
+        enabled: false,
+        nextRunAt: null,
+      });
+
+      expect(updated!.enabled).toBe(false);
+      expect(updated!.nextRunAt).toBeFalsy();
+      expect(db.getSchedules().length).toBe(1);
+    });
+
+    test('should get due schedules', () => {
+      db.createSchedule(scheduleInput);
+      db.createSchedule({ ...scheduleInput, nextRunAt: '2026-01-02T02:00:00.000Z' });
+
+      const due = db.getDueSchedules(new Date('2026-01-01T03:00:00.000Z'));
+
+      expect(due.length).toBe(1);
+    });
+
+    test('should link firings to runs', () => {
+      const schedule = db.createSchedule(scheduleInput);
+      const run = db.createRun('claude', 'PROMPT.md');
+      db.recordScheduleFiring(schedule!.id, {
+        status: 'started',
+        firedAt: new Date('2026-01-01T02:00:00.000Z'),
+        nextRunAt: '2026-01-02T02:00:00.000Z',
+        runId: run!.id,
+      });
+
+      expect(db.getLastScheduledRun(schedule!.id)!.id).toBe(run!.id);
+      expect(db.getScheduleById(schedule!.id)!.nextRunAt).toBe('2026-01-02T02:00:00.000Z');
+    });
+
+    test('should delete a schedule with its history', () => {
+      const schedule = db.createSchedule(scheduleInput);
+      db.recordScheduleFiring(schedule!.id, {
+        status: 'skipped',
+        firedAt: new Date(),
+        nextRunAt: null,
+      });
+
+      expect(db.deleteSchedule(schedule!.id)).toBe(true);
+      expect(db.deleteSchedule(schedule!.id)).toBe(false);
+      expect(db.getScheduleHistory(schedule!.id)).toEqual([]);
+    });
+  });
+
   describe('Iterations', () => {
     test('should add iteration', () => {
       const run = db.createRun('claude', 'PROMPT.md');
@@ -177,6 +299,45 @@ describe('DatabaseManager', () => {
       expect(iteration!.duration).toBe(5.5);
     });
 
+    test('should store verification results', () => {
+      const run = db.createRun('claude', 'PROMPT.md');
+      const verification = {
+        passed: false,
+        duration: 1.2,
+        commands: [
+          {
+            command: 'bun test',
+            passed: false,
+            exitCode: 1,
+            timedOut: false,
+            output: '1 fail',
+            duration: 1.2,
+          },
+        ],
+      };
+      db.addIteration({
+        runId: run!.id,
+        iteration: 1,
+        success: false,
+        duration: 3,
+        verification,
+      });
+
+      const [stored] = db.getIterationsForRun(run!.id);
+      expect(stored!.verification).toEqual(verification);
+    });
+
+    test('should store diff stats', () => {
+      const run = db.createRun('claude', 'PROMPT.md');
+      const diffStats = { filesChanged: 3, linesAdded: 40, linesRemoved: 12 };
+      db.addIteration({ runId: run!.id, iteration: 1, success: true, duration: 2, diffStats });
+      db.addIteration({ runId: run!.id, iteration: 2, success: true, duration: 2 });
+
+      const [first, second] = db.getIterationsForRun(run!.id);
+      expect(first!.diffStats).toEqual(diffStats);
+      expect(second!.diffStats).toBeUndefined();
+    });
+
     test('should add failed iteration', () => {
       const run = db.createRun('claude', 'PROMPT.md');
       const iteration = db.addIteration({
@@ -230,4 +391,46 @@ describe('DatabaseManager', () => {
       expect(stats.totalCost).toBe(0);
     });
   });
+
+  describe('Migrations', () => {
+    test('should migrate databases created before verification results', async () => {
+      db.close();
+      const legacyPath = '.agent-test/legacy.db';
+      const legacy = new Database(legacyPath);
+      legacy.run(`
+        CREATE TABLE iterations (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          run_id INTEGER NOT NULL,
+          iteration INTEGER NOT NULL,
+          success INTEGER NOT NULL,
+          duration REAL NOT NULL,
+          tokens_used INTEGER,
+          cost REAL,
+          output_preview TEXT,
+          error TEXT,
+          created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      legacy.close();
+
+      db = DatabaseManager.getInstance(legacyPath);
+      const run = db.createRun('claude', 'PROMPT.md');
+      const iteration = db.addIteration({
+        runId: run!.id,
+        iteration: 1,
+        success: true,
+        duration: 1,
+        verification: { passed: true, duration: 0, commands: [] },
+      });
+
+      expect(iteration!.verification?.passed).toBe(true);
+    });
+
+    test('should not reapply migrations when reopened', () => {
+      db.close();
+      db = DatabaseManager.getInstance(testDbPath);
+      const run = db.createRun('claude', 'PROMPT.md');
+      expect(run).not.toBeNull();
+    });
+  });
 });
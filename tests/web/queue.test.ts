@@ -0,0 +1,166 @@
+/**
+ * Run queue tests
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { DatabaseManager } from '../../src/web/database.ts';
+import { RunQueue, type RunStarter } from '../../src/web/queue.ts';
+import { submitRun } from '../../src/web/routes/api.ts';
+
+describe('RunQueue', () => {
+  const testDbPath = '.agent-test/queue.db';
+  let db: DatabaseManager;
+  let started: number[];
+  let finish: Map<number, (error?: Error) => void>;
+
+  // Starter whose runs finish when the test calls finish.get(id)()
+  const starter: RunStarter = (run) => {
+    started.push(run.id);
+    return new Promise<void>((resolve, reject) => {
+      finish.set(run.id, (error) => {
+        if (!error) {
+          db.updateRunStatus(run.id, 'completed');
+        }
+        error ? reject(error) : resolve();
+      });
+    });
+  };
+
+  const submit = (queue: RunQueue, repository = '/repo', priority = 0) =>
+    queue.enqueue({}, { agent: 'claude', promptFile: 'PROMPT.md', repository, priority });
+
+  const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  beforeEach(async () => {
+    await rm('.agent-test', { recursive: true, force: true });
+    await Bun.write('.agent-test/.keep', '');
+    db = DatabaseManager.getInstance(testDbPath);
+    started = [];
+    finish = new Map();
+  });
+
+  afterEach(async () => {
+    db.close();
+    await rm('.agent-test', { recursive: true, force: true });
+  });
+
+  test('should start a run right away when a slot is free', () => {
+    const queue = new RunQueue(starter);
+    const run = submit(queue);
+
+    expect(run!.status).toBe('running');
+    expect(started).toEqual([run!.id]);
+  });
+
+  test('should limit runs per repository', () => {
+    const queue = new RunQueue(starter, { maxConcurrent: 5, maxPerRepository: 1 });
+    const first = submit(queue, '/a');
+    const second = submit(queue, '/a');
+    const other = submit(queue, '/b');
+
+    expect(first!.status).toBe('running');
+    expect(second!.status).toBe('queued');
+    expect(other!.status).toBe('running');
+  });
+
+  test('should limit runs globally', () => {
+    const queue = new RunQueue(starter, { maxConcurrent: 1, maxPerRepository: 5 });
+    submit(queue, '/a');
+    const second = submit(queue, '/b');
+
+    expect(second!.status).toBe('queued');
+    expect(queue.getSnapshot().queued.map((run) => run.id)).toEqual([second!.id]);
+  });
+
+  test('should start the highest priority run when a slot frees up', async () => {
+    const queue = new RunQueue(starter, { maxConcurrent: 1, maxPerRepository: 1 });
+    const first = submit(queue);
+    submit(queue, '/repo', 0);
+    const urgent = submit(queue, '/repo', 10);
+
+    finish.get(first!.id)!();
+    await settle();
+
+    expect(started).toEqual([first!.id, urgent!.id]);
+    expect(db.getRunById(urgent!.id)!.status).toBe('running');
+  });
+
+  test('should record a run that fails to start as an error', async () => {
+    const queue = new RunQueue(starter);
+    const run = submit(queue);
+
+    finish.get(run!.id)!(new Error('Configuration file not found'));
+    await settle();
+
+    const failed = db.getRunById(run!.id)!;
+    expect(failed.status).toBe('error');
+    expect(failed.errorMessage).toBe('Configuration file not found');
+  });
+
+  test('should cancel queued runs', () => {
+    const queue = new RunQueue(starter, { maxConcurrent: 1, maxPerRepository: 1 });
+    const running = submit(queue);
+    const queued = submit(queue);
+
+    expect(queue.cancel(queued!.id)).toBe(true);
+    expect(queue.cancel(running!.id)).toBe(false);
+    expect(queue.getSnapshot().queued).toEqual([]);
+  });
+
+  test('should resume the queue after a restart', () => {
+    // The previous server process never finishes its run
+    const before = new RunQueue(() => new Promise(() => {}), {
+      maxConcurrent: 1,
+      maxPerRepository: 1,
+    });
+    const interrupted = submit(before);
+    const waiting = submit(before);
+
+    const after = new RunQueue(starter, { maxConcurrent: 1, maxPerRepository: 1 });
+    after.recover();
+
+    expect(db.getRunById(interrupted!.id)!.status).toBe('stopped');
+    expect(db.getRunById(waiting!.id)!.status).toBe('running');
+    expect(started).toEqual([waiting!.id]);
+  });
+});
+
+describe('submitRun', () => {
+  const testDbPath = '.agent-test/submit.db';
+  let db: DatabaseManager;
+  let workingDir: string;
+
+  beforeEach(async () => {
+    await rm('.agent-test', { recursive: true, force: true });
+    await Bun.write('.agent-test/.keep', '');
+    db = DatabaseManager.getInstance(testDbPath);
+    workingDir = await mkdtemp(join(tmpdir(), 'ralph-repo-'));
+  });
+
+  afterEach(async () => {
+    db.close();
+    await rm('.agent-test', { recursive: true, force: true });
+    await rm(workingDir, { recursive: true, force: true });
+  });
+
+  test('should queue runs against their working directory', async () => {
+    const queue = new RunQueue(() => new Promise(() => {}));
+
+    const run = await submitRun(queue, { workingDir, promptText: 'Fix the tests' });
+
+    expect(run!.repository).toBe(workingDir);
+    expect(run!.request).toEqual({ workingDir, promptText: 'Fix the tests' });
+  });
+
+  test('should reject a missing working directory', async () => {
+    const queue = new RunQueue(() => new Promise(() => {}));
+
+    await expect(
+      submitRun(queue, { workingDir: join(workingDir, 'missing'), promptText: 'x' }),
+    ).rejects.toThrow('Working directory not found');
+    expect(db.getRecentRuns().length).toBe(0);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Scheduler tests
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { rm } from 'node:fs/promises';
+import { DatabaseManager, type ScheduleInput } from '../../src/web/database.ts';
+import { type RunSubmitter, Scheduler, getNextRunAt } from '../../src/web/scheduler.ts';
+
+describe('Scheduler', () => {
+  const testDbPath = '.agent-test/scheduler.db';
+  const now = new Date(2026, 0, 1, 2, 0);
+  let db: DatabaseManager;
+  let submitted: number[];
+
+  // Queues runs without starting them, as a full queue would
+  const submitter: RunSubmitter = async (request, priority) => {
+    const run = db.queueRun({
+      agent: 'claude',
+      promptFile: request.promptFile ?? 'PROMPT.md',
+      priority,
+      repository: '/repo',
+      request,
+    });
+    submitted.push(run!.id);
+    return run;
+  };
+
+  const createSchedule = (input: Partial<ScheduleInput> = {}) =>
+    db.createSchedule({
+      name: 'nightly',
+      cron: '0 2 * * *',
+      request: { promptFile: 'NIGHTLY.md' },
+      priority: 3,
+      enabled: true,
+      nextRunAt: now.toISOString(),
+      ...input,
+    })!;
+
+  beforeEach(async () => {
+    await rm('.agent-test', { recursive: true, force: true });
+    await Bun.write('.agent-test/.keep', '');
+    db = DatabaseManager.getInstance(testDbPath);
+    submitted = [];
+  });
+
+  afterEach(async () => {
+    db.close();
+    await rm('.agent-test', { recursive: true, force: true });
+  });
+
+  test('should submit due schedules and move them to the next fire time', async () => {
+    const schedule = createSchedule();
+    const scheduler = new Scheduler(submitter);
+
+    const [firing] = await scheduler.tick(now);
+
+    expect(firing!.status).toBe('started');
+    expect(firing!.runId).toBe(submitted[0]!);
+    const run = db.getRunById(submitted[0]!)!;
+    expect(run.priority).toBe(3);
+    expect(run.request).toEqual({ promptFile: 'NIGHTLY.md' });
+
+    const updated = db.getScheduleById(schedule.id)!;
+    expect(updated.lastRunAt).toBe(now.toISOString());
+    expect(updated.nextRunAt).toBe(new Date(2026, 0, 2, 2, 0).toISOString());
+  });
+
+  test('should ignore schedules that are not due or disabled', async () => {
+    createSchedule({ nextRunAt: new Date(2026, 0, 2).toISOString() });
+    createSchedule({ enabled: false, nextRunAt: null });
+    const scheduler = new Scheduler(submitter);
+
+    expect(await scheduler.tick(now)).toEqual([]);
+    expect(submitted).toEqual([]);
+  });
+
+  test('should skip a firing while the previous run is still active', async () => {
+    const schedule = createSchedule();
+    const scheduler = new Scheduler(submitter);
+    await scheduler.tick(now);
+
+    const later = new Date(2026, 0, 2, 2, 0);
+    const [firing] = await scheduler.tick(later);
+
+    expect(firing!.status).toBe('skipped');
+    expect(firing!.message).toContain('still queued');
+    expect(submitted.length).toBe(1);
+    expect(db.getScheduleById(schedule.id)!.nextRunAt).toBe(
+      new Date(2026, 0, 3, 2, 0).toISOString(),
+    );
+  });
+
+  test('should fire again once the previous run has finished', async () => {
+    createSchedule();
+    const scheduler = new Scheduler(submitter);
+    await scheduler.tick(now);
+    db.updateRunStatus(submitted[0]!, 'completed');
+
+    const [firing] = await scheduler.tick(new Date(2026, 0, 2, 2, 0));
+
+    expect(firing!.status).toBe('started');
+    expect(submitted.length).toBe(2);
+  });
+
+  test('should record failed submissions', async () => {
+    const schedule = createSchedule();
+    const scheduler = new Scheduler(async () => {
+      throw new Error('Configuration file not found');
+    });
+
+    await scheduler.tick(now);
+
+    const [firing] = db.getScheduleHistory(schedule.id);
+    expect(firing!.status).toBe('failed');
+    expect(firing!.message).toBe('Configuration file not found');
+    expect(firing!.runId).toBeFalsy();
+  });
+
+  test('should keep the history newest first', async () => {
+    const schedule = createSchedule();
+    const scheduler = new Scheduler(submitter);
+    await scheduler.tick(now);
+    await scheduler.tick(new Date(2026, 0, 2, 2, 0));
+
+    const history = db.getScheduleHistory(schedule.id);
+
+    expect(history.map((firing) => firing.status)).toEqual(['skipped', 'started']);
+  });
+});
+
+describe('getNextRunAt', () => {
+  test('should return an ISO timestamp or null', () => {
+    expect(getNextRunAt('0 2 * * *', new Date(2026, 0, 1))).toBe(
+      new Date(2026, 0, 1, 2, 0).toISOString(),
+    );
+    expect(getNextRunAt('0 0 30 2 *', new Date(2026, 0, 1))).toBeNull();
+  });
+});